@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Attempt"
+ADD COLUMN "expiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Attempt_status_expiresAt_idx" ON "Attempt"("status", "expiresAt");
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "AttemptEventType" ADD VALUE 'SECTION_START';
+ALTER TYPE "AttemptEventType" ADD VALUE 'SECTION_END';
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Test"
+ADD COLUMN "resultsFrozenAt" TIMESTAMP(3),
+ADD COLUMN "resultsPublishedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TestResult" (
+    "id" TEXT NOT NULL,
+    "testId" TEXT NOT NULL,
+    "attemptId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "percentile" DOUBLE PRECISION NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "timeTakenSeconds" INTEGER NOT NULL,
+    "scoreJson" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TestResult_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TestResult_attemptId_key" ON "TestResult"("attemptId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TestResult_testId_userId_key" ON "TestResult"("testId", "userId");
+
+-- CreateIndex
+CREATE INDEX "TestResult_testId_rank_idx" ON "TestResult"("testId", "rank");
+
+-- AddForeignKey
+ALTER TABLE "TestResult"
+ADD CONSTRAINT "TestResult_testId_fkey"
+FOREIGN KEY ("testId") REFERENCES "Test"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TestResult"
+ADD CONSTRAINT "TestResult_attemptId_fkey"
+FOREIGN KEY ("attemptId") REFERENCES "Attempt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TestResult"
+ADD CONSTRAINT "TestResult_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Attempt" ALTER COLUMN "totalScore" SET DATA TYPE DOUBLE PRECISION;
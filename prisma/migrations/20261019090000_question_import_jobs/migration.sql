@@ -0,0 +1,48 @@
+-- AlterEnum
+ALTER TYPE "FileAssetPurpose" ADD VALUE 'QUESTION_IMPORT';
+
+-- CreateEnum
+CREATE TYPE "QuestionImportStatus" AS ENUM ('VALIDATED', 'IMPORTING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "QuestionImportJob" (
+    "id" TEXT NOT NULL,
+    "fileAssetId" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "status" "QuestionImportStatus" NOT NULL DEFAULT 'VALIDATED',
+    "optionsJson" JSONB,
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "validRows" INTEGER NOT NULL DEFAULT 0,
+    "importedRows" INTEGER NOT NULL DEFAULT 0,
+    "failedRows" INTEGER NOT NULL DEFAULT 0,
+    "errorsJson" JSONB,
+    "errorReportAssetId" TEXT,
+    "errorMessage" TEXT,
+    "createdByUserId" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QuestionImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuestionImportJob_status_idx" ON "QuestionImportJob"("status");
+
+-- CreateIndex
+CREATE INDEX "QuestionImportJob_createdAt_idx" ON "QuestionImportJob"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "QuestionImportJob"
+ADD CONSTRAINT "QuestionImportJob_fileAssetId_fkey"
+FOREIGN KEY ("fileAssetId") REFERENCES "FileAsset"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionImportJob"
+ADD CONSTRAINT "QuestionImportJob_errorReportAssetId_fkey"
+FOREIGN KEY ("errorReportAssetId") REFERENCES "FileAsset"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionImportJob"
+ADD CONSTRAINT "QuestionImportJob_createdByUserId_fkey"
+FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
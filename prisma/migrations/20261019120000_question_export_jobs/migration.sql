@@ -0,0 +1,42 @@
+-- AlterEnum
+ALTER TYPE "FileAssetPurpose" ADD VALUE 'QUESTION_EXPORT';
+
+-- CreateEnum
+CREATE TYPE "QuestionExportFormat" AS ENUM ('CSV', 'JSON', 'QTI');
+
+-- CreateEnum
+CREATE TYPE "QuestionExportStatus" AS ENUM ('QUEUED', 'RUNNING', 'DONE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "QuestionExportJob" (
+    "id" TEXT NOT NULL,
+    "format" "QuestionExportFormat" NOT NULL,
+    "filtersJson" JSONB,
+    "status" "QuestionExportStatus" NOT NULL DEFAULT 'QUEUED',
+    "questionCount" INTEGER NOT NULL DEFAULT 0,
+    "outputFileAssetId" TEXT,
+    "errorMessage" TEXT,
+    "createdByUserId" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QuestionExportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuestionExportJob_status_idx" ON "QuestionExportJob"("status");
+
+-- CreateIndex
+CREATE INDEX "QuestionExportJob_createdAt_idx" ON "QuestionExportJob"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "QuestionExportJob"
+ADD CONSTRAINT "QuestionExportJob_outputFileAssetId_fkey"
+FOREIGN KEY ("outputFileAssetId") REFERENCES "FileAsset"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionExportJob"
+ADD CONSTRAINT "QuestionExportJob_createdByUserId_fkey"
+FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
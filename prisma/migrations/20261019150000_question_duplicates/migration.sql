@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN "mergedIntoId" TEXT,
+ADD COLUMN "mergedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "QuestionImportJob" ADD COLUMN "warningsJson" JSONB;
+
+-- CreateIndex
+CREATE INDEX "Question_mergedIntoId_idx" ON "Question"("mergedIntoId");
+
+-- AddForeignKey
+ALTER TABLE "Question"
+ADD CONSTRAINT "Question_mergedIntoId_fkey"
+FOREIGN KEY ("mergedIntoId") REFERENCES "Question"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,69 @@
+-- AlterEnum
+ALTER TYPE "AttemptEventType" ADD VALUE 'REGRADE';
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "AttemptQuestion" ADD COLUMN "revisionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "PracticeQuestionEvent" ADD COLUMN "questionVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "QuestionRevision" (
+    "id" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "type" "QuestionType" NOT NULL,
+    "difficulty" "QuestionDifficulty" NOT NULL,
+    "statementJson" JSONB NOT NULL,
+    "optionsJson" JSONB,
+    "explanationJson" JSONB,
+    "correctAnswerJson" JSONB,
+    "answerKeyChanged" BOOLEAN NOT NULL DEFAULT false,
+    "changeNote" TEXT,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuestionRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuestionRevision_questionId_version_key" ON "QuestionRevision"("questionId", "version");
+
+-- CreateIndex
+CREATE INDEX "AttemptQuestion_revisionId_idx" ON "AttemptQuestion"("revisionId");
+
+-- AddForeignKey
+ALTER TABLE "QuestionRevision"
+ADD CONSTRAINT "QuestionRevision_questionId_fkey"
+FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionRevision"
+ADD CONSTRAINT "QuestionRevision_createdByUserId_fkey"
+FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttemptQuestion"
+ADD CONSTRAINT "AttemptQuestion_revisionId_fkey"
+FOREIGN KEY ("revisionId") REFERENCES "QuestionRevision"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: the current content of every question becomes revision 1, and
+-- existing attempts are pinned to it.
+INSERT INTO "QuestionRevision" (
+    "id", "questionId", "version", "type", "difficulty", "statementJson",
+    "optionsJson", "explanationJson", "correctAnswerJson", "createdByUserId", "createdAt"
+)
+SELECT
+    'qrev_' || md5(q."id" || ':1'), q."id", 1, q."type", q."difficulty", q."statementJson",
+    q."optionsJson", q."explanationJson", q."correctAnswerJson", q."createdByUserId", q."createdAt"
+FROM "Question" q;
+
+UPDATE "AttemptQuestion" aq
+SET "revisionId" = r."id"
+FROM "QuestionRevision" r
+WHERE r."questionId" = aq."questionId" AND r."version" = 1;
+
+UPDATE "PracticeQuestionEvent" SET "questionVersion" = 1;
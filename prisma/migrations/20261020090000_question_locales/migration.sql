@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN "contentLocales" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN "locale" TEXT;
+
+-- Backfill the locales present on the statement, in either the
+-- `translations` or the older top-level key shape.
+UPDATE "Question" q
+SET "contentLocales" = ARRAY(
+    SELECT l
+    FROM unnest(ARRAY['en', 'mr', 'hi']) AS l
+    WHERE jsonb_typeof(q."statementJson") = 'object'
+      AND (q."statementJson" ? l OR coalesce(q."statementJson"->'translations', '{}'::jsonb) ? l)
+);
+
+-- Add the stemmed English part to existing search vectors.
+UPDATE "Question" q
+SET "searchVector" = to_tsvector('simple', coalesce(q."searchText", ''))
+    || to_tsvector('english', coalesce(q."statementJson"->'translations'->'en', q."statementJson"->'en', '{}'::jsonb))
+WHERE 'en' = ANY(q."contentLocales");
@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "PracticeMode" ADD VALUE 'REVIEW';
+
+-- AlterTable
+ALTER TABLE "UserQuestionState" ADD COLUMN "easeFactor" DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+ADD COLUMN "intervalDays" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "repetitions" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lapses" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "dueAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "UserQuestionState_userId_dueAt_idx" ON "UserQuestionState"("userId", "dueAt");
+
+-- Seed the schedule from past answers: a last wrong answer is due now, a
+-- last correct one a day after it was given.
+UPDATE "UserQuestionState"
+SET
+    "repetitions" = CASE WHEN "lastIsCorrect" THEN 1 ELSE 0 END,
+    "intervalDays" = CASE WHEN "lastIsCorrect" THEN 1 ELSE 0 END,
+    "lapses" = "wrongCount",
+    "dueAt" = CASE
+        WHEN "lastIsCorrect" THEN "lastAnsweredAt" + INTERVAL '1 day'
+        ELSE "lastAnsweredAt"
+    END
+WHERE "lastAnsweredAt" IS NOT NULL;
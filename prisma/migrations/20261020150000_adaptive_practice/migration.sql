@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "PracticeMode" ADD VALUE 'ADAPTIVE';
+
+-- AlterTable
+ALTER TABLE "UserTopicProgress" ADD COLUMN "ability" DOUBLE PRECISION;
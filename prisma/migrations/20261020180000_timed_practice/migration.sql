@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "PracticeSession" ADD COLUMN "endsAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "PracticeQuestionEvent" ADD COLUMN "timeSpentMs" INTEGER,
+ADD COLUMN "timedOut" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "PracticeSession_status_endsAt_idx" ON "PracticeSession"("status", "endsAt");
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "QuestionItemStat" (
+    "questionId" TEXT NOT NULL,
+    "responses" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "attemptResponses" INTEGER NOT NULL DEFAULT 0,
+    "practiceResponses" INTEGER NOT NULL DEFAULT 0,
+    "pValue" DOUBLE PRECISION,
+    "discrimination" DOUBLE PRECISION,
+    "irtDifficulty" DOUBLE PRECISION,
+    "avgTimeMs" INTEGER,
+    "medianTimeMs" INTEGER,
+    "optionStatsJson" JSONB,
+    "flags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuestionItemStat_pkey" PRIMARY KEY ("questionId")
+);
+
+-- CreateIndex
+CREATE INDEX "QuestionItemStat_pValue_idx" ON "QuestionItemStat"("pValue");
+
+-- CreateIndex
+CREATE INDEX "QuestionItemStat_discrimination_idx" ON "QuestionItemStat"("discrimination");
+
+-- CreateIndex
+CREATE INDEX "QuestionItemStat_responses_idx" ON "QuestionItemStat"("responses");
+
+-- AddForeignKey
+ALTER TABLE "QuestionItemStat" ADD CONSTRAINT "QuestionItemStat_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
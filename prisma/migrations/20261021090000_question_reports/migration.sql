@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "QuestionReportReason" AS ENUM ('TYPO', 'WRONG_ANSWER_KEY', 'WRONG_EXPLANATION', 'UNCLEAR', 'TRANSLATION', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "QuestionReportStatus" AS ENUM ('OPEN', 'ACCEPTED', 'REJECTED', 'FIXED');
+
+-- CreateTable
+CREATE TABLE "QuestionReport" (
+    "id" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "questionVersion" INTEGER,
+    "reporterUserId" TEXT NOT NULL,
+    "reason" "QuestionReportReason" NOT NULL,
+    "message" TEXT,
+    "attemptId" TEXT,
+    "practiceSessionId" TEXT,
+    "status" "QuestionReportStatus" NOT NULL DEFAULT 'OPEN',
+    "resolutionNote" TEXT,
+    "fixedVersion" INTEGER,
+    "resolvedByUserId" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QuestionReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuestionReport_status_createdAt_idx" ON "QuestionReport"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "QuestionReport_questionId_idx" ON "QuestionReport"("questionId");
+
+-- CreateIndex
+CREATE INDEX "QuestionReport_reporterUserId_idx" ON "QuestionReport"("reporterUserId");
+
+-- AddForeignKey
+ALTER TABLE "QuestionReport" ADD CONSTRAINT "QuestionReport_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionReport" ADD CONSTRAINT "QuestionReport_reporterUserId_fkey" FOREIGN KEY ("reporterUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionReport" ADD CONSTRAINT "QuestionReport_resolvedByUserId_fkey" FOREIGN KEY ("resolvedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "CollectionItemType" AS ENUM ('QUESTION', 'NOTE');
+
+-- AlterTable
+ALTER TABLE "PracticeSession" ADD COLUMN "collectionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Collection" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Collection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CollectionItem" (
+    "id" TEXT NOT NULL,
+    "collectionId" TEXT NOT NULL,
+    "itemType" "CollectionItemType" NOT NULL,
+    "questionId" TEXT,
+    "noteId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CollectionItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Collection_userId_name_key" ON "Collection"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "Collection_userId_isDefault_idx" ON "Collection"("userId", "isDefault");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CollectionItem_collectionId_questionId_key" ON "CollectionItem"("collectionId", "questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CollectionItem_collectionId_noteId_key" ON "CollectionItem"("collectionId", "noteId");
+
+-- CreateIndex
+CREATE INDEX "CollectionItem_questionId_idx" ON "CollectionItem"("questionId");
+
+-- CreateIndex
+CREATE INDEX "CollectionItem_noteId_idx" ON "CollectionItem"("noteId");
+
+-- CreateIndex
+CREATE INDEX "PracticeSession_collectionId_idx" ON "PracticeSession"("collectionId");
+
+-- AddForeignKey
+ALTER TABLE "PracticeSession" ADD CONSTRAINT "PracticeSession_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "Collection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Collection" ADD CONSTRAINT "Collection_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CollectionItem" ADD CONSTRAINT "CollectionItem_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "Collection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CollectionItem" ADD CONSTRAINT "CollectionItem_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CollectionItem" ADD CONSTRAINT "CollectionItem_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterEnum
+ALTER TYPE "PracticeMode" ADD VALUE 'MISTAKES';
+
+-- CreateEnum
+CREATE TYPE "MistakeSource" AS ENUM ('ATTEMPT', 'PRACTICE');
+
+-- CreateTable
+CREATE TABLE "MistakeEntry" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "attemptWrongCount" INTEGER NOT NULL DEFAULT 0,
+    "practiceWrongCount" INTEGER NOT NULL DEFAULT 0,
+    "lastSource" "MistakeSource" NOT NULL,
+    "lastAttemptId" TEXT,
+    "lastAnswerJson" JSONB,
+    "correctStreak" INTEGER NOT NULL DEFAULT 0,
+    "note" TEXT,
+    "firstWrongAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastWrongAt" TIMESTAMP(3) NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MistakeEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MistakeEntry_userId_questionId_key" ON "MistakeEntry"("userId", "questionId");
+
+-- CreateIndex
+CREATE INDEX "MistakeEntry_userId_resolvedAt_lastWrongAt_idx" ON "MistakeEntry"("userId", "resolvedAt", "lastWrongAt");
+
+-- CreateIndex
+CREATE INDEX "MistakeEntry_questionId_idx" ON "MistakeEntry"("questionId");
+
+-- AddForeignKey
+ALTER TABLE "MistakeEntry" ADD CONSTRAINT "MistakeEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MistakeEntry" ADD CONSTRAINT "MistakeEntry_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the notebook with questions whose latest practice answer was wrong.
+INSERT INTO "MistakeEntry" ("id", "userId", "questionId", "practiceWrongCount", "lastSource", "firstWrongAt", "lastWrongAt", "updatedAt")
+SELECT gen_random_uuid()::text, "userId", "questionId", "wrongCount", 'PRACTICE', COALESCE("lastAnsweredAt", CURRENT_TIMESTAMP), COALESCE("lastAnsweredAt", CURRENT_TIMESTAMP), CURRENT_TIMESTAMP
+FROM "UserQuestionState"
+WHERE "lastIsCorrect" = false;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "StudentEventType" AS ENUM ('APP_OPEN', 'SCREEN_VIEW', 'NOTE_PAGE_VIEW', 'VIDEO_PROGRESS');
+
+-- CreateTable
+-- Partitioned by day; daily partitions are created and dropped by the app.
+-- Rows outside every daily partition land in the default one.
+CREATE TABLE "StudentEvent" (
+    "id" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientEventId" TEXT NOT NULL,
+    "eventType" "StudentEventType" NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sessionId" TEXT,
+    "platform" TEXT,
+    "appVersion" TEXT,
+    "screen" TEXT,
+    "noteId" TEXT,
+    "pageNumber" INTEGER,
+    "videoId" TEXT,
+    "positionSeconds" INTEGER,
+    "durationSeconds" INTEGER,
+    "propertiesJson" JSONB,
+
+    CONSTRAINT "StudentEvent_pkey" PRIMARY KEY ("id", "day")
+) PARTITION BY RANGE ("day");
+
+CREATE TABLE "StudentEvent_default" PARTITION OF "StudentEvent" DEFAULT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StudentEvent_userId_clientEventId_day_key" ON "StudentEvent"("userId", "clientEventId", "day");
+
+-- CreateIndex
+CREATE INDEX "StudentEvent_day_eventType_idx" ON "StudentEvent"("day", "eventType");
+
+-- CreateIndex
+CREATE INDEX "StudentEvent_userId_day_idx" ON "StudentEvent"("userId", "day");
+
+-- AddForeignKey
+ALTER TABLE "StudentEvent" ADD CONSTRAINT "StudentEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Test" ADD COLUMN     "isLive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "lateEntryMinutes" INTEGER,
+ADD COLUMN     "registrationClosesAt" TIMESTAMP(3),
+ADD COLUMN     "resultsReleaseAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TestRegistration" (
+    "id" TEXT NOT NULL,
+    "testId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "registeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReminderOffset" INTEGER,
+    "lastRemindedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TestRegistration_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Test_isLive_startsAt_idx" ON "Test"("isLive", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "Test_resultsReleaseAt_idx" ON "Test"("resultsReleaseAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TestRegistration_testId_userId_key" ON "TestRegistration"("testId", "userId");
+
+-- CreateIndex
+CREATE INDEX "TestRegistration_userId_registeredAt_idx" ON "TestRegistration"("userId", "registeredAt");
+
+-- AddForeignKey
+ALTER TABLE "TestRegistration" ADD CONSTRAINT "TestRegistration_testId_fkey" FOREIGN KEY ("testId") REFERENCES "Test"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TestRegistration" ADD CONSTRAINT "TestRegistration_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
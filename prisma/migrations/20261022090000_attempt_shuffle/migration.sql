@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN     "shuffleSeed" TEXT;
+
+-- AlterTable
+ALTER TABLE "AttemptQuestion" ADD COLUMN     "optionOrder" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "NoteSecuritySignalType" ADD VALUE 'LEAK_TRACED';
+
+-- AlterTable
+ALTER TABLE "NoteViewSession" ADD COLUMN     "stampedObjectKey" TEXT,
+ADD COLUMN     "stampedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "NoteViewSession_watermarkSeed_idx" ON "NoteViewSession"("watermarkSeed");
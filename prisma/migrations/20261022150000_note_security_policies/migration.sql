@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "NoteSecurityPolicyTrigger" AS ENUM ('SIGNALS', 'NOTE_BANS');
+
+-- CreateEnum
+CREATE TYPE "NoteSecurityAction" AS ENUM ('REVOKE_SESSIONS', 'BAN_NOTE', 'BLOCK_ACCOUNT');
+
+-- AlterTable
+ALTER TABLE "NoteAccessBan" ADD COLUMN     "expiresAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "NoteSecurityPolicy" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "trigger" "NoteSecurityPolicyTrigger" NOT NULL DEFAULT 'SIGNALS',
+    "signalType" "NoteSecuritySignalType",
+    "perNote" BOOLEAN NOT NULL DEFAULT true,
+    "threshold" INTEGER NOT NULL,
+    "windowMinutes" INTEGER NOT NULL,
+    "actions" "NoteSecurityAction"[],
+    "banHours" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NoteSecurityPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "NoteSecurityActionLog" (
+    "id" TEXT NOT NULL,
+    "policyId" TEXT,
+    "userId" TEXT NOT NULL,
+    "noteId" TEXT,
+    "signalId" TEXT,
+    "action" "NoteSecurityAction" NOT NULL,
+    "detailsJson" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NoteSecurityActionLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NoteAccessBan_expiresAt_idx" ON "NoteAccessBan"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NoteSecurityPolicy_name_key" ON "NoteSecurityPolicy"("name");
+
+-- CreateIndex
+CREATE INDEX "NoteSecurityPolicy_isActive_idx" ON "NoteSecurityPolicy"("isActive");
+
+-- CreateIndex
+CREATE INDEX "NoteSecurityActionLog_userId_createdAt_idx" ON "NoteSecurityActionLog"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "NoteSecurityActionLog_policyId_userId_createdAt_idx" ON "NoteSecurityActionLog"("policyId", "userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "NoteSecurityActionLog_noteId_idx" ON "NoteSecurityActionLog"("noteId");
+
+-- AddForeignKey
+ALTER TABLE "NoteSecurityActionLog" ADD CONSTRAINT "NoteSecurityActionLog_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "NoteSecurityPolicy"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoteSecurityActionLog" ADD CONSTRAINT "NoteSecurityActionLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoteSecurityActionLog" ADD CONSTRAINT "NoteSecurityActionLog_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "DevicePlatform" AS ENUM ('WEB', 'ANDROID', 'IOS', 'DESKTOP', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "RefreshSession" ADD COLUMN     "deviceId" TEXT;
+
+-- AlterTable
+ALTER TABLE "NoteViewSession" ADD COLUMN     "deviceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "UserDevice" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "platform" "DevicePlatform" NOT NULL DEFAULT 'OTHER',
+    "name" TEXT,
+    "userAgent" TEXT,
+    "lastIp" TEXT,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserDevice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RefreshSession_deviceId_idx" ON "RefreshSession"("deviceId");
+
+-- CreateIndex
+CREATE INDEX "NoteViewSession_deviceId_idx" ON "NoteViewSession"("deviceId");
+
+-- CreateIndex
+CREATE INDEX "UserDevice_userId_revokedAt_idx" ON "UserDevice"("userId", "revokedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserDevice_userId_fingerprint_key" ON "UserDevice"("userId", "fingerprint");
+
+-- AddForeignKey
+ALTER TABLE "RefreshSession" ADD CONSTRAINT "RefreshSession_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "UserDevice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserDevice" ADD CONSTRAINT "UserDevice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoteViewSession" ADD CONSTRAINT "NoteViewSession_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "UserDevice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
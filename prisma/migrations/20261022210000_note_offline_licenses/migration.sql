@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "NoteOfflineRevocationReason" AS ENUM ('REPLACED', 'RETURNED', 'DEVICE_REMOVED', 'ACCESS_BANNED', 'ACCESS_EXPIRED', 'NOTE_UNAVAILABLE');
+
+-- CreateTable
+CREATE TABLE "NoteOfflineLicense" (
+    "id" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "watermarkSeed" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "revokedReason" "NoteOfflineRevocationReason",
+    "downloadedAt" TIMESTAMP(3),
+    "lastSyncedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NoteOfflineLicense_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NoteOfflineLicense_userId_revokedAt_idx" ON "NoteOfflineLicense"("userId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "NoteOfflineLicense_noteId_idx" ON "NoteOfflineLicense"("noteId");
+
+-- CreateIndex
+CREATE INDEX "NoteOfflineLicense_deviceId_idx" ON "NoteOfflineLicense"("deviceId");
+
+-- CreateIndex
+CREATE INDEX "NoteOfflineLicense_watermarkSeed_idx" ON "NoteOfflineLicense"("watermarkSeed");
+
+-- AddForeignKey
+ALTER TABLE "NoteOfflineLicense" ADD CONSTRAINT "NoteOfflineLicense_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoteOfflineLicense" ADD CONSTRAINT "NoteOfflineLicense_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoteOfflineLicense" ADD CONSTRAINT "NoteOfflineLicense_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "UserDevice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "NoteProgress" ADD COLUMN "noteVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "NoteViewSession" ADD COLUMN "noteVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "NoteRevision" (
+    "id" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "fileAssetId" TEXT,
+    "pageCount" INTEGER,
+    "changeNote" TEXT,
+    "pageMapJson" JSONB,
+    "restoredFromVersion" INTEGER,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NoteRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NoteRevision_noteId_version_key" ON "NoteRevision"("noteId", "version");
+
+-- CreateIndex
+CREATE INDEX "NoteRevision_fileAssetId_idx" ON "NoteRevision"("fileAssetId");
+
+-- AddForeignKey
+ALTER TABLE "NoteRevision"
+ADD CONSTRAINT "NoteRevision_noteId_fkey"
+FOREIGN KEY ("noteId") REFERENCES "Note"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoteRevision"
+ADD CONSTRAINT "NoteRevision_fileAssetId_fkey"
+FOREIGN KEY ("fileAssetId") REFERENCES "FileAsset"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoteRevision"
+ADD CONSTRAINT "NoteRevision_createdByUserId_fkey"
+FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: the current file of every note becomes revision 1, which is
+-- also what existing progress and view sessions default to.
+INSERT INTO "NoteRevision" (
+    "id", "noteId", "version", "fileAssetId", "pageCount", "createdByUserId", "createdAt"
+)
+SELECT
+    'nrev_' || md5(n."id" || ':1'), n."id", 1, n."fileAssetId", n."pageCount", n."createdByUserId", n."createdAt"
+FROM "Note" n;
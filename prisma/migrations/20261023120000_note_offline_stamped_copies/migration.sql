@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "NoteOfflineLicense" ADD COLUMN "stampedObjectKey" TEXT;
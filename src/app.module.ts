@@ -14,6 +14,7 @@ import { AccessControlModule } from './modules/access-control/access-control.mod
 import { AuthModule } from './modules/auth/auth.module';
 import { AuthorizationModule } from './modules/authorization/authorization.module';
 import { CmsModule } from './modules/cms/cms.module';
+import { CollectionsModule } from './modules/collections/collections.module';
 import { ContentModule } from './modules/content/content.module';
 import { AdminOpsModule } from './modules/admin-ops/admin-ops.module';
 import { FilesModule } from './modules/files/files.module';
@@ -136,6 +137,7 @@ import { UsersModule } from './modules/users/users.module';
     QuestionBankModule,
     TestEngineModule,
     PracticeModule,
+    CollectionsModule,
     PrintEngineModule,
     NotificationsModule,
     CmsModule,
@@ -0,0 +1,54 @@
+import { Worker, parentPort, workerData } from 'worker_threads';
+import { PdfStamp, stampPdfPages } from './pdf';
+
+// Each worker holds a source PDF and its rewrite in memory at once.
+const MAX_WORKERS = 2;
+
+type StampJob = { pdfStamp: true; source: Uint8Array; stamp: PdfStamp };
+
+let active = 0;
+const waiting: Array<() => void> = [];
+
+/**
+ * Runs `stampPdfPages` on a worker thread so parsing and rewriting a large
+ * PDF does not block the event loop. At most two stamps run at a time; the
+ * rest wait their turn.
+ */
+export async function stampPdfPagesInWorker(source: Buffer, stamp: PdfStamp) {
+  if (active >= MAX_WORKERS) {
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+  active += 1;
+  try {
+    return await runWorker(source, stamp);
+  } finally {
+    active -= 1;
+    waiting.shift()?.();
+  }
+}
+
+function runWorker(source: Buffer, stamp: PdfStamp) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const job: StampJob = { pdfStamp: true, source, stamp };
+    const worker = new Worker(__filename, { workerData: job });
+    worker.once('message', (result: Uint8Array) =>
+      resolve(Buffer.from(result.buffer, result.byteOffset, result.byteLength)),
+    );
+    worker.once('error', reject);
+    worker.once('exit', (code) => {
+      if (code !== 0) {
+        reject(new Error(`PDF stamp worker stopped with exit code ${code}`));
+      }
+    });
+  });
+}
+
+if (parentPort && (workerData as StampJob | undefined)?.pdfStamp) {
+  const { source, stamp } = workerData as StampJob;
+  const stamped = stampPdfPages(
+    Buffer.from(source.buffer, source.byteOffset, source.byteLength),
+    stamp,
+  );
+  const result = new Uint8Array(stamped);
+  parentPort.postMessage(result, [result.buffer]);
+}
@@ -0,0 +1,950 @@
+import { constants, deflateSync, inflateSync } from 'zlib';
+
+class PdfName {
+  constructor(readonly value: string) {}
+}
+
+class PdfRef {
+  constructor(
+    readonly num: number,
+    readonly gen: number,
+  ) {}
+}
+
+/** Literal or hex string, kept exactly as written. */
+class PdfString {
+  constructor(readonly raw: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+
+type PdfValue =
+  number | boolean | null | PdfName | PdfRef | PdfString | PdfValue[] | PdfDict;
+
+class PdfStream {
+  constructor(
+    readonly dict: PdfDict,
+    readonly data: Buffer,
+  ) {}
+}
+
+type XrefEntry =
+  | { type: 'free' }
+  | { type: 'offset'; offset: number; gen: number }
+  | { type: 'compressed'; stream: number; index: number };
+
+type PdfPage = {
+  ref: PdfRef;
+  dict: PdfDict;
+  resources: PdfDict;
+  mediaBox: number[];
+  rotate: number;
+};
+
+export type PdfStamp = {
+  /** Large, faint text drawn diagonally across every page. */
+  diagonalText: string;
+  /** Small line along the bottom edge of every page. */
+  footerText: string;
+  /** Drawn with text render mode 3: invisible, but kept in the text layer. */
+  hiddenText: string;
+};
+
+const WHITESPACE = new Set(['\0', '\t', '\n', '\f', '\r', ' ']);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)/y;
+const XREF_ENTRY_PATTERN = /(\d{10})[ ](\d{5})[ ]([nf])/y;
+const FONT_NAME = 'WmFont';
+const STATE_NAME = 'WmState';
+const MAX_INFLATED_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Stamps every page of a PDF and writes the document out anew. Only objects
+ * reachable from the trailer are copied, renumbered, behind a single xref
+ * section, and each page's content is merged with its stamp into one
+ * compressed stream, so no clean revision of the file can be cut back out.
+ * Reads classic xref tables, xref streams and object streams; encrypted
+ * files are rejected.
+ */
+export function stampPdfPages(source: Buffer, stamp: PdfStamp): Buffer {
+  const document = new PdfDocument(source);
+  const writer = new PdfWriter(document);
+
+  const fontRef = writer.addObject(
+    '<</Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding>>',
+  );
+  const stateRef = writer.addObject('<</Type /ExtGState /ca 0.15 /CA 0.15>>');
+  let openRef: PdfRef | undefined;
+
+  for (const page of document.getPages()) {
+    const resources = new Map(page.resources);
+    const fonts = new Map(document.resolveDict(resources.get('Font')));
+    const states = new Map(document.resolveDict(resources.get('ExtGState')));
+    fonts.set(FONT_NAME, fontRef);
+    states.set(STATE_NAME, stateRef);
+    resources.set('Font', fonts);
+    resources.set('ExtGState', states);
+
+    const dict = new Map(page.dict);
+    const content = buildPageContent(document, page, stamp);
+    if (content) {
+      dict.set('Contents', writer.addStream(content));
+    } else {
+      // Content we cannot decode keeps its streams, bracketed by the stamp.
+      openRef ??= writer.addStream('q\n');
+      dict.set('Contents', [
+        openRef,
+        ...document.getContentRefs(page.dict.get('Contents')),
+        writer.addStream(buildStampContent(page, stamp)),
+      ]);
+    }
+    dict.set('Resources', resources);
+    writer.replaceObject(page.ref, dict);
+  }
+
+  return writer.finish();
+}
+
+/**
+ * Whether text can be drawn with the stamp font, which covers Latin-1 only;
+ * other characters would print as `?`.
+ */
+export function canEncodePdfText(text: string) {
+  return Array.from(text).every((char) => {
+    const code = char.codePointAt(0) ?? 0;
+    return (code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff);
+  });
+}
+
+/**
+ * Finds `pattern` in the raw bytes of a PDF and in every stream that
+ * inflates, so text survives whether or not the content is compressed.
+ * Matches are returned once each, in the order found.
+ */
+export function searchPdfText(source: Buffer, pattern: RegExp): string[] {
+  const global = new RegExp(
+    pattern.source,
+    pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`,
+  );
+  const found = new Set<string>();
+  const collect = (text: string) => {
+    for (const match of text.matchAll(global)) {
+      found.add(match[0]);
+    }
+  };
+
+  const text = source.toString('latin1');
+  collect(text);
+
+  let inflated = 0;
+  const streamPattern = /stream\r?\n/g;
+  for (const match of text.matchAll(streamPattern)) {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = text.indexOf('endstream', start);
+    if (end < 0 || inflated > MAX_INFLATED_BYTES) {
+      break;
+    }
+    try {
+      const data = inflateSync(source.subarray(start, end), {
+        finishFlush: constants.Z_SYNC_FLUSH,
+        maxOutputLength: MAX_INFLATED_BYTES - inflated,
+      });
+      inflated += data.length;
+      collect(data.toString('latin1'));
+    } catch {
+      // Not deflated, or not deflated in a way we can read.
+    }
+  }
+  return Array.from(found);
+}
+
+class PdfDocument {
+  readonly text: string;
+  readonly trailer: PdfDict;
+  private readonly entries = new Map<number, XrefEntry>();
+  private readonly objects = new Map<number, PdfValue | PdfStream>();
+  private readonly objectStreams = new Map<
+    number,
+    { parser: PdfParser; offsets: Map<number, number> }
+  >();
+
+  constructor(readonly source: Buffer) {
+    this.text = source.toString('latin1');
+    const tail = this.text.slice(-2048);
+    const match = /startxref\s+(\d+)\s+%%EOF\s*$/.exec(tail);
+    if (!match) {
+      throw new Error('Not a PDF file or missing startxref.');
+    }
+    this.trailer = this.readXref(Number(match[1]), new Set());
+    if (this.trailer.has('Encrypt')) {
+      throw new Error('Encrypted PDFs are not supported.');
+    }
+  }
+
+  /** The file's `%PDF-x.y` version, at least 1.4 for the stamp's opacity. */
+  get version() {
+    const match = /^%PDF-(\d+\.\d+)/.exec(this.text.slice(0, 1024).trimStart());
+    return match && Number(match[1]) > 1.4 ? match[1] : '1.4';
+  }
+
+  getPages() {
+    const root = this.resolveDict(this.trailer.get('Root'));
+    const pages: PdfPage[] = [];
+    this.collectPages(root.get('Pages'), {}, pages, new Set());
+    if (!pages.length) {
+      throw new Error('PDF has no pages.');
+    }
+    return pages;
+  }
+
+  /** A page's /Contents as a list of stream references. */
+  getContentRefs(contents: PdfValue | undefined): PdfValue[] {
+    if (contents instanceof PdfRef) {
+      const target = this.getObject(contents.num);
+      return Array.isArray(target) ? target : [contents];
+    }
+    return Array.isArray(contents) ? contents : [];
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | PdfStream | undefined {
+    return value instanceof PdfRef ? this.getObject(value.num) : value;
+  }
+
+  resolveDict(value: PdfValue | undefined): PdfDict {
+    const resolved = this.resolve(value);
+    if (resolved instanceof PdfStream) {
+      return resolved.dict;
+    }
+    return resolved instanceof Map ? resolved : new Map<string, PdfValue>();
+  }
+
+  private resolveNumber(value: PdfValue | undefined) {
+    const resolved = this.resolve(value);
+    return typeof resolved === 'number' ? resolved : undefined;
+  }
+
+  private collectPages(
+    nodeRef: PdfValue | undefined,
+    inherited: { resources?: PdfDict; mediaBox?: number[]; rotate?: number },
+    pages: PdfPage[],
+    visited: Set<number>,
+  ) {
+    if (!(nodeRef instanceof PdfRef) || visited.has(nodeRef.num)) {
+      return;
+    }
+    visited.add(nodeRef.num);
+    const node = this.resolveDict(nodeRef);
+    const mediaBox = this.resolve(node.get('MediaBox'));
+    const state = {
+      resources: node.has('Resources')
+        ? this.resolveDict(node.get('Resources'))
+        : inherited.resources,
+      mediaBox: Array.isArray(mediaBox)
+        ? mediaBox.map((item) => this.resolveNumber(item) ?? 0)
+        : inherited.mediaBox,
+      rotate: this.resolveNumber(node.get('Rotate')) ?? inherited.rotate,
+    };
+
+    const kids = this.resolve(node.get('Kids'));
+    if (Array.isArray(kids)) {
+      kids.forEach((kid) => this.collectPages(kid, state, pages, visited));
+      return;
+    }
+    pages.push({
+      ref: nodeRef,
+      dict: node,
+      resources: state.resources ?? new Map<string, PdfValue>(),
+      mediaBox:
+        state.mediaBox?.length === 4 ? state.mediaBox : [0, 0, 612, 792],
+      rotate: (((state.rotate ?? 0) % 360) + 360) % 360,
+    });
+  }
+
+  private getObject(num: number): PdfValue | PdfStream {
+    if (this.objects.has(num)) {
+      return this.objects.get(num) ?? null;
+    }
+    const entry = this.entries.get(num);
+    let value: PdfValue | PdfStream = null;
+    if (entry?.type === 'offset') {
+      value = this.readIndirectObject(entry.offset).value;
+    } else if (entry?.type === 'compressed') {
+      value = this.readCompressedObject(entry.stream, num);
+    }
+    this.objects.set(num, value);
+    return value;
+  }
+
+  private readIndirectObject(offset: number) {
+    const parser = new PdfParser(this.text, offset);
+    const header = /(\d+)\s+(\d+)\s+obj\b/y;
+    parser.skipWhitespace();
+    header.lastIndex = parser.pos;
+    const match = header.exec(this.text);
+    if (!match) {
+      throw new Error(`No object at offset ${offset}.`);
+    }
+    parser.pos = header.lastIndex;
+    const value = parser.parseValue();
+    parser.skipWhitespace();
+    if (
+      !(value instanceof Map) ||
+      !this.text.startsWith('stream', parser.pos)
+    ) {
+      return { num: Number(match[1]), value };
+    }
+
+    let start = parser.pos + 'stream'.length;
+    if (this.text[start] === '\r') start += 1;
+    if (this.text[start] === '\n') start += 1;
+    // A wrong or unresolvable /Length falls back to scanning for endstream.
+    let length = this.resolveNumber(value.get('Length'));
+    const end = /\s*endstream/y;
+    end.lastIndex = start + (length ?? 0);
+    if (length === undefined || !end.test(this.text)) {
+      length = this.text.indexOf('endstream', start) - start;
+    }
+    return {
+      num: Number(match[1]),
+      value: new PdfStream(value, this.source.subarray(start, start + length)),
+    };
+  }
+
+  private readCompressedObject(streamNum: number, num: number): PdfValue {
+    let objectStream = this.objectStreams.get(streamNum);
+    if (!objectStream) {
+      const stream = this.getObject(streamNum);
+      if (!(stream instanceof PdfStream)) {
+        throw new Error(`Object stream ${streamNum} is missing.`);
+      }
+      const text = decodeStream(stream).toString('latin1');
+      const first = this.resolveNumber(stream.dict.get('First')) ?? 0;
+      const header = text.slice(0, first).trim().split(/\s+/).map(Number);
+      const offsets = new Map<number, number>();
+      for (let index = 0; index + 1 < header.length; index += 2) {
+        offsets.set(header[index], first + header[index + 1]);
+      }
+      objectStream = { parser: new PdfParser(text), offsets };
+      this.objectStreams.set(streamNum, objectStream);
+    }
+
+    const offset = objectStream.offsets.get(num);
+    if (offset === undefined) {
+      return null;
+    }
+    objectStream.parser.pos = offset;
+    return objectStream.parser.parseValue();
+  }
+
+  /** Newer sections win, so entries already seen are never overwritten. */
+  private readXref(offset: number, visited: Set<number>): PdfDict {
+    if (visited.has(offset)) {
+      throw new Error('PDF cross-reference chain loops.');
+    }
+    visited.add(offset);
+
+    const parser = new PdfParser(this.text, offset);
+    parser.skipWhitespace();
+    let trailer: PdfDict;
+    if (this.text.startsWith('xref', parser.pos)) {
+      parser.pos += 'xref'.length;
+      trailer = this.readXrefTable(parser);
+      const xrefStream = trailer.get('XRefStm');
+      if (typeof xrefStream === 'number') {
+        this.readXref(xrefStream, visited);
+      }
+    } else {
+      trailer = this.readXrefStream(offset);
+    }
+
+    const prev = trailer.get('Prev');
+    if (typeof prev === 'number') {
+      this.readXref(prev, visited);
+    }
+    return trailer;
+  }
+
+  private readXrefTable(parser: PdfParser): PdfDict {
+    for (;;) {
+      parser.skipWhitespace();
+      if (this.text.startsWith('trailer', parser.pos)) {
+        parser.pos += 'trailer'.length;
+        const trailer = parser.parseValue();
+        if (!(trailer instanceof Map)) {
+          throw new Error('PDF trailer is not a dictionary.');
+        }
+        return trailer;
+      }
+
+      const start = parser.parseValue();
+      const count = parser.parseValue();
+      if (typeof start !== 'number' || typeof count !== 'number') {
+        throw new Error('Unreadable PDF cross-reference table.');
+      }
+      for (let index = 0; index < count; index += 1) {
+        parser.skipWhitespace();
+        XREF_ENTRY_PATTERN.lastIndex = parser.pos;
+        const match = XREF_ENTRY_PATTERN.exec(this.text);
+        if (!match) {
+          throw new Error('Unreadable PDF cross-reference entry.');
+        }
+        parser.pos = XREF_ENTRY_PATTERN.lastIndex;
+        if (!this.entries.has(start + index)) {
+          this.entries.set(
+            start + index,
+            match[3] === 'n'
+              ? {
+                  type: 'offset',
+                  offset: Number(match[1]),
+                  gen: Number(match[2]),
+                }
+              : { type: 'free' },
+          );
+        }
+      }
+    }
+  }
+
+  private readXrefStream(offset: number): PdfDict {
+    const { value } = this.readIndirectObject(offset);
+    if (!(value instanceof PdfStream)) {
+      throw new Error('Unreadable PDF cross-reference stream.');
+    }
+    const widths = value.dict.get('W');
+    if (!Array.isArray(widths) || widths.length !== 3) {
+      throw new Error('Unreadable PDF cross-reference stream.');
+    }
+    const [typeWidth, offsetWidth, extraWidth] = widths.map((item) =>
+      typeof item === 'number' ? item : 0,
+    );
+    const size = value.dict.get('Size');
+    const index = value.dict.get('Index');
+    const ranges = Array.isArray(index)
+      ? index.filter((item): item is number => typeof item === 'number')
+      : [0, typeof size === 'number' ? size : 0];
+
+    const data = decodeStream(value);
+    const rowLength = typeWidth + offsetWidth + extraWidth;
+    const readField = (position: number, width: number) => {
+      let result = 0;
+      for (let byte = 0; byte < width; byte += 1) {
+        result = result * 256 + data[position + byte];
+      }
+      return result;
+    };
+
+    let position = 0;
+    for (let range = 0; range + 1 < ranges.length; range += 2) {
+      for (let item = 0; item < ranges[range + 1]; item += 1) {
+        if (position + rowLength > data.length) {
+          break;
+        }
+        const num = ranges[range] + item;
+        const type = typeWidth ? readField(position, typeWidth) : 1;
+        const field = readField(position + typeWidth, offsetWidth);
+        const extra = readField(position + typeWidth + offsetWidth, extraWidth);
+        position += rowLength;
+        if (this.entries.has(num)) {
+          continue;
+        }
+        if (type === 1) {
+          this.entries.set(num, { type: 'offset', offset: field, gen: extra });
+        } else if (type === 2) {
+          this.entries.set(num, {
+            type: 'compressed',
+            stream: field,
+            index: extra,
+          });
+        } else if (type === 0) {
+          this.entries.set(num, { type: 'free' });
+        }
+      }
+    }
+    return value.dict;
+  }
+}
+
+class PdfParser {
+  constructor(
+    private readonly text: string,
+    public pos = 0,
+  ) {}
+
+  skipWhitespace() {
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === '%') {
+        while (
+          this.pos < this.text.length &&
+          !'\r\n'.includes(this.text[this.pos])
+        ) {
+          this.pos += 1;
+        }
+      } else if (WHITESPACE.has(char)) {
+        this.pos += 1;
+      } else {
+        return;
+      }
+    }
+  }
+
+  parseValue(): PdfValue {
+    this.skipWhitespace();
+    const char = this.text[this.pos];
+    if (char === '/') {
+      this.pos += 1;
+      return new PdfName(this.readToken());
+    }
+    if (char === '<' && this.text[this.pos + 1] === '<') {
+      return this.parseDict();
+    }
+    if (char === '<') {
+      const end = this.text.indexOf('>', this.pos);
+      const raw = this.text.slice(this.pos, end + 1);
+      this.pos = end + 1;
+      return new PdfString(raw);
+    }
+    if (char === '(') {
+      return this.parseLiteralString();
+    }
+    if (char === '[') {
+      this.pos += 1;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (this.text[this.pos] === ']') {
+          this.pos += 1;
+          return items;
+        }
+        if (this.pos >= this.text.length) {
+          throw new Error('Unterminated PDF array.');
+        }
+        items.push(this.parseValue());
+      }
+    }
+
+    NUMBER_PATTERN.lastIndex = this.pos;
+    const number = NUMBER_PATTERN.exec(this.text);
+    if (number) {
+      this.pos = NUMBER_PATTERN.lastIndex;
+      return this.parseReference(number[0]) ?? Number(number[0]);
+    }
+
+    const token = this.readToken();
+    if (token === 'true' || token === 'false') {
+      return token === 'true';
+    }
+    if (token === 'null') {
+      return null;
+    }
+    throw new Error(`Unexpected PDF token at offset ${this.pos}.`);
+  }
+
+  private parseDict(): PdfDict {
+    this.pos += 2;
+    const dict: PdfDict = new Map();
+    for (;;) {
+      this.skipWhitespace();
+      if (this.text.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        return dict;
+      }
+      const key = this.parseValue();
+      if (!(key instanceof PdfName)) {
+        throw new Error(`Unexpected PDF dictionary key at offset ${this.pos}.`);
+      }
+      dict.set(key.value, this.parseValue());
+    }
+  }
+
+  private parseLiteralString() {
+    const start = this.pos;
+    let depth = 0;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      this.pos += char === '\\' ? 2 : 1;
+      if (char === '(') {
+        depth += 1;
+      } else if (char === ')') {
+        depth -= 1;
+        if (!depth) {
+          return new PdfString(this.text.slice(start, this.pos));
+        }
+      }
+    }
+    throw new Error('Unterminated PDF string.');
+  }
+
+  // `12 0 R` is a reference; anything else leaves the parser after `12`.
+  private parseReference(first: string) {
+    if (!/^\d+$/.test(first)) {
+      return null;
+    }
+    const pattern = /\s+(\d+)\s+R(?=[\s/<>[\]()%]|$)/y;
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.text);
+    if (!match) {
+      return null;
+    }
+    this.pos = pattern.lastIndex;
+    return new PdfRef(Number(first), Number(match[1]));
+  }
+
+  private readToken() {
+    const start = this.pos;
+    while (
+      this.pos < this.text.length &&
+      !WHITESPACE.has(this.text[this.pos]) &&
+      !DELIMITERS.has(this.text[this.pos])
+    ) {
+      this.pos += 1;
+    }
+    return this.text.slice(start, this.pos);
+  }
+}
+
+/**
+ * Writes a fresh file. Objects of the source are pulled in as they are
+ * referenced, starting from the trailer, and get new numbers; objects created
+ * here are written straight away.
+ */
+class PdfWriter {
+  private readonly chunks: Buffer[] = [];
+  private readonly offsets: number[] = [];
+  // Source object number -> number in the output.
+  private readonly numbers = new Map<number, PdfRef>();
+  private readonly created = new Set<PdfRef>();
+  private readonly replaced = new Map<number, PdfValue>();
+  private readonly pending: number[] = [];
+  private length = 0;
+  private nextNum = 1;
+
+  constructor(private readonly document: PdfDocument) {
+    this.write(`%PDF-${document.version}\n`);
+    this.write(Buffer.from([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  }
+
+  addObject(body: string) {
+    const ref = this.createRef();
+    this.offsets[ref.num] = this.length;
+    this.write(`${ref.num} 0 obj\n${body}\nendobj\n`);
+    return ref;
+  }
+
+  addStream(content: string | Buffer) {
+    const data = deflateSync(
+      typeof content === 'string' ? Buffer.from(content, 'latin1') : content,
+    );
+    const ref = this.createRef();
+    this.offsets[ref.num] = this.length;
+    this.write(
+      `${ref.num} 0 obj\n<</Length ${data.length} /Filter /FlateDecode>>\nstream\n`,
+    );
+    this.write(data);
+    this.write('\nendstream\nendobj\n');
+    return ref;
+  }
+
+  /** Writes `value` in place of the source object `ref`. */
+  replaceObject(ref: PdfRef, value: PdfValue) {
+    this.replaced.set(ref.num, value);
+  }
+
+  finish() {
+    const trailer: PdfDict = new Map();
+    ['Root', 'Info', 'ID'].forEach((key) => {
+      const value = this.document.trailer.get(key);
+      if (value !== undefined) {
+        trailer.set(key, value);
+      }
+    });
+    // Serializing the trailer queues the objects it refers to; writing each
+    // of those queues theirs in turn.
+    this.serialize(trailer);
+    for (let index = 0; index < this.pending.length; index += 1) {
+      this.writeSourceObject(this.pending[index]);
+    }
+    trailer.set('Size', this.nextNum);
+
+    const xrefOffset = this.length;
+    const lines = ['xref', `0 ${this.nextNum}`, '0000000000 65535 f\r'];
+    for (let num = 1; num < this.nextNum; num += 1) {
+      lines.push(`${String(this.offsets[num]).padStart(10, '0')} 00000 n\r`);
+    }
+    lines.push(
+      'trailer',
+      this.serialize(trailer),
+      'startxref',
+      String(xrefOffset),
+      '%%EOF\n',
+    );
+    this.write(lines.join('\n'));
+    return Buffer.concat(this.chunks);
+  }
+
+  private writeSourceObject(num: number) {
+    const ref = this.numbers.get(num) as PdfRef;
+    const value = this.replaced.has(num)
+      ? (this.replaced.get(num) ?? null)
+      : (this.document.resolve(new PdfRef(num, 0)) ?? null);
+    this.offsets[ref.num] = this.length;
+    if (!(value instanceof PdfStream)) {
+      this.write(`${ref.num} 0 obj\n${this.serialize(value)}\nendobj\n`);
+      return;
+    }
+    const dict = new Map(value.dict);
+    dict.set('Length', value.data.length);
+    this.write(`${ref.num} 0 obj\n${this.serialize(dict)}\nstream\n`);
+    this.write(value.data);
+    this.write('\nendstream\nendobj\n');
+  }
+
+  private serialize(value: PdfValue) {
+    return serialize(value, (ref) => this.mapRef(ref));
+  }
+
+  private mapRef(ref: PdfRef) {
+    if (this.created.has(ref)) {
+      return ref;
+    }
+    let mapped = this.numbers.get(ref.num);
+    if (!mapped) {
+      mapped = this.createRef();
+      this.numbers.set(ref.num, mapped);
+      this.pending.push(ref.num);
+    }
+    return mapped;
+  }
+
+  private createRef() {
+    const ref = new PdfRef(this.nextNum, 0);
+    this.nextNum += 1;
+    this.created.add(ref);
+    return ref;
+  }
+
+  private write(content: string | Buffer) {
+    const chunk =
+      typeof content === 'string' ? Buffer.from(content, 'latin1') : content;
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+}
+
+/**
+ * The page's own content followed by its stamp, as one stream. Returns null
+ * when a content stream uses a filter we cannot decode.
+ */
+function buildPageContent(
+  document: PdfDocument,
+  page: PdfPage,
+  stamp: PdfStamp,
+) {
+  const parts: Buffer[] = [Buffer.from('q\n', 'latin1')];
+  for (const ref of document.getContentRefs(page.dict.get('Contents'))) {
+    const stream = document.resolve(ref);
+    if (!(stream instanceof PdfStream)) {
+      continue;
+    }
+    try {
+      parts.push(decodeStream(stream), Buffer.from('\n', 'latin1'));
+    } catch {
+      return null;
+    }
+  }
+  parts.push(Buffer.from(buildStampContent(page, stamp), 'latin1'));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Content drawn after the page's own content. It first closes the `q`
+ * placed before it, then draws in the page's viewing orientation so the
+ * footer sits at the bottom of rotated pages too.
+ */
+function buildStampContent(page: PdfPage, stamp: PdfStamp) {
+  const [x0, y0, x1, y1] = page.mediaBox;
+  const width = Math.abs(x1 - x0);
+  const height = Math.abs(y1 - y0);
+  const left = Math.min(x0, x1);
+  const bottom = Math.min(y0, y1);
+  const sideways = page.rotate === 90 || page.rotate === 270;
+  const viewWidth = sideways ? height : width;
+  const viewHeight = sideways ? width : height;
+  const view =
+    page.rotate === 90
+      ? [0, 1, -1, 0, left + width, bottom]
+      : page.rotate === 180
+        ? [-1, 0, 0, -1, left + width, bottom + height]
+        : page.rotate === 270
+          ? [0, -1, 1, 0, left, bottom + height]
+          : [1, 0, 0, 1, left, bottom];
+
+  const angle = Math.atan2(viewHeight, viewWidth);
+  const diagonal = Math.hypot(viewWidth, viewHeight);
+  // Helvetica averages about half an em per character.
+  const fontSize = Math.max(
+    12,
+    Math.min(
+      48,
+      (diagonal * 0.7) / (Math.max(stamp.diagonalText.length, 1) * 0.5),
+    ),
+  );
+  const textWidth = stamp.diagonalText.length * fontSize * 0.5;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  return [
+    '',
+    'Q',
+    'q',
+    `${formatNumbers(view)} cm`,
+    'q',
+    `/${STATE_NAME} gs`,
+    '0.5 g',
+    'BT',
+    `/${FONT_NAME} ${formatNumber(fontSize)} Tf`,
+    `${formatNumbers([cos, sin, -sin, cos, viewWidth / 2, viewHeight / 2])} Tm`,
+    `${formatNumbers([-textWidth / 2, -fontSize / 3])} Td`,
+    `${encodeText(stamp.diagonalText)} Tj`,
+    'ET',
+    'Q',
+    '0.4 g',
+    'BT',
+    `/${FONT_NAME} 7 Tf`,
+    '1 0 0 1 18 10 Tm',
+    `${encodeText(stamp.footerText)} Tj`,
+    'ET',
+    'BT',
+    '3 Tr',
+    `/${FONT_NAME} 4 Tf`,
+    `1 0 0 1 18 ${formatNumber(viewHeight - 8)} Tm`,
+    `${encodeText(stamp.hiddenText)} Tj`,
+    'ET',
+    'Q',
+    '',
+  ].join('\n');
+}
+
+function decodeStream(stream: PdfStream) {
+  const filter = stream.dict.get('Filter');
+  const filters = (Array.isArray(filter) ? filter : [filter]).filter(
+    (item): item is PdfName => item instanceof PdfName,
+  );
+  if (filters.some((item) => item.value !== 'FlateDecode')) {
+    throw new Error('Unsupported PDF stream filter.');
+  }
+  if (!filters.length) {
+    return stream.data;
+  }
+
+  const data = inflateSync(stream.data, {
+    finishFlush: constants.Z_SYNC_FLUSH,
+    maxOutputLength: MAX_INFLATED_BYTES,
+  });
+  const params = stream.dict.get('DecodeParms');
+  const parms = Array.isArray(params) ? params[0] : params;
+  const predictor = parms instanceof Map ? parms.get('Predictor') : undefined;
+  if (typeof predictor !== 'number' || predictor < 10) {
+    if (typeof predictor === 'number' && predictor > 1) {
+      throw new Error('Unsupported PDF stream predictor.');
+    }
+    return data;
+  }
+  const columns = (parms as PdfDict).get('Columns');
+  return removePngPredictor(data, typeof columns === 'number' ? columns : 1);
+}
+
+// PNG row filters with one byte per pixel, as used by xref streams.
+function removePngPredictor(data: Buffer, columns: number) {
+  const rows = Math.floor(data.length / (columns + 1));
+  const output = Buffer.alloc(rows * columns);
+  for (let row = 0; row < rows; row += 1) {
+    const type = data[row * (columns + 1)];
+    for (let column = 0; column < columns; column += 1) {
+      const raw = data[row * (columns + 1) + 1 + column];
+      const left = column ? output[row * columns + column - 1] : 0;
+      const up = row ? output[(row - 1) * columns + column] : 0;
+      const upLeft =
+        row && column ? output[(row - 1) * columns + column - 1] : 0;
+      let value = raw;
+      if (type === 1) {
+        value = raw + left;
+      } else if (type === 2) {
+        value = raw + up;
+      } else if (type === 3) {
+        value = raw + Math.floor((left + up) / 2);
+      } else if (type === 4) {
+        const estimate = left + up - upLeft;
+        const distances = [left, up, upLeft].map((item) =>
+          Math.abs(estimate - item),
+        );
+        value =
+          raw +
+          (distances[0] <= distances[1] && distances[0] <= distances[2]
+            ? left
+            : distances[1] <= distances[2]
+              ? up
+              : upLeft);
+      }
+      output[row * columns + column] = value & 0xff;
+    }
+  }
+  return output;
+}
+
+function serialize(
+  value: PdfValue,
+  mapRef: (ref: PdfRef) => PdfRef = (ref) => ref,
+): string {
+  if (value instanceof PdfName) {
+    return `/${value.value}`;
+  }
+  if (value instanceof PdfRef) {
+    const ref = mapRef(value);
+    return `${ref.num} ${ref.gen} R`;
+  }
+  if (value instanceof PdfString) {
+    return value.raw;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => serialize(item, mapRef)).join(' ')}]`;
+  }
+  if (value instanceof Map) {
+    const entries = Array.from(value.entries()).map(
+      ([key, item]) => `/${key} ${serialize(item, mapRef)}`,
+    );
+    return `<<${entries.join(' ')}>>`;
+  }
+  if (typeof value === 'number') {
+    return formatNumber(value);
+  }
+  return String(value);
+}
+
+function formatNumber(value: number) {
+  return Number.isInteger(value)
+    ? String(value)
+    : value.toFixed(4).replace(/\.?0+$/, '');
+}
+
+function formatNumbers(values: number[]) {
+  return values.map(formatNumber).join(' ');
+}
+
+/** Literal string in WinAnsi; characters outside Latin-1 become `?`. */
+function encodeText(text: string) {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (char === '\\' || char === '(' || char === ')') {
+      encoded += `\\${char}`;
+    } else if (code >= 0x20 && code < 0x7f) {
+      encoded += char;
+    } else if (code >= 0xa0 && code <= 0xff) {
+      encoded += `\\${code.toString(8)}`;
+    } else {
+      encoded += '?';
+    }
+  }
+  return `(${encoded})`;
+}
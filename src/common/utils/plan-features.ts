@@ -0,0 +1,23 @@
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Reads a numeric limit a plan sets in its `featuresJson` object, such as
+ * `{ "maxDevices": 2 }`. Plans stored as a plain feature list set none.
+ * A limit of 0 means unlimited; switch a feature off with its own flag.
+ */
+export function readPlanLimit(
+  featuresJson: Prisma.JsonValue | null,
+  key: string,
+): number | undefined {
+  if (
+    !featuresJson ||
+    typeof featuresJson !== 'object' ||
+    Array.isArray(featuresJson)
+  ) {
+    return undefined;
+  }
+  const value = featuresJson[key];
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+    ? value
+    : undefined;
+}
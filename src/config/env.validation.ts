@@ -28,6 +28,9 @@ export const envValidationSchema = Joi.object({
   STUDENT_SINGLE_SESSION_STRATEGY: Joi.string()
     .valid('FORCE_LOGOUT_EXISTING', 'DENY_NEW_LOGIN')
     .default('FORCE_LOGOUT_EXISTING'),
+  STUDENT_MAX_DEVICES: Joi.number().integer().default(3),
+  STUDENT_DEVICE_CHURN_THRESHOLD: Joi.number().integer().default(4),
+  STUDENT_DEVICE_CHURN_WINDOW_HOURS: Joi.number().integer().default(24),
 
   SUPERADMIN_EMAIL: Joi.string().email().required(),
   SUPERADMIN_PASSWORD: Joi.string().required(),
@@ -56,12 +59,24 @@ export const envValidationSchema = Joi.object({
 
   MAX_PDF_BYTES: Joi.number().integer().default(52428800),
   MAX_IMAGE_BYTES: Joi.number().integer().default(2097152),
+  MAX_IMPORT_BYTES: Joi.number().integer().default(10485760),
 
   WATERMARK_SECRET: Joi.string().required(),
   NOTE_VIEW_SESSION_TTL_MINUTES: Joi.number().integer().default(30),
   NOTE_VIEW_MAX_SESSIONS: Joi.number().integer().default(2),
   NOTE_ACCESS_RATE_LIMIT: Joi.number().integer().default(60),
   NOTE_ACCESS_RATE_WINDOW_SECONDS: Joi.number().integer().default(120),
+  NOTE_PDF_STAMPING_ENABLED: Joi.boolean()
+    .truthy('true')
+    .falsy('false')
+    .default(false),
+  NOTE_OFFLINE_ENABLED: Joi.boolean()
+    .truthy('true')
+    .falsy('false')
+    .default(false),
+  NOTE_OFFLINE_LICENSE_DAYS: Joi.number().integer().default(7),
+  NOTE_OFFLINE_MAX_LICENSES: Joi.number().integer().default(5),
+  NOTE_OFFLINE_SIGNING_KEY: Joi.string().allow('', null).optional(),
 
   THROTTLE_TTL_SECONDS: Joi.number().integer().default(60),
   THROTTLE_LIMIT: Joi.number().integer().default(120),
@@ -124,7 +139,26 @@ export const envValidationSchema = Joi.object({
   PAYMENTS_RECONCILE_INTERVAL_SECONDS: Joi.number().integer().default(60),
   PAYMENTS_AUTOPAY_INTERVAL_SECONDS: Joi.number().integer().min(10).default(300),
   PAYMENTS_AUTOPAY_RETRY_MINUTES: Joi.number().integer().min(1).default(60),
-  PAYMENTS_AUTOPAY_REMINDER_HOURS: Joi.number().integer().min(1).default(24),
+  PAYMENTS_AUTOPAY_REMINDER_HOURS: Joi.number().integer().default(24),
+
+  TEST_ATTEMPT_GRACE_SECONDS: Joi.number().integer().min(0).default(30),
+  TEST_ATTEMPT_SWEEP_INTERVAL_SECONDS: Joi.number()
+    .integer()
+    .min(10)
+    .default(60),
+  TEST_REMINDER_OFFSETS_MINUTES: Joi.string().allow('', null).optional(),
+  QUESTION_IMPORT_MAX_ROWS: Joi.number().integer().min(1).default(2000),
+  QUESTION_EXPORT_MAX_QUESTIONS: Joi.number().integer().min(1).default(5000),
+  QUESTION_DUPLICATE_THRESHOLD: Joi.number().min(0.1).max(1).default(0.7),
+  QUESTION_REQUIRED_LOCALES: Joi.string().allow('', null).optional(),
+  QUESTION_STATS_MIN_RESPONSES: Joi.number().integer().min(1).default(30),
+  PRACTICE_MISTAKE_RETRY_STREAK: Joi.number()
+    .integer()
+    .min(1)
+    .max(10)
+    .default(2),
+  STUDENT_EVENTS_RETENTION_DAYS: Joi.number().integer().min(7).default(180),
+  COLLECTION_PRINT_DAILY_LIMIT: Joi.number().integer().min(0).default(5),
 
   SMTP_HOST: Joi.string().required(),
   SMTP_PORT: Joi.number().integer().default(587),
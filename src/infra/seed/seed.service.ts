@@ -8,6 +8,8 @@ import {
   CmsConfigStatus,
   CouponType,
   EntitlementKind,
+  NoteSecurityAction,
+  NoteSecurityPolicyTrigger,
   NoteSecuritySignalType,
   NotificationChannel,
   NotificationStatus,
@@ -96,6 +98,7 @@ export class SeedService implements OnModuleInit {
     await this.seedRolesAndPermissions();
     await this.seedSuperAdmin();
     await this.seedNotificationTemplates();
+    await this.seedNoteSecurityPolicies();
     await this.seedDefaultCatalog();
     await this.seedSampleData();
   }
@@ -261,6 +264,44 @@ export class SeedService implements OnModuleInit {
         variablesJson: ['appName', 'planName', 'endsAt', 'fullName', 'email'],
         isActive: true,
       },
+      {
+        key: 'questions.report-resolved',
+        channel: NotificationChannel.EMAIL,
+        subject: 'Your question report was reviewed',
+        bodyJson: {
+          text: 'Thanks for reporting an issue ({{reason}}) on question {{questionId}}. Outcome: {{outcome}}. {{resolutionNote}}',
+          html: '<p>Thanks for reporting an issue ({{reason}}) on question {{questionId}}.</p><p>Outcome: <strong>{{outcome}}</strong></p><p>{{resolutionNote}}</p>',
+        },
+        variablesJson: [
+          'appName',
+          'questionId',
+          'reason',
+          'outcome',
+          'resolutionNote',
+          'fullName',
+          'email',
+        ],
+        isActive: true,
+      },
+      {
+        key: 'tests.live-reminder',
+        channel: NotificationChannel.EMAIL,
+        subject: '{{testTitle}} starts in {{startsIn}}',
+        bodyJson: {
+          text: 'Your registered test {{testTitle}} starts at {{startsAt}} UTC ({{startsIn}} from now). Late entry closes at {{entryClosesAt}} UTC.',
+          html: '<p>Your registered test <strong>{{testTitle}}</strong> starts at {{startsAt}} UTC ({{startsIn}} from now).</p><p>Late entry closes at {{entryClosesAt}} UTC.</p>',
+        },
+        variablesJson: [
+          'appName',
+          'testTitle',
+          'startsAt',
+          'entryClosesAt',
+          'startsIn',
+          'fullName',
+          'email',
+        ],
+        isActive: true,
+      },
     ];
   }
 
@@ -402,6 +443,46 @@ export class SeedService implements OnModuleInit {
     this.logger.log(`Seeded ${missing.length} notification templates.`);
   }
 
+  // Seeded disabled so automated bans and blocks are an explicit opt-in.
+  // Policies that already exist by name keep their admin edits.
+  private async seedNoteSecurityPolicies(): Promise<void> {
+    const { count } = await this.prisma.noteSecurityPolicy.createMany({
+      data: [
+        {
+          name: 'Range scraping',
+          description:
+            'Revoke sessions and ban the note for 24 hours after 3 range scrape signals within an hour.',
+          isActive: false,
+          trigger: NoteSecurityPolicyTrigger.SIGNALS,
+          signalType: NoteSecuritySignalType.RANGE_SCRAPE,
+          perNote: true,
+          threshold: 3,
+          windowMinutes: 60,
+          actions: [
+            NoteSecurityAction.REVOKE_SESSIONS,
+            NoteSecurityAction.BAN_NOTE,
+          ],
+          banHours: 24,
+        },
+        {
+          name: 'Repeat offenders',
+          description:
+            'Block the account after 3 automated note bans within 30 days.',
+          isActive: false,
+          trigger: NoteSecurityPolicyTrigger.NOTE_BANS,
+          threshold: 3,
+          windowMinutes: 30 * 24 * 60,
+          actions: [NoteSecurityAction.BLOCK_ACCOUNT],
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    if (count) {
+      this.logger.log(`Seeded ${count} note security policies.`);
+    }
+  }
+
   private async seedDefaultCatalog(): Promise<void> {
     if (!this.shouldSeedDefaultCatalog()) {
       return;
@@ -560,6 +641,17 @@ export class SeedService implements OnModuleInit {
         'STUDENT_SINGLE_SESSION_STRATEGY',
         'FORCE_LOGOUT_EXISTING',
       ),
+      STUDENT_MAX_DEVICES: num('STUDENT_MAX_DEVICES', 3, 0),
+      STUDENT_DEVICE_CHURN_THRESHOLD: num(
+        'STUDENT_DEVICE_CHURN_THRESHOLD',
+        4,
+        0,
+      ),
+      STUDENT_DEVICE_CHURN_WINDOW_HOURS: num(
+        'STUDENT_DEVICE_CHURN_WINDOW_HOURS',
+        24,
+        1,
+      ),
       NOTE_VIEW_SESSION_TTL_MINUTES: num('NOTE_VIEW_SESSION_TTL_MINUTES', 30, 1),
       NOTE_VIEW_MAX_SESSIONS: num('NOTE_VIEW_MAX_SESSIONS', 2, 1),
       NOTE_ACCESS_RATE_LIMIT: num('NOTE_ACCESS_RATE_LIMIT', 60, 1),
@@ -568,6 +660,10 @@ export class SeedService implements OnModuleInit {
         120,
         1,
       ),
+      NOTE_PDF_STAMPING_ENABLED: bool('NOTE_PDF_STAMPING_ENABLED', false),
+      NOTE_OFFLINE_ENABLED: bool('NOTE_OFFLINE_ENABLED', false),
+      NOTE_OFFLINE_LICENSE_DAYS: num('NOTE_OFFLINE_LICENSE_DAYS', 7, 1),
+      NOTE_OFFLINE_MAX_LICENSES: num('NOTE_OFFLINE_MAX_LICENSES', 5, 0),
       THROTTLE_TTL_SECONDS: num('THROTTLE_TTL_SECONDS', 60, 1),
       THROTTLE_LIMIT: num('THROTTLE_LIMIT', 120, 1),
       AUTH_THROTTLE_LIMIT: num('AUTH_THROTTLE_LIMIT', 10, 1),
@@ -607,6 +703,36 @@ export class SeedService implements OnModuleInit {
         24,
         1,
       ),
+      TEST_ATTEMPT_GRACE_SECONDS: num('TEST_ATTEMPT_GRACE_SECONDS', 30, 0),
+      TEST_ATTEMPT_SWEEP_INTERVAL_SECONDS: num(
+        'TEST_ATTEMPT_SWEEP_INTERVAL_SECONDS',
+        60,
+        10,
+      ),
+      TEST_REMINDER_OFFSETS_MINUTES: str(
+        'TEST_REMINDER_OFFSETS_MINUTES',
+        '1440,60,10',
+      ),
+      QUESTION_IMPORT_MAX_ROWS: num('QUESTION_IMPORT_MAX_ROWS', 2000, 1),
+      QUESTION_EXPORT_MAX_QUESTIONS: num(
+        'QUESTION_EXPORT_MAX_QUESTIONS',
+        5000,
+        1,
+      ),
+      QUESTION_DUPLICATE_THRESHOLD: num(
+        'QUESTION_DUPLICATE_THRESHOLD',
+        0.7,
+        0.1,
+      ),
+      QUESTION_REQUIRED_LOCALES: str('QUESTION_REQUIRED_LOCALES', ''),
+      QUESTION_STATS_MIN_RESPONSES: num('QUESTION_STATS_MIN_RESPONSES', 30),
+      PRACTICE_MISTAKE_RETRY_STREAK: num('PRACTICE_MISTAKE_RETRY_STREAK', 2, 1),
+      STUDENT_EVENTS_RETENTION_DAYS: num(
+        'STUDENT_EVENTS_RETENTION_DAYS',
+        180,
+        7,
+      ),
+      COLLECTION_PRINT_DAILY_LIMIT: num('COLLECTION_PRINT_DAILY_LIMIT', 5, 0),
       CMS_PUBLIC_KEYS: str('CMS_PUBLIC_KEYS', 'landing'),
       CMS_STUDENT_KEYS: str('CMS_STUDENT_KEYS', 'home,student,app.languages'),
       PRINT_MAX_QUESTIONS: num('PRINT_MAX_QUESTIONS', 200, 1),
@@ -1175,6 +1301,17 @@ export class SeedService implements OnModuleInit {
             hasMedia: false,
             isPublished: true,
             searchText,
+            revisions: {
+              create: {
+                version: 1,
+                type: seed.type,
+                difficulty: seed.difficulty,
+                statementJson: { text: seed.statement },
+                optionsJson: seed.options,
+                correctAnswerJson: seed.answer,
+                createdByUserId: adminId ?? undefined,
+              },
+            },
           },
         }));
 
@@ -1,12 +1,19 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron } from '@nestjs/schedule';
-import { AttemptEventType, PaymentOrderStatus, PracticeEventType, Prisma } from '@prisma/client';
+import {
+  AttemptEventType,
+  PaymentOrderStatus,
+  PracticeEventType,
+  Prisma,
+  StudentEventType,
+} from '@prisma/client';
 import { PrismaService } from '../../infra/prisma/prisma.service';
 
 @Injectable()
 export class AnalyticsRollupService {
   private readonly logger = new Logger(AnalyticsRollupService.name);
   private readonly globalDimension = '__GLOBAL__';
+  private readonly topScreensLimit = 20;
 
   constructor(private readonly prisma: PrismaService) {}
 
@@ -31,6 +38,7 @@ export class AnalyticsRollupService {
       practiceUsers,
       attemptUsers,
       noteUsers,
+      eventUsers,
     ] = await Promise.all([
       this.prisma.practiceQuestionEvent.count({
         where: {
@@ -87,12 +95,18 @@ export class AnalyticsRollupService {
         select: { userId: true },
         distinct: ['userId'],
       }),
+      this.prisma.studentEvent.findMany({
+        where: { day: start },
+        select: { userId: true },
+        distinct: ['userId'],
+      }),
     ]);
 
     const activeUsers = new Set<string>();
     practiceUsers.forEach((item) => activeUsers.add(item.userId));
     attemptUsers.forEach((item) => activeUsers.add(item.userId));
     noteUsers.forEach((item) => activeUsers.add(item.userId));
+    eventUsers.forEach((item) => activeUsers.add(item.userId));
 
     await Promise.all([
       this.upsertDailyStat(start, 'practice.answers', practiceAnswered),
@@ -105,6 +119,8 @@ export class AnalyticsRollupService {
         currency: 'INR',
       }),
       this.upsertDailyStat(start, 'users.active', activeUsers.size),
+      this.upsertDailyStat(start, 'users.app_active', eventUsers.length),
+      this.rollupStudentEvents(start),
     ]);
 
     this.logger.log(
@@ -112,6 +128,60 @@ export class AnalyticsRollupService {
     );
   }
 
+  // Client telemetry: per-type counts, top screens, and watch time as the
+  // span of positions each user reported per video.
+  private async rollupStudentEvents(day: Date) {
+    const [typeCounts, screens, videos] = await Promise.all([
+      this.prisma.studentEvent.groupBy({
+        by: ['eventType'],
+        where: { day },
+        _count: { _all: true },
+      }),
+      this.prisma.studentEvent.groupBy({
+        by: ['screen'],
+        where: { day, eventType: StudentEventType.SCREEN_VIEW },
+        _count: { screen: true },
+        orderBy: { _count: { screen: 'desc' } },
+        take: this.topScreensLimit,
+      }),
+      this.prisma.studentEvent.groupBy({
+        by: ['userId', 'videoId'],
+        where: { day, eventType: StudentEventType.VIDEO_PROGRESS },
+        _min: { positionSeconds: true },
+        _max: { positionSeconds: true },
+      }),
+    ]);
+
+    const watchSeconds = videos.reduce(
+      (sum, row) =>
+        sum + (row._max.positionSeconds ?? 0) - (row._min.positionSeconds ?? 0),
+      0,
+    );
+
+    await Promise.all([
+      ...Object.values(StudentEventType).map((eventType) =>
+        this.upsertDailyStat(
+          day,
+          `events.${eventType.toLowerCase()}`,
+          typeCounts.find((row) => row.eventType === eventType)?._count._all ??
+            0,
+        ),
+      ),
+      ...screens
+        .filter((row) => row.screen)
+        .map((row) =>
+          this.upsertDailyStat(
+            day,
+            'events.screen_view',
+            row._count.screen,
+            undefined,
+            { key: 'screen', value: row.screen as string },
+          ),
+        ),
+      this.upsertDailyStat(day, 'video.watch_seconds', watchSeconds),
+    ]);
+  }
+
   private getDayBounds(date: Date) {
     const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
     const end = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
@@ -123,14 +193,17 @@ export class AnalyticsRollupService {
     metricKey: string,
     valueInt: number,
     metaJson?: Record<string, unknown>,
+    dimension?: { key: string; value: string },
   ) {
+    const dimensionKey = dimension?.key ?? this.globalDimension;
+    const dimensionValue = dimension?.value ?? this.globalDimension;
     await this.prisma.dailyStat.upsert({
       where: {
         date_metricKey_dimensionKey_dimensionValue: {
           date,
           metricKey,
-          dimensionKey: this.globalDimension,
-          dimensionValue: this.globalDimension,
+          dimensionKey,
+          dimensionValue,
         },
       },
       update: {
@@ -140,8 +213,8 @@ export class AnalyticsRollupService {
       create: {
         date,
         metricKey,
-        dimensionKey: this.globalDimension,
-        dimensionValue: this.globalDimension,
+        dimensionKey,
+        dimensionValue,
         valueInt,
         metaJson: metaJson ? (metaJson as Prisma.InputJsonValue) : undefined,
       },
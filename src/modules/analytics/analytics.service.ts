@@ -6,6 +6,8 @@ import {
   Prisma,
 } from '@prisma/client';
 import { PrismaService } from '../../infra/prisma/prisma.service';
+import { startOfUtcDay } from '../student-events/student-events.constants';
+import { isResultEmbargoed } from '../test-engine/utils/live-test.util';
 import {
   AdminAnalyticsCoverageDto,
   AdminAnalyticsEngagementDto,
@@ -24,6 +26,14 @@ const DAY_MS = 24 * 60 * 60 * 1000;
 const MINUTE_MS = 60 * 1000;
 const INDIA_OFFSET_MS = 5.5 * 60 * MINUTE_MS;
 const STREAK_LOOKBACK_DAYS = 365;
+const REVIEW_FORECAST_DAYS = 7;
+// Same rule as isResultEmbargoed: scores of live tests stay out of analytics
+// until their results are released.
+const RELEASED_RESULTS = {
+  test: {
+    OR: [{ resultsReleaseAt: null }, { resultsPublishedAt: { not: null } }],
+  },
+} satisfies Prisma.AttemptWhereInput;
 
 @Injectable()
 export class AnalyticsService {
@@ -33,6 +43,9 @@ export class AnalyticsService {
     const now = new Date();
     const { start: todayStart, end: todayEnd } = this.getIndiaDayRange(now);
     const streakLookbackStart = new Date(todayStart.getTime() - (STREAK_LOOKBACK_DAYS - 1) * DAY_MS);
+    const reviewForecastEnd = new Date(
+      todayStart.getTime() + REVIEW_FORECAST_DAYS * DAY_MS,
+    );
 
     const [
       noteTotal,
@@ -43,6 +56,7 @@ export class AnalyticsService {
       practiceCorrect,
       practiceWrong,
       practiceLast,
+      practiceSpeed,
       attemptTotal,
       attemptEvaluated,
       attemptAvg,
@@ -50,6 +64,7 @@ export class AnalyticsService {
       noteSessions,
       practiceSessions,
       attempts,
+      reviewDue,
     ] = await Promise.all([
       this.prisma.noteProgress.count({ where: { userId } }),
       this.prisma.noteProgress.count({
@@ -78,12 +93,20 @@ export class AnalyticsService {
         orderBy: { createdAt: 'desc' },
         select: { createdAt: true },
       }),
+      this.prisma.practiceQuestionEvent.aggregate({
+        where: {
+          userId,
+          eventType: PracticeEventType.ANSWERED,
+          timeSpentMs: { not: null },
+        },
+        _avg: { timeSpentMs: true },
+      }),
       this.prisma.attempt.count({ where: { userId } }),
       this.prisma.attempt.count({
         where: { userId, status: AttemptStatus.EVALUATED },
       }),
       this.prisma.attempt.aggregate({
-        where: { userId, totalScore: { not: null } },
+        where: { userId, totalScore: { not: null }, ...RELEASED_RESULTS },
         _avg: { totalScore: true },
       }),
       this.prisma.attempt.findFirst({
@@ -132,10 +155,19 @@ export class AnalyticsService {
           submittedAt: true,
         },
       }),
+      this.prisma.userQuestionState.findMany({
+        where: {
+          userId,
+          dueAt: { lt: reviewForecastEnd },
+          question: { isPublished: true },
+        },
+        select: { dueAt: true },
+      }),
     ]);
 
     const practiceAccuracy =
       practiceTotal > 0 ? Math.round((practiceCorrect / practiceTotal) * 100) : 0;
+    const avgPracticeMs = practiceSpeed._avg.timeSpentMs;
     const noteCompletionRate =
       noteTotal > 0 ? Math.round((noteCompleted / noteTotal) * 100) : 0;
     const activityRanges: TimeRange[] = [
@@ -173,6 +205,12 @@ export class AnalyticsService {
         correct: practiceCorrect,
         wrong: practiceWrong,
         accuracy: practiceAccuracy,
+        avgSecondsPerQuestion: avgPracticeMs
+          ? Math.round(avgPracticeMs / 100) / 10
+          : null,
+        questionsPerMinute: avgPracticeMs
+          ? Math.round((60000 / avgPracticeMs) * 100) / 100
+          : null,
         lastAnsweredAt: practiceLast?.createdAt ?? null,
       },
       tests: {
@@ -186,6 +224,50 @@ export class AnalyticsService {
         todayMinutes,
         lastActiveAt,
       },
+      review: this.buildReviewForecast(
+        reviewDue
+          .map((state) => state.dueAt)
+          .filter((dueAt): dueAt is Date => Boolean(dueAt)),
+        now,
+        todayStart,
+      ),
+    };
+  }
+
+  /**
+   * Spaced-repetition load: cards due right now, due by the end of today
+   * (overdue included) and per India day for the coming week.
+   */
+  private buildReviewForecast(dueDates: Date[], now: Date, todayStart: Date) {
+    const days = Array.from({ length: REVIEW_FORECAST_DAYS }, (_, index) => ({
+      date: this.toIndiaDayKey(new Date(todayStart.getTime() + index * DAY_MS)),
+      count: 0,
+    }));
+    let overdue = 0;
+    let dueNow = 0;
+
+    dueDates.forEach((dueAt) => {
+      if (dueAt.getTime() <= now.getTime()) {
+        dueNow += 1;
+      }
+      if (dueAt.getTime() < todayStart.getTime()) {
+        overdue += 1;
+        days[0].count += 1;
+        return;
+      }
+      const index = Math.floor(
+        (dueAt.getTime() - todayStart.getTime()) / DAY_MS,
+      );
+      if (index < days.length) {
+        days[index].count += 1;
+      }
+    });
+
+    return {
+      dueNow,
+      dueToday: days[0].count,
+      overdue,
+      days,
     };
   }
 
@@ -404,14 +486,21 @@ export class AnalyticsService {
         where: { userId, status: AttemptStatus.EVALUATED },
       }),
       this.prisma.attempt.aggregate({
-        where: { userId, totalScore: { not: null } },
+        where: { userId, totalScore: { not: null }, ...RELEASED_RESULTS },
         _avg: { totalScore: true },
         _max: { totalScore: true },
       }),
       this.prisma.attempt.findFirst({
         where: { userId },
         orderBy: { createdAt: 'desc' },
-        select: { createdAt: true, status: true, totalScore: true },
+        select: {
+          createdAt: true,
+          status: true,
+          totalScore: true,
+          test: {
+            select: { resultsReleaseAt: true, resultsPublishedAt: true },
+          },
+        },
       }),
     ]);
 
@@ -420,7 +509,13 @@ export class AnalyticsService {
       evaluated,
       averageScore: avgScore._avg.totalScore ?? 0,
       bestScore: avgScore._max.totalScore ?? 0,
-      lastAttempt,
+      lastAttempt: lastAttempt && {
+        createdAt: lastAttempt.createdAt,
+        status: lastAttempt.status,
+        totalScore: isResultEmbargoed(lastAttempt.test)
+          ? null
+          : lastAttempt.totalScore,
+      },
     };
   }
 
@@ -439,6 +534,7 @@ export class AnalyticsService {
         userId,
         status: AttemptStatus.EVALUATED,
         createdAt: { gte: since },
+        ...RELEASED_RESULTS,
       },
       select: { scoreJson: true },
     });
@@ -680,6 +776,15 @@ export class AnalyticsService {
         select: { userId: true, updatedAt: true },
       }),
     ]);
+    // Client telemetry counts once per user and day.
+    const clientEvents = await this.prisma.studentEvent.findMany({
+      where: {
+        day: { gte: startOfUtcDay(start), lt: end },
+        occurredAt: { gte: start, lt: end },
+      },
+      select: { userId: true, day: true },
+      distinct: ['userId', 'day'],
+    });
 
     const buckets = new Map<string, Set<string>>();
     const addUser = (date: Date, userId: string) => {
@@ -692,6 +797,7 @@ export class AnalyticsService {
     practiceEvents.forEach((event) => addUser(event.createdAt, event.userId));
     attempts.forEach((attempt) => addUser(attempt.createdAt, attempt.userId));
     noteProgress.forEach((progress) => addUser(progress.updatedAt, progress.userId));
+    clientEvents.forEach((event) => addUser(event.day, event.userId));
 
     const daysKeys = this.enumerateBuckets(start, end, 'day');
     const data = daysKeys.map((key) => ({
@@ -874,11 +980,21 @@ export class AnalyticsService {
         distinct: ['userId'],
       }),
     ]);
+    // `day` is the partition key; without it every partition is scanned.
+    const eventUsers = await this.prisma.studentEvent.findMany({
+      where: {
+        day: { gte: startOfUtcDay(start), lt: end },
+        occurredAt: { gte: start, lt: end },
+      },
+      select: { userId: true },
+      distinct: ['userId'],
+    });
 
     const active = new Set<string>();
     practiceUsers.forEach((item) => active.add(item.userId));
     attemptUsers.forEach((item) => active.add(item.userId));
     noteUsers.forEach((item) => active.add(item.userId));
+    eventUsers.forEach((item) => active.add(item.userId));
     return active.size;
   }
 }
@@ -0,0 +1,362 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  DevicePlatform,
+  NoteOfflineRevocationReason,
+  Prisma,
+  UserType,
+} from '@prisma/client';
+import { createHash } from 'crypto';
+import { readPlanLimit } from '../../common/utils/plan-features';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+
+/** Device details a client may send when it signs in. */
+export interface DeviceInput {
+  deviceId?: string;
+  devicePlatform?: DevicePlatform;
+  deviceName?: string;
+  replaceDeviceId?: string;
+}
+
+const DEVICE_SELECT = {
+  id: true,
+  platform: true,
+  name: true,
+  userAgent: true,
+  lastIp: true,
+  firstSeenAt: true,
+  lastSeenAt: true,
+  revokedAt: true,
+} satisfies Prisma.UserDeviceSelect;
+
+type DbClient = PrismaService | Prisma.TransactionClient;
+
+/**
+ * Registry of the devices each user signs in from. Students are limited to
+ * the device count of their plan; removing a device signs it out everywhere,
+ * including its note view sessions and offline note licenses.
+ */
+@Injectable()
+export class AuthDeviceService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly siteSettings: SiteSettingsService,
+  ) {}
+
+  /**
+   * Registers the device a login comes from, or refreshes it when already
+   * known. A student at the device limit is refused unless the login names
+   * one of their devices to replace. Meant to run inside the login
+   * transaction, so a refused login leaves nothing behind.
+   */
+  async registerDevice(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    userType: UserType,
+    input: DeviceInput,
+    meta?: { ip?: string; userAgent?: string },
+  ) {
+    const fingerprint = this.fingerprint(input.deviceId, meta?.userAgent);
+    const now = new Date();
+    if (userType === UserType.STUDENT) {
+      // Simultaneous logins of one student take turns on the user row, so
+      // they cannot all pass the device count in claimDeviceSlot.
+      await tx.$executeRaw`SELECT 1 FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+    }
+    const existing = await tx.userDevice.findUnique({
+      where: { userId_fingerprint: { userId, fingerprint } },
+      select: { id: true, revokedAt: true },
+    });
+    const seen = {
+      platform: input.devicePlatform ?? this.detectPlatform(meta?.userAgent),
+      name: input.deviceName?.trim() || undefined,
+      userAgent: meta?.userAgent,
+      lastIp: meta?.ip,
+      lastSeenAt: now,
+    };
+
+    if (existing && !existing.revokedAt) {
+      return tx.userDevice.update({
+        where: { id: existing.id },
+        data: seen,
+        select: DEVICE_SELECT,
+      });
+    }
+
+    if (userType === UserType.STUDENT) {
+      await this.claimDeviceSlot(tx, userId, input.replaceDeviceId, now);
+    }
+    return tx.userDevice.upsert({
+      where: { userId_fingerprint: { userId, fingerprint } },
+      update: { ...seen, firstSeenAt: now, revokedAt: null },
+      create: { userId, fingerprint, ...seen, firstSeenAt: now },
+      select: DEVICE_SELECT,
+    });
+  }
+
+  async touchDevice(
+    tx: Prisma.TransactionClient,
+    deviceId: string,
+    meta?: { ip?: string; userAgent?: string },
+  ) {
+    await tx.userDevice.updateMany({
+      where: { id: deviceId, revokedAt: null },
+      data: { lastSeenAt: new Date(), lastIp: meta?.ip },
+    });
+  }
+
+  /** Active devices, with the one behind the current session flagged. */
+  async listDevices(userId: string, currentSessionId?: string) {
+    const [devices, current, maxDevices] = await Promise.all([
+      this.prisma.userDevice.findMany({
+        where: { userId, revokedAt: null },
+        orderBy: { lastSeenAt: 'desc' },
+        select: DEVICE_SELECT,
+      }),
+      currentSessionId
+        ? this.prisma.refreshSession.findUnique({
+            where: { id: currentSessionId },
+            select: { deviceId: true },
+          })
+        : null,
+      this.getMaxDevices(userId),
+    ]);
+
+    return {
+      maxDevices: maxDevices || null,
+      devices: devices.map((device) => ({
+        ...device,
+        isCurrent: device.id === current?.deviceId,
+      })),
+    };
+  }
+
+  /** Every device the user has registered, removed ones included. */
+  async listAllDevices(userId: string) {
+    const [devices, maxDevices] = await Promise.all([
+      this.prisma.userDevice.findMany({
+        where: { userId },
+        orderBy: [
+          { revokedAt: { sort: 'desc', nulls: 'first' } },
+          { lastSeenAt: 'desc' },
+        ],
+        select: DEVICE_SELECT,
+      }),
+      this.getMaxDevices(userId),
+    ]);
+    return { maxDevices: maxDevices || null, devices };
+  }
+
+  async removeDevice(userId: string, deviceId: string) {
+    const device = await this.prisma.userDevice.findFirst({
+      where: { id: deviceId, userId, revokedAt: null },
+      select: { id: true },
+    });
+    if (!device) {
+      throw new NotFoundException({
+        code: 'AUTH_DEVICE_NOT_FOUND',
+        message: 'Device not found.',
+      });
+    }
+
+    await this.prisma.$transaction((tx) =>
+      this.revokeDevices(tx, userId, [device.id], new Date()),
+    );
+    return { success: true };
+  }
+
+  /** Signs the user out of every device and frees all device slots. */
+  async resetDevices(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new NotFoundException({
+        code: 'USER_NOT_FOUND',
+        message: 'User not found.',
+      });
+    }
+
+    const devices = await this.prisma.userDevice.findMany({
+      where: { userId, revokedAt: null },
+      select: { id: true },
+    });
+    await this.prisma.$transaction((tx) =>
+      this.revokeDevices(
+        tx,
+        userId,
+        devices.map((device) => device.id),
+        new Date(),
+      ),
+    );
+    return { success: true, revoked: devices.length };
+  }
+
+  /**
+   * Devices added or removed inside the churn window. Returns null when churn
+   * detection is switched off.
+   */
+  async getDeviceChurn(userId: string) {
+    const threshold = this.siteSettings.getNumber(
+      'STUDENT_DEVICE_CHURN_THRESHOLD',
+      4,
+      { integer: true, min: 0 },
+    );
+    if (!threshold) {
+      return null;
+    }
+    const windowHours = this.siteSettings.getNumber(
+      'STUDENT_DEVICE_CHURN_WINDOW_HOURS',
+      24,
+      { integer: true, min: 1 },
+    );
+    const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+    const changes = await this.prisma.userDevice.count({
+      where: {
+        userId,
+        OR: [{ firstSeenAt: { gte: since } }, { revokedAt: { gte: since } }],
+      },
+    });
+    return { changes, threshold, windowHours, since };
+  }
+
+  /**
+   * Device limit across the user's active plans; a plan sets it with
+   * `featuresJson.maxDevices`. 0 means unlimited.
+   */
+  async getMaxDevices(userId: string, client: DbClient = this.prisma) {
+    const now = new Date();
+    const subscriptions = await client.subscription.findMany({
+      where: {
+        userId,
+        status: 'ACTIVE',
+        OR: [{ endsAt: null }, { endsAt: { gt: now } }],
+      },
+      select: { plan: { select: { featuresJson: true } } },
+    });
+    const limits = subscriptions
+      .map((subscription) =>
+        readPlanLimit(subscription.plan.featuresJson, 'maxDevices'),
+      )
+      .filter((value): value is number => value !== undefined);
+    if (limits.length) {
+      return limits.includes(0) ? 0 : Math.max(...limits);
+    }
+    return this.siteSettings.getNumber('STUDENT_MAX_DEVICES', 3, {
+      integer: true,
+      min: 0,
+    });
+  }
+
+  private async claimDeviceSlot(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    replaceDeviceId: string | undefined,
+    now: Date,
+  ) {
+    const maxDevices = await this.getMaxDevices(userId, tx);
+    if (!maxDevices) {
+      return;
+    }
+    const devices = await tx.userDevice.findMany({
+      where: { userId, revokedAt: null },
+      orderBy: { lastSeenAt: 'desc' },
+      select: DEVICE_SELECT,
+    });
+    if (devices.length < maxDevices) {
+      return;
+    }
+
+    const replaced = devices.find((device) => device.id === replaceDeviceId);
+    if (!replaced) {
+      throw new ForbiddenException({
+        code: 'AUTH_DEVICE_LIMIT',
+        message:
+          'Device limit reached. Remove one of your devices to sign in here.',
+        details: { maxDevices, devices },
+      });
+    }
+    // Over the limit after a plan change: the least recently seen devices go
+    // along with the replaced one, so the new device is the last slot.
+    const extra = devices
+      .filter((device) => device.id !== replaced.id)
+      .slice(maxDevices - 1);
+    await this.revokeDevices(
+      tx,
+      userId,
+      [replaced.id, ...extra.map((device) => device.id)],
+      now,
+    );
+  }
+
+  private async revokeDevices(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    deviceIds: string[],
+    now: Date,
+  ) {
+    if (!deviceIds.length) {
+      return;
+    }
+    const sessions = await tx.refreshSession.findMany({
+      where: { userId, deviceId: { in: deviceIds }, revokedAt: null },
+      select: { id: true },
+    });
+    const sessionIds = sessions.map((session) => session.id);
+
+    await tx.userDevice.updateMany({
+      where: { id: { in: deviceIds }, userId },
+      data: { revokedAt: now },
+    });
+    await tx.refreshSession.updateMany({
+      where: { id: { in: sessionIds } },
+      data: { revokedAt: now },
+    });
+    await tx.noteViewSession.updateMany({
+      where: { userId, deviceId: { in: deviceIds }, revokedAt: null },
+      data: { revokedAt: now },
+    });
+    await tx.noteOfflineLicense.updateMany({
+      where: { userId, deviceId: { in: deviceIds }, revokedAt: null },
+      data: {
+        revokedAt: now,
+        revokedReason: NoteOfflineRevocationReason.DEVICE_REMOVED,
+      },
+    });
+    await tx.user.updateMany({
+      where: { id: userId, activeStudentSessionId: { in: sessionIds } },
+      data: { activeStudentSessionId: null },
+    });
+  }
+
+  // Raw device ids are never stored, only their hash.
+  private fingerprint(deviceId?: string, userAgent?: string) {
+    const source = deviceId?.trim()
+      ? `id:${deviceId.trim()}`
+      : `ua:${userAgent ?? ''}`;
+    return createHash('sha256').update(source).digest('hex');
+  }
+
+  private detectPlatform(userAgent?: string) {
+    if (!userAgent) {
+      return DevicePlatform.OTHER;
+    }
+    if (/android/i.test(userAgent)) {
+      return DevicePlatform.ANDROID;
+    }
+    if (/iphone|ipad|ipod|ios/i.test(userAgent)) {
+      return DevicePlatform.IOS;
+    }
+    if (/electron/i.test(userAgent)) {
+      return DevicePlatform.DESKTOP;
+    }
+    return /mozilla/i.test(userAgent)
+      ? DevicePlatform.WEB
+      : DevicePlatform.OTHER;
+  }
+}
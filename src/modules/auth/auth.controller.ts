@@ -1,8 +1,18 @@
-import { Body, Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { seconds, Throttle } from '@nestjs/throttler';
 import { CurrentUser, Public } from '../../common/decorators';
 import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { AuthDeviceService } from './auth-device.service';
 import { AuthService } from './auth.service';
 import {
   LoginDto,
@@ -28,7 +38,10 @@ const authThrottleLimit = () =>
 @Controller('auth')
 @UseGuards(JwtAuthGuard)
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly authDeviceService: AuthDeviceService,
+  ) {}
 
   @Public()
   @Post('register')
@@ -92,6 +105,21 @@ export class AuthController {
     return this.authService.listSessions(user?.userId);
   }
 
+  @ApiBearerAuth()
+  @Get('devices')
+  devices(@CurrentUser() user: { userId: string; sid?: string }) {
+    return this.authDeviceService.listDevices(user.userId, user.sid);
+  }
+
+  @ApiBearerAuth()
+  @Delete('devices/:deviceId')
+  removeDevice(
+    @CurrentUser() user: { userId: string },
+    @Param('deviceId') deviceId: string,
+  ) {
+    return this.authDeviceService.removeDevice(user.userId, deviceId);
+  }
+
   @Public()
   @Post('otp/request')
   @Throttle({
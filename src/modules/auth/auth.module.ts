@@ -4,6 +4,7 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { PrismaModule } from '../../infra/prisma/prisma.module';
 import { parseDurationToSeconds } from '../../common/utils/duration';
 import { AuthController } from './auth.controller';
+import { AuthDeviceService } from './auth-device.service';
 import { AuthSessionService } from './auth-session.service';
 import { AuthService } from './auth.service';
 import { AuthTokenService } from './auth-token.service';
@@ -30,9 +31,17 @@ import { NotificationsModule } from '../notifications/notifications.module';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, AuthSessionService, AuthTokenService, JwtAuthGuard, OptionalJwtAuthGuard],
+  providers: [
+    AuthService,
+    AuthDeviceService,
+    AuthSessionService,
+    AuthTokenService,
+    JwtAuthGuard,
+    OptionalJwtAuthGuard,
+  ],
   exports: [
     AuthService,
+    AuthDeviceService,
     AuthSessionService,
     AuthTokenService,
     JwtAuthGuard,
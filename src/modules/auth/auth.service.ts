@@ -27,6 +27,7 @@ import {
   RegisterDto,
   ResetPasswordDto,
 } from './dto';
+import { AuthDeviceService, DeviceInput } from './auth-device.service';
 import { AuthTokenService } from './auth-token.service';
 import { NotificationsService } from '../notifications/notifications.service';
 
@@ -43,6 +44,7 @@ export class AuthService {
     private readonly authTokenService: AuthTokenService,
     private readonly notificationsService: NotificationsService,
     private readonly siteSettings: SiteSettingsService,
+    private readonly authDeviceService: AuthDeviceService,
   ) {}
 
   async register(dto: RegisterDto, meta?: { ip?: string; userAgent?: string }) {
@@ -92,6 +94,7 @@ export class AuthService {
       refreshToken,
       sessionId,
       meta,
+      dto,
     );
 
     return {
@@ -130,6 +133,7 @@ export class AuthService {
       refreshToken,
       sessionId,
       meta,
+      dto,
     );
 
     await this.prisma.user.update({
@@ -219,6 +223,7 @@ export class AuthService {
       user.id,
       user.type,
       session.id,
+      session.deviceId,
       refreshToken,
       sessionId,
       meta,
@@ -322,6 +327,7 @@ export class AuthService {
           id: true,
           userAgent: true,
           ip: true,
+          deviceId: true,
           revokedAt: true,
           createdAt: true,
           updatedAt: true,
@@ -552,12 +558,21 @@ export class AuthService {
     refreshToken: string,
     sessionId: string,
     meta?: { ip?: string; userAgent?: string },
+    device: DeviceInput = {},
   ) {
     const hashedToken = await this.hashValue(refreshToken);
     const shouldEnforce = this.shouldEnforceStudentSingleSession(userType);
     const strategy = this.getStudentSingleSessionStrategy();
 
     await this.prisma.$transaction(async (tx) => {
+      const { id: deviceId } = await this.authDeviceService.registerDevice(
+        tx,
+        userId,
+        userType,
+        device,
+        meta,
+      );
+
       if (shouldEnforce) {
         if (strategy === 'DENY_NEW_LOGIN') {
           const existingSession = await tx.refreshSession.findFirst({
@@ -586,6 +601,7 @@ export class AuthService {
           hashedToken,
           ip: meta?.ip,
           userAgent: meta?.userAgent,
+          deviceId,
         },
       });
 
@@ -598,10 +614,12 @@ export class AuthService {
     });
   }
 
+  // The new session stays on the device the current one was issued to.
   private async rotateRefreshSession(
     userId: string,
     userType: UserType,
     currentSessionId: string,
+    deviceId: string | null,
     refreshToken: string,
     sessionId: string,
     meta?: { ip?: string; userAgent?: string },
@@ -628,6 +646,7 @@ export class AuthService {
           hashedToken,
           ip: meta?.ip,
           userAgent: meta?.userAgent,
+          deviceId,
         },
       });
 
@@ -641,6 +660,9 @@ export class AuthService {
           message: 'Refresh session has been revoked.',
         });
       }
+      if (deviceId) {
+        await this.authDeviceService.touchDevice(tx, deviceId, meta);
+      }
 
       if (shouldEnforce) {
         await tx.user.update({
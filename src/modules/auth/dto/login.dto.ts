@@ -1,4 +1,12 @@
-import { IsEmail, IsString, MinLength } from 'class-validator';
+import { DevicePlatform } from '@prisma/client';
+import {
+  IsEmail,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
 
 export class LoginDto {
   @IsEmail()
@@ -7,4 +15,27 @@ export class LoginDto {
   @IsString()
   @MinLength(6)
   password!: string;
+
+  /** Stable per-install id generated by the client app. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  deviceId?: string;
+
+  @IsOptional()
+  @IsEnum(DevicePlatform)
+  devicePlatform?: DevicePlatform;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceName?: string;
+
+  /**
+   * Device to sign out when the account is at its device limit. Devices over
+   * the limit are signed out with it, least recently seen first.
+   */
+  @IsOptional()
+  @IsString()
+  replaceDeviceId?: string;
 }
@@ -1,8 +1,11 @@
+import { DevicePlatform } from '@prisma/client';
 import {
   IsEmail,
+  IsEnum,
   IsOptional,
   IsString,
   Matches,
+  MaxLength,
   MinLength,
 } from 'class-validator';
 import { INDIAN_PHONE_INPUT_REGEX } from '../../../common/utils/phone';
@@ -30,4 +33,19 @@ export class RegisterDto {
   @IsOptional()
   @IsString()
   fullName?: string;
+
+  /** Stable per-install id generated by the client app. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  deviceId?: string;
+
+  @IsOptional()
+  @IsEnum(DevicePlatform)
+  devicePlatform?: DevicePlatform;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceName?: string;
 }
@@ -0,0 +1,127 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators';
+import { JwtAuthGuard } from '../auth/guards';
+import { Policy } from '../authorization/decorators';
+import { PolicyGuard } from '../authorization/guards';
+import { CollectionsService } from './collections.service';
+import {
+  CollectionCreateDto,
+  CollectionItemCreateDto,
+  CollectionItemQueryDto,
+  CollectionLookupQueryDto,
+  CollectionPrintDto,
+  CollectionUpdateDto,
+} from './dto';
+
+/** `:collectionId` also accepts `default` for the Bookmarks collection. */
+@ApiTags('collections')
+@ApiBearerAuth()
+@Controller('collections')
+@UseGuards(JwtAuthGuard)
+export class CollectionsController {
+  constructor(private readonly collectionsService: CollectionsService) {}
+
+  @Get()
+  list(@CurrentUser() user: { userId: string }) {
+    return this.collectionsService.listCollections(user.userId);
+  }
+
+  @Post()
+  create(
+    @CurrentUser() user: { userId: string },
+    @Body() dto: CollectionCreateDto,
+  ) {
+    return this.collectionsService.createCollection(user.userId, dto);
+  }
+
+  @Get('lookup')
+  lookup(
+    @CurrentUser() user: { userId: string },
+    @Query() query: CollectionLookupQueryDto,
+  ) {
+    return this.collectionsService.lookupItem(user.userId, query);
+  }
+
+  @Get(':collectionId')
+  get(
+    @CurrentUser() user: { userId: string },
+    @Param('collectionId') collectionId: string,
+    @Query() query: CollectionItemQueryDto,
+  ) {
+    return this.collectionsService.getCollection(
+      user.userId,
+      collectionId,
+      query,
+    );
+  }
+
+  @Patch(':collectionId')
+  update(
+    @CurrentUser() user: { userId: string },
+    @Param('collectionId') collectionId: string,
+    @Body() dto: CollectionUpdateDto,
+  ) {
+    return this.collectionsService.updateCollection(
+      user.userId,
+      collectionId,
+      dto,
+    );
+  }
+
+  @Delete(':collectionId')
+  remove(
+    @CurrentUser() user: { userId: string },
+    @Param('collectionId') collectionId: string,
+  ) {
+    return this.collectionsService.deleteCollection(user.userId, collectionId);
+  }
+
+  @Post(':collectionId/items')
+  addItem(
+    @CurrentUser() user: { userId: string },
+    @Param('collectionId') collectionId: string,
+    @Body() dto: CollectionItemCreateDto,
+  ) {
+    return this.collectionsService.addItem(user.userId, collectionId, dto);
+  }
+
+  @Delete(':collectionId/items/:itemId')
+  removeItem(
+    @CurrentUser() user: { userId: string },
+    @Param('collectionId') collectionId: string,
+    @Param('itemId') itemId: string,
+  ) {
+    return this.collectionsService.removeItem(
+      user.userId,
+      collectionId,
+      itemId,
+    );
+  }
+
+  // Printing includes answer keys, so it is part of the practice plan.
+  @Post(':collectionId/print')
+  @UseGuards(PolicyGuard)
+  @Policy('practice.use')
+  print(
+    @CurrentUser() user: { userId: string },
+    @Param('collectionId') collectionId: string,
+    @Body() dto: CollectionPrintDto,
+  ) {
+    return this.collectionsService.printCollection(
+      user.userId,
+      collectionId,
+      dto,
+    );
+  }
+}
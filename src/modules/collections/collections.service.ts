@@ -0,0 +1,450 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  CollectionItemType,
+  PrintJobStatus,
+  PrintJobType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { PrintEngineService } from '../print-engine/print-engine.service';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { localizeQuestionContent } from '../question-bank/utils/question-locale.util';
+import {
+  CollectionCreateDto,
+  CollectionItemCreateDto,
+  CollectionItemQueryDto,
+  CollectionLookupQueryDto,
+  CollectionPrintDto,
+  CollectionUpdateDto,
+} from './dto';
+
+const DEFAULT_COLLECTION_NAME = 'Bookmarks';
+// Accepted in place of a collection id for the user's default collection.
+const DEFAULT_COLLECTION_ALIAS = 'default';
+const MAX_COLLECTIONS = 50;
+const MAX_COLLECTION_ITEMS = 1000;
+// Renders are expensive; a student waits for one before queueing the next.
+const MAX_ACTIVE_PRINT_JOBS = 1;
+
+const COLLECTION_ITEM_INCLUDE = {
+  question: {
+    select: {
+      id: true,
+      subjectId: true,
+      topicId: true,
+      type: true,
+      difficulty: true,
+      statementJson: true,
+      isPublished: true,
+    },
+  },
+  note: {
+    select: {
+      id: true,
+      subjectId: true,
+      title: true,
+      isPremium: true,
+      isPublished: true,
+      pageCount: true,
+    },
+  },
+} satisfies Prisma.CollectionItemInclude;
+
+@Injectable()
+export class CollectionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly printEngineService: PrintEngineService,
+    private readonly siteSettings: SiteSettingsService,
+  ) {}
+
+  async listCollections(userId: string) {
+    await this.ensureDefaultCollection(userId);
+    const collections = await this.prisma.collection.findMany({
+      where: { userId },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    });
+    const counts = await this.prisma.collectionItem.groupBy({
+      by: ['collectionId', 'itemType'],
+      where: { collectionId: { in: collections.map((item) => item.id) } },
+      _count: { _all: true },
+    });
+
+    return collections.map((collection) => {
+      const countOf = (itemType: CollectionItemType) =>
+        counts.find(
+          (row) =>
+            row.collectionId === collection.id && row.itemType === itemType,
+        )?._count._all ?? 0;
+      return {
+        ...collection,
+        questionCount: countOf(CollectionItemType.QUESTION),
+        noteCount: countOf(CollectionItemType.NOTE),
+      };
+    });
+  }
+
+  async createCollection(userId: string, dto: CollectionCreateDto) {
+    // Created first so a named collection cannot take the default's name.
+    await this.ensureDefaultCollection(userId);
+    const total = await this.prisma.collection.count({ where: { userId } });
+    if (total >= MAX_COLLECTIONS) {
+      throw new BadRequestException({
+        code: 'COLLECTION_LIMIT_REACHED',
+        message: `You can have at most ${MAX_COLLECTIONS} collections.`,
+      });
+    }
+
+    try {
+      return await this.prisma.collection.create({
+        data: {
+          userId,
+          name: dto.name.trim(),
+          description: dto.description?.trim() || undefined,
+        },
+      });
+    } catch (error) {
+      this.handleNameConflict(error);
+      throw error;
+    }
+  }
+
+  async getCollection(
+    userId: string,
+    collectionId: string,
+    query: CollectionItemQueryDto,
+  ) {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    const page = Math.max(Number(query.page ?? 1), 1);
+    const pageSize = Math.min(Math.max(Number(query.pageSize ?? 20), 1), 100);
+    const where: Prisma.CollectionItemWhereInput = {
+      collectionId: collection.id,
+      itemType: query.itemType ?? undefined,
+    };
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.collectionItem.count({ where }),
+      this.prisma.collectionItem.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: COLLECTION_ITEM_INCLUDE,
+      }),
+    ]);
+
+    return {
+      ...collection,
+      items: {
+        data: data.map((item) => ({
+          ...item,
+          question: item.question
+            ? {
+                ...item.question,
+                statementJson: localizeQuestionContent(
+                  item.question.statementJson,
+                  query.lang,
+                ),
+              }
+            : null,
+        })),
+        total,
+        page,
+        pageSize,
+      },
+    };
+  }
+
+  async updateCollection(
+    userId: string,
+    collectionId: string,
+    dto: CollectionUpdateDto,
+  ) {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    const name = dto.name?.trim();
+    if (collection.isDefault && name && name !== collection.name) {
+      throw new BadRequestException({
+        code: 'COLLECTION_DEFAULT_LOCKED',
+        message: 'The default collection cannot be renamed.',
+      });
+    }
+
+    try {
+      return await this.prisma.collection.update({
+        where: { id: collection.id },
+        data: {
+          name: name || undefined,
+          description:
+            dto.description !== undefined
+              ? dto.description.trim() || null
+              : undefined,
+        },
+      });
+    } catch (error) {
+      this.handleNameConflict(error);
+      throw error;
+    }
+  }
+
+  async deleteCollection(userId: string, collectionId: string) {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    if (collection.isDefault) {
+      throw new BadRequestException({
+        code: 'COLLECTION_DEFAULT_LOCKED',
+        message: 'The default collection cannot be deleted.',
+      });
+    }
+    await this.prisma.collection.delete({ where: { id: collection.id } });
+    return { success: true };
+  }
+
+  /** Adding an item that is already in the collection returns it as is. */
+  async addItem(
+    userId: string,
+    collectionId: string,
+    dto: CollectionItemCreateDto,
+  ) {
+    if (Boolean(dto.questionId) === Boolean(dto.noteId)) {
+      throw new BadRequestException({
+        code: 'COLLECTION_ITEM_INVALID',
+        message: 'Provide exactly one of questionId or noteId.',
+      });
+    }
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    await this.assertItemVisible(dto);
+
+    const target = dto.questionId
+      ? { questionId: dto.questionId }
+      : { noteId: dto.noteId };
+    const existing = await this.prisma.collectionItem.findFirst({
+      where: { collectionId: collection.id, ...target },
+      include: COLLECTION_ITEM_INCLUDE,
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const total = await this.prisma.collectionItem.count({
+      where: { collectionId: collection.id },
+    });
+    if (total >= MAX_COLLECTION_ITEMS) {
+      throw new BadRequestException({
+        code: 'COLLECTION_ITEM_LIMIT_REACHED',
+        message: `A collection can hold at most ${MAX_COLLECTION_ITEMS} items.`,
+      });
+    }
+
+    return this.prisma.collectionItem.create({
+      data: {
+        collectionId: collection.id,
+        itemType: dto.questionId
+          ? CollectionItemType.QUESTION
+          : CollectionItemType.NOTE,
+        ...target,
+      },
+      include: COLLECTION_ITEM_INCLUDE,
+    });
+  }
+
+  async removeItem(userId: string, collectionId: string, itemId: string) {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    const { count } = await this.prisma.collectionItem.deleteMany({
+      where: { id: itemId, collectionId: collection.id },
+    });
+    if (!count) {
+      throw new NotFoundException({
+        code: 'COLLECTION_ITEM_NOT_FOUND',
+        message: 'Collection item not found.',
+      });
+    }
+    return { success: true };
+  }
+
+  /** Which of the user's collections hold a question or note. */
+  async lookupItem(userId: string, query: CollectionLookupQueryDto) {
+    if (Boolean(query.questionId) === Boolean(query.noteId)) {
+      throw new BadRequestException({
+        code: 'COLLECTION_ITEM_INVALID',
+        message: 'Provide exactly one of questionId or noteId.',
+      });
+    }
+    const items = await this.prisma.collectionItem.findMany({
+      where: {
+        collection: { userId },
+        questionId: query.questionId ?? undefined,
+        noteId: query.noteId ?? undefined,
+      },
+      select: {
+        id: true,
+        collection: { select: { id: true, name: true, isDefault: true } },
+      },
+    });
+    return items.map((item) => ({ itemId: item.id, ...item.collection }));
+  }
+
+  /**
+   * Bookmarks from practice land in the default collection. Unknown or
+   * already bookmarked questions are skipped.
+   */
+  async bookmarkQuestions(userId: string, questionIds: string[]) {
+    if (!questionIds.length) {
+      return;
+    }
+    const collection = await this.ensureDefaultCollection(userId);
+    await this.prisma.collectionItem.createMany({
+      data: Array.from(new Set(questionIds)).map((questionId) => ({
+        collectionId: collection.id,
+        itemType: CollectionItemType.QUESTION,
+        questionId,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Renders the collection's published questions as a personal PDF. Notes
+   * are already PDFs and are not merged in.
+   */
+  async printCollection(
+    userId: string,
+    collectionId: string,
+    dto: CollectionPrintDto,
+  ) {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    await this.assertPrintAllowed(userId);
+    const items = await this.prisma.collectionItem.findMany({
+      where: {
+        collectionId: collection.id,
+        itemType: CollectionItemType.QUESTION,
+        question: { isPublished: true },
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { questionId: true },
+    });
+    const questionIds = items
+      .map((item) => item.questionId)
+      .filter((questionId): questionId is string => Boolean(questionId));
+    if (!questionIds.length) {
+      throw new BadRequestException({
+        code: 'COLLECTION_PRINT_EMPTY',
+        message: 'This collection has no questions to print.',
+      });
+    }
+
+    return this.printEngineService.createJob(userId, {
+      type: PrintJobType.CUSTOM,
+      questionIds,
+      includeAnswerKey: dto.includeAnswerKey,
+      title: dto.title ?? collection.name,
+      subtitle: dto.subtitle,
+    });
+  }
+
+  /** Resolves a collection id, or `default`, to one the user owns. */
+  async getOwnedCollection(userId: string, collectionId: string) {
+    if (collectionId === DEFAULT_COLLECTION_ALIAS) {
+      return this.ensureDefaultCollection(userId);
+    }
+    const collection = await this.prisma.collection.findUnique({
+      where: { id: collectionId },
+    });
+    if (!collection || collection.userId !== userId) {
+      throw new NotFoundException({
+        code: 'COLLECTION_NOT_FOUND',
+        message: 'Collection not found.',
+      });
+    }
+    return collection;
+  }
+
+  /**
+   * Per-user print limits: one job in progress at a time and at most
+   * COLLECTION_PRINT_DAILY_LIMIT jobs per 24 hours (0 means unlimited).
+   */
+  private async assertPrintAllowed(userId: string) {
+    const dailyLimit = this.siteSettings.getNumber(
+      'COLLECTION_PRINT_DAILY_LIMIT',
+      5,
+      { integer: true, min: 0 },
+    );
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const [active, recent] = await Promise.all([
+      this.prisma.printJob.count({
+        where: {
+          createdByUserId: userId,
+          status: { in: [PrintJobStatus.QUEUED, PrintJobStatus.RUNNING] },
+        },
+      }),
+      this.prisma.printJob.count({
+        where: { createdByUserId: userId, createdAt: { gte: since } },
+      }),
+    ]);
+    if (active >= MAX_ACTIVE_PRINT_JOBS) {
+      throw new ConflictException({
+        code: 'COLLECTION_PRINT_IN_PROGRESS',
+        message: 'Wait for your current print to finish.',
+      });
+    }
+    if (dailyLimit && recent >= dailyLimit) {
+      throw new ForbiddenException({
+        code: 'COLLECTION_PRINT_LIMIT',
+        message: 'Daily print limit reached. Try again tomorrow.',
+        details: { dailyLimit },
+      });
+    }
+  }
+
+  // Created lazily; the unique name makes concurrent first requests safe.
+  private async ensureDefaultCollection(userId: string) {
+    return this.prisma.collection.upsert({
+      where: { userId_name: { userId, name: DEFAULT_COLLECTION_NAME } },
+      update: {},
+      create: { userId, name: DEFAULT_COLLECTION_NAME, isDefault: true },
+    });
+  }
+
+  private async assertItemVisible(dto: CollectionItemCreateDto) {
+    if (dto.questionId) {
+      const question = await this.prisma.question.findFirst({
+        where: { id: dto.questionId, isPublished: true },
+        select: { id: true },
+      });
+      if (!question) {
+        throw new NotFoundException({
+          code: 'QUESTION_NOT_FOUND',
+          message: 'Question not found.',
+        });
+      }
+      return;
+    }
+
+    const note = await this.prisma.note.findFirst({
+      where: { id: dto.noteId, isPublished: true },
+      select: { id: true },
+    });
+    if (!note) {
+      throw new NotFoundException({
+        code: 'NOTE_NOT_FOUND',
+        message: 'Note not found.',
+      });
+    }
+  }
+
+  private handleNameConflict(error: unknown) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      throw new ConflictException({
+        code: 'COLLECTION_NAME_TAKEN',
+        message: 'You already have a collection with this name.',
+      });
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { IsOptional, IsString } from 'class-validator';
+
+/** Exactly one of `questionId` and `noteId`. */
+export class CollectionItemCreateDto {
+  @IsOptional()
+  @IsString()
+  questionId?: string;
+
+  @IsOptional()
+  @IsString()
+  noteId?: string;
+}
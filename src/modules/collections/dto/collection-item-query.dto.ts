@@ -0,0 +1,21 @@
+import { CollectionItemType } from '@prisma/client';
+import { IsEnum, IsIn, IsNumberString, IsOptional } from 'class-validator';
+import { QUESTION_LOCALES } from '../../question-bank/utils/question-locale.util';
+
+export class CollectionItemQueryDto {
+  @IsOptional()
+  @IsEnum(CollectionItemType)
+  itemType?: CollectionItemType;
+
+  @IsOptional()
+  @IsIn(QUESTION_LOCALES)
+  lang?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pageSize?: string;
+}
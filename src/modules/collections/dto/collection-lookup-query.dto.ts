@@ -0,0 +1,11 @@
+import { IsOptional, IsString } from 'class-validator';
+
+export class CollectionLookupQueryDto {
+  @IsOptional()
+  @IsString()
+  questionId?: string;
+
+  @IsOptional()
+  @IsString()
+  noteId?: string;
+}
@@ -0,0 +1,18 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CollectionPrintDto {
+  @IsOptional()
+  @IsBoolean()
+  includeAnswerKey?: boolean;
+
+  /** Defaults to the collection name. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  subtitle?: string;
+}
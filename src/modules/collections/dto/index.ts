@@ -0,0 +1,7 @@
+// DTOs for the Collections module.
+export { CollectionCreateDto } from './collection-create.dto';
+export { CollectionItemCreateDto } from './collection-item-create.dto';
+export { CollectionItemQueryDto } from './collection-item-query.dto';
+export { CollectionLookupQueryDto } from './collection-lookup-query.dto';
+export { CollectionPrintDto } from './collection-print.dto';
+export { CollectionUpdateDto } from './collection-update.dto';
@@ -203,6 +203,13 @@ export class FilesService {
       QUESTION_IMAGE: ['image/png', 'image/jpeg', 'image/webp'],
       OPTION_IMAGE: ['image/png', 'image/jpeg', 'image/webp'],
       EXPLANATION_IMAGE: ['image/png', 'image/jpeg', 'image/webp'],
+      QUESTION_IMPORT: [
+        'text/csv',
+        'application/vnd.ms-excel',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      ],
+      QUESTION_EXPORT: ['text/csv', 'application/zip'],
       OTHER: ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'],
     };
 
@@ -217,6 +224,7 @@ export class FilesService {
   private validateSize(purpose: FileAssetPurpose, sizeBytes: number) {
     const maxPdf = Number(process.env.MAX_PDF_BYTES ?? 52428800);
     const maxImage = Number(process.env.MAX_IMAGE_BYTES ?? 2097152);
+    const maxImport = Number(process.env.MAX_IMPORT_BYTES ?? 10485760);
 
     if (purpose === FileAssetPurpose.NOTES_PDF || purpose === FileAssetPurpose.PRINT_PDF) {
       if (sizeBytes > maxPdf) {
@@ -228,6 +236,16 @@ export class FilesService {
       return;
     }
 
+    if (purpose === FileAssetPurpose.QUESTION_IMPORT) {
+      if (sizeBytes > maxImport) {
+        throw new BadRequestException({
+          code: 'FILE_TOO_LARGE',
+          message: 'Import file exceeds max size.',
+        });
+      }
+      return;
+    }
+
     if (sizeBytes > maxImage) {
       throw new BadRequestException({
         code: 'FILE_TOO_LARGE',
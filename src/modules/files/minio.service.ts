@@ -111,6 +111,10 @@ export class MinioService implements OnModuleInit {
     return this.client.getPartialObject(this.bucket, objectKey, offset, length);
   }
 
+  async removeObject(objectKey: string) {
+    return this.client.removeObject(this.bucket, objectKey);
+  }
+
   async uploadObject(objectKey: string, buffer: Buffer, contentType?: string) {
     const meta = contentType ? { 'Content-Type': contentType } : undefined;
     try {
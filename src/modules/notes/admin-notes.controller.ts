@@ -4,12 +4,17 @@ import {
   Delete,
   Get,
   Param,
+  ParseIntPipe,
   Patch,
   Post,
   Query,
+  UploadedFile,
   UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
-import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBearerAuth, ApiBody, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { memoryStorage } from 'multer';
 import { Audit, CurrentUser } from '../../common/decorators';
 import { Policy, RequireUserType } from '../authorization/decorators';
 import { JwtAuthGuard } from '../auth/guards';
@@ -18,11 +23,18 @@ import {
   CreateNoteDto,
   NoteBulkPublishDto,
   NoteQueryDto,
+  NoteRevisionRestoreDto,
+  NoteSecurityActionQueryDto,
+  NoteSecurityPolicyCreateDto,
+  NoteSecurityPolicyUpdateDto,
   NoteSecurityProfileDto,
   NoteSecurityQueryDto,
   NoteSecuritySummaryQueryDto,
+  NoteWatermarkTraceDto,
   UpdateNoteDto,
 } from './dto';
+import { NoteSecurityPolicyService } from './note-security-policy.service';
+import { NoteWatermarkService } from './note-watermark.service';
 import { NotesService } from './notes.service';
 
 @ApiTags('admin-notes')
@@ -30,7 +42,11 @@ import { NotesService } from './notes.service';
 @Controller('admin/notes')
 @UseGuards(JwtAuthGuard, PolicyGuard)
 export class AdminNotesController {
-  constructor(private readonly notesService: NotesService) {}
+  constructor(
+    private readonly notesService: NotesService,
+    private readonly noteWatermarkService: NoteWatermarkService,
+    private readonly noteSecurityPolicyService: NoteSecurityPolicyService,
+  ) {}
 
   @Post()
   @RequireUserType('ADMIN')
@@ -44,8 +60,32 @@ export class AdminNotesController {
   @RequireUserType('ADMIN')
   @Policy('notes.write')
   @Audit('notes.update', 'Note')
-  updateNote(@Param('noteId') noteId: string, @Body() dto: UpdateNoteDto) {
-    return this.notesService.updateNote(noteId, dto);
+  updateNote(
+    @Param('noteId') noteId: string,
+    @Body() dto: UpdateNoteDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.notesService.updateNote(noteId, dto, user.userId);
+  }
+
+  @Get(':noteId/revisions')
+  @RequireUserType('ADMIN')
+  @Policy('notes.read')
+  listRevisions(@Param('noteId') noteId: string) {
+    return this.notesService.listRevisions(noteId);
+  }
+
+  @Post(':noteId/revisions/:version/restore')
+  @RequireUserType('ADMIN')
+  @Policy('notes.write')
+  @Audit('notes.revision.restore', 'Note')
+  restoreRevision(
+    @Param('noteId') noteId: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Body() dto: NoteRevisionRestoreDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.notesService.restoreRevision(noteId, version, user.userId, dto);
   }
 
   @Post(':noteId/publish')
@@ -123,6 +163,75 @@ export class AdminNotesController {
     );
   }
 
+  @Get('security/policies')
+  @RequireUserType('ADMIN')
+  @Policy('security.read')
+  listSecurityPolicies() {
+    return this.noteSecurityPolicyService.listPolicies();
+  }
+
+  @Post('security/policies')
+  @RequireUserType('ADMIN')
+  @Policy('security.manage')
+  @Audit('notes.security_policy.create', 'NoteSecurityPolicy')
+  createSecurityPolicy(@Body() dto: NoteSecurityPolicyCreateDto) {
+    return this.noteSecurityPolicyService.createPolicy(dto);
+  }
+
+  @Patch('security/policies/:policyId')
+  @RequireUserType('ADMIN')
+  @Policy('security.manage')
+  @Audit('notes.security_policy.update', 'NoteSecurityPolicy')
+  updateSecurityPolicy(
+    @Param('policyId') policyId: string,
+    @Body() dto: NoteSecurityPolicyUpdateDto,
+  ) {
+    return this.noteSecurityPolicyService.updatePolicy(policyId, dto);
+  }
+
+  @Delete('security/policies/:policyId')
+  @RequireUserType('ADMIN')
+  @Policy('security.manage')
+  @Audit('notes.security_policy.delete', 'NoteSecurityPolicy')
+  deleteSecurityPolicy(@Param('policyId') policyId: string) {
+    return this.noteSecurityPolicyService.deletePolicy(policyId);
+  }
+
+  @Get('security/actions')
+  @RequireUserType('ADMIN')
+  @Policy('security.read')
+  listSecurityActions(@Query() query: NoteSecurityActionQueryDto) {
+    return this.noteSecurityPolicyService.listActions(query);
+  }
+
+  @Post('security/watermark-trace')
+  @RequireUserType('ADMIN')
+  @Policy('security.read')
+  @Audit('notes.trace_leak', 'Note')
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        reference: { type: 'string' },
+      },
+    },
+  })
+  @UseInterceptors(
+    FileInterceptor('file', {
+      storage: memoryStorage(),
+      limits: { fileSize: 100 * 1024 * 1024 },
+    }),
+  )
+  traceLeak(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() dto: NoteWatermarkTraceDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.noteWatermarkService.traceLeak(user.userId, file?.buffer, dto);
+  }
+
   @Get(':noteId')
   @RequireUserType('ADMIN')
   @Policy('notes.read')
@@ -6,3 +6,9 @@ export { NoteSecurityProfileDto } from './note-security-profile.dto';
 export { NoteSecuritySummaryQueryDto } from './note-security-summary.dto';
 export { NoteBulkPublishDto } from './note-bulk-publish.dto';
 export { UpdateNoteDto } from './update-note.dto';
+export { NoteWatermarkTraceDto } from './note-watermark-trace.dto';
+export { NoteSecurityActionQueryDto } from './note-security-action-query.dto';
+export { NoteSecurityPolicyCreateDto } from './note-security-policy-create.dto';
+export { NoteSecurityPolicyUpdateDto } from './note-security-policy-update.dto';
+export { NoteOfflineSyncDto } from './note-offline-sync.dto';
+export { NoteRevisionRestoreDto } from './note-revision-restore.dto';
@@ -0,0 +1,10 @@
+import { ArrayMaxSize, IsArray, IsOptional, IsString } from 'class-validator';
+
+export class NoteOfflineSyncDto {
+  /** Licenses the app currently holds content for. */
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  licenseIds?: string[];
+}
@@ -1,4 +1,4 @@
-import { IsInt, IsNumber, IsOptional } from 'class-validator';
+import { IsInt, IsNumber, IsOptional, Min } from 'class-validator';
 
 export class NoteProgressDto {
   @IsOptional()
@@ -8,4 +8,10 @@ export class NoteProgressDto {
   @IsOptional()
   @IsNumber()
   completionPercent?: number;
+
+  /** Version the reader was on; older pages are mapped to the latest. */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  noteVersion?: number;
 }
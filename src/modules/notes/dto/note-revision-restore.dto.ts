@@ -0,0 +1,8 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class NoteRevisionRestoreDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  changeNote?: string;
+}
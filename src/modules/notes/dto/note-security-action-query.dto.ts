@@ -0,0 +1,28 @@
+import { NoteSecurityAction } from '@prisma/client';
+import { IsEnum, IsNumberString, IsOptional, IsString } from 'class-validator';
+
+export class NoteSecurityActionQueryDto {
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @IsOptional()
+  @IsString()
+  noteId?: string;
+
+  @IsOptional()
+  @IsString()
+  policyId?: string;
+
+  @IsOptional()
+  @IsEnum(NoteSecurityAction)
+  action?: NoteSecurityAction;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pageSize?: string;
+}
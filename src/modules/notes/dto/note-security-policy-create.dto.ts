@@ -0,0 +1,69 @@
+import {
+  NoteSecurityAction,
+  NoteSecurityPolicyTrigger,
+  NoteSecuritySignalType,
+} from '@prisma/client';
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class NoteSecurityPolicyCreateDto {
+  @IsString()
+  @MaxLength(120)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsEnum(NoteSecurityPolicyTrigger)
+  trigger?: NoteSecurityPolicyTrigger;
+
+  // Leave empty to count signals of every type.
+  @IsOptional()
+  @IsEnum(NoteSecuritySignalType)
+  signalType?: NoteSecuritySignalType;
+
+  @IsOptional()
+  @IsBoolean()
+  perNote?: boolean;
+
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  threshold!: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(43200)
+  windowMinutes!: number;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsEnum(NoteSecurityAction, { each: true })
+  actions!: NoteSecurityAction[];
+
+  // Leave empty for bans that last until an admin lifts them.
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(8760)
+  banHours?: number;
+}
@@ -1,4 +1,10 @@
-import { IsDateString, IsEnum, IsNumberString, IsOptional, IsString } from 'class-validator';
+import {
+  IsDateString,
+  IsEnum,
+  IsNumberString,
+  IsOptional,
+  IsString,
+} from 'class-validator';
 import { NoteSecuritySignalType } from '@prisma/client';
 
 export class NoteSecurityQueryDto {
@@ -0,0 +1,10 @@
+import { IsOptional, Matches } from 'class-validator';
+
+export class NoteWatermarkTraceDto {
+  /** Hex reference printed in the footer of a stamped page. */
+  @IsOptional()
+  @Matches(/^[0-9a-fA-F]{8,32}$/, {
+    message: 'reference must be 8 to 32 hex characters.',
+  })
+  reference?: string;
+}
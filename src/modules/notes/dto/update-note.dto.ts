@@ -1,4 +1,12 @@
-import { IsArray, IsBoolean, IsInt, IsOptional, IsString } from 'class-validator';
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 
 export class UpdateNoteDto {
   @IsOptional()
@@ -28,4 +36,18 @@ export class UpdateNoteDto {
   @IsOptional()
   @IsArray()
   topicIds?: string[];
+
+  /** Shown to readers when a new file creates a revision. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  changeNote?: string;
+
+  /**
+   * Where pages of the previous file ended up in the new one, e.g.
+   * `{ "12": 14 }`. Unlisted pages keep their number.
+   */
+  @IsOptional()
+  @IsObject()
+  pageMap?: Record<string, number>;
 }
@@ -8,9 +8,12 @@ import { ConfigService } from '@nestjs/config';
 import { createHmac, randomBytes } from 'crypto';
 import { NoteSecuritySignalType, Prisma } from '@prisma/client';
 import { PrismaService } from '../../infra/prisma/prisma.service';
+import { AuthDeviceService } from '../auth/auth-device.service';
 import { MinioService } from '../files/minio.service';
 import { EntitlementService } from '../payments/entitlement.service';
 import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { NoteSecurityPolicyService } from './note-security-policy.service';
+import { NoteWatermarkService } from './note-watermark.service';
 
 @Injectable()
 export class NoteAccessService {
@@ -20,9 +23,16 @@ export class NoteAccessService {
     private readonly minioService: MinioService,
     private readonly entitlementService: EntitlementService,
     private readonly siteSettings: SiteSettingsService,
+    private readonly noteWatermarkService: NoteWatermarkService,
+    private readonly noteSecurityPolicyService: NoteSecurityPolicyService,
+    private readonly authDeviceService: AuthDeviceService,
   ) {}
 
-  async createViewSession(noteId: string, userId: string, meta: { ip?: string; userAgent?: string }) {
+  async createViewSession(
+    noteId: string,
+    userId: string,
+    meta: { ip?: string; userAgent?: string; sessionId?: string },
+  ) {
     const note = await this.prisma.note.findUnique({
       where: { id: noteId },
     });
@@ -34,23 +44,13 @@ export class NoteAccessService {
       });
     }
 
-    await this.assertNotBanned(noteId, userId);
-
-    if (note.isPremium) {
-      const canAccess = await this.entitlementService.canAccessNote(userId, {
-        id: note.id,
-        subjectId: note.subjectId,
-        isPremium: note.isPremium,
-        topics: await this.getNoteTopics(note.id),
-      });
-      if (!canAccess) {
-        throw new ForbiddenException({
-          code: 'NOTE_PREMIUM_LOCKED',
-          message: 'Premium note access denied.',
-        });
-      }
+    const deviceId = await this.resolveDeviceId(meta.sessionId);
+    if (deviceId) {
+      await this.checkDeviceChurn(noteId, userId, deviceId);
     }
 
+    await this.assertNoteAccess(note, userId);
+
     const maxSessions = this.siteSettings.getNumber('NOTE_VIEW_MAX_SESSIONS', 2, {
       integer: true,
       min: 1,
@@ -93,6 +93,8 @@ export class NoteAccessService {
         expiresAt,
         ip: meta.ip,
         userAgent: meta.userAgent,
+        deviceId,
+        noteVersion: note.version,
       },
     });
 
@@ -100,6 +102,7 @@ export class NoteAccessService {
       viewToken,
       sessionId: session.id,
       expiresAt,
+      noteVersion: session.noteVersion,
     };
   }
 
@@ -132,7 +135,12 @@ export class NoteAccessService {
 
     const signature = this.sign(JSON.stringify(payload));
 
-    return { payload, signature };
+    // When the server stamps the PDF itself the overlay is only a fallback.
+    return {
+      payload,
+      signature,
+      serverStamped: this.noteWatermarkService.isStampingEnabled(),
+    };
   }
 
   async streamContent(
@@ -151,7 +159,10 @@ export class NoteAccessService {
     const session = await this.validateSession(noteId, userId, token, meta);
 
     const note = await this.prisma.note.findUnique({ where: { id: noteId } });
-    if (!note || !note.fileAssetId) {
+    const fileAssetId = note
+      ? await this.resolveSessionFileAssetId(note, session.noteVersion)
+      : null;
+    if (!note || !fileAssetId) {
       throw new NotFoundException({
         code: 'NOTE_CONTENT_NOT_FOUND',
         message: 'Note content not found.',
@@ -160,7 +171,7 @@ export class NoteAccessService {
 
     await this.checkRateLimit(noteId, userId);
 
-    const asset = await this.prisma.fileAsset.findUnique({ where: { id: note.fileAssetId } });
+    const asset = await this.prisma.fileAsset.findUnique({ where: { id: fileAssetId } });
     if (!asset) {
       throw new NotFoundException({
         code: 'FILE_NOT_FOUND',
@@ -168,12 +179,21 @@ export class NoteAccessService {
       });
     }
 
-    const stat = await this.minioService.statObject(asset.objectKey);
+    // Every range of a stamped note is served from the session's own copy.
+    const objectKey =
+      asset.contentType === 'application/pdf' &&
+      this.noteWatermarkService.isStampingEnabled()
+        ? await this.noteWatermarkService.getStampedObjectKey(
+            session,
+            asset.objectKey,
+          )
+        : asset.objectKey;
+    const stat = await this.minioService.statObject(objectKey);
     const size = stat.size;
 
     const range = meta.range;
     if (!range) {
-      const stream = await this.minioService.getObjectStream(asset.objectKey);
+      const stream = await this.minioService.getObjectStream(objectKey);
       await this.logAccess(noteId, userId, session.id, undefined, undefined, size, meta);
       return {
         stream,
@@ -185,7 +205,11 @@ export class NoteAccessService {
 
     const { start, end } = this.parseRange(range, size);
     const length = end - start + 1;
-    const stream = await this.minioService.getPartialObject(asset.objectKey, start, length);
+    const stream = await this.minioService.getPartialObject(
+      objectKey,
+      start,
+      length,
+    );
 
     await this.logAccess(noteId, userId, session.id, start, end, length, meta);
 
@@ -243,6 +267,21 @@ export class NoteAccessService {
     return session;
   }
 
+  // A session opened before a re-upload finishes on the file it started with.
+  private async resolveSessionFileAssetId(
+    note: { id: string; version: number; fileAssetId: string | null },
+    noteVersion: number,
+  ) {
+    if (noteVersion === note.version) {
+      return note.fileAssetId;
+    }
+    const revision = await this.prisma.noteRevision.findUnique({
+      where: { noteId_version: { noteId: note.id, version: noteVersion } },
+      select: { fileAssetId: true },
+    });
+    return revision?.fileAssetId ?? note.fileAssetId;
+  }
+
   private async checkRateLimit(noteId: string, userId: string) {
     const limit = this.siteSettings.getNumber('NOTE_ACCESS_RATE_LIMIT', 60, {
       integer: true,
@@ -321,13 +360,56 @@ export class NoteAccessService {
     await this.detectRangeScrape(noteId, userId);
   }
 
+  private async resolveDeviceId(sessionId?: string) {
+    if (!sessionId) {
+      return undefined;
+    }
+    const session = await this.prisma.refreshSession.findUnique({
+      where: { id: sessionId },
+      select: { deviceId: true },
+    });
+    return session?.deviceId ?? undefined;
+  }
+
+  /**
+   * Flags the first note a device opens while the account is adding or
+   * removing devices faster than the churn threshold allows.
+   */
+  private async checkDeviceChurn(
+    noteId: string,
+    userId: string,
+    deviceId: string,
+  ) {
+    const churn = await this.authDeviceService.getDeviceChurn(userId);
+    if (!churn || churn.changes < churn.threshold) {
+      return;
+    }
+    const usedBefore = await this.prisma.noteViewSession.count({
+      where: { userId, deviceId },
+    });
+    if (usedBefore) {
+      return;
+    }
+    await this.logSecuritySignal(
+      noteId,
+      userId,
+      NoteSecuritySignalType.SUSPICIOUS_DEVICE,
+      {
+        deviceId,
+        deviceChanges: churn.changes,
+        threshold: churn.threshold,
+        windowHours: churn.windowHours,
+      },
+    );
+  }
+
   private async logSecuritySignal(
     noteId: string,
     userId: string | undefined,
     signalType: NoteSecuritySignalType,
     metaJson?: Record<string, unknown>,
   ) {
-    await this.prisma.noteSecuritySignal.create({
+    const signal = await this.prisma.noteSecuritySignal.create({
       data: {
         noteId,
         userId: userId ?? undefined,
@@ -335,6 +417,7 @@ export class NoteAccessService {
         metaJson: metaJson as Prisma.InputJsonValue | undefined,
       },
     });
+    await this.noteSecurityPolicyService.evaluateSignal(signal);
   }
 
   private sign(data: string) {
@@ -350,15 +433,47 @@ export class NoteAccessService {
     return this.sign(value) === hash;
   }
 
+  /**
+   * Throws unless the user may open the note: not banned from it and, for
+   * premium notes, entitled to it.
+   */
+  async assertNoteAccess(
+    note: { id: string; subjectId: string; isPremium: boolean },
+    userId: string,
+  ) {
+    await this.assertNotBanned(note.id, userId);
+
+    if (note.isPremium) {
+      const canAccess = await this.entitlementService.canAccessNote(userId, {
+        id: note.id,
+        subjectId: note.subjectId,
+        isPremium: note.isPremium,
+        topics: await this.getNoteTopics(note.id),
+      });
+      if (!canAccess) {
+        throw new ForbiddenException({
+          code: 'NOTE_PREMIUM_LOCKED',
+          message: 'Premium note access denied.',
+        });
+      }
+    }
+  }
+
   private async assertNotBanned(noteId: string, userId: string) {
     const ban = await this.prisma.noteAccessBan.findUnique({
       where: { noteId_userId: { noteId, userId } },
     });
 
-    if (ban && !ban.revokedAt) {
+    // Expired bans stop applying before the expiry job lifts them.
+    if (
+      ban &&
+      !ban.revokedAt &&
+      (!ban.expiresAt || ban.expiresAt > new Date())
+    ) {
       throw new ForbiddenException({
         code: 'NOTE_ACCESS_BANNED',
         message: 'Access to this note has been revoked.',
+        details: ban.expiresAt ? { expiresAt: ban.expiresAt } : undefined,
       });
     }
   }
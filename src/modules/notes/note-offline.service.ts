@@ -0,0 +1,510 @@
+import {
+  ForbiddenException,
+  HttpException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  NoteOfflineLicense,
+  NoteOfflineRevocationReason,
+} from '@prisma/client';
+import {
+  KeyObject,
+  createCipheriv,
+  createHash,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  randomBytes,
+  sign,
+} from 'crypto';
+import { Readable } from 'stream';
+import { readPlanLimit } from '../../common/utils/plan-features';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { MinioService } from '../files/minio.service';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { NoteOfflineSyncDto } from './dto';
+import { NoteAccessService } from './note-access.service';
+import { NoteWatermarkService } from './note-watermark.service';
+
+// Offline file layout: magic | 12-byte IV | AES-256-GCM ciphertext | 16-byte tag.
+const OFFLINE_MAGIC = Buffer.from('CPO1');
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Access errors that revoke a license on sync rather than fail the sync.
+const REVOKING_ERRORS: Record<string, NoteOfflineRevocationReason> = {
+  NOTE_ACCESS_BANNED: NoteOfflineRevocationReason.ACCESS_BANNED,
+  NOTE_PREMIUM_LOCKED: NoteOfflineRevocationReason.ACCESS_EXPIRED,
+};
+
+/**
+ * Offline note downloads for the mobile app. A license binds one note to one
+ * registered device for a limited time; the content is served encrypted with
+ * a key derived from the license, and every sync tells the app which of its
+ * licenses it must delete. Licenses are signed with an Ed25519 key so the app
+ * can check them offline against the published public key.
+ */
+@Injectable()
+export class NoteOfflineService {
+  private signingKey?: KeyObject;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly minioService: MinioService,
+    private readonly siteSettings: SiteSettingsService,
+    private readonly noteAccessService: NoteAccessService,
+    private readonly noteWatermarkService: NoteWatermarkService,
+  ) {}
+
+  /** Public half of the license signing key, for the app to verify with. */
+  getPublicKey() {
+    const publicKey = createPublicKey(this.getSigningKey());
+    return {
+      algorithm: 'Ed25519',
+      keyId: this.getKeyId(publicKey),
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }),
+    };
+  }
+
+  /**
+   * Issues a license for the note on the caller's device, replacing any
+   * license that device already holds for it. The content key is only
+   * returned here.
+   */
+  async issueLicense(noteId: string, userId: string, sessionId?: string) {
+    this.assertEnabled();
+    const signingKey = this.getSigningKey();
+    const deviceId = await this.resolveDeviceId(userId, sessionId);
+    const note = await this.getDownloadableNote(noteId);
+    await this.noteAccessService.assertNoteAccess(note, userId);
+
+    const now = new Date();
+    const quota = await this.getLicenseQuota(userId);
+    const days = this.siteSettings.getNumber('NOTE_OFFLINE_LICENSE_DAYS', 7, {
+      integer: true,
+      min: 1,
+    });
+    const license = await this.prisma.$transaction(async (tx) => {
+      // Downloads from several devices take turns on the user row, so they
+      // cannot all pass the quota check.
+      await tx.$executeRaw`SELECT 1 FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+      const active = await tx.noteOfflineLicense.findMany({
+        where: { userId, revokedAt: null, expiresAt: { gt: now } },
+        select: { id: true, noteId: true, deviceId: true },
+      });
+      const replaced = active
+        .filter((item) => item.noteId === noteId && item.deviceId === deviceId)
+        .map((item) => item.id);
+      if (quota && active.length - replaced.length >= quota) {
+        throw new ForbiddenException({
+          code: 'NOTE_OFFLINE_QUOTA_EXCEEDED',
+          message:
+            'Offline download limit reached. Remove a downloaded note first.',
+          details: { quota, active: active.length },
+        });
+      }
+
+      await tx.noteOfflineLicense.updateMany({
+        where: { id: { in: replaced } },
+        data: {
+          revokedAt: now,
+          revokedReason: NoteOfflineRevocationReason.REPLACED,
+        },
+      });
+      return tx.noteOfflineLicense.create({
+        data: {
+          noteId,
+          userId,
+          deviceId,
+          watermarkSeed: randomBytes(16).toString('hex'),
+          expiresAt: new Date(now.getTime() + days * 24 * 60 * 60 * 1000),
+        },
+      });
+    });
+
+    const payload = {
+      keyId: this.getKeyId(createPublicKey(signingKey)),
+      licenseId: license.id,
+      noteId,
+      userId,
+      deviceId,
+      watermarkSeed: license.watermarkSeed,
+      issuedAt: license.createdAt,
+      expiresAt: license.expiresAt,
+      contentType: note.fileAsset.contentType,
+      encryption: 'AES-256-GCM',
+    };
+    return {
+      license: payload,
+      signature: sign(
+        null,
+        Buffer.from(JSON.stringify(payload)),
+        signingKey,
+      ).toString('base64'),
+      contentKey: this.deriveKey(license).toString('base64'),
+    };
+  }
+
+  /**
+   * Encrypted note content for an active license, downloadable only from the
+   * device the license was issued to. PDFs are served from the license's
+   * stamped copy when server stamping is on.
+   */
+  async downloadContent(
+    noteId: string,
+    licenseId: string,
+    userId: string,
+    sessionId?: string,
+  ) {
+    this.assertEnabled();
+    const license = await this.prisma.noteOfflineLicense.findFirst({
+      where: { id: licenseId, noteId, userId },
+    });
+    if (!license) {
+      throw new NotFoundException({
+        code: 'NOTE_OFFLINE_LICENSE_NOT_FOUND',
+        message: 'Offline license not found.',
+      });
+    }
+    if (license.revokedAt || license.expiresAt <= new Date()) {
+      throw new ForbiddenException({
+        code: 'NOTE_OFFLINE_LICENSE_INACTIVE',
+        message: 'Offline license is no longer active.',
+        details: { revokedReason: license.revokedReason },
+      });
+    }
+    if ((await this.resolveDeviceId(userId, sessionId)) !== license.deviceId) {
+      throw new ForbiddenException({
+        code: 'NOTE_OFFLINE_DEVICE_MISMATCH',
+        message: 'This license was issued to another device.',
+      });
+    }
+
+    const note = await this.getDownloadableNote(noteId);
+    await this.noteAccessService.assertNoteAccess(note, userId);
+
+    const asset = note.fileAsset;
+    const objectKey =
+      asset.contentType === 'application/pdf' &&
+      this.noteWatermarkService.isStampingEnabled()
+        ? await this.noteWatermarkService.getLicenseStampedObjectKey(
+            license,
+            asset.objectKey,
+          )
+        : asset.objectKey;
+    const [stat, source] = await Promise.all([
+      this.minioService.statObject(objectKey),
+      this.minioService.getObjectStream(objectKey),
+    ]);
+
+    await this.prisma.noteOfflineLicense.update({
+      where: { id: license.id },
+      data: { downloadedAt: new Date() },
+    });
+
+    return {
+      stream: this.encrypt(source, this.deriveKey(license)),
+      contentType: 'application/octet-stream',
+      contentLength: OFFLINE_MAGIC.length + IV_LENGTH + stat.size + TAG_LENGTH,
+    };
+  }
+
+  /** Gives a license back so it no longer counts against the quota. */
+  async returnLicense(noteId: string, licenseId: string, userId: string) {
+    const { count } = await this.prisma.noteOfflineLicense.updateMany({
+      where: { id: licenseId, noteId, userId, revokedAt: null },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: NoteOfflineRevocationReason.RETURNED,
+      },
+    });
+    if (!count) {
+      throw new NotFoundException({
+        code: 'NOTE_OFFLINE_LICENSE_NOT_FOUND',
+        message: 'Offline license not found.',
+      });
+    }
+    return { success: true };
+  }
+
+  /**
+   * Re-checks every license the device holds, revoking those whose note was
+   * banned, unpublished or is no longer covered by a subscription. The app
+   * deletes the content of every license listed under `revoked`, including
+   * ids it sent that the server does not know for this device. A removed
+   * device gets all of its licenses back as revoked.
+   */
+  async sync(
+    userId: string,
+    sessionId: string | undefined,
+    dto: NoteOfflineSyncDto,
+  ) {
+    const device = await this.findSessionDevice(userId, sessionId);
+    if (!device) {
+      this.throwDeviceRequired();
+    }
+    const now = new Date();
+    const requested = Array.from(new Set(dto.licenseIds ?? []));
+    const licenses = await this.prisma.noteOfflineLicense.findMany({
+      where: {
+        userId,
+        deviceId: device.id,
+        OR: device.revokedAt
+          ? undefined
+          : [
+              { revokedAt: null, expiresAt: { gt: now } },
+              { id: { in: requested } },
+            ],
+      },
+      include: {
+        note: {
+          select: {
+            id: true,
+            subjectId: true,
+            isPremium: true,
+            isPublished: true,
+            fileAssetId: true,
+          },
+        },
+      },
+    });
+
+    const active: Array<{
+      licenseId: string;
+      noteId: string;
+      expiresAt: Date;
+    }> = [];
+    const revoked: Array<{
+      licenseId: string;
+      reason: NoteOfflineRevocationReason | 'EXPIRED' | 'UNKNOWN';
+      revokedAt: Date | null;
+    }> = [];
+    for (const license of licenses) {
+      if (license.revokedAt || license.expiresAt <= now) {
+        revoked.push({
+          licenseId: license.id,
+          reason: license.revokedReason ?? 'EXPIRED',
+          revokedAt: license.revokedAt,
+        });
+        continue;
+      }
+      if (device.revokedAt) {
+        revoked.push({
+          licenseId: license.id,
+          reason: NoteOfflineRevocationReason.DEVICE_REMOVED,
+          revokedAt: device.revokedAt,
+        });
+        continue;
+      }
+
+      const reason = await this.checkLicenseAccess(license.note, userId);
+      if (reason) {
+        await this.prisma.noteOfflineLicense.update({
+          where: { id: license.id },
+          data: { revokedAt: now, revokedReason: reason },
+        });
+        revoked.push({ licenseId: license.id, reason, revokedAt: now });
+      } else {
+        active.push({
+          licenseId: license.id,
+          noteId: license.noteId,
+          expiresAt: license.expiresAt,
+        });
+      }
+    }
+
+    const known = new Set(licenses.map((license) => license.id));
+    requested
+      .filter((licenseId) => !known.has(licenseId))
+      .forEach((licenseId) =>
+        revoked.push({ licenseId, reason: 'UNKNOWN', revokedAt: null }),
+      );
+
+    if (active.length) {
+      await this.prisma.noteOfflineLicense.updateMany({
+        where: { id: { in: active.map((item) => item.licenseId) } },
+        data: { lastSyncedAt: now },
+      });
+    }
+    return { syncedAt: now, active, revoked };
+  }
+
+  private async checkLicenseAccess(
+    note: {
+      id: string;
+      subjectId: string;
+      isPremium: boolean;
+      isPublished: boolean;
+      fileAssetId: string | null;
+    },
+    userId: string,
+  ) {
+    if (!note.isPublished || !note.fileAssetId) {
+      return NoteOfflineRevocationReason.NOTE_UNAVAILABLE;
+    }
+    try {
+      await this.noteAccessService.assertNoteAccess(note, userId);
+      return undefined;
+    } catch (error) {
+      const code =
+        error instanceof HttpException
+          ? (error.getResponse() as { code?: string }).code
+          : undefined;
+      if (code && REVOKING_ERRORS[code]) {
+        return REVOKING_ERRORS[code];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Licenses a user may hold at once across devices; a plan sets it with
+   * `featuresJson.maxOfflineNotes`. 0 means unlimited.
+   */
+  private async getLicenseQuota(userId: string) {
+    const now = new Date();
+    const subscriptions = await this.prisma.subscription.findMany({
+      where: {
+        userId,
+        status: 'ACTIVE',
+        OR: [{ endsAt: null }, { endsAt: { gt: now } }],
+      },
+      select: { plan: { select: { featuresJson: true } } },
+    });
+    const quotas = subscriptions
+      .map((subscription) =>
+        readPlanLimit(subscription.plan.featuresJson, 'maxOfflineNotes'),
+      )
+      .filter((value): value is number => value !== undefined);
+    if (quotas.length) {
+      return quotas.includes(0) ? 0 : Math.max(...quotas);
+    }
+    return this.siteSettings.getNumber('NOTE_OFFLINE_MAX_LICENSES', 5, {
+      integer: true,
+      min: 0,
+    });
+  }
+
+  // Licenses are bound to the registered device behind the caller's session.
+  private async resolveDeviceId(userId: string, sessionId?: string) {
+    const device = await this.findSessionDevice(userId, sessionId);
+    if (!device || device.revokedAt) {
+      this.throwDeviceRequired();
+    }
+    return device.id;
+  }
+
+  // Removed devices are returned too, so sync can tell them what to delete.
+  private async findSessionDevice(userId: string, sessionId?: string) {
+    const session = sessionId
+      ? await this.prisma.refreshSession.findFirst({
+          where: { id: sessionId, userId },
+          select: { device: { select: { id: true, revokedAt: true } } },
+        })
+      : null;
+    return session?.device ?? null;
+  }
+
+  private throwDeviceRequired(): never {
+    throw new ForbiddenException({
+      code: 'NOTE_OFFLINE_DEVICE_REQUIRED',
+      message: 'Sign in again on this device to use offline notes.',
+    });
+  }
+
+  private async getDownloadableNote(noteId: string) {
+    const note = await this.prisma.note.findUnique({
+      where: { id: noteId },
+      select: {
+        id: true,
+        subjectId: true,
+        isPremium: true,
+        isPublished: true,
+        fileAsset: { select: { objectKey: true, contentType: true } },
+      },
+    });
+    if (!note || !note.isPublished) {
+      throw new NotFoundException({
+        code: 'NOTE_NOT_FOUND',
+        message: 'Note not found.',
+      });
+    }
+    if (!note.fileAsset) {
+      throw new NotFoundException({
+        code: 'NOTE_CONTENT_NOT_FOUND',
+        message: 'Note content not found.',
+      });
+    }
+    return { ...note, fileAsset: note.fileAsset };
+  }
+
+  private assertEnabled() {
+    if (!this.siteSettings.getBoolean('NOTE_OFFLINE_ENABLED', false)) {
+      throw new ForbiddenException({
+        code: 'NOTE_OFFLINE_DISABLED',
+        message: 'Offline notes are not available.',
+      });
+    }
+  }
+
+  private encrypt(source: Readable, key: Buffer) {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    async function* generate() {
+      yield Buffer.concat([OFFLINE_MAGIC, iv]);
+      for await (const chunk of source) {
+        yield cipher.update(
+          Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string),
+        );
+      }
+      yield cipher.final();
+      yield cipher.getAuthTag();
+    }
+    return Readable.from(generate());
+  }
+
+  // Derived from the license instead of stored next to it.
+  private deriveKey(license: Pick<NoteOfflineLicense, 'id' | 'watermarkSeed'>) {
+    return createHmac('sha256', this.getSecret())
+      .update(`offline-key:${license.id}:${license.watermarkSeed}`)
+      .digest();
+  }
+
+  /**
+   * `NOTE_OFFLINE_SIGNING_KEY` holds a PKCS#8 PEM Ed25519 private key; `\n`
+   * escapes stand for line breaks so it fits on one env line.
+   */
+  private getSigningKey() {
+    if (!this.signingKey) {
+      const pem = this.configService
+        .get<string>('NOTE_OFFLINE_SIGNING_KEY')
+        ?.replace(/\\n/g, '\n');
+      if (!pem) {
+        throw new ForbiddenException({
+          code: 'NOTE_OFFLINE_DISABLED',
+          message: 'Offline notes are not available.',
+        });
+      }
+      this.signingKey = createPrivateKey(pem);
+    }
+    return this.signingKey;
+  }
+
+  // Lets the app pick the right public key once the signing key rotates.
+  private getKeyId(publicKey: KeyObject) {
+    return createHash('sha256')
+      .update(publicKey.export({ type: 'spki', format: 'der' }))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  private getSecret() {
+    return (
+      this.configService.get<string>('WATERMARK_SECRET') ??
+      'change_me_watermark'
+    );
+  }
+}
@@ -1,30 +1,142 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../../infra/prisma/prisma.service';
 import { NoteProgressDto } from './dto';
 
+/**
+ * Reading progress. Progress always continues on the latest revision of a
+ * note: a last page saved against an older revision is carried forward
+ * through the page maps of the revisions in between.
+ */
 @Injectable()
 export class NoteProgressService {
   constructor(private readonly prisma: PrismaService) {}
 
   async getProgress(noteId: string, userId: string) {
-    return this.prisma.noteProgress.findUnique({
+    const progress = await this.prisma.noteProgress.findUnique({
       where: { noteId_userId: { noteId, userId } },
     });
+    if (!progress) {
+      return progress;
+    }
+    const note = await this.prisma.note.findUnique({
+      where: { id: noteId },
+      select: { version: true },
+    });
+    if (!note || progress.noteVersion >= note.version) {
+      return { ...progress, updatedSinceLastRead: false, mappedFrom: null };
+    }
+
+    return {
+      ...progress,
+      lastPage: await this.mapPage(
+        noteId,
+        progress.lastPage,
+        progress.noteVersion,
+        note.version,
+      ),
+      noteVersion: note.version,
+      updatedSinceLastRead: true,
+      mappedFrom: {
+        noteVersion: progress.noteVersion,
+        lastPage: progress.lastPage,
+      },
+    };
   }
 
   async updateProgress(noteId: string, userId: string, dto: NoteProgressDto) {
+    const note = await this.prisma.note.findUnique({
+      where: { id: noteId },
+      select: { version: true },
+    });
+    if (!note) {
+      throw new NotFoundException({
+        code: 'NOTE_NOT_FOUND',
+        message: 'Note not found.',
+      });
+    }
+
+    const existing = await this.prisma.noteProgress.findUnique({
+      where: { noteId_userId: { noteId, userId } },
+      select: { lastPage: true, noteVersion: true },
+    });
+    // Clients that do not send `noteVersion` read the version of their open
+    // view session, which may predate the latest upload.
+    const session =
+      dto.lastPage !== undefined && dto.noteVersion === undefined
+        ? await this.prisma.noteViewSession.findFirst({
+            where: {
+              noteId,
+              userId,
+              revokedAt: null,
+              expiresAt: { gt: new Date() },
+            },
+            orderBy: { createdAt: 'desc' },
+            select: { noteVersion: true },
+          })
+        : null;
+    // A progress update without a page still moves the stored page forward.
+    const fromVersion = Math.min(
+      dto.lastPage === undefined
+        ? (existing?.noteVersion ?? note.version)
+        : (dto.noteVersion ??
+            session?.noteVersion ??
+            existing?.noteVersion ??
+            note.version),
+      note.version,
+    );
+    const lastPage = await this.mapPage(
+      noteId,
+      dto.lastPage ?? existing?.lastPage ?? null,
+      fromVersion,
+      note.version,
+    );
+
     return this.prisma.noteProgress.upsert({
       where: { noteId_userId: { noteId, userId } },
       update: {
-        lastPage: dto.lastPage ?? undefined,
+        lastPage: lastPage ?? undefined,
         completionPercent: dto.completionPercent ?? undefined,
+        noteVersion: note.version,
       },
       create: {
         noteId,
         userId,
-        lastPage: dto.lastPage ?? undefined,
+        lastPage: lastPage ?? undefined,
         completionPercent: dto.completionPercent ?? 0,
+        noteVersion: note.version,
       },
     });
   }
+
+  /**
+   * Follows a page through every revision after `fromVersion`. Pages a
+   * revision does not map keep their number, capped at its page count.
+   */
+  private async mapPage(
+    noteId: string,
+    page: number | null,
+    fromVersion: number,
+    toVersion: number,
+  ) {
+    if (page === null || fromVersion >= toVersion) {
+      return page;
+    }
+    const revisions = await this.prisma.noteRevision.findMany({
+      where: { noteId, version: { gt: fromVersion, lte: toVersion } },
+      orderBy: { version: 'asc' },
+      select: { pageCount: true, pageMapJson: true },
+    });
+
+    return revisions.reduce((current, revision) => {
+      const pageMap =
+        revision.pageMapJson &&
+        typeof revision.pageMapJson === 'object' &&
+        !Array.isArray(revision.pageMapJson)
+          ? (revision.pageMapJson as Record<string, unknown>)
+          : {};
+      const mapped = pageMap[String(current)];
+      const next = typeof mapped === 'number' ? mapped : current;
+      return revision.pageCount ? Math.min(next, revision.pageCount) : next;
+    }, page);
+  }
 }
@@ -0,0 +1,389 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import {
+  NoteSecurityAction,
+  NoteSecurityPolicy,
+  NoteSecurityPolicyTrigger,
+  NoteSecuritySignal,
+  Prisma,
+  UserStatus,
+  UserType,
+} from '@prisma/client';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import {
+  NoteSecurityActionQueryDto,
+  NoteSecurityPolicyCreateDto,
+  NoteSecurityPolicyUpdateDto,
+} from './dto';
+
+type AppliedAction = Prisma.NoteSecurityActionLogCreateManyInput;
+
+/**
+ * Automated responses to note security signals. Every new signal is run
+ * through the active policies; a policy that reaches its threshold applies
+ * its actions and records them in the action log, which is also what the
+ * repeat-offender (NOTE_BANS) policies count.
+ */
+@Injectable()
+export class NoteSecurityPolicyService {
+  private readonly logger = new Logger(NoteSecurityPolicyService.name);
+  private running = false;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async listPolicies() {
+    return this.prisma.noteSecurityPolicy.findMany({
+      orderBy: [{ trigger: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async createPolicy(dto: NoteSecurityPolicyCreateDto) {
+    try {
+      return await this.prisma.noteSecurityPolicy.create({
+        data: {
+          name: dto.name.trim(),
+          description: dto.description?.trim() || undefined,
+          isActive: dto.isActive,
+          trigger: dto.trigger,
+          signalType: dto.signalType,
+          perNote: dto.perNote,
+          threshold: dto.threshold,
+          windowMinutes: dto.windowMinutes,
+          actions: dto.actions,
+          banHours: dto.banHours,
+        },
+      });
+    } catch (error) {
+      this.handleNameConflict(error);
+      throw error;
+    }
+  }
+
+  async updatePolicy(policyId: string, dto: NoteSecurityPolicyUpdateDto) {
+    await this.getPolicy(policyId);
+    try {
+      return await this.prisma.noteSecurityPolicy.update({
+        where: { id: policyId },
+        data: {
+          name: dto.name?.trim() || undefined,
+          description:
+            dto.description !== undefined
+              ? dto.description.trim() || null
+              : undefined,
+          isActive: dto.isActive,
+          trigger: dto.trigger,
+          signalType: dto.signalType,
+          perNote: dto.perNote,
+          threshold: dto.threshold,
+          windowMinutes: dto.windowMinutes,
+          actions: dto.actions,
+          banHours: dto.banHours,
+        },
+      });
+    } catch (error) {
+      this.handleNameConflict(error);
+      throw error;
+    }
+  }
+
+  /** Past actions stay in the log without their policy. */
+  async deletePolicy(policyId: string) {
+    await this.getPolicy(policyId);
+    await this.prisma.noteSecurityPolicy.delete({ where: { id: policyId } });
+    return { success: true };
+  }
+
+  async listActions(query: NoteSecurityActionQueryDto) {
+    const page = Math.max(Number(query.page ?? 1), 1);
+    const pageSize = Math.min(Math.max(Number(query.pageSize ?? 20), 1), 100);
+    const where: Prisma.NoteSecurityActionLogWhereInput = {
+      userId: query.userId ?? undefined,
+      noteId: query.noteId ?? undefined,
+      policyId: query.policyId ?? undefined,
+      action: query.action ?? undefined,
+    };
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.noteSecurityActionLog.count({ where }),
+      this.prisma.noteSecurityActionLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          policy: { select: { id: true, name: true } },
+          note: { select: { id: true, title: true } },
+          user: { select: { id: true, fullName: true, email: true } },
+        },
+      }),
+    ]);
+
+    return { data, total, page, pageSize };
+  }
+
+  /**
+   * Runs the active policies against a newly recorded signal. Never throws:
+   * a failing policy must not fail the request that raised the signal.
+   */
+  async evaluateSignal(signal: NoteSecuritySignal) {
+    if (!signal.userId) {
+      return [];
+    }
+    try {
+      // Enum order puts SIGNALS first, so bans applied for this signal are
+      // already counted by the NOTE_BANS policies.
+      const policies = await this.prisma.noteSecurityPolicy.findMany({
+        where: { isActive: true },
+        orderBy: [{ trigger: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      const applied: AppliedAction[] = [];
+      for (const policy of policies) {
+        const count = await this.countTriggerEvents(policy, signal);
+        if (count >= policy.threshold) {
+          applied.push(...(await this.applyPolicy(policy, signal, count)));
+        }
+      }
+      return applied;
+    } catch (err) {
+      this.logger.warn(
+        `Security policy evaluation for signal ${signal.id} failed: ${(err as Error)?.message ?? String(err)}`,
+      );
+      return [];
+    }
+  }
+
+  @Interval(60000)
+  async expireBans() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const now = new Date();
+      const { count } = await this.prisma.noteAccessBan.updateMany({
+        where: { revokedAt: null, expiresAt: { lte: now } },
+        data: { revokedAt: now },
+      });
+      if (count) {
+        this.logger.log(`Lifted ${count} expired note bans.`);
+      }
+    } catch (err) {
+      this.logger.warn(
+        `Note ban expiry failed: ${(err as Error)?.message ?? String(err)}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Events inside the policy window. The window restarts whenever the policy
+   * fires for the same user (and note), so one burst triggers it only once.
+   */
+  private async countTriggerEvents(
+    policy: NoteSecurityPolicy,
+    signal: NoteSecuritySignal,
+  ) {
+    const userId = signal.userId as string;
+    const bySignals = policy.trigger === NoteSecurityPolicyTrigger.SIGNALS;
+    if (
+      bySignals &&
+      policy.signalType &&
+      policy.signalType !== signal.signalType
+    ) {
+      return 0;
+    }
+
+    const noteId = bySignals && policy.perNote ? signal.noteId : undefined;
+    const windowStart = new Date(Date.now() - policy.windowMinutes * 60 * 1000);
+    const lastFired = await this.prisma.noteSecurityActionLog.findFirst({
+      where: { policyId: policy.id, userId, noteId },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+    const since =
+      lastFired && lastFired.createdAt > windowStart
+        ? lastFired.createdAt
+        : windowStart;
+
+    if (bySignals) {
+      return this.prisma.noteSecuritySignal.count({
+        where: {
+          userId,
+          noteId,
+          signalType: policy.signalType ?? undefined,
+          createdAt: { gt: since },
+        },
+      });
+    }
+    return this.prisma.noteSecurityActionLog.count({
+      where: {
+        userId,
+        action: NoteSecurityAction.BAN_NOTE,
+        createdAt: { gt: since },
+      },
+    });
+  }
+
+  private async applyPolicy(
+    policy: NoteSecurityPolicy,
+    signal: NoteSecuritySignal,
+    count: number,
+  ) {
+    const userId = signal.userId as string;
+    const now = new Date();
+    const perNote =
+      policy.trigger === NoteSecurityPolicyTrigger.SIGNALS && policy.perNote;
+    const trigger = {
+      signalType: signal.signalType,
+      count,
+      threshold: policy.threshold,
+      windowMinutes: policy.windowMinutes,
+    };
+    const applied: AppliedAction[] = [];
+    const record = (
+      action: NoteSecurityAction,
+      details: Record<string, unknown>,
+    ) =>
+      applied.push({
+        policyId: policy.id,
+        userId,
+        noteId: signal.noteId,
+        signalId: signal.id,
+        action,
+        detailsJson: { ...trigger, ...details },
+      });
+
+    for (const action of policy.actions) {
+      if (action === NoteSecurityAction.REVOKE_SESSIONS) {
+        const { count: revoked } = await this.prisma.noteViewSession.updateMany(
+          {
+            where: {
+              userId,
+              noteId: perNote ? signal.noteId : undefined,
+              revokedAt: null,
+            },
+            data: { revokedAt: now },
+          },
+        );
+        record(action, { revoked, scope: perNote ? 'NOTE' : 'ALL_NOTES' });
+      } else if (action === NoteSecurityAction.BAN_NOTE) {
+        const expiresAt = await this.banFromNote(policy, signal, now);
+        if (expiresAt !== undefined) {
+          record(action, { expiresAt });
+        }
+      } else if (action === NoteSecurityAction.BLOCK_ACCOUNT) {
+        if (await this.blockAccount(userId, now)) {
+          record(action, {});
+        }
+      }
+    }
+
+    if (applied.length) {
+      await this.prisma.noteSecurityActionLog.createMany({ data: applied });
+      this.logger.log(
+        `Policy "${policy.name}" applied ${applied.map((item) => item.action).join(', ')} to user ${userId}.`,
+      );
+    }
+    return applied;
+  }
+
+  /**
+   * Bans the user from the signalled note. An active ban that already lasts
+   * longer is left alone; returns undefined in that case.
+   */
+  private async banFromNote(
+    policy: NoteSecurityPolicy,
+    signal: NoteSecuritySignal,
+    now: Date,
+  ) {
+    const userId = signal.userId as string;
+    const expiresAt = policy.banHours
+      ? new Date(now.getTime() + policy.banHours * 60 * 60 * 1000)
+      : null;
+    const existing = await this.prisma.noteAccessBan.findUnique({
+      where: { noteId_userId: { noteId: signal.noteId, userId } },
+      select: { revokedAt: true, expiresAt: true },
+    });
+    const active =
+      existing &&
+      !existing.revokedAt &&
+      (!existing.expiresAt || existing.expiresAt > now);
+    if (
+      active &&
+      (!existing.expiresAt || (expiresAt && existing.expiresAt >= expiresAt))
+    ) {
+      return undefined;
+    }
+
+    const reason = `Automated: ${policy.name}`;
+    await this.prisma.noteAccessBan.upsert({
+      where: { noteId_userId: { noteId: signal.noteId, userId } },
+      update: { revokedAt: null, expiresAt, reason },
+      create: { noteId: signal.noteId, userId, expiresAt, reason },
+    });
+    return expiresAt;
+  }
+
+  // Students only; staff accounts are never blocked automatically.
+  private async blockAccount(userId: string, now: Date) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { type: true, status: true },
+    });
+    if (
+      !user ||
+      user.type !== UserType.STUDENT ||
+      user.status === UserStatus.BLOCKED
+    ) {
+      return false;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { status: UserStatus.BLOCKED, activeStudentSessionId: null },
+      }),
+      this.prisma.refreshSession.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+      this.prisma.noteViewSession.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+    ]);
+    return true;
+  }
+
+  private async getPolicy(policyId: string) {
+    const policy = await this.prisma.noteSecurityPolicy.findUnique({
+      where: { id: policyId },
+    });
+    if (!policy) {
+      throw new NotFoundException({
+        code: 'NOTE_SECURITY_POLICY_NOT_FOUND',
+        message: 'Security policy not found.',
+      });
+    }
+    return policy;
+  }
+
+  private handleNameConflict(error: unknown) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      throw new ConflictException({
+        code: 'NOTE_SECURITY_POLICY_NAME_TAKEN',
+        message: 'A security policy with this name already exists.',
+      });
+    }
+  }
+}
@@ -0,0 +1,380 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import {
+  NoteOfflineLicense,
+  NoteSecuritySignalType,
+  NoteViewSession,
+} from '@prisma/client';
+import { createHash, createHmac } from 'crypto';
+import { canEncodePdfText, searchPdfText } from '../../common/utils/pdf';
+import { stampPdfPagesInWorker } from '../../common/utils/pdf-stamp.worker';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { MinioService } from '../files/minio.service';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { NoteWatermarkTraceDto } from './dto';
+import { NoteSecurityPolicyService } from './note-security-policy.service';
+
+const STAMPED_PREFIX = 'watermarked/notes';
+// Hidden in the text layer of every stamped page.
+const TOKEN_PATTERN = /WM-([0-9a-f]{32})-([0-9a-f]{8})/;
+// Printed in the visible footer, for copies that lost the hidden token.
+const REFERENCE_PATTERN = /Ref ([0-9a-f]{12})\b/;
+const REFERENCE_LENGTH = 12;
+const MAX_TRACE_MATCHES = 20;
+const CLEANUP_BATCH = 100;
+
+type TraceMatch = { seed: string; verified: boolean };
+// Anything a copy is stamped for: a view session or an offline license.
+type StampTarget = Pick<
+  NoteViewSession,
+  'noteId' | 'userId' | 'watermarkSeed' | 'createdAt'
+>;
+
+/**
+ * Server-side watermarking of note PDFs. Each view session and offline
+ * license gets its own stamped copy carrying the viewer's identity, visible
+ * on the page and hidden in the text layer, so a leaked file can be traced
+ * back to the session or license and user it was served to. Stamping runs
+ * on a worker thread and each copy is stored for reuse.
+ */
+@Injectable()
+export class NoteWatermarkService {
+  private readonly logger = new Logger(NoteWatermarkService.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly minioService: MinioService,
+    private readonly siteSettings: SiteSettingsService,
+    private readonly noteSecurityPolicyService: NoteSecurityPolicyService,
+  ) {}
+
+  isStampingEnabled() {
+    return this.siteSettings.getBoolean('NOTE_PDF_STAMPING_ENABLED', false);
+  }
+
+  /**
+   * Object key of the session's stamped copy, stamped on first use. The
+   * stamp only depends on the session, so concurrent first requests write
+   * identical bytes and range requests stay consistent.
+   */
+  async getStampedObjectKey(session: NoteViewSession, sourceKey: string) {
+    if (session.stampedObjectKey) {
+      const exists = await this.minioService
+        .statObject(session.stampedObjectKey)
+        .then(() => true)
+        .catch(() => false);
+      if (exists) {
+        return session.stampedObjectKey;
+      }
+    }
+
+    const stamped = await this.renderStampedCopy(session, sourceKey);
+    const objectKey = `${STAMPED_PREFIX}/${session.noteId}/${session.id}.pdf`;
+    await this.minioService.uploadObject(objectKey, stamped, 'application/pdf');
+    await this.prisma.noteViewSession.update({
+      where: { id: session.id },
+      data: { stampedObjectKey: objectKey, stampedAt: new Date() },
+    });
+    return objectKey;
+  }
+
+  /**
+   * Object key of the license's stamped copy. Licenses outlive note
+   * revisions, so the key names the source it was stamped from and a new
+   * upload is stamped again.
+   */
+  async getLicenseStampedObjectKey(
+    license: NoteOfflineLicense,
+    sourceKey: string,
+  ) {
+    const digest = createHash('sha256')
+      .update(sourceKey)
+      .digest('hex')
+      .slice(0, 16);
+    const objectKey = `${STAMPED_PREFIX}/${license.noteId}/licenses/${license.id}/${digest}.pdf`;
+    if (license.stampedObjectKey === objectKey) {
+      const exists = await this.minioService
+        .statObject(objectKey)
+        .then(() => true)
+        .catch(() => false);
+      if (exists) {
+        return objectKey;
+      }
+    }
+
+    const stamped = await this.renderStampedCopy(license, sourceKey);
+    await this.minioService.uploadObject(objectKey, stamped, 'application/pdf');
+    await this.prisma.noteOfflineLicense.update({
+      where: { id: license.id },
+      data: { stampedObjectKey: objectKey },
+    });
+    if (license.stampedObjectKey && license.stampedObjectKey !== objectKey) {
+      await this.minioService
+        .removeObject(license.stampedObjectKey)
+        .catch(() => undefined);
+    }
+    return objectKey;
+  }
+
+  private async renderStampedCopy(target: StampTarget, sourceKey: string) {
+    const [user, source] = await Promise.all([
+      this.prisma.user.findUnique({
+        where: { id: target.userId },
+        select: { fullName: true, email: true },
+      }),
+      this.readObject(sourceKey),
+    ]);
+    if (!user) {
+      throw new NotFoundException({
+        code: 'USER_NOT_FOUND',
+        message: 'User not found.',
+      });
+    }
+
+    try {
+      return await stampPdfPagesInWorker(source, this.buildStamp(target, user));
+    } catch (err) {
+      this.logger.warn(
+        `Stamping note ${target.noteId} failed: ${(err as Error)?.message ?? String(err)}`,
+      );
+      throw new UnprocessableEntityException({
+        code: 'NOTE_WATERMARK_FAILED',
+        message: 'Note content could not be watermarked.',
+      });
+    }
+  }
+
+  /**
+   * Identifies the view sessions or offline licenses a leaked PDF was served
+   * to, from its hidden tokens and footer references, or from a reference
+   * typed in by hand.
+   * Matches on a verified token are recorded once per session or license as
+   * a LEAK_TRACED security signal.
+   */
+  async traceLeak(
+    adminUserId: string,
+    file: Buffer | undefined,
+    dto: NoteWatermarkTraceDto,
+  ) {
+    const reference = dto.reference?.toLowerCase();
+    if (!file?.length && !reference) {
+      throw new BadRequestException({
+        code: 'NOTE_TRACE_INPUT_REQUIRED',
+        message: 'Upload the leaked PDF or enter a watermark reference.',
+      });
+    }
+
+    const tokens = new Map<string, TraceMatch>();
+    const references = new Set<string>(reference ? [reference] : []);
+    if (file?.length) {
+      searchPdfText(file, TOKEN_PATTERN).forEach((text) => {
+        const [, seed, mac] = TOKEN_PATTERN.exec(text) ?? [];
+        tokens.set(seed, { seed, verified: this.sign(seed).startsWith(mac) });
+      });
+      searchPdfText(file, REFERENCE_PATTERN).forEach((text) => {
+        references.add((REFERENCE_PATTERN.exec(text) ?? [])[1]);
+      });
+    }
+    if (!tokens.size && !references.size) {
+      return { tokens: [], references: [], matches: [] };
+    }
+
+    const seedFilter = {
+      OR: [
+        { watermarkSeed: { in: Array.from(tokens.keys()) } },
+        ...Array.from(references).map((value) => ({
+          watermarkSeed: { startsWith: value },
+        })),
+      ],
+    };
+    const sessions = await this.prisma.noteViewSession.findMany({
+      where: seedFilter,
+      orderBy: { createdAt: 'desc' },
+      take: MAX_TRACE_MATCHES,
+      select: {
+        id: true,
+        noteId: true,
+        watermarkSeed: true,
+        ip: true,
+        userAgent: true,
+        expiresAt: true,
+        revokedAt: true,
+        stampedAt: true,
+        createdAt: true,
+        note: { select: { id: true, title: true } },
+        user: { select: { id: true, fullName: true, email: true } },
+      },
+    });
+    // Offline copies carry their license's seed instead.
+    const licenses = await this.prisma.noteOfflineLicense.findMany({
+      where: seedFilter,
+      orderBy: { createdAt: 'desc' },
+      take: MAX_TRACE_MATCHES,
+      select: {
+        id: true,
+        noteId: true,
+        deviceId: true,
+        watermarkSeed: true,
+        expiresAt: true,
+        revokedAt: true,
+        downloadedAt: true,
+        createdAt: true,
+        note: { select: { id: true, title: true } },
+        user: { select: { id: true, fullName: true, email: true } },
+      },
+    });
+
+    const describe = (watermarkSeed: string) => ({
+      matchedBy: tokens.has(watermarkSeed) ? 'TOKEN' : 'REFERENCE',
+      verified: tokens.get(watermarkSeed)?.verified ?? false,
+    });
+    const matches = [
+      ...sessions.map(({ watermarkSeed, ...session }) => ({
+        ...session,
+        source: 'VIEW_SESSION',
+        ...describe(watermarkSeed),
+      })),
+      ...licenses.map(({ watermarkSeed, ...license }) => ({
+        ...license,
+        source: 'OFFLINE_LICENSE',
+        ...describe(watermarkSeed),
+      })),
+    ];
+    // Only a verified token proves the copy was ours; references can be typed
+    // in or forged, so they never feed the automatic policies.
+    for (const match of matches) {
+      if (match.matchedBy !== 'TOKEN' || !match.verified) {
+        continue;
+      }
+      const sourceKey =
+        match.source === 'VIEW_SESSION' ? 'viewSessionId' : 'offlineLicenseId';
+      const traced = await this.prisma.noteSecuritySignal.count({
+        where: {
+          signalType: NoteSecuritySignalType.LEAK_TRACED,
+          metaJson: { path: [sourceKey], equals: match.id },
+        },
+      });
+      if (traced) {
+        continue;
+      }
+      const signal = await this.prisma.noteSecuritySignal.create({
+        data: {
+          noteId: match.noteId,
+          userId: match.user.id,
+          signalType: NoteSecuritySignalType.LEAK_TRACED,
+          metaJson: {
+            source: match.source,
+            [sourceKey]: match.id,
+            matchedBy: match.matchedBy,
+            verified: match.verified,
+            tracedByUserId: adminUserId,
+          },
+        },
+      });
+      await this.noteSecurityPolicyService.evaluateSignal(signal);
+    }
+
+    return {
+      tokens: Array.from(tokens.values()),
+      references: Array.from(references),
+      matches,
+    };
+  }
+
+  @Interval(10 * 60 * 1000)
+  async cleanupStampedCopies() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const sessions = await this.prisma.noteViewSession.findMany({
+        where: {
+          stampedObjectKey: { not: null },
+          OR: [{ expiresAt: { lt: new Date() } }, { revokedAt: { not: null } }],
+        },
+        take: CLEANUP_BATCH,
+        select: { id: true, stampedObjectKey: true },
+      });
+      for (const session of sessions) {
+        await this.minioService.removeObject(
+          session.stampedObjectKey as string,
+        );
+        await this.prisma.noteViewSession.update({
+          where: { id: session.id },
+          data: { stampedObjectKey: null },
+        });
+      }
+      const licenses = await this.prisma.noteOfflineLicense.findMany({
+        where: {
+          stampedObjectKey: { not: null },
+          OR: [{ expiresAt: { lt: new Date() } }, { revokedAt: { not: null } }],
+        },
+        take: CLEANUP_BATCH,
+        select: { id: true, stampedObjectKey: true },
+      });
+      for (const license of licenses) {
+        await this.minioService.removeObject(
+          license.stampedObjectKey as string,
+        );
+        await this.prisma.noteOfflineLicense.update({
+          where: { id: license.id },
+          data: { stampedObjectKey: null },
+        });
+      }
+    } catch (err) {
+      this.logger.warn(
+        `Stamped copy cleanup failed: ${(err as Error)?.message ?? String(err)}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Uses the session start, not the request time, so restamping a copy
+  // yields the same bytes. Names the stamp font cannot draw (Devanagari and
+  // other scripts) give way to the email or the user id.
+  private buildStamp(
+    target: StampTarget,
+    user: { fullName: string | null; email: string | null },
+  ) {
+    const [name = target.userId, email] = [user.fullName, user.email].filter(
+      (value): value is string => !!value && canEncodePdfText(value),
+    );
+    const identity = email && email !== name ? `${name} · ${email}` : name;
+    const issuedAt = `${target.createdAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+    const reference = target.watermarkSeed.slice(0, REFERENCE_LENGTH);
+    return {
+      diagonalText: identity,
+      footerText: `Licensed to ${identity} · ${issuedAt} · Ref ${reference}`,
+      hiddenText: `WM-${target.watermarkSeed}-${this.sign(target.watermarkSeed).slice(0, 8)}`,
+    };
+  }
+
+  private async readObject(objectKey: string) {
+    const stream = await this.minioService.getObjectStream(objectKey);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(
+        Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string),
+      );
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private sign(data: string) {
+    const secret =
+      this.configService.get<string>('WATERMARK_SECRET') ??
+      'change_me_watermark';
+    return createHmac('sha256', secret).update(data).digest('hex');
+  }
+}
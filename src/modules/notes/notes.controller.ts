@@ -1,10 +1,22 @@
-import { Body, Controller, Get, Param, Post, Query, Req, Res, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { Request, Response } from 'express';
 import { CurrentUser, Public } from '../../common/decorators';
 import { JwtAuthGuard, OptionalJwtAuthGuard } from '../auth/guards';
-import { NoteProgressDto, NoteQueryDto } from './dto';
+import { NoteOfflineSyncDto, NoteProgressDto, NoteQueryDto } from './dto';
 import { NoteAccessService } from './note-access.service';
+import { NoteOfflineService } from './note-offline.service';
 import { NoteProgressService } from './note-progress.service';
 import { NotesService } from './notes.service';
 
@@ -14,13 +26,18 @@ export class NotesController {
   constructor(
     private readonly notesService: NotesService,
     private readonly noteAccessService: NoteAccessService,
+    private readonly noteOfflineService: NoteOfflineService,
     private readonly noteProgressService: NoteProgressService,
   ) {}
 
   @Public()
+  @UseGuards(OptionalJwtAuthGuard)
   @Get()
-  listNotes(@Query() query: NoteQueryDto) {
-    return this.notesService.listNotes(query);
+  listNotes(
+    @Query() query: NoteQueryDto,
+    @CurrentUser() user: { userId: string } | undefined,
+  ) {
+    return this.notesService.listNotes(query, user?.userId);
   }
 
   @Public()
@@ -29,6 +46,22 @@ export class NotesController {
     return this.notesService.getNotesTree();
   }
 
+  @Public()
+  @Get('offline/public-key')
+  getOfflinePublicKey() {
+    return this.noteOfflineService.getPublicKey();
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Post('offline/sync')
+  syncOffline(
+    @CurrentUser() user: { userId: string; sid?: string },
+    @Body() dto: NoteOfflineSyncDto,
+  ) {
+    return this.noteOfflineService.sync(user.userId, user.sid, dto);
+  }
+
   @Public()
   @Get(':noteId')
   getNote(@Param('noteId') noteId: string) {
@@ -40,12 +73,13 @@ export class NotesController {
   @Post(':noteId/view-session')
   createViewSession(
     @Param('noteId') noteId: string,
-    @CurrentUser() user: { userId: string },
+    @CurrentUser() user: { userId: string; sid?: string },
     @Req() req: Request,
   ) {
     return this.noteAccessService.createViewSession(noteId, user.userId, {
       ip: req.ip,
       userAgent: req.get('user-agent'),
+      sessionId: user.sid,
     });
   }
 
@@ -114,6 +148,51 @@ export class NotesController {
     stream.pipe(res);
   }
 
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Post(':noteId/offline-license')
+  issueOfflineLicense(
+    @Param('noteId') noteId: string,
+    @CurrentUser() user: { userId: string; sid?: string },
+  ) {
+    return this.noteOfflineService.issueLicense(noteId, user.userId, user.sid);
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Get(':noteId/offline-license/:licenseId/content')
+  async getOfflineContent(
+    @Param('noteId') noteId: string,
+    @Param('licenseId') licenseId: string,
+    @CurrentUser() user: { userId: string; sid?: string },
+    @Res() res: Response,
+  ) {
+    const { stream, contentType, contentLength } =
+      await this.noteOfflineService.downloadContent(
+        noteId,
+        licenseId,
+        user.userId,
+        user.sid,
+      );
+
+    res.status(200);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Content-Length', contentLength);
+    stream.pipe(res);
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Delete(':noteId/offline-license/:licenseId')
+  returnOfflineLicense(
+    @Param('noteId') noteId: string,
+    @Param('licenseId') licenseId: string,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.noteOfflineService.returnLicense(noteId, licenseId, user.userId);
+  }
+
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
   @Post(':noteId/progress')
@@ -7,7 +7,10 @@ import { FilesModule } from '../files/files.module';
 import { PaymentsModule } from '../payments/payments.module';
 import { AdminNotesController } from './admin-notes.controller';
 import { NoteAccessService } from './note-access.service';
+import { NoteOfflineService } from './note-offline.service';
 import { NoteProgressService } from './note-progress.service';
+import { NoteSecurityPolicyService } from './note-security-policy.service';
+import { NoteWatermarkService } from './note-watermark.service';
 import { NotesController } from './notes.controller';
 import { NotesService } from './notes.service';
 
@@ -21,7 +24,14 @@ import { NotesService } from './notes.service';
     PaymentsModule,
   ],
   controllers: [NotesController, AdminNotesController],
-  providers: [NotesService, NoteAccessService, NoteProgressService],
+  providers: [
+    NotesService,
+    NoteAccessService,
+    NoteOfflineService,
+    NoteProgressService,
+    NoteSecurityPolicyService,
+    NoteWatermarkService,
+  ],
   exports: [NotesService],
 })
 export class NotesModule {}
@@ -4,6 +4,7 @@ import { AssetResourceType, Prisma } from '@prisma/client';
 import {
   CreateNoteDto,
   NoteQueryDto,
+  NoteRevisionRestoreDto,
   NoteSecurityQueryDto,
   NoteSecuritySummaryQueryDto,
   UpdateNoteDto,
@@ -39,6 +40,16 @@ export class NotesService {
       },
     });
 
+    await this.prisma.noteRevision.create({
+      data: {
+        noteId: note.id,
+        version: note.version,
+        fileAssetId: dto.fileAssetId,
+        pageCount: dto.pageCount,
+        createdByUserId: userId,
+      },
+    });
+
     if (topics.length) {
       await this.prisma.noteTopic.createMany({
         data: topics.map((topic) => ({ noteId: note.id, topicId: topic.id })),
@@ -54,7 +65,12 @@ export class NotesService {
     return note;
   }
 
-  async updateNote(noteId: string, dto: UpdateNoteDto) {
+  /**
+   * Replacing the file of a note that already has one starts a new revision;
+   * readers of older revisions carry on with the new one, their last page
+   * moved through `pageMap`.
+   */
+  async updateNote(noteId: string, dto: UpdateNoteDto, userId?: string) {
     const note = await this.prisma.note.findUnique({ where: { id: noteId } });
     if (!note) {
       throw new NotFoundException({
@@ -73,9 +89,15 @@ export class NotesService {
       subject.name,
       resolvedTopics.map((topic) => topic.name),
     );
+    const isNewRevision =
+      Boolean(note.fileAssetId && dto.fileAssetId) &&
+      dto.fileAssetId !== note.fileAssetId;
+    const pageMap = isNewRevision
+      ? this.parsePageMap(dto.pageMap, dto.pageCount)
+      : undefined;
 
     await this.prisma.$transaction(async (tx) => {
-      await tx.note.update({
+      const updated = await tx.note.update({
         where: { id: noteId },
         data: {
           title: dto.title ?? undefined,
@@ -83,11 +105,43 @@ export class NotesService {
           isPremium: dto.isPremium ?? undefined,
           isPublished: dto.isPublished ?? undefined,
           fileAssetId: dto.fileAssetId ?? undefined,
-          pageCount: dto.pageCount ?? undefined,
+          // The old page count says nothing about a new file.
+          pageCount: dto.pageCount ?? (isNewRevision ? null : undefined),
+          version: isNewRevision ? { increment: 1 } : undefined,
           searchText,
         },
       });
 
+      if (isNewRevision) {
+        await tx.noteRevision.create({
+          data: {
+            noteId,
+            version: updated.version,
+            fileAssetId: updated.fileAssetId,
+            pageCount: updated.pageCount,
+            changeNote: dto.changeNote?.trim() || undefined,
+            pageMapJson: pageMap,
+            createdByUserId: userId,
+          },
+        });
+      } else if (dto.fileAssetId || dto.pageCount !== undefined) {
+        // A first file or a corrected page count belongs to the current revision.
+        await tx.noteRevision.upsert({
+          where: { noteId_version: { noteId, version: updated.version } },
+          update: {
+            fileAssetId: updated.fileAssetId,
+            pageCount: updated.pageCount,
+          },
+          create: {
+            noteId,
+            version: updated.version,
+            fileAssetId: updated.fileAssetId,
+            pageCount: updated.pageCount,
+            createdByUserId: userId,
+          },
+        });
+      }
+
       if (dto.topicIds) {
         await tx.noteTopic.deleteMany({ where: { noteId } });
         if (resolvedTopics.length) {
@@ -110,6 +164,126 @@ export class NotesService {
     return this.prisma.note.findUnique({ where: { id: noteId }, include: { topics: true } });
   }
 
+  async listRevisions(noteId: string) {
+    const note = await this.prisma.note.findUnique({
+      where: { id: noteId },
+      select: { id: true, version: true },
+    });
+    if (!note) {
+      throw new NotFoundException({
+        code: 'NOTE_NOT_FOUND',
+        message: 'Note not found.',
+      });
+    }
+
+    const [revisions, readers] = await Promise.all([
+      this.prisma.noteRevision.findMany({
+        where: { noteId },
+        orderBy: { version: 'desc' },
+        include: {
+          fileAsset: {
+            select: { id: true, fileName: true, sizeBytes: true },
+          },
+          createdBy: { select: { id: true, fullName: true, email: true } },
+        },
+      }),
+      this.prisma.noteProgress.groupBy({
+        by: ['noteVersion'],
+        where: { noteId },
+        _count: { _all: true },
+      }),
+    ]);
+    const readerCounts = new Map(
+      readers.map((row) => [row.noteVersion, row._count._all]),
+    );
+
+    return {
+      noteId,
+      currentVersion: note.version,
+      data: revisions.map((revision) => ({
+        ...revision,
+        isCurrent: revision.version === note.version,
+        readers: readerCounts.get(revision.version) ?? 0,
+      })),
+    };
+  }
+
+  /**
+   * Rolls the note back to the file of an earlier revision. The rollback is
+   * recorded as a new revision, so readers move forward to it like to any
+   * other update and the history stays append-only.
+   */
+  async restoreRevision(
+    noteId: string,
+    version: number,
+    userId: string,
+    dto: NoteRevisionRestoreDto,
+  ) {
+    const note = await this.prisma.note.findUnique({
+      where: { id: noteId },
+      select: { id: true, version: true },
+    });
+    if (!note) {
+      throw new NotFoundException({
+        code: 'NOTE_NOT_FOUND',
+        message: 'Note not found.',
+      });
+    }
+    const revision = await this.prisma.noteRevision.findUnique({
+      where: { noteId_version: { noteId, version } },
+    });
+    if (!revision) {
+      throw new NotFoundException({
+        code: 'NOTE_REVISION_NOT_FOUND',
+        message: 'Note revision not found.',
+      });
+    }
+    if (version === note.version) {
+      throw new BadRequestException({
+        code: 'NOTE_REVISION_CURRENT',
+        message: 'This revision is already the current one.',
+      });
+    }
+    if (!revision.fileAssetId) {
+      throw new BadRequestException({
+        code: 'NOTE_REVISION_FILE_MISSING',
+        message: 'The file of this revision is no longer available.',
+      });
+    }
+    const fileAssetId = revision.fileAssetId;
+
+    await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.note.update({
+        where: { id: noteId },
+        data: {
+          fileAssetId,
+          pageCount: revision.pageCount,
+          version: { increment: 1 },
+        },
+      });
+      await tx.noteRevision.create({
+        data: {
+          noteId,
+          version: updated.version,
+          fileAssetId,
+          pageCount: revision.pageCount,
+          changeNote: dto.changeNote?.trim() || undefined,
+          restoredFromVersion: version,
+          createdByUserId: userId,
+        },
+      });
+      await tx.assetReference.deleteMany({
+        where: { resourceType: AssetResourceType.NOTE, resourceId: noteId },
+      });
+      await this.createAssetReference(fileAssetId, noteId, tx);
+    });
+
+    return this.prisma.note.findUnique({
+      where: { id: noteId },
+      include: { topics: true },
+    });
+  }
+
   async publishNote(noteId: string) {
     return this.prisma.note.update({
       where: { id: noteId },
@@ -180,7 +354,11 @@ export class NotesService {
     return { data, total, page, pageSize };
   }
 
-  async listNotes(query: NoteQueryDto) {
+  /**
+   * Published notes. For a signed-in reader, `updatedSinceLastRead` flags
+   * notes that got a new revision after the one they last read.
+   */
+  async listNotes(query: NoteQueryDto, userId?: string) {
     const where = {
       isPublished: true,
       subjectId: query.subjectId ?? undefined,
@@ -188,7 +366,7 @@ export class NotesService {
       topics: query.topicId ? { some: { topicId: query.topicId } } : undefined,
     };
 
-    return this.prisma.note.findMany({
+    const notes = await this.prisma.note.findMany({
       where,
       orderBy: { updatedAt: 'desc' },
       select: {
@@ -198,9 +376,26 @@ export class NotesService {
         description: true,
         isPremium: true,
         pageCount: true,
+        version: true,
         publishedAt: true,
       },
     });
+    const progress =
+      userId && notes.length
+        ? await this.prisma.noteProgress.findMany({
+            where: { userId, noteId: { in: notes.map((note) => note.id) } },
+            select: { noteId: true, noteVersion: true },
+          })
+        : [];
+    const readVersions = new Map(
+      progress.map((row) => [row.noteId, row.noteVersion]),
+    );
+
+    return notes.map((note) => ({
+      ...note,
+      updatedSinceLastRead:
+        (readVersions.get(note.id) ?? note.version) < note.version,
+    }));
   }
 
   async listSecuritySignals(query: NoteSecurityQueryDto) {
@@ -346,7 +541,15 @@ export class NotesService {
       });
     }
 
-    const [signals, activeSessions, activeBans, totalSignals] = await this.prisma.$transaction([
+    const now = new Date();
+    const [
+      signals,
+      activeSessions,
+      activeBans,
+      totalSignals,
+      automatedActions,
+      totalAutomatedActions,
+    ] = await this.prisma.$transaction([
       this.prisma.noteSecuritySignal.findMany({
         where: { userId },
         orderBy: { createdAt: 'desc' },
@@ -354,16 +557,30 @@ export class NotesService {
         include: { note: { select: { id: true, title: true } } },
       }),
       this.prisma.noteViewSession.findMany({
-        where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+        where: { userId, revokedAt: null, expiresAt: { gt: now } },
         orderBy: { createdAt: 'desc' },
         take,
         include: { note: { select: { id: true, title: true } } },
       }),
       this.prisma.noteAccessBan.findMany({
-        where: { userId, revokedAt: null },
+        where: {
+          userId,
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        },
         include: { note: { select: { id: true, title: true } } },
       }),
       this.prisma.noteSecuritySignal.count({ where: { userId } }),
+      this.prisma.noteSecurityActionLog.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take,
+        include: {
+          policy: { select: { id: true, name: true } },
+          note: { select: { id: true, title: true } },
+        },
+      }),
+      this.prisma.noteSecurityActionLog.count({ where: { userId } }),
     ]);
 
     return {
@@ -372,10 +589,12 @@ export class NotesService {
         totalSignals,
         activeSessions: activeSessions.length,
         activeBans: activeBans.length,
+        automatedActions: totalAutomatedActions,
       },
       signals,
       activeSessions,
       activeBans,
+      automatedActions,
     };
   }
 
@@ -518,7 +737,7 @@ export class NotesService {
   async banUser(noteId: string, userId: string, reason?: string) {
     return this.prisma.noteAccessBan.upsert({
       where: { noteId_userId: { noteId, userId } },
-      update: { revokedAt: null, reason },
+      update: { revokedAt: null, expiresAt: null, reason },
       create: { noteId, userId, reason },
     });
   }
@@ -598,6 +817,33 @@ export class NotesService {
     });
   }
 
+  /** Keys are pages of the previous file, values pages of the new one. */
+  private parsePageMap(
+    pageMap: Record<string, number> | undefined,
+    pageCount?: number,
+  ) {
+    if (!pageMap) {
+      return undefined;
+    }
+    const invalid = Object.entries(pageMap)
+      .filter(
+        ([from, to]) =>
+          !/^[1-9]\d*$/.test(from) ||
+          !Number.isInteger(to) ||
+          to < 1 ||
+          (pageCount !== undefined && to > pageCount),
+      )
+      .map(([from]) => from);
+    if (invalid.length) {
+      throw new BadRequestException({
+        code: 'NOTE_PAGE_MAP_INVALID',
+        message: 'Page map must map page numbers to pages of the new file.',
+        details: { pages: invalid },
+      });
+    }
+    return pageMap;
+  }
+
   private buildSearchText(
     title: string,
     description?: string,
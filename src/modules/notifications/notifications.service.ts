@@ -100,6 +100,18 @@ const AUTOPAY_RENEWAL_FAILURE_FALLBACK: RenderedTemplate = {
   html: '<p>We could not renew {{planName}} on {{failedAt}}.</p><p>We will retry in {{retryAfterMinutes}} minutes.</p>',
 };
 
+const QUESTION_REPORT_RESOLVED_FALLBACK: RenderedTemplate = {
+  subject: 'Your question report was reviewed',
+  text: 'Thanks for reporting an issue ({{reason}}) on question {{questionId}}. Outcome: {{outcome}}. {{resolutionNote}}',
+  html: '<p>Thanks for reporting an issue ({{reason}}) on question {{questionId}}.</p><p>Outcome: <strong>{{outcome}}</strong></p><p>{{resolutionNote}}</p>',
+};
+
+const TEST_REMINDER_FALLBACK: RenderedTemplate = {
+  subject: '{{testTitle}} starts in {{startsIn}}',
+  text: 'Your registered test {{testTitle}} starts at {{startsAt}} UTC ({{startsIn}} from now). Late entry closes at {{entryClosesAt}} UTC.',
+  html: '<p>Your registered test <strong>{{testTitle}}</strong> starts at {{startsAt}} UTC ({{startsIn}} from now).</p><p>Late entry closes at {{entryClosesAt}} UTC.</p>',
+};
+
 @Injectable()
 export class NotificationsService implements OnModuleInit {
   private readonly logger = new Logger(NotificationsService.name);
@@ -726,6 +738,59 @@ export class NotificationsService implements OnModuleInit {
     });
   }
 
+  async sendQuestionReportResolvedEmail(params: {
+    userId: string;
+    questionId: string;
+    reason: string;
+    outcome: 'FIXED' | 'REJECTED';
+    resolutionNote?: string | null;
+  }) {
+    const appName = this.configService.get<string>('APP_NAME') ?? 'our app';
+
+    return this.sendTemplateToUser({
+      userId: params.userId,
+      channel: NotificationChannel.EMAIL,
+      templateKey: 'questions.report-resolved',
+      payload: {
+        appName,
+        questionId: params.questionId,
+        reason: params.reason,
+        outcome: params.outcome === 'FIXED' ? 'fixed' : 'no change needed',
+        resolutionNote: params.resolutionNote ?? '',
+      },
+      fallback: QUESTION_REPORT_RESOLVED_FALLBACK,
+    });
+  }
+
+  async sendTestReminderEmail(params: {
+    userId: string;
+    testTitle: string;
+    startsAt: Date;
+    entryClosesAt: Date;
+    minutesBefore: number;
+  }) {
+    const appName = this.configService.get<string>('APP_NAME') ?? 'our app';
+    const minutes = Math.max(params.minutesBefore, 1);
+    const startsIn =
+      minutes >= 120 && minutes % 60 === 0
+        ? `${minutes / 60} hours`
+        : `${minutes} minute${minutes === 1 ? '' : 's'}`;
+
+    return this.sendTemplateToUser({
+      userId: params.userId,
+      channel: NotificationChannel.EMAIL,
+      templateKey: 'tests.live-reminder',
+      payload: {
+        appName,
+        testTitle: params.testTitle,
+        startsAt: this.formatDateTime(params.startsAt),
+        entryClosesAt: this.formatDateTime(params.entryClosesAt),
+        startsIn,
+      },
+      fallback: TEST_REMINDER_FALLBACK,
+    });
+  }
+
   @Interval(60000)
   async broadcastTick() {
     const now = new Date();
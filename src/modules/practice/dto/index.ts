@@ -3,3 +3,5 @@ export { PracticeStartDto } from './practice-start.dto';
 export { PracticeAnswerDto } from './practice-answer.dto';
 export { PracticeAnswerBatchDto } from './practice-answer-batch.dto';
 export { PracticeQueryDto } from './practice-query.dto';
+export { MistakeQueryDto, MISTAKE_STATUSES } from './mistake-query.dto';
+export { MistakeUpdateDto } from './mistake-update.dto';
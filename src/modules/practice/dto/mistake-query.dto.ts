@@ -0,0 +1,42 @@
+import { MistakeSource } from '@prisma/client';
+import {
+  IsEnum,
+  IsIn,
+  IsNumberString,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { QUESTION_LOCALES } from '../../question-bank/utils/question-locale.util';
+
+export const MISTAKE_STATUSES = ['OPEN', 'RESOLVED', 'ALL'] as const;
+
+export class MistakeQueryDto {
+  /** Defaults to OPEN. */
+  @IsOptional()
+  @IsIn(MISTAKE_STATUSES)
+  status?: (typeof MISTAKE_STATUSES)[number];
+
+  @IsOptional()
+  @IsEnum(MistakeSource)
+  source?: MistakeSource;
+
+  @IsOptional()
+  @IsString()
+  subjectId?: string;
+
+  @IsOptional()
+  @IsString()
+  topicId?: string;
+
+  @IsOptional()
+  @IsIn(QUESTION_LOCALES)
+  lang?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pageSize?: string;
+}
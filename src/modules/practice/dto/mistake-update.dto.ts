@@ -0,0 +1,14 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class MistakeUpdateDto {
+  /** Empty string clears the note. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+
+  /** Removes the entry from the open notebook, or puts it back. */
+  @IsOptional()
+  @IsBoolean()
+  resolved?: boolean;
+}
@@ -1,5 +1,6 @@
 import { PracticeEventType } from '@prisma/client';
-import { IsBoolean, IsEnum, IsObject, IsOptional, IsString } from 'class-validator';
+import { IsBoolean, IsEnum, IsIn, IsObject, IsOptional, IsString } from 'class-validator';
+import { REVIEW_RATINGS, ReviewRating } from '../utils/spaced-repetition.util';
 
 export class PracticeAnswerDto {
   @IsString()
@@ -16,4 +17,9 @@ export class PracticeAnswerDto {
   @IsOptional()
   @IsEnum(PracticeEventType)
   eventType?: PracticeEventType;
+
+  /** Self-rated recall; defaults from the evaluated answer when omitted. */
+  @IsOptional()
+  @IsIn(REVIEW_RATINGS)
+  rating?: ReviewRating;
 }
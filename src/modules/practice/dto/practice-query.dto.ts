@@ -1,7 +1,12 @@
-import { IsNumberString, IsOptional } from 'class-validator';
+import { IsIn, IsNumberString, IsOptional } from 'class-validator';
+import { QUESTION_LOCALES } from '../../question-bank/utils/question-locale.util';
 
 export class PracticeQueryDto {
   @IsOptional()
   @IsNumberString()
   limit?: string;
+
+  @IsOptional()
+  @IsIn(QUESTION_LOCALES)
+  lang?: string;
 }
@@ -10,6 +10,11 @@ export class PracticeStartDto {
   @IsString()
   topicId?: string;
 
+  /** Draws questions from one of the user's collections, or `default`. */
+  @IsOptional()
+  @IsString()
+  collectionId?: string;
+
   @IsOptional()
   @IsEnum(PracticeMode)
   mode?: PracticeMode;
@@ -19,5 +24,9 @@ export class PracticeStartDto {
   configJson?: {
     count?: number;
     difficulty?: QuestionDifficulty;
+    /** TIMED only: session budget, required. */
+    timeLimitSeconds?: number;
+    /** TIMED only: answers slower than this are marked wrong. */
+    questionTimeLimitSeconds?: number;
   };
 }
@@ -0,0 +1,47 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators';
+import { JwtAuthGuard } from '../auth/guards';
+import { Policy } from '../authorization/decorators';
+import { PolicyGuard } from '../authorization/guards';
+import { MistakeQueryDto, MistakeUpdateDto } from './dto';
+import { PracticeMistakesService } from './practice.mistakes.service';
+
+@ApiTags('practice')
+@Controller('practice/mistakes')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PolicyGuard)
+@Policy('practice.use')
+export class PracticeMistakesController {
+  constructor(private readonly mistakesService: PracticeMistakesService) {}
+
+  @Get()
+  list(
+    @CurrentUser() user: { userId: string },
+    @Query() query: MistakeQueryDto,
+  ) {
+    return this.mistakesService.listMistakes(user.userId, query);
+  }
+
+  @Get('summary')
+  getSummary(@CurrentUser() user: { userId: string }) {
+    return this.mistakesService.getSummary(user.userId);
+  }
+
+  @Patch(':questionId')
+  update(
+    @CurrentUser() user: { userId: string },
+    @Param('questionId') questionId: string,
+    @Body() dto: MistakeUpdateDto,
+  ) {
+    return this.mistakesService.updateMistake(user.userId, questionId, dto);
+  }
+}
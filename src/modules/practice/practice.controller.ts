@@ -31,6 +31,14 @@ export class PracticeController {
     return this.practiceService.endPractice(user.userId, sessionId);
   }
 
+  @Get(':sessionId/summary')
+  getSessionSummary(
+    @CurrentUser() user: { userId: string },
+    @Param('sessionId') sessionId: string,
+  ) {
+    return this.practiceService.getSessionSummary(user.userId, sessionId);
+  }
+
   @Get(':sessionId/next')
   getNextQuestions(
     @CurrentUser() user: { userId: string },
@@ -42,6 +50,7 @@ export class PracticeController {
       user.userId,
       sessionId,
       Number.isNaN(limit ?? NaN) ? undefined : limit,
+      query.lang,
     );
   }
 
@@ -0,0 +1,27 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { PracticeService } from './practice.service';
+
+@Injectable()
+export class PracticeExpiryService {
+  private readonly logger = new Logger(PracticeExpiryService.name);
+
+  constructor(private readonly practiceService: PracticeService) {}
+
+  @Interval(60000)
+  async expiryTick() {
+    try {
+      const result = await this.practiceService.expireOverdueSessions();
+
+      if (result.ended) {
+        this.logger.log(
+          `Practice expiry tick: ended=${result.ended}/${result.scanned}`,
+        );
+      }
+    } catch (err) {
+      this.logger.warn(
+        `Practice expiry tick failed: ${(err as Error)?.message ?? String(err)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,329 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { MistakeSource, PracticeMode, Prisma } from '@prisma/client';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { localizeQuestion } from '../question-bank/utils/question-locale.util';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { MistakeQueryDto, MistakeUpdateDto } from './dto';
+
+type AttemptResult = {
+  questionId: string;
+  status: 'CORRECT' | 'PARTIAL' | 'WRONG' | 'SKIPPED';
+  answerJson: Prisma.JsonValue | null;
+};
+
+export type PracticeMistakeResult = {
+  questionId: string;
+  isCorrect: boolean;
+  answerJson?: Record<string, unknown>;
+};
+
+export type MistakeProgress = {
+  correctStreak: number;
+  resolvedAt: Date | null;
+};
+
+const MISTAKE_QUESTION_SELECT = {
+  id: true,
+  subjectId: true,
+  topicId: true,
+  type: true,
+  difficulty: true,
+  statementJson: true,
+  optionsJson: true,
+  explanationJson: true,
+  correctAnswerJson: true,
+  hasMedia: true,
+} satisfies Prisma.QuestionSelect;
+
+/**
+ * The mistake notebook: every question a student got wrong in a test or in
+ * practice stays open until it is answered correctly enough times in a row
+ * in MISTAKES practice, or the student dismisses it.
+ */
+@Injectable()
+export class PracticeMistakesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly siteSettings: SiteSettingsService,
+  ) {}
+
+  /** Wrong and partially correct answers of a graded attempt. */
+  async recordAttemptResults(
+    userId: string,
+    attemptId: string,
+    results: AttemptResult[],
+  ) {
+    const now = new Date();
+    const wrong = results.filter(
+      (result) => result.status === 'WRONG' || result.status === 'PARTIAL',
+    );
+    if (!wrong.length) {
+      return;
+    }
+
+    await this.prisma.$transaction(
+      wrong.map((result) => {
+        const lastAnswerJson =
+          result.answerJson === null
+            ? Prisma.DbNull
+            : (result.answerJson as Prisma.InputJsonValue);
+        return this.prisma.mistakeEntry.upsert({
+          where: {
+            userId_questionId: { userId, questionId: result.questionId },
+          },
+          update: {
+            attemptWrongCount: { increment: 1 },
+            lastSource: MistakeSource.ATTEMPT,
+            lastAttemptId: attemptId,
+            lastAnswerJson,
+            lastWrongAt: now,
+            correctStreak: 0,
+            resolvedAt: null,
+          },
+          create: {
+            userId,
+            questionId: result.questionId,
+            attemptWrongCount: 1,
+            lastSource: MistakeSource.ATTEMPT,
+            lastAttemptId: attemptId,
+            lastAnswerJson,
+            firstWrongAt: now,
+            lastWrongAt: now,
+          },
+        });
+      }),
+    );
+  }
+
+  /**
+   * Wrong practice answers open (or reopen) entries. Only correct answers in
+   * MISTAKES mode build the streak that resolves them; a wrong answer in any
+   * mode resets it.
+   */
+  async recordPracticeResults(
+    userId: string,
+    mode: PracticeMode,
+    results: PracticeMistakeResult[],
+    now = new Date(),
+  ) {
+    const progress = new Map<string, MistakeProgress>();
+    if (!results.length) {
+      return progress;
+    }
+
+    const retryStreak = this.siteSettings.getNumber(
+      'PRACTICE_MISTAKE_RETRY_STREAK',
+      2,
+      { integer: true, min: 1, max: 10 },
+    );
+    const entries = await this.prisma.mistakeEntry.findMany({
+      where: {
+        userId,
+        questionId: { in: results.map((result) => result.questionId) },
+      },
+      select: { questionId: true, correctStreak: true, resolvedAt: true },
+    });
+    entries.forEach(({ questionId, ...entry }) =>
+      progress.set(questionId, entry),
+    );
+
+    const updates: Array<Prisma.PrismaPromise<unknown>> = [];
+    results.forEach((result) => {
+      const current = progress.get(result.questionId);
+      if (!result.isCorrect) {
+        const lastAnswerJson = result.answerJson
+          ? (result.answerJson as Prisma.InputJsonValue)
+          : Prisma.DbNull;
+        progress.set(result.questionId, { correctStreak: 0, resolvedAt: null });
+        updates.push(
+          this.prisma.mistakeEntry.upsert({
+            where: {
+              userId_questionId: { userId, questionId: result.questionId },
+            },
+            update: {
+              practiceWrongCount: { increment: 1 },
+              lastSource: MistakeSource.PRACTICE,
+              lastAnswerJson,
+              lastWrongAt: now,
+              correctStreak: 0,
+              resolvedAt: null,
+            },
+            create: {
+              userId,
+              questionId: result.questionId,
+              practiceWrongCount: 1,
+              lastSource: MistakeSource.PRACTICE,
+              lastAnswerJson,
+              firstWrongAt: now,
+              lastWrongAt: now,
+            },
+          }),
+        );
+        return;
+      }
+
+      if (mode !== PracticeMode.MISTAKES || !current || current.resolvedAt) {
+        return;
+      }
+      const correctStreak = current.correctStreak + 1;
+      const resolvedAt = correctStreak >= retryStreak ? now : null;
+      progress.set(result.questionId, { correctStreak, resolvedAt });
+      updates.push(
+        this.prisma.mistakeEntry.update({
+          where: {
+            userId_questionId: { userId, questionId: result.questionId },
+          },
+          data: { correctStreak, resolvedAt },
+        }),
+      );
+    });
+
+    await this.prisma.$transaction(updates);
+    return progress;
+  }
+
+  async listMistakes(userId: string, query: MistakeQueryDto) {
+    const page = Math.max(Number(query.page ?? 1), 1);
+    const pageSize = Math.min(Math.max(Number(query.pageSize ?? 20), 1), 100);
+    const status = query.status ?? 'OPEN';
+    const where: Prisma.MistakeEntryWhereInput = {
+      userId,
+      resolvedAt:
+        status === 'OPEN'
+          ? null
+          : status === 'RESOLVED'
+            ? { not: null }
+            : undefined,
+      lastSource: query.source ?? undefined,
+      question: {
+        subjectId: query.subjectId ?? undefined,
+        topicId: query.topicId ?? undefined,
+      },
+    };
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.mistakeEntry.count({ where }),
+      this.prisma.mistakeEntry.findMany({
+        where,
+        orderBy: [{ lastWrongAt: 'desc' }, { id: 'asc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: { question: { select: MISTAKE_QUESTION_SELECT } },
+      }),
+    ]);
+
+    return {
+      data: data.map((entry) => ({
+        ...entry,
+        question: localizeQuestion(entry.question, query.lang),
+      })),
+      total,
+      page,
+      pageSize,
+    };
+  }
+
+  /** Open and resolved entries per topic, most open mistakes first. */
+  async getSummary(userId: string) {
+    const entries = await this.prisma.mistakeEntry.findMany({
+      where: { userId },
+      select: {
+        resolvedAt: true,
+        attemptWrongCount: true,
+        practiceWrongCount: true,
+        question: { select: { subjectId: true, topicId: true } },
+      },
+    });
+
+    const groups = new Map<
+      string,
+      {
+        subjectId: string;
+        topicId: string | null;
+        open: number;
+        resolved: number;
+        wrongAnswers: number;
+      }
+    >();
+    entries.forEach((entry) => {
+      const key = `${entry.question.subjectId}:${entry.question.topicId ?? ''}`;
+      const group = groups.get(key) ?? {
+        subjectId: entry.question.subjectId,
+        topicId: entry.question.topicId,
+        open: 0,
+        resolved: 0,
+        wrongAnswers: 0,
+      };
+      if (entry.resolvedAt) {
+        group.resolved += 1;
+      } else {
+        group.open += 1;
+      }
+      group.wrongAnswers += entry.attemptWrongCount + entry.practiceWrongCount;
+      groups.set(key, group);
+    });
+
+    const rows = Array.from(groups.values());
+    const [subjects, topics] = await Promise.all([
+      this.prisma.subject.findMany({
+        where: { id: { in: rows.map((row) => row.subjectId) } },
+        select: { id: true, name: true },
+      }),
+      this.prisma.topic.findMany({
+        where: {
+          id: {
+            in: rows
+              .map((row) => row.topicId)
+              .filter((topicId): topicId is string => Boolean(topicId)),
+          },
+        },
+        select: { id: true, name: true },
+      }),
+    ]);
+    const subjectNames = new Map(subjects.map((item) => [item.id, item.name]));
+    const topicNames = new Map(topics.map((item) => [item.id, item.name]));
+
+    return {
+      open: rows.reduce((sum, row) => sum + row.open, 0),
+      resolved: rows.reduce((sum, row) => sum + row.resolved, 0),
+      topics: rows
+        .map((row) => ({
+          ...row,
+          subjectName: subjectNames.get(row.subjectId) ?? null,
+          topicName: row.topicId ? (topicNames.get(row.topicId) ?? null) : null,
+        }))
+        .sort((a, b) => b.open - a.open || b.wrongAnswers - a.wrongAnswers),
+    };
+  }
+
+  async updateMistake(
+    userId: string,
+    questionId: string,
+    dto: MistakeUpdateDto,
+  ) {
+    const entry = await this.prisma.mistakeEntry.findUnique({
+      where: { userId_questionId: { userId, questionId } },
+      select: { id: true, resolvedAt: true },
+    });
+    if (!entry) {
+      throw new NotFoundException({
+        code: 'MISTAKE_NOT_FOUND',
+        message: 'This question is not in your mistake notebook.',
+      });
+    }
+
+    return this.prisma.mistakeEntry.update({
+      where: { id: entry.id },
+      data: {
+        note: dto.note !== undefined ? dto.note.trim() || null : undefined,
+        resolvedAt:
+          dto.resolved === undefined
+            ? undefined
+            : dto.resolved
+              ? (entry.resolvedAt ?? new Date())
+              : null,
+        correctStreak: dto.resolved === false ? 0 : undefined,
+      },
+    });
+  }
+}
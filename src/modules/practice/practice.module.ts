@@ -2,12 +2,18 @@ import { Module } from '@nestjs/common';
 import { PrismaModule } from '../../infra/prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
 import { AuthorizationModule } from '../authorization/authorization.module';
+import { CollectionsModule } from '../collections/collections.module';
+import { PracticeMistakesController } from './practice-mistakes.controller';
 import { PracticeController } from './practice.controller';
+import { PracticeExpiryService } from './practice.expiry.service';
+import { PracticeMistakesService } from './practice.mistakes.service';
 import { PracticeService } from './practice.service';
 
 @Module({
-  imports: [PrismaModule, AuthModule, AuthorizationModule],
-  controllers: [PracticeController],
-  providers: [PracticeService],
+  imports: [PrismaModule, AuthModule, AuthorizationModule, CollectionsModule],
+  // Mistakes first so `mistakes/summary` is not taken for a session id.
+  controllers: [PracticeMistakesController, PracticeController],
+  providers: [PracticeService, PracticeExpiryService, PracticeMistakesService],
+  exports: [PracticeMistakesService],
 })
 export class PracticeModule {}
@@ -6,20 +6,79 @@ import {
 import {
   PracticeEventType,
   PracticeMode,
+  PracticeSession,
   PracticeSessionStatus,
   Prisma,
   QuestionDifficulty,
 } from '@prisma/client';
 import { PrismaService } from '../../infra/prisma/prisma.service';
+import { CollectionsService } from '../collections/collections.service';
+import {
+  AnswerEvaluationStatus,
+  evaluateAnswer,
+} from '../question-bank/utils/answer-evaluation.util';
+import { localizeQuestion } from '../question-bank/utils/question-locale.util';
+import {
+  AbilityObservation,
+  difficultyDistance,
+  estimateAbility,
+  INITIAL_ABILITY,
+  targetDifficulty,
+  updateAbility,
+} from './utils/adaptive-difficulty.util';
+import {
+  resolveReviewRating,
+  ReviewSchedule,
+  scheduleReview,
+} from './utils/spaced-repetition.util';
+import {
+  PracticeMistakeResult,
+  PracticeMistakesService,
+} from './practice.mistakes.service';
 import {
   PracticeAnswerBatchDto,
   PracticeAnswerDto,
   PracticeStartDto,
 } from './dto';
 
+const NEW_REVIEW_SCHEDULE: ReviewSchedule = {
+  easeFactor: 2.5,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+};
+
+const PRACTICE_QUESTION_SELECT = {
+  id: true,
+  subjectId: true,
+  topicId: true,
+  type: true,
+  difficulty: true,
+  statementJson: true,
+  optionsJson: true,
+  explanationJson: true,
+  hasMedia: true,
+} satisfies Prisma.QuestionSelect;
+
+type TopicAbility = { ability: number; answered: number };
+
+type PracticeConfig = {
+  count?: number;
+  difficulty?: QuestionDifficulty;
+  timeLimitSeconds?: number;
+  questionTimeLimitSeconds?: number;
+};
+
+// Covers request latency between the client's timer and the server clock.
+const TIMED_GRACE_MS = 2000;
+
 @Injectable()
 export class PracticeService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly collectionsService: CollectionsService,
+    private readonly mistakesService: PracticeMistakesService,
+  ) {}
 
   async startPractice(userId: string, dto: PracticeStartDto) {
     if (dto.subjectId) {
@@ -28,17 +87,37 @@ export class PracticeService {
     if (dto.topicId) {
       await this.assertTopicExists(dto.topicId, dto.subjectId);
     }
+    const collection = dto.collectionId
+      ? await this.collectionsService.getOwnedCollection(
+          userId,
+          dto.collectionId,
+        )
+      : null;
 
+    const mode = dto.mode ?? PracticeMode.PRACTICE;
+    if (mode === PracticeMode.TIMED) {
+      this.assertTimedConfig(dto.configJson);
+    }
+
+    const startedAt = new Date();
     const session = await this.prisma.practiceSession.create({
       data: {
         userId,
         subjectId: dto.subjectId ?? undefined,
         topicId: dto.topicId ?? undefined,
-        mode: dto.mode ?? PracticeMode.PRACTICE,
+        collectionId: collection?.id,
+        mode,
         configJson: dto.configJson
           ? (dto.configJson as Prisma.InputJsonValue)
           : undefined,
         status: PracticeSessionStatus.ACTIVE,
+        startedAt,
+        endsAt:
+          mode === PracticeMode.TIMED && dto.configJson?.timeLimitSeconds
+            ? new Date(
+                startedAt.getTime() + dto.configJson.timeLimitSeconds * 1000,
+              )
+            : undefined,
       },
     });
 
@@ -57,19 +136,55 @@ export class PracticeService {
     }
 
     if (session.status !== PracticeSessionStatus.ACTIVE) {
-      return session;
+      return { ...session, stats: await this.getSessionStats(session) };
     }
 
-    return this.prisma.practiceSession.update({
+    const ended = await this.prisma.practiceSession.update({
       where: { id: sessionId },
       data: { status: PracticeSessionStatus.ENDED, endedAt: new Date() },
     });
+    return { ...ended, stats: await this.getSessionStats(ended) };
+  }
+
+  async getSessionSummary(userId: string, sessionId: string) {
+    const session = await this.prisma.practiceSession.findUnique({
+      where: { id: sessionId },
+    });
+    if (!session || session.userId !== userId) {
+      throw new NotFoundException({
+        code: 'PRACTICE_SESSION_NOT_FOUND',
+        message: 'Practice session not found.',
+      });
+    }
+    const current = (await this.endIfExpired(session)) ?? session;
+    return { ...current, stats: await this.getSessionStats(current) };
+  }
+
+  /** Ends TIMED sessions whose budget ran out without the client ending them. */
+  async expireOverdueSessions(limit = 100) {
+    const overdue = await this.prisma.practiceSession.findMany({
+      where: {
+        status: PracticeSessionStatus.ACTIVE,
+        endsAt: { lte: new Date(Date.now() - TIMED_GRACE_MS) },
+      },
+      orderBy: { endsAt: 'asc' },
+      take: limit,
+    });
+
+    let ended = 0;
+    for (const session of overdue) {
+      if (await this.endIfExpired(session)) {
+        ended += 1;
+      }
+    }
+    return { scanned: overdue.length, ended };
   }
 
   async getNextQuestions(
     userId: string,
     sessionId: string,
     countOverride?: number,
+    lang?: string,
   ) {
     const session = await this.prisma.practiceSession.findUnique({
       where: { id: sessionId },
@@ -87,19 +202,30 @@ export class PracticeService {
         message: 'Practice session is not active.',
       });
     }
+    await this.assertNotExpired(session);
 
-    const config = (session.configJson ?? {}) as {
-      count?: number;
-      difficulty?: QuestionDifficulty;
-    };
+    const config = (session.configJson ?? {}) as PracticeConfig;
     const limit = countOverride ?? config.count ?? 5;
 
-    const questions = await this.selectQuestions(userId, {
+    if (session.mode === PracticeMode.REVIEW) {
+      return this.getDueQuestions(userId, session, limit, lang);
+    }
+
+    const filters = {
       subjectId: session.subjectId ?? undefined,
       topicId: session.topicId ?? undefined,
-      difficulty: config.difficulty,
+      collectionId: session.collectionId ?? undefined,
       limit,
-    });
+    };
+    const questions =
+      session.mode === PracticeMode.ADAPTIVE
+        ? await this.selectAdaptiveQuestions(userId, filters)
+        : session.mode === PracticeMode.MISTAKES
+          ? await this.selectMistakeQuestions(userId, filters)
+          : await this.selectQuestions(userId, {
+              ...filters,
+              difficulty: config.difficulty,
+            });
 
     await this.prisma.practiceQuestionEvent.createMany({
       data: questions.map((question) => ({
@@ -112,7 +238,8 @@ export class PracticeService {
 
     return {
       sessionId: session.id,
-      questions,
+      questions: questions.map((question) => localizeQuestion(question, lang)),
+      ...this.buildTimer(session, config),
     };
   }
 
@@ -138,6 +265,8 @@ export class PracticeService {
         message: 'Practice session not found.',
       });
     }
+    await this.assertNotExpired(session);
+    const config = (session.configJson ?? {}) as PracticeConfig;
 
     const questionIds = dto.items.map((item) => item.questionId);
     const questions = await this.prisma.question.findMany({
@@ -146,10 +275,56 @@ export class PracticeService {
         id: true,
         subjectId: true,
         topicId: true,
+        type: true,
         correctAnswerJson: true,
+        difficulty: true,
+        version: true,
       },
     });
     const questionMap = new Map(questions.map((q) => [q.id, q]));
+    const abilities = await this.loadTopicAbilities(
+      userId,
+      questions
+        .map((question) => question.topicId)
+        .filter((topicId): topicId is string => Boolean(topicId)),
+    );
+
+    const existingStates = await this.prisma.userQuestionState.findMany({
+      where: { userId, questionId: { in: questionIds } },
+      select: {
+        questionId: true,
+        easeFactor: true,
+        intervalDays: true,
+        repetitions: true,
+        lapses: true,
+      },
+    });
+    // Carried through the loop so a question answered twice in one batch is
+    // scheduled from its first answer.
+    const schedules = new Map<string, ReviewSchedule>(
+      existingStates.map(({ questionId, ...schedule }) => [
+        questionId,
+        schedule,
+      ]),
+    );
+
+    // Time per question runs from the latest time it was served in this
+    // session.
+    const servedEvents = await this.prisma.practiceQuestionEvent.findMany({
+      where: {
+        sessionId: session.id,
+        questionId: { in: questionIds },
+        eventType: PracticeEventType.SERVED,
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { questionId: true, createdAt: true },
+    });
+    const servedAt = new Map<string, Date>();
+    servedEvents.forEach((event) => {
+      if (!servedAt.has(event.questionId)) {
+        servedAt.set(event.questionId, event.createdAt);
+      }
+    });
 
     const now = new Date();
     const events: Prisma.PracticeQuestionEventCreateManyInput[] = [];
@@ -157,10 +332,16 @@ export class PracticeService {
       questionId: string;
       eventType: PracticeEventType;
       isCorrect: boolean | null;
+      status: AnswerEvaluationStatus | null;
+      credit: number | null;
       correctAnswerJson: Prisma.JsonValue;
+      timeSpentMs: number | null;
+      timedOut: boolean;
     }> = [];
     const questionStateUpdates: Array<Prisma.PrismaPromise<unknown>> = [];
     const topicProgressUpdates: Array<Prisma.PrismaPromise<unknown>> = [];
+    const reviews = new Map<string, Date>();
+    const answered: PracticeMistakeResult[] = [];
 
     for (const item of dto.items) {
       const question = questionMap.get(item.questionId);
@@ -169,18 +350,51 @@ export class PracticeService {
       }
 
       const eventType = item.eventType ?? PracticeEventType.ANSWERED;
-      const isCorrect =
-        item.isCorrect ??
-        (item.answerJson !== undefined
-          ? this.isEqual(item.answerJson, question.correctAnswerJson)
-          : undefined);
+      // Same evaluators as test attempts, with default scoring options. The
+      // client's own `isCorrect` only counts for questions without an answer
+      // key.
+      const gradable =
+        question.correctAnswerJson !== null &&
+        question.correctAnswerJson !== undefined;
+      const evaluation =
+        gradable && item.answerJson !== undefined
+          ? evaluateAnswer({
+              questionId: question.id,
+              type: question.type,
+              answer: item.answerJson,
+              correctAnswer: question.correctAnswerJson,
+            })
+          : null;
+      const served = servedAt.get(question.id);
+      const timeSpentMs =
+        eventType === PracticeEventType.ANSWERED && served
+          ? Math.max(0, now.getTime() - served.getTime())
+          : null;
+      // Answers past the per-question limit count as wrong.
+      const timedOut =
+        session.mode === PracticeMode.TIMED &&
+        timeSpentMs !== null &&
+        Boolean(config.questionTimeLimitSeconds) &&
+        timeSpentMs >
+          (config.questionTimeLimitSeconds ?? 0) * 1000 + TIMED_GRACE_MS;
+      const isCorrect = timedOut
+        ? false
+        : !gradable
+          ? item.isCorrect
+          : evaluation && evaluation.status !== 'SKIPPED'
+            ? evaluation.status === 'CORRECT'
+            : undefined;
+      const credit = timedOut ? 0 : (evaluation?.credit ?? null);
 
       events.push({
         sessionId: session.id,
         userId,
         questionId: question.id,
+        questionVersion: question.version,
         eventType,
         isCorrect: isCorrect ?? undefined,
+        timeSpentMs: timeSpentMs ?? undefined,
+        timedOut,
         payloadJson: item.answerJson
           ? (item.answerJson as Prisma.InputJsonValue)
           : undefined,
@@ -191,13 +405,34 @@ export class PracticeService {
         questionId: question.id,
         eventType,
         isCorrect: typeof isCorrect === 'boolean' ? isCorrect : null,
+        status: evaluation?.status ?? null,
+        credit,
         correctAnswerJson: question.correctAnswerJson ?? null,
+        timeSpentMs,
+        timedOut,
       });
 
       if (
         eventType === PracticeEventType.ANSWERED &&
         typeof isCorrect === 'boolean'
       ) {
+        const review = scheduleReview(
+          schedules.get(question.id) ?? NEW_REVIEW_SCHEDULE,
+          resolveReviewRating({
+            rating: item.rating,
+            isCorrect,
+            credit,
+          }),
+          now,
+        );
+        schedules.set(question.id, review);
+        reviews.set(question.id, review.dueAt);
+        answered.push({
+          questionId: question.id,
+          isCorrect,
+          answerJson: item.answerJson,
+        });
+
         questionStateUpdates.push(
           this.prisma.userQuestionState.upsert({
             where: { userId_questionId: { userId, questionId: question.id } },
@@ -206,6 +441,7 @@ export class PracticeService {
               wrongCount: !isCorrect ? { increment: 1 } : undefined,
               lastAnsweredAt: now,
               lastIsCorrect: isCorrect,
+              ...review,
             },
             create: {
               userId,
@@ -214,23 +450,43 @@ export class PracticeService {
               wrongCount: !isCorrect ? 1 : 0,
               lastAnsweredAt: now,
               lastIsCorrect: isCorrect,
+              ...review,
             },
           }),
         );
 
         if (question.topicId) {
+          const current = abilities.get(question.topicId) ?? {
+            ability: INITIAL_ABILITY,
+            answered: 0,
+          };
+          const ability = updateAbility(
+            current.ability,
+            {
+              difficulty: question.difficulty,
+              outcome: credit ?? (isCorrect ? 1 : 0),
+            },
+            current.answered,
+          );
+          abilities.set(question.topicId, {
+            ability,
+            answered: current.answered + 1,
+          });
+
           topicProgressUpdates.push(
             this.prisma.userTopicProgress.upsert({
               where: { userId_topicId: { userId, topicId: question.topicId } },
               update: {
                 totalAnswered: { increment: 1 },
                 correctCount: isCorrect ? { increment: 1 } : undefined,
+                ability,
               },
               create: {
                 userId,
                 topicId: question.topicId,
                 totalAnswered: 1,
                 correctCount: isCorrect ? 1 : 0,
+                ability,
               },
             }),
           );
@@ -243,8 +499,27 @@ export class PracticeService {
       ...questionStateUpdates,
       ...topicProgressUpdates,
     ]);
+    const mistakes = await this.mistakesService.recordPracticeResults(
+      userId,
+      session.mode,
+      answered,
+      now,
+    );
+    await this.collectionsService.bookmarkQuestions(
+      userId,
+      results
+        .filter((result) => result.eventType === PracticeEventType.BOOKMARKED)
+        .map((result) => result.questionId),
+    );
 
-    return { success: true, results };
+    return {
+      success: true,
+      results: results.map((result) => ({
+        ...result,
+        nextReviewAt: reviews.get(result.questionId) ?? null,
+        mistake: mistakes.get(result.questionId) ?? null,
+      })),
+    };
   }
 
   async getProgress(userId: string) {
@@ -253,6 +528,10 @@ export class PracticeService {
       include: { topic: true },
       orderBy: { updatedAt: 'desc' },
     });
+    const abilities = await this.loadTopicAbilities(
+      userId,
+      topics.map((item) => item.topicId),
+    );
 
     const subjectMap = new Map<
       string,
@@ -272,7 +551,14 @@ export class PracticeService {
     });
 
     return {
-      topics,
+      topics: topics.map((item) => {
+        const ability = abilities.get(item.topicId)?.ability ?? INITIAL_ABILITY;
+        return {
+          ...item,
+          ability: Math.round(ability * 100) / 100,
+          targetDifficulty: targetDifficulty(ability),
+        };
+      }),
       subjects: Array.from(subjectMap.values()),
     };
   }
@@ -326,35 +612,201 @@ export class PracticeService {
     );
   }
 
+  private assertTimedConfig(config: PracticeStartDto['configJson']) {
+    const isLimit = (value: unknown, min: number, max: number) =>
+      typeof value === 'number' &&
+      Number.isInteger(value) &&
+      value >= min &&
+      value <= max;
+    const questionLimit = config?.questionTimeLimitSeconds;
+    if (
+      !isLimit(config?.timeLimitSeconds, 30, 4 * 60 * 60) ||
+      (questionLimit !== undefined && !isLimit(questionLimit, 5, 60 * 60))
+    ) {
+      throw new BadRequestException({
+        code: 'PRACTICE_TIME_LIMIT_INVALID',
+        message:
+          'Timed practice needs configJson.timeLimitSeconds between 30 and 14400; configJson.questionTimeLimitSeconds, if set, must be between 5 and 3600.',
+      });
+    }
+  }
+
+  // Timed sessions stop taking answers once they end, however they ended.
+  private async assertNotExpired(session: PracticeSession) {
+    const closed =
+      session.endsAt !== null &&
+      session.status !== PracticeSessionStatus.ACTIVE;
+    if (closed || (await this.endIfExpired(session))) {
+      throw new BadRequestException({
+        code: 'PRACTICE_SESSION_EXPIRED',
+        message: 'Practice session time limit has been reached.',
+      });
+    }
+  }
+
+  /**
+   * Ends an ACTIVE session past its time budget, stamping `endedAt` with the
+   * budget end rather than the moment it was noticed. Returns the ended
+   * session, or null when it is still running.
+   */
+  private async endIfExpired(session: PracticeSession) {
+    if (
+      session.status !== PracticeSessionStatus.ACTIVE ||
+      !session.endsAt ||
+      session.endsAt.getTime() + TIMED_GRACE_MS > Date.now()
+    ) {
+      return null;
+    }
+
+    const result = await this.prisma.practiceSession.updateMany({
+      where: { id: session.id, status: PracticeSessionStatus.ACTIVE },
+      data: { status: PracticeSessionStatus.ENDED, endedAt: session.endsAt },
+    });
+    if (!result.count) {
+      return null;
+    }
+    return {
+      ...session,
+      status: PracticeSessionStatus.ENDED,
+      endedAt: session.endsAt,
+    };
+  }
+
+  private buildTimer(session: PracticeSession, config: PracticeConfig) {
+    if (!session.endsAt) {
+      return {};
+    }
+    return {
+      endsAt: session.endsAt,
+      remainingSeconds: Math.max(
+        0,
+        Math.floor((session.endsAt.getTime() - Date.now()) / 1000),
+      ),
+      questionTimeLimitSeconds: config.questionTimeLimitSeconds ?? null,
+    };
+  }
+
+  /** Accuracy and speed over the session's answered questions. */
+  private async getSessionStats(session: PracticeSession) {
+    const answers = await this.prisma.practiceQuestionEvent.findMany({
+      where: { sessionId: session.id, eventType: PracticeEventType.ANSWERED },
+      select: { isCorrect: true, timeSpentMs: true, timedOut: true },
+    });
+    const answered = answers.length;
+    const correct = answers.filter((answer) => answer.isCorrect).length;
+    const timed = answers
+      .map((answer) => answer.timeSpentMs)
+      .filter((value): value is number => typeof value === 'number');
+    const totalMs = timed.reduce((sum, value) => sum + value, 0);
+    const elapsedMs =
+      (session.endedAt ?? new Date()).getTime() - session.startedAt.getTime();
+
+    return {
+      answered,
+      correct,
+      accuracy: answered ? Math.round((correct / answered) * 100) : 0,
+      timedOut: answers.filter((answer) => answer.timedOut).length,
+      avgSecondsPerQuestion: timed.length
+        ? Math.round(totalMs / timed.length / 100) / 10
+        : null,
+      questionsPerMinute:
+        answered && elapsedMs > 0
+          ? Math.round((answered / (elapsedMs / 60000)) * 100) / 100
+          : null,
+      elapsedSeconds: Math.max(0, Math.round(elapsedMs / 1000)),
+    };
+  }
+
+  /** Review mode: only cards whose scheduled review is due, oldest first. */
+  private async getDueQuestions(
+    userId: string,
+    session: {
+      id: string;
+      subjectId: string | null;
+      topicId: string | null;
+      collectionId: string | null;
+    },
+    limit: number,
+    lang?: string,
+  ) {
+    const now = new Date();
+    const where: Prisma.UserQuestionStateWhereInput = {
+      userId,
+      question: {
+        isPublished: true,
+        subjectId: session.subjectId ?? undefined,
+        topicId: session.topicId ?? undefined,
+        collectionItems: session.collectionId
+          ? { some: { collectionId: session.collectionId } }
+          : undefined,
+      },
+    };
+
+    const [due, dueCount, upcoming] = await Promise.all([
+      this.prisma.userQuestionState.findMany({
+        where: { ...where, dueAt: { lte: now } },
+        orderBy: { dueAt: 'asc' },
+        take: limit,
+        select: {
+          dueAt: true,
+          question: { select: PRACTICE_QUESTION_SELECT },
+        },
+      }),
+      this.prisma.userQuestionState.count({
+        where: { ...where, dueAt: { lte: now } },
+      }),
+      this.prisma.userQuestionState.findFirst({
+        where: { ...where, dueAt: { gt: now } },
+        orderBy: { dueAt: 'asc' },
+        select: { dueAt: true },
+      }),
+    ]);
+
+    if (due.length) {
+      await this.prisma.practiceQuestionEvent.createMany({
+        data: due.map((state) => ({
+          sessionId: session.id,
+          userId,
+          questionId: state.question.id,
+          eventType: PracticeEventType.SERVED,
+        })),
+      });
+    }
+
+    return {
+      sessionId: session.id,
+      questions: due.map((state) => ({
+        ...localizeQuestion(state.question, lang),
+        dueAt: state.dueAt,
+      })),
+      dueCount,
+      nextDueAt: upcoming?.dueAt ?? null,
+    };
+  }
+
   private async selectQuestions(
     userId: string,
     params: {
       subjectId?: string;
       topicId?: string;
+      collectionId?: string;
       difficulty?: QuestionDifficulty;
       limit: number;
     },
   ) {
-    const where = {
+    const where: Prisma.QuestionWhereInput = {
       isPublished: true,
       subjectId: params.subjectId ?? undefined,
       topicId: params.topicId ?? undefined,
       difficulty: params.difficulty ?? undefined,
+      collectionItems: params.collectionId
+        ? { some: { collectionId: params.collectionId } }
+        : undefined,
     };
 
     const candidates = await this.prisma.question.findMany({
       where,
-      select: {
-        id: true,
-        subjectId: true,
-        topicId: true,
-        type: true,
-        difficulty: true,
-        statementJson: true,
-        optionsJson: true,
-        explanationJson: true,
-        hasMedia: true,
-      },
+      select: PRACTICE_QUESTION_SELECT,
       take: 200,
     });
 
@@ -389,30 +841,193 @@ export class PracticeService {
     return ranked.slice(0, params.limit);
   }
 
-  private practiceScore(state?: { correctCount: number; wrongCount: number }) {
-    if (!state) return 0; // unseen
-    if (state.wrongCount > 0) return 1;
-    return 2;
+  /**
+   * Mistakes mode: open notebook entries, those furthest from being resolved
+   * and most recently missed first.
+   */
+  private async selectMistakeQuestions(
+    userId: string,
+    params: {
+      subjectId?: string;
+      topicId?: string;
+      collectionId?: string;
+      limit: number;
+    },
+  ) {
+    const entries = await this.prisma.mistakeEntry.findMany({
+      where: {
+        userId,
+        resolvedAt: null,
+        question: {
+          isPublished: true,
+          subjectId: params.subjectId ?? undefined,
+          topicId: params.topicId ?? undefined,
+          collectionItems: params.collectionId
+            ? { some: { collectionId: params.collectionId } }
+            : undefined,
+        },
+      },
+      orderBy: [{ correctStreak: 'asc' }, { lastWrongAt: 'desc' }],
+      take: params.limit,
+      select: { question: { select: PRACTICE_QUESTION_SELECT } },
+    });
+    if (entries.length === 0) {
+      throw new BadRequestException({
+        code: 'PRACTICE_NO_MISTAKES',
+        message: 'Your mistake notebook has no open questions to retry.',
+      });
+    }
+    return entries.map((entry) => entry.question);
   }
 
-  private isEqual(a: unknown, b: unknown) {
-    return this.stableStringify(a) === this.stableStringify(b);
+  /**
+   * Adaptive mode: questions whose difficulty sits closest to the student's
+   * ability in their topic, preferring unseen and previously missed ones.
+   */
+  private async selectAdaptiveQuestions(
+    userId: string,
+    params: {
+      subjectId?: string;
+      topicId?: string;
+      collectionId?: string;
+      limit: number;
+    },
+  ) {
+    // Sampled per band so a large pool of one difficulty cannot crowd out
+    // the band the student needs.
+    const bands = await Promise.all(
+      Object.values(QuestionDifficulty).map((difficulty) =>
+        this.prisma.question.findMany({
+          where: {
+            isPublished: true,
+            subjectId: params.subjectId ?? undefined,
+            topicId: params.topicId ?? undefined,
+            difficulty,
+            collectionItems: params.collectionId
+              ? { some: { collectionId: params.collectionId } }
+              : undefined,
+          },
+          select: PRACTICE_QUESTION_SELECT,
+          take: 200,
+        }),
+      ),
+    );
+    const candidates = bands.flat();
+    if (candidates.length === 0) {
+      throw new BadRequestException({
+        code: 'PRACTICE_NO_QUESTIONS',
+        message: 'No questions available for practice.',
+      });
+    }
+
+    const [states, abilities] = await Promise.all([
+      this.prisma.userQuestionState.findMany({
+        where: { userId, questionId: { in: candidates.map((q) => q.id) } },
+      }),
+      this.loadTopicAbilities(
+        userId,
+        candidates
+          .map((question) => question.topicId)
+          .filter((topicId): topicId is string => Boolean(topicId)),
+      ),
+    ]);
+    const stateMap = new Map(states.map((s) => [s.questionId, s]));
+    const distance = (question: (typeof candidates)[number]) =>
+      difficultyDistance(
+        abilities.get(question.topicId ?? '')?.ability ?? INITIAL_ABILITY,
+        question.difficulty,
+      );
+
+    const ranked = candidates
+      .map((question) => ({ question, distance: distance(question) }))
+      .sort((a, b) => {
+        if (a.distance !== b.distance) {
+          return a.distance - b.distance;
+        }
+        const stateA = stateMap.get(a.question.id);
+        const stateB = stateMap.get(b.question.id);
+        const scoreA = this.practiceScore(stateA);
+        const scoreB = this.practiceScore(stateB);
+        if (scoreA !== scoreB) {
+          return scoreA - scoreB;
+        }
+        const lastA = stateA?.lastAnsweredAt?.getTime() ?? 0;
+        const lastB = stateB?.lastAnsweredAt?.getTime() ?? 0;
+        return lastA - lastB;
+      });
+
+    return ranked.slice(0, params.limit).map((entry) => entry.question);
   }
 
-  private stableStringify(value: unknown): string {
-    if (value === null || value === undefined) {
-      return 'null';
+  /**
+   * Stored per-topic abilities. Topics answered before ratings existed are
+   * estimated by replaying their practice history.
+   */
+  private async loadTopicAbilities(userId: string, topicIds: string[]) {
+    const uniqueTopicIds = Array.from(new Set(topicIds));
+    const abilities = new Map<string, TopicAbility>();
+    if (!uniqueTopicIds.length) {
+      return abilities;
     }
-    if (typeof value !== 'object') {
-      return JSON.stringify(value);
-    }
-    if (Array.isArray(value)) {
-      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+
+    const progress = await this.prisma.userTopicProgress.findMany({
+      where: { userId, topicId: { in: uniqueTopicIds } },
+      select: { topicId: true, totalAnswered: true, ability: true },
+    });
+    const unrated: string[] = [];
+    progress.forEach((item) => {
+      if (item.ability !== null) {
+        abilities.set(item.topicId, {
+          ability: item.ability,
+          answered: item.totalAnswered,
+        });
+      } else if (item.totalAnswered > 0) {
+        unrated.push(item.topicId);
+      }
+    });
+    if (!unrated.length) {
+      return abilities;
     }
-    const entries = Object.entries(value as Record<string, unknown>)
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([key, val]) => `"${key}":${this.stableStringify(val)}`);
-    return `{${entries.join(',')}}`;
+
+    const events = await this.prisma.practiceQuestionEvent.findMany({
+      where: {
+        userId,
+        eventType: PracticeEventType.ANSWERED,
+        isCorrect: { not: null },
+        question: { topicId: { in: unrated } },
+      },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        isCorrect: true,
+        question: { select: { topicId: true, difficulty: true } },
+      },
+    });
+    const history = new Map<string, AbilityObservation[]>();
+    events.forEach((event) => {
+      const topicId = event.question.topicId;
+      if (!topicId) {
+        return;
+      }
+      const list = history.get(topicId) ?? [];
+      list.push({
+        difficulty: event.question.difficulty,
+        outcome: event.isCorrect ? 1 : 0,
+      });
+      history.set(topicId, list);
+    });
+    history.forEach((observations, topicId) =>
+      abilities.set(topicId, {
+        ability: estimateAbility(observations),
+        answered: observations.length,
+      }),
+    );
+    return abilities;
+  }
+
+  private practiceScore(state?: { correctCount: number; wrongCount: number }) {
+    if (!state) return 0; // unseen
+    if (state.wrongCount > 0) return 1;
+    return 2;
   }
 
   private async assertSubjectExists(subjectId: string) {
@@ -0,0 +1,81 @@
+import { QuestionDifficulty } from '@prisma/client';
+
+/**
+ * Elo-style ability on a logit scale: 0 means MEDIUM questions are answered
+ * correctly half of the time, +1 puts HARD questions there.
+ */
+export const DIFFICULTY_RATING: Record<QuestionDifficulty, number> = {
+  EASY: -1,
+  MEDIUM: 0,
+  HARD: 1,
+};
+
+export const INITIAL_ABILITY = 0;
+
+const MIN_ABILITY = -3;
+const MAX_ABILITY = 3;
+// Large steps while the estimate is new, settling as answers accumulate.
+const MAX_STEP = 0.6;
+const MIN_STEP = 0.1;
+
+export type AbilityObservation = {
+  difficulty: QuestionDifficulty;
+  outcome: number;
+};
+
+/** Probability of a correct answer at the given ability. */
+export function expectedOutcome(
+  ability: number,
+  difficulty: QuestionDifficulty,
+) {
+  return 1 / (1 + Math.exp(DIFFICULTY_RATING[difficulty] - ability));
+}
+
+/**
+ * One rating step. `outcome` is 1 for correct, 0 for wrong, or the partial
+ * credit in between; `answered` is how many answers the estimate already
+ * reflects.
+ */
+export function updateAbility(
+  ability: number,
+  observation: AbilityObservation,
+  answered: number,
+) {
+  const step = Math.max(MIN_STEP, MAX_STEP / Math.sqrt(answered + 1));
+  const next =
+    ability +
+    step *
+      (clamp(observation.outcome, 0, 1) -
+        expectedOutcome(ability, observation.difficulty));
+  return clamp(next, MIN_ABILITY, MAX_ABILITY);
+}
+
+/** Replays answer history, oldest first, from the initial ability. */
+export function estimateAbility(history: AbilityObservation[]) {
+  return history.reduce(
+    (ability, observation, index) => updateAbility(ability, observation, index),
+    INITIAL_ABILITY,
+  );
+}
+
+/** The difficulty band whose rating is closest to the ability. */
+export function targetDifficulty(ability: number): QuestionDifficulty {
+  return (Object.keys(DIFFICULTY_RATING) as QuestionDifficulty[]).reduce(
+    (best, difficulty) =>
+      difficultyDistance(ability, difficulty) <
+      difficultyDistance(ability, best)
+        ? difficulty
+        : best,
+  );
+}
+
+export function difficultyDistance(
+  ability: number,
+  difficulty: QuestionDifficulty,
+) {
+  return Math.abs(DIFFICULTY_RATING[difficulty] - ability);
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
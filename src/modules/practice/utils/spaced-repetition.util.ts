@@ -0,0 +1,93 @@
+export const REVIEW_RATINGS = ['AGAIN', 'HARD', 'GOOD', 'EASY'] as const;
+
+export type ReviewRating = (typeof REVIEW_RATINGS)[number];
+
+export type ReviewSchedule = {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+};
+
+export type ScheduledReview = ReviewSchedule & { dueAt: Date };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+// A lapsed card comes back within the same study session.
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// SM-2 quality on its 0-5 scale.
+const RATING_QUALITY: Record<ReviewRating, number> = {
+  AGAIN: 1,
+  HARD: 3,
+  GOOD: 4,
+  EASY: 5,
+};
+
+/**
+ * Falls back to the evaluator's verdict when the student did not rate the
+ * card: wrong is AGAIN, partial credit is HARD, correct is GOOD.
+ */
+export function resolveReviewRating(params: {
+  rating?: ReviewRating;
+  isCorrect: boolean;
+  credit?: number | null;
+}): ReviewRating {
+  if (params.rating) {
+    return params.isCorrect ? params.rating : 'AGAIN';
+  }
+  if (!params.isCorrect) {
+    return 'AGAIN';
+  }
+  return typeof params.credit === 'number' && params.credit < 1
+    ? 'HARD'
+    : 'GOOD';
+}
+
+/** SM-2 step with a short relearning delay for lapses. */
+export function scheduleReview(
+  current: ReviewSchedule,
+  rating: ReviewRating,
+  now: Date,
+): ScheduledReview {
+  const quality = RATING_QUALITY[rating];
+  const easeFactor = Math.max(
+    MIN_EASE,
+    current.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+  );
+
+  if (quality < 3) {
+    return {
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: current.lapses + 1,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS),
+    };
+  }
+
+  const repetitions = current.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(Math.max(current.intervalDays, 1) * easeFactor);
+  }
+  if (rating === 'HARD') {
+    intervalDays = Math.max(1, Math.round(intervalDays * 0.6));
+  } else if (rating === 'EASY') {
+    intervalDays = Math.round(intervalDays * 1.3);
+  }
+  intervalDays = Math.min(intervalDays, MAX_INTERVAL_DAYS);
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    lapses: current.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+}
@@ -7,6 +7,7 @@ import { AuthorizationModule } from '../authorization/authorization.module';
 import { FilesModule } from '../files/files.module';
 import { AdminPrintController } from './admin-print.controller';
 import { PrintJobsConsumer } from './print-jobs.consumer';
+import { PrintJobsController } from './print-jobs.controller';
 import { PrintEngineController } from './print-engine.controller';
 import { PrintEngineService } from './print-engine.service';
 import { PRINT_QUEUE_NAME } from './print-queue.constants';
@@ -20,7 +21,12 @@ import { PRINT_QUEUE_NAME } from './print-queue.constants';
     AuthorizationModule,
     BullModule.registerQueue({ name: PRINT_QUEUE_NAME }),
   ],
-  controllers: [PrintEngineController, AdminPrintController],
+  controllers: [
+    PrintEngineController,
+    AdminPrintController,
+    PrintJobsController,
+  ],
   providers: [PrintEngineService, PrintJobsConsumer],
+  exports: [PrintEngineService],
 })
 export class PrintEngineModule {}
@@ -121,6 +121,7 @@ const PRINT_CONTENT_IGNORED_KEYS = new Set([
   'translations',
   'en',
   'mr',
+  'hi',
 ]);
 const PRINT_FONT_MARKER_VALUES = new Set([
   'dvbw-ttsurekhen',
@@ -888,12 +889,13 @@ export class PrintEngineService implements OnModuleInit {
     return { data, total, page, pageSize };
   }
 
-  async getJob(jobId: string) {
+  /** With `ownerUserId`, jobs created by anyone else are reported missing. */
+  async getJob(jobId: string, ownerUserId?: string) {
     const job = await this.prisma.printJob.findUnique({
       where: { id: jobId },
       include: { items: true },
     });
-    if (!job) {
+    if (!job || (ownerUserId && job.createdByUserId !== ownerUserId)) {
       throw new NotFoundException({
         code: 'PRINT_JOB_NOT_FOUND',
         message: 'Print job not found.',
@@ -902,9 +904,13 @@ export class PrintEngineService implements OnModuleInit {
     return job;
   }
 
-  async getDownloadUrl(jobId: string) {
+  async getDownloadUrl(jobId: string, ownerUserId?: string) {
     const job = await this.prisma.printJob.findUnique({ where: { id: jobId } });
-    if (!job || !job.outputFileAssetId) {
+    if (
+      !job ||
+      !job.outputFileAssetId ||
+      (ownerUserId && job.createdByUserId !== ownerUserId)
+    ) {
       throw new NotFoundException({
         code: 'PRINT_JOB_FILE_NOT_FOUND',
         message: 'Print output not available.',
@@ -1713,8 +1719,9 @@ export class PrintEngineService implements OnModuleInit {
   private resolveLocalizedObjectValue(obj: Record<string, unknown>) {
     const primaryLanguage =
       typeof obj.primaryLanguage === 'string' ? obj.primaryLanguage : null;
-    const fallbackOrder =
-      primaryLanguage === 'mr' ? ['mr', 'en'] : ['en', 'mr'];
+    const fallbackOrder = Array.from(
+      new Set([primaryLanguage ?? 'en', 'en', 'mr', 'hi']),
+    );
     for (const key of fallbackOrder) {
       const value = obj[key];
       if (value !== null && value !== undefined) {
@@ -0,0 +1,30 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators';
+import { JwtAuthGuard } from '../auth/guards';
+import { PrintEngineService } from './print-engine.service';
+
+/** Personal print jobs, e.g. a printed collection, for their creator. */
+@ApiTags('print-jobs')
+@ApiBearerAuth()
+@Controller('print-jobs')
+@UseGuards(JwtAuthGuard)
+export class PrintJobsController {
+  constructor(private readonly printEngineService: PrintEngineService) {}
+
+  @Get(':jobId')
+  getJob(
+    @CurrentUser() user: { userId: string },
+    @Param('jobId') jobId: string,
+  ) {
+    return this.printEngineService.getJob(jobId, user.userId);
+  }
+
+  @Get(':jobId/download')
+  getDownload(
+    @CurrentUser() user: { userId: string },
+    @Param('jobId') jobId: string,
+  ) {
+    return this.printEngineService.getDownloadUrl(jobId, user.userId);
+  }
+}
@@ -0,0 +1,31 @@
+import { Body, Controller, Get, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Audit } from '../../common/decorators';
+import { Policy, RequireUserType } from '../authorization/decorators';
+import { JwtAuthGuard } from '../auth/guards';
+import { PolicyGuard } from '../authorization/guards';
+import { QuestionDuplicateQueryDto, QuestionMergeDto } from './dto';
+import { QuestionDuplicatesService } from './question-bank.duplicates.service';
+
+@ApiTags('admin-question-duplicates')
+@ApiBearerAuth()
+@Controller('admin/question-duplicates')
+@UseGuards(JwtAuthGuard, PolicyGuard)
+export class AdminQuestionDuplicatesController {
+  constructor(private readonly duplicatesService: QuestionDuplicatesService) {}
+
+  @Get()
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  report(@Query() query: QuestionDuplicateQueryDto) {
+    return this.duplicatesService.getDuplicateReport(query);
+  }
+
+  @Post('merge')
+  @RequireUserType('ADMIN')
+  @Policy('questions.crud')
+  @Audit('questions.merge', 'Question')
+  merge(@Body() dto: QuestionMergeDto) {
+    return this.duplicatesService.mergeQuestions(dto);
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Audit, CurrentUser } from '../../common/decorators';
+import { Policy, RequireUserType } from '../authorization/decorators';
+import { JwtAuthGuard } from '../auth/guards';
+import { PolicyGuard } from '../authorization/guards';
+import { QuestionExportCreateDto, QuestionExportQueryDto } from './dto';
+import { QuestionExportService } from './question-export.service';
+
+@ApiTags('admin-question-exports')
+@ApiBearerAuth()
+@Controller('admin/question-exports')
+@UseGuards(JwtAuthGuard, PolicyGuard)
+export class AdminQuestionExportsController {
+  constructor(private readonly questionExportService: QuestionExportService) {}
+
+  @Post()
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  @Audit('questions.export', 'QuestionExportJob')
+  createExport(
+    @CurrentUser() user: { userId: string },
+    @Body() dto: QuestionExportCreateDto,
+  ) {
+    return this.questionExportService.createExport(user.userId, dto);
+  }
+
+  @Get()
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  list(@Query() query: QuestionExportQueryDto) {
+    return this.questionExportService.listExports(query);
+  }
+
+  @Get(':jobId')
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  getExport(@Param('jobId') jobId: string) {
+    return this.questionExportService.getExport(jobId);
+  }
+
+  @Get(':jobId/download')
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  getDownloadUrl(@Param('jobId') jobId: string) {
+    return this.questionExportService.getDownloadUrl(jobId);
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Audit, CurrentUser } from '../../common/decorators';
+import { Policy, RequireUserType } from '../authorization/decorators';
+import { JwtAuthGuard } from '../auth/guards';
+import { PolicyGuard } from '../authorization/guards';
+import { QuestionImportCreateDto, QuestionImportQueryDto } from './dto';
+import { QuestionImportService } from './question-import.service';
+
+@ApiTags('admin-question-imports')
+@ApiBearerAuth()
+@Controller('admin/question-imports')
+@UseGuards(JwtAuthGuard, PolicyGuard)
+export class AdminQuestionImportsController {
+  constructor(private readonly questionImportService: QuestionImportService) {}
+
+  @Post()
+  @RequireUserType('ADMIN')
+  @Policy('questions.crud')
+  @Audit('questions.import', 'QuestionImportJob')
+  createImport(
+    @CurrentUser() user: { userId: string },
+    @Body() dto: QuestionImportCreateDto,
+  ) {
+    return this.questionImportService.createImport(user.userId, dto);
+  }
+
+  @Get()
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  list(@Query() query: QuestionImportQueryDto) {
+    return this.questionImportService.listImports(query);
+  }
+
+  @Get(':jobId')
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  getImport(@Param('jobId') jobId: string) {
+    return this.questionImportService.getImport(jobId);
+  }
+
+  @Post(':jobId/commit')
+  @RequireUserType('ADMIN')
+  @Policy('questions.crud')
+  @Audit('questions.import_commit', 'QuestionImportJob')
+  commit(
+    @CurrentUser() user: { userId: string },
+    @Param('jobId') jobId: string,
+  ) {
+    return this.questionImportService.commitImport(user.userId, jobId);
+  }
+
+  @Get(':jobId/error-report')
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  getErrorReport(@Param('jobId') jobId: string) {
+    return this.questionImportService.getErrorReportUrl(jobId);
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Audit, CurrentUser } from '../../common/decorators';
+import { Policy, RequireUserType } from '../authorization/decorators';
+import { JwtAuthGuard } from '../auth/guards';
+import { PolicyGuard } from '../authorization/guards';
+import { QuestionReportQueryDto, QuestionReportUpdateDto } from './dto';
+import { QuestionReportsService } from './question-bank.reports.service';
+
+// Registered ahead of AdminQuestionsController so `reports` is not taken
+// for a question id.
+@ApiTags('admin-question-reports')
+@ApiBearerAuth()
+@Controller('admin/questions/reports')
+@UseGuards(JwtAuthGuard, PolicyGuard)
+export class AdminQuestionReportsController {
+  constructor(private readonly reportsService: QuestionReportsService) {}
+
+  @Get()
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  list(@Query() query: QuestionReportQueryDto) {
+    return this.reportsService.listReports(query);
+  }
+
+  @Get(':reportId')
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  get(@Param('reportId') reportId: string) {
+    return this.reportsService.getReport(reportId);
+  }
+
+  @Patch(':reportId')
+  @RequireUserType('ADMIN')
+  @Policy('questions.crud')
+  @Audit('questions.report.update', 'QuestionReport')
+  updateStatus(
+    @CurrentUser() user: { userId: string },
+    @Param('reportId') reportId: string,
+    @Body() dto: QuestionReportUpdateDto,
+  ) {
+    return this.reportsService.updateStatus(user.userId, reportId, dto);
+  }
+}
@@ -0,0 +1,31 @@
+import { Controller, Get, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Audit } from '../../common/decorators';
+import { Policy, RequireUserType } from '../authorization/decorators';
+import { JwtAuthGuard } from '../auth/guards';
+import { PolicyGuard } from '../authorization/guards';
+import { QuestionItemStatQueryDto } from './dto';
+import { QuestionItemStatsService } from './question-bank.item-stats.service';
+
+@ApiTags('admin-question-stats')
+@ApiBearerAuth()
+@Controller('admin/question-stats')
+@UseGuards(JwtAuthGuard, PolicyGuard)
+export class AdminQuestionStatsController {
+  constructor(private readonly itemStatsService: QuestionItemStatsService) {}
+
+  @Get()
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  report(@Query() query: QuestionItemStatQueryDto) {
+    return this.itemStatsService.getReport(query);
+  }
+
+  @Post('recompute')
+  @RequireUserType('ADMIN')
+  @Policy('questions.crud')
+  @Audit('questions.stats.recompute', 'Question')
+  recompute() {
+    return this.itemStatsService.recomputeAll();
+  }
+}
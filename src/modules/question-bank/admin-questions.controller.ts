@@ -4,6 +4,7 @@ import {
   Delete,
   Get,
   Param,
+  ParseIntPipe,
   Patch,
   Post,
   Query,
@@ -14,7 +15,13 @@ import { Audit, CurrentUser } from '../../common/decorators';
 import { Policy, RequireUserType } from '../authorization/decorators';
 import { JwtAuthGuard } from '../auth/guards';
 import { PolicyGuard } from '../authorization/guards';
-import { BulkImportDto, CreateQuestionDto, QuestionQueryDto, UpdateQuestionDto } from './dto';
+import {
+  BulkImportDto,
+  CreateQuestionDto,
+  QuestionQueryDto,
+  QuestionRevisionDiffQueryDto,
+  UpdateQuestionDto,
+} from './dto';
 import { QuestionBankService } from './question-bank.service';
 
 @ApiTags('admin-questions')
@@ -36,8 +43,12 @@ export class AdminQuestionsController {
   @RequireUserType('ADMIN')
   @Policy('questions.crud')
   @Audit('questions.update', 'Question')
-  updateQuestion(@Param('questionId') questionId: string, @Body() dto: UpdateQuestionDto) {
-    return this.questionBankService.updateQuestion(questionId, dto);
+  updateQuestion(
+    @CurrentUser() user: { userId: string },
+    @Param('questionId') questionId: string,
+    @Body() dto: UpdateQuestionDto,
+  ) {
+    return this.questionBankService.updateQuestion(user.userId, questionId, dto);
   }
 
   @Post(':questionId/publish')
@@ -78,6 +89,33 @@ export class AdminQuestionsController {
     return this.questionBankService.getQuestion(questionId, true, true);
   }
 
+  @Get(':questionId/revisions')
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  listRevisions(@Param('questionId') questionId: string) {
+    return this.questionBankService.listRevisions(questionId);
+  }
+
+  @Get(':questionId/revisions/diff')
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  diffRevisions(
+    @Param('questionId') questionId: string,
+    @Query() query: QuestionRevisionDiffQueryDto,
+  ) {
+    return this.questionBankService.diffRevisions(questionId, query);
+  }
+
+  @Get(':questionId/revisions/:version')
+  @RequireUserType('ADMIN')
+  @Policy('questions.read')
+  getRevision(
+    @Param('questionId') questionId: string,
+    @Param('version', ParseIntPipe) version: number,
+  ) {
+    return this.questionBankService.getRevision(questionId, version);
+  }
+
   @Post('bulk-import')
   @RequireUserType('ADMIN')
   @Policy('questions.crud')
@@ -1,4 +1,16 @@
 export { BulkImportDto } from './bulk-import.dto';
 export { CreateQuestionDto } from './create-question.dto';
+export { QuestionDuplicateQueryDto } from './question-duplicate-query.dto';
+export { QuestionExportCreateDto } from './question-export-create.dto';
+export { QuestionExportQueryDto } from './question-export-query.dto';
+export { QuestionImportCreateDto } from './question-import-create.dto';
+export { QuestionImportQueryDto } from './question-import-query.dto';
+export { QuestionItemStatQueryDto } from './question-item-stat-query.dto';
+export { QuestionLocaleQueryDto } from './question-locale-query.dto';
+export { QuestionMergeDto } from './question-merge.dto';
 export { QuestionQueryDto } from './question-query.dto';
+export { QuestionReportCreateDto } from './question-report-create.dto';
+export { QuestionReportQueryDto } from './question-report-query.dto';
+export { QuestionReportUpdateDto } from './question-report-update.dto';
+export { QuestionRevisionDiffQueryDto } from './question-revision-diff-query.dto';
 export { UpdateQuestionDto } from './update-question.dto';
@@ -0,0 +1,19 @@
+import { IsNumberString, IsOptional, IsString } from 'class-validator';
+
+export class QuestionDuplicateQueryDto {
+  @IsOptional()
+  @IsString()
+  subjectId?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  threshold?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pageSize?: string;
+}
@@ -0,0 +1,31 @@
+import { IsBoolean, IsEnum, IsOptional, IsString } from 'class-validator';
+import {
+  QuestionDifficulty,
+  QuestionExportFormat,
+  QuestionType,
+} from '@prisma/client';
+
+export class QuestionExportCreateDto {
+  @IsEnum(QuestionExportFormat)
+  format!: QuestionExportFormat;
+
+  @IsOptional()
+  @IsString()
+  subjectId?: string;
+
+  @IsOptional()
+  @IsString()
+  topicId?: string;
+
+  @IsOptional()
+  @IsEnum(QuestionType)
+  type?: QuestionType;
+
+  @IsOptional()
+  @IsEnum(QuestionDifficulty)
+  difficulty?: QuestionDifficulty;
+
+  @IsOptional()
+  @IsBoolean()
+  isPublished?: boolean;
+}
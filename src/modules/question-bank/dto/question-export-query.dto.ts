@@ -0,0 +1,16 @@
+import { IsEnum, IsNumberString, IsOptional } from 'class-validator';
+import { QuestionExportStatus } from '@prisma/client';
+
+export class QuestionExportQueryDto {
+  @IsOptional()
+  @IsEnum(QuestionExportStatus)
+  status?: QuestionExportStatus;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pageSize?: string;
+}
@@ -0,0 +1,22 @@
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+
+export class QuestionImportCreateDto {
+  @IsString()
+  fileAssetId!: string;
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @IsOptional()
+  @IsString()
+  defaultSubjectId?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isPublished?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  skipDuplicates?: boolean;
+}
@@ -0,0 +1,16 @@
+import { IsEnum, IsNumberString, IsOptional } from 'class-validator';
+import { QuestionImportStatus } from '@prisma/client';
+
+export class QuestionImportQueryDto {
+  @IsOptional()
+  @IsEnum(QuestionImportStatus)
+  status?: QuestionImportStatus;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pageSize?: string;
+}
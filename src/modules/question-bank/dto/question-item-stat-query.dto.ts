@@ -0,0 +1,45 @@
+import { IsIn, IsNumberString, IsOptional, IsString } from 'class-validator';
+import { ITEM_STAT_FLAGS } from '../utils/item-statistics.util';
+
+export const ITEM_STAT_SORT_FIELDS = [
+  'pValue',
+  'discrimination',
+  'irtDifficulty',
+  'responses',
+  'avgTimeMs',
+  'computedAt',
+] as const;
+
+export class QuestionItemStatQueryDto {
+  @IsOptional()
+  @IsString()
+  subjectId?: string;
+
+  @IsOptional()
+  @IsString()
+  topicId?: string;
+
+  @IsOptional()
+  @IsIn(ITEM_STAT_FLAGS)
+  flag?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  minResponses?: string;
+
+  @IsOptional()
+  @IsIn(ITEM_STAT_SORT_FIELDS)
+  sort?: (typeof ITEM_STAT_SORT_FIELDS)[number];
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pageSize?: string;
+}
@@ -0,0 +1,8 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { QUESTION_LOCALES } from '../utils/question-locale.util';
+
+export class QuestionLocaleQueryDto {
+  @IsOptional()
+  @IsIn(QUESTION_LOCALES)
+  lang?: string;
+}
@@ -0,0 +1,11 @@
+import { ArrayNotEmpty, IsArray, IsString } from 'class-validator';
+
+export class QuestionMergeDto {
+  @IsString()
+  survivorId!: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  duplicateIds!: string[];
+}
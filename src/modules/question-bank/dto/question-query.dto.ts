@@ -1,5 +1,12 @@
-import { IsBooleanString, IsEnum, IsOptional, IsString } from 'class-validator';
+import {
+  IsBooleanString,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+} from 'class-validator';
 import { QuestionDifficulty, QuestionType } from '@prisma/client';
+import { QUESTION_LOCALES } from '../utils/question-locale.util';
 
 export class QuestionQueryDto {
   @IsOptional()
@@ -33,4 +40,8 @@ export class QuestionQueryDto {
   @IsOptional()
   @IsString()
   pageSize?: string;
+
+  @IsOptional()
+  @IsIn(QUESTION_LOCALES)
+  lang?: string;
 }
@@ -0,0 +1,22 @@
+import { QuestionReportReason } from '@prisma/client';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class QuestionReportCreateDto {
+  @IsEnum(QuestionReportReason)
+  reason!: QuestionReportReason;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  message?: string;
+
+  /** Set when reporting from an attempt review. */
+  @IsOptional()
+  @IsString()
+  attemptId?: string;
+
+  /** Set when reporting from a practice session. */
+  @IsOptional()
+  @IsString()
+  practiceSessionId?: string;
+}
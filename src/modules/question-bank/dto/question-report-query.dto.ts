@@ -0,0 +1,28 @@
+import { QuestionReportReason, QuestionReportStatus } from '@prisma/client';
+import { IsEnum, IsNumberString, IsOptional, IsString } from 'class-validator';
+
+export class QuestionReportQueryDto {
+  @IsOptional()
+  @IsEnum(QuestionReportStatus)
+  status?: QuestionReportStatus;
+
+  @IsOptional()
+  @IsEnum(QuestionReportReason)
+  reason?: QuestionReportReason;
+
+  @IsOptional()
+  @IsString()
+  questionId?: string;
+
+  @IsOptional()
+  @IsString()
+  subjectId?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pageSize?: string;
+}
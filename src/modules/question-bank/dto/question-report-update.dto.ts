@@ -0,0 +1,13 @@
+import { QuestionReportStatus } from '@prisma/client';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class QuestionReportUpdateDto {
+  @IsEnum(QuestionReportStatus)
+  status!: QuestionReportStatus;
+
+  /** Shown to the reporter when the report is resolved. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  resolutionNote?: string;
+}
@@ -0,0 +1,11 @@
+import { IsNumberString, IsOptional } from 'class-validator';
+
+export class QuestionRevisionDiffQueryDto {
+  @IsOptional()
+  @IsNumberString()
+  from?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  to?: string;
+}
@@ -1,4 +1,4 @@
-import { IsBoolean, IsEnum, IsObject, IsOptional, IsString } from 'class-validator';
+import { IsBoolean, IsEnum, IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
 import { QuestionDifficulty, QuestionType } from '@prisma/client';
 
 export class UpdateQuestionDto {
@@ -37,4 +37,9 @@ export class UpdateQuestionDto {
   @IsOptional()
   @IsBoolean()
   isPublished?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  changeNote?: string;
 }
@@ -0,0 +1,514 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { QuestionDuplicateQueryDto, QuestionMergeDto } from './dto';
+
+export type SimilarQuestion = {
+  questionId: string;
+  similarity: number;
+};
+
+type DuplicatePairRow = {
+  leftId: string;
+  rightId: string;
+  similarity: number;
+};
+
+type PrismaWriter = PrismaService | Prisma.TransactionClient;
+
+const MAX_REPORT_PAIRS = 2000;
+
+@Injectable()
+export class QuestionDuplicatesService {
+  private readonly enableTrgm: boolean;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly siteSettings: SiteSettingsService,
+  ) {
+    const flag = this.configService.get<string | boolean>('ENABLE_PG_TRGM');
+    this.enableTrgm = flag === true || flag === 'true' || flag === '1';
+  }
+
+  /**
+   * Looks up existing questions in the same subject whose search text is
+   * similar to `searchText`. Without pg_trgm only normalised exact matches are
+   * reported.
+   */
+  async findSimilar(
+    searchText: string,
+    options: { subjectId: string; excludeIds?: string[]; limit?: number },
+  ): Promise<SimilarQuestion[]> {
+    const text = searchText.trim();
+    if (!text) {
+      return [];
+    }
+
+    const limit = options.limit ?? 5;
+    const filters: Prisma.Sql[] = [
+      Prisma.sql`q."subjectId" = ${options.subjectId}`,
+      Prisma.sql`q."mergedIntoId" IS NULL`,
+    ];
+    if (options.excludeIds?.length) {
+      filters.push(
+        Prisma.sql`q.id NOT IN (${Prisma.join(options.excludeIds)})`,
+      );
+    }
+
+    if (!this.enableTrgm) {
+      filters.push(
+        Prisma.sql`lower(btrim(coalesce(q."searchText", ''))) = lower(${text})`,
+      );
+      const rows = await this.prisma.$queryRaw<{ id: string }[]>(
+        Prisma.sql`
+          SELECT q.id FROM "Question" q
+          WHERE ${Prisma.join(filters, ' AND ')}
+          ORDER BY q."createdAt" ASC
+          LIMIT ${limit}
+        `,
+      );
+      return rows.map((row) => ({ questionId: row.id, similarity: 1 }));
+    }
+
+    const threshold = this.getThreshold();
+    filters.push(Prisma.sql`coalesce(q."searchText", '') % ${text}`);
+
+    const rows = await this.prisma.$transaction(async (tx) => {
+      await this.applyThreshold(tx, threshold);
+      return tx.$queryRaw<{ id: string; similarity: number }[]>(
+        Prisma.sql`
+          SELECT q.id, similarity(coalesce(q."searchText", ''), ${text})::float AS similarity
+          FROM "Question" q
+          WHERE ${Prisma.join(filters, ' AND ')}
+          ORDER BY similarity DESC
+          LIMIT ${limit}
+        `,
+      );
+    });
+
+    return rows.map((row) => ({
+      questionId: row.id,
+      similarity: Math.round(Number(row.similarity) * 1000) / 1000,
+    }));
+  }
+
+  async getDuplicateReport(query: QuestionDuplicateQueryDto) {
+    const page = Math.max(Number(query.page ?? 1), 1);
+    const pageSize = Math.min(Math.max(Number(query.pageSize ?? 20), 1), 100);
+    const threshold =
+      query.threshold !== undefined
+        ? Math.min(Math.max(Number(query.threshold), 0.1), 1)
+        : this.getThreshold();
+
+    const filters: Prisma.Sql[] = [
+      Prisma.sql`a."mergedIntoId" IS NULL`,
+      Prisma.sql`b."mergedIntoId" IS NULL`,
+    ];
+    if (query.subjectId) {
+      filters.push(Prisma.sql`a."subjectId" = ${query.subjectId}`);
+    }
+
+    const pairs = this.enableTrgm
+      ? await this.prisma.$transaction(async (tx) => {
+          await this.applyThreshold(tx, threshold);
+          return tx.$queryRaw<DuplicatePairRow[]>(
+            Prisma.sql`
+              SELECT a.id AS "leftId", b.id AS "rightId",
+                similarity(coalesce(a."searchText", ''), coalesce(b."searchText", ''))::float AS similarity
+              FROM "Question" a
+              JOIN "Question" b
+                ON b."subjectId" = a."subjectId"
+                AND a.id < b.id
+                AND coalesce(a."searchText", '') % coalesce(b."searchText", '')
+              WHERE ${Prisma.join(filters, ' AND ')}
+              ORDER BY similarity DESC
+              LIMIT ${MAX_REPORT_PAIRS}
+            `,
+          );
+        })
+      : await this.prisma.$queryRaw<DuplicatePairRow[]>(
+          Prisma.sql`
+            SELECT a.id AS "leftId", b.id AS "rightId", 1::float AS similarity
+            FROM "Question" a
+            JOIN "Question" b
+              ON b."subjectId" = a."subjectId"
+              AND a.id < b.id
+              AND lower(btrim(coalesce(a."searchText", ''))) = lower(btrim(coalesce(b."searchText", '')))
+            WHERE ${Prisma.join(filters, ' AND ')}
+            LIMIT ${MAX_REPORT_PAIRS}
+          `,
+        );
+
+    const clusters = this.buildClusters(pairs);
+    const pageClusters = clusters.slice((page - 1) * pageSize, page * pageSize);
+    const questionIds = pageClusters.flatMap((cluster) => cluster.questionIds);
+    const questions = questionIds.length
+      ? await this.prisma.question.findMany({
+          where: { id: { in: questionIds } },
+          select: {
+            id: true,
+            subjectId: true,
+            topicId: true,
+            type: true,
+            difficulty: true,
+            isPublished: true,
+            statementJson: true,
+            createdAt: true,
+            _count: {
+              select: {
+                tests: true,
+                printItems: true,
+                userQuestionStates: true,
+                attemptItems: true,
+              },
+            },
+          },
+        })
+      : [];
+    const questionById = new Map(
+      questions.map((question) => [question.id, question]),
+    );
+
+    return {
+      data: pageClusters.map((cluster) => ({
+        size: cluster.questionIds.length,
+        maxSimilarity: cluster.maxSimilarity,
+        questions: cluster.questionIds
+          .map((id) => questionById.get(id))
+          .filter((question): question is NonNullable<typeof question> =>
+            Boolean(question),
+          ),
+      })),
+      total: clusters.length,
+      page,
+      pageSize,
+      threshold,
+      truncated: pairs.length >= MAX_REPORT_PAIRS,
+    };
+  }
+
+  /**
+   * Folds duplicates into the survivor. Test, print, practice-state and
+   * mistake-notebook rows move over; the duplicates are unpublished and marked as merged rather than
+   * deleted so past attempts keep their original question.
+   */
+  async mergeQuestions(dto: QuestionMergeDto) {
+    const duplicateIds = Array.from(new Set(dto.duplicateIds)).filter(
+      (id) => id !== dto.survivorId,
+    );
+    if (!duplicateIds.length) {
+      throw new BadRequestException({
+        code: 'QUESTION_MERGE_EMPTY',
+        message: 'Select at least one duplicate to merge.',
+      });
+    }
+
+    const questions = await this.prisma.question.findMany({
+      where: { id: { in: [dto.survivorId, ...duplicateIds] } },
+      select: { id: true, type: true, mergedIntoId: true },
+    });
+    const survivor = questions.find(
+      (question) => question.id === dto.survivorId,
+    );
+    if (!survivor || questions.length !== duplicateIds.length + 1) {
+      throw new NotFoundException({
+        code: 'QUESTION_NOT_FOUND',
+        message: 'Question not found.',
+      });
+    }
+
+    const merged = questions.filter((question) => question.mergedIntoId);
+    if (merged.length) {
+      throw new BadRequestException({
+        code: 'QUESTION_ALREADY_MERGED',
+        message: 'Merged questions cannot take part in another merge.',
+        details: { questionIds: merged.map((question) => question.id) },
+      });
+    }
+
+    const mismatched = questions.filter(
+      (question) => question.type !== survivor.type,
+    );
+    if (mismatched.length) {
+      throw new BadRequestException({
+        code: 'QUESTION_MERGE_TYPE_MISMATCH',
+        message: 'Only questions of the same type can be merged.',
+        details: { questionIds: mismatched.map((question) => question.id) },
+      });
+    }
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const tests = await this.mergeTestQuestions(
+        tx,
+        dto.survivorId,
+        duplicateIds,
+      );
+      const printItems = await tx.printJobItem.updateMany({
+        where: { questionId: { in: duplicateIds } },
+        data: { questionId: dto.survivorId },
+      });
+      const userStates = await this.mergeUserQuestionStates(
+        tx,
+        dto.survivorId,
+        duplicateIds,
+      );
+      const mistakes = await this.mergeMistakeEntries(
+        tx,
+        dto.survivorId,
+        duplicateIds,
+      );
+
+      await tx.question.updateMany({
+        where: { id: { in: duplicateIds } },
+        data: {
+          mergedIntoId: dto.survivorId,
+          mergedAt: new Date(),
+          isPublished: false,
+        },
+      });
+
+      return { tests, printItems: printItems.count, userStates, mistakes };
+    });
+
+    return {
+      survivorId: dto.survivorId,
+      mergedIds: duplicateIds,
+      moved: result,
+    };
+  }
+
+  private async mergeTestQuestions(
+    tx: PrismaWriter,
+    survivorId: string,
+    duplicateIds: string[],
+  ) {
+    // Tests that already contain the survivor simply drop the duplicate.
+    const moved = await tx.$executeRaw(
+      Prisma.sql`
+        INSERT INTO "TestQuestion" ("testId", "questionId", "orderIndex", "marks")
+        SELECT DISTINCT ON (tq."testId") tq."testId", ${survivorId}, tq."orderIndex", tq."marks"
+        FROM "TestQuestion" tq
+        WHERE tq."questionId" IN (${Prisma.join(duplicateIds)})
+        ORDER BY tq."testId", tq."orderIndex"
+        ON CONFLICT ("testId", "questionId") DO NOTHING
+      `,
+    );
+    await tx.testQuestion.deleteMany({
+      where: { questionId: { in: duplicateIds } },
+    });
+    return moved;
+  }
+
+  /**
+   * Sums the counters per user. The review schedule follows the card that is
+   * due soonest, so a merge never pushes a review back; lapses add up.
+   */
+  private async mergeUserQuestionStates(
+    tx: PrismaWriter,
+    survivorId: string,
+    duplicateIds: string[],
+  ) {
+    const moved = await tx.$executeRaw(
+      Prisma.sql`
+        INSERT INTO "UserQuestionState"
+          ("userId", "questionId", "correctCount", "wrongCount", "lastAnsweredAt", "lastIsCorrect",
+           "easeFactor", "intervalDays", "repetitions", "lapses", "dueAt", "createdAt", "updatedAt")
+        SELECT
+          s."userId",
+          ${survivorId},
+          SUM(s."correctCount")::int,
+          SUM(s."wrongCount")::int,
+          MAX(s."lastAnsweredAt"),
+          (array_agg(s."lastIsCorrect" ORDER BY s."lastAnsweredAt" DESC NULLS LAST))[1],
+          (array_agg(s."easeFactor" ORDER BY s."dueAt" ASC NULLS LAST))[1],
+          (array_agg(s."intervalDays" ORDER BY s."dueAt" ASC NULLS LAST))[1],
+          (array_agg(s."repetitions" ORDER BY s."dueAt" ASC NULLS LAST))[1],
+          SUM(s."lapses")::int,
+          MIN(s."dueAt"),
+          MIN(s."createdAt"),
+          NOW()
+        FROM "UserQuestionState" s
+        WHERE s."questionId" IN (${Prisma.join(duplicateIds)})
+        GROUP BY s."userId"
+        ON CONFLICT ("userId", "questionId") DO UPDATE SET
+          "correctCount" = "UserQuestionState"."correctCount" + EXCLUDED."correctCount",
+          "wrongCount" = "UserQuestionState"."wrongCount" + EXCLUDED."wrongCount",
+          "lastIsCorrect" = CASE
+            WHEN EXCLUDED."lastAnsweredAt" > coalesce("UserQuestionState"."lastAnsweredAt", '-infinity'::timestamp)
+              THEN EXCLUDED."lastIsCorrect"
+            ELSE "UserQuestionState"."lastIsCorrect"
+          END,
+          "lastAnsweredAt" = GREATEST("UserQuestionState"."lastAnsweredAt", EXCLUDED."lastAnsweredAt"),
+          "easeFactor" = CASE
+            WHEN EXCLUDED."dueAt" < coalesce("UserQuestionState"."dueAt", 'infinity'::timestamp)
+              THEN EXCLUDED."easeFactor"
+            ELSE "UserQuestionState"."easeFactor"
+          END,
+          "intervalDays" = CASE
+            WHEN EXCLUDED."dueAt" < coalesce("UserQuestionState"."dueAt", 'infinity'::timestamp)
+              THEN EXCLUDED."intervalDays"
+            ELSE "UserQuestionState"."intervalDays"
+          END,
+          "repetitions" = CASE
+            WHEN EXCLUDED."dueAt" < coalesce("UserQuestionState"."dueAt", 'infinity'::timestamp)
+              THEN EXCLUDED."repetitions"
+            ELSE "UserQuestionState"."repetitions"
+          END,
+          "lapses" = "UserQuestionState"."lapses" + EXCLUDED."lapses",
+          "dueAt" = LEAST("UserQuestionState"."dueAt", EXCLUDED."dueAt"),
+          "updatedAt" = NOW()
+      `,
+    );
+    await tx.userQuestionState.deleteMany({
+      where: { questionId: { in: duplicateIds } },
+    });
+    return moved;
+  }
+
+  /**
+   * One mistake per user on the survivor. It stays open while any of the
+   * merged mistakes is open, and the latest wrong answer wins.
+   */
+  private async mergeMistakeEntries(
+    tx: PrismaWriter,
+    survivorId: string,
+    duplicateIds: string[],
+  ) {
+    const moved = await tx.$executeRaw(
+      Prisma.sql`
+        INSERT INTO "MistakeEntry"
+          ("id", "userId", "questionId", "attemptWrongCount", "practiceWrongCount", "lastSource",
+           "lastAttemptId", "lastAnswerJson", "correctStreak", "note", "firstWrongAt", "lastWrongAt",
+           "resolvedAt", "createdAt", "updatedAt")
+        SELECT
+          'mist_' || md5(m."userId" || ':' || ${survivorId}),
+          m."userId",
+          ${survivorId},
+          SUM(m."attemptWrongCount")::int,
+          SUM(m."practiceWrongCount")::int,
+          (array_agg(m."lastSource" ORDER BY m."lastWrongAt" DESC))[1],
+          (array_agg(m."lastAttemptId" ORDER BY m."lastWrongAt" DESC))[1],
+          (array_agg(m."lastAnswerJson" ORDER BY m."lastWrongAt" DESC))[1],
+          CASE
+            WHEN bool_or(m."resolvedAt" IS NULL)
+              THEN MIN(m."correctStreak") FILTER (WHERE m."resolvedAt" IS NULL)
+            ELSE MIN(m."correctStreak")
+          END,
+          (array_agg(m."note" ORDER BY m."updatedAt" DESC) FILTER (WHERE m."note" IS NOT NULL))[1],
+          MIN(m."firstWrongAt"),
+          MAX(m."lastWrongAt"),
+          CASE WHEN bool_or(m."resolvedAt" IS NULL) THEN NULL ELSE MAX(m."resolvedAt") END,
+          MIN(m."createdAt"),
+          NOW()
+        FROM "MistakeEntry" m
+        WHERE m."questionId" IN (${Prisma.join(duplicateIds)})
+        GROUP BY m."userId"
+        ON CONFLICT ("userId", "questionId") DO UPDATE SET
+          "attemptWrongCount" = "MistakeEntry"."attemptWrongCount" + EXCLUDED."attemptWrongCount",
+          "practiceWrongCount" = "MistakeEntry"."practiceWrongCount" + EXCLUDED."practiceWrongCount",
+          "lastSource" = CASE
+            WHEN EXCLUDED."lastWrongAt" > "MistakeEntry"."lastWrongAt" THEN EXCLUDED."lastSource"
+            ELSE "MistakeEntry"."lastSource"
+          END,
+          "lastAttemptId" = CASE
+            WHEN EXCLUDED."lastWrongAt" > "MistakeEntry"."lastWrongAt" THEN EXCLUDED."lastAttemptId"
+            ELSE "MistakeEntry"."lastAttemptId"
+          END,
+          "lastAnswerJson" = CASE
+            WHEN EXCLUDED."lastWrongAt" > "MistakeEntry"."lastWrongAt" THEN EXCLUDED."lastAnswerJson"
+            ELSE "MistakeEntry"."lastAnswerJson"
+          END,
+          "correctStreak" = CASE
+            WHEN ("MistakeEntry"."resolvedAt" IS NULL) = (EXCLUDED."resolvedAt" IS NULL)
+              THEN LEAST("MistakeEntry"."correctStreak", EXCLUDED."correctStreak")
+            WHEN "MistakeEntry"."resolvedAt" IS NULL THEN "MistakeEntry"."correctStreak"
+            ELSE EXCLUDED."correctStreak"
+          END,
+          "note" = coalesce("MistakeEntry"."note", EXCLUDED."note"),
+          "firstWrongAt" = LEAST("MistakeEntry"."firstWrongAt", EXCLUDED."firstWrongAt"),
+          "lastWrongAt" = GREATEST("MistakeEntry"."lastWrongAt", EXCLUDED."lastWrongAt"),
+          "resolvedAt" = CASE
+            WHEN "MistakeEntry"."resolvedAt" IS NULL OR EXCLUDED."resolvedAt" IS NULL THEN NULL
+            ELSE GREATEST("MistakeEntry"."resolvedAt", EXCLUDED."resolvedAt")
+          END,
+          "updatedAt" = NOW()
+      `,
+    );
+    await tx.mistakeEntry.deleteMany({
+      where: { questionId: { in: duplicateIds } },
+    });
+    return moved;
+  }
+
+  private buildClusters(pairs: DuplicatePairRow[]) {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      const next = parent.get(id) ?? id;
+      if (next === id) {
+        return id;
+      }
+      const root = find(next);
+      parent.set(id, root);
+      return root;
+    };
+
+    pairs.forEach((pair) => {
+      const left = find(pair.leftId);
+      const right = find(pair.rightId);
+      if (left !== right) {
+        parent.set(right, left);
+      }
+    });
+
+    const clusters = new Map<
+      string,
+      { questionIds: Set<string>; maxSimilarity: number }
+    >();
+    pairs.forEach((pair) => {
+      const root = find(pair.leftId);
+      const cluster = clusters.get(root) ?? {
+        questionIds: new Set<string>(),
+        maxSimilarity: 0,
+      };
+      cluster.questionIds.add(pair.leftId);
+      cluster.questionIds.add(pair.rightId);
+      cluster.maxSimilarity = Math.max(
+        cluster.maxSimilarity,
+        Math.round(Number(pair.similarity) * 1000) / 1000,
+      );
+      clusters.set(root, cluster);
+    });
+
+    return Array.from(clusters.values())
+      .map((cluster) => ({
+        questionIds: Array.from(cluster.questionIds),
+        maxSimilarity: cluster.maxSimilarity,
+      }))
+      .sort(
+        (a, b) =>
+          b.maxSimilarity - a.maxSimilarity ||
+          b.questionIds.length - a.questionIds.length,
+      );
+  }
+
+  private getThreshold() {
+    return this.siteSettings.getNumber('QUESTION_DUPLICATE_THRESHOLD', 0.7, {
+      min: 0.1,
+      max: 1,
+    });
+  }
+
+  private async applyThreshold(tx: PrismaWriter, threshold: number) {
+    // Scoped to the transaction so the `%` operator can use the trigram index.
+    await tx.$queryRaw(
+      Prisma.sql`SELECT set_config('pg_trgm.similarity_threshold', ${String(threshold)}, true)`,
+    );
+  }
+}
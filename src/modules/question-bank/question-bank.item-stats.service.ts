@@ -0,0 +1,395 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import {
+  AttemptStatus,
+  PracticeEventType,
+  Prisma,
+  QuestionType,
+} from '@prisma/client';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { QuestionItemStatQueryDto } from './dto';
+import {
+  evaluateAnswer,
+  readOptionIndexes,
+} from './utils/answer-evaluation.util';
+import {
+  addItemResponse,
+  assignScoreGroups,
+  createItemAccumulator,
+  ItemAccumulator,
+  summarizeItem,
+} from './utils/item-statistics.util';
+
+type QuestionKey = {
+  type: QuestionType;
+  correctAnswerJson: Prisma.JsonValue | null;
+};
+
+type ItemTally = {
+  acc: ItemAccumulator;
+  attemptResponses: number;
+  practiceResponses: number;
+};
+
+const GRADED_STATUSES = [AttemptStatus.SUBMITTED, AttemptStatus.EVALUATED];
+const CHOICE_TYPES: QuestionType[] = [
+  QuestionType.SINGLE_CHOICE,
+  QuestionType.MULTI_CHOICE,
+];
+const ATTEMPT_BATCH = 200;
+const PRACTICE_BATCH = 2000;
+const WRITE_BATCH = 500;
+
+@Injectable()
+export class QuestionItemStatsService {
+  private readonly logger = new Logger(QuestionItemStatsService.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly siteSettings: SiteSettingsService,
+  ) {}
+
+  @Cron('30 3 * * *')
+  async nightlyRecompute() {
+    try {
+      const result = await this.recomputeAll();
+      if (result.started) {
+        this.logger.log(
+          `Question item stats recomputed: questions=${result.questions} flagged=${result.flagged}`,
+        );
+      }
+    } catch (err) {
+      this.logger.warn(
+        `Question item stats failed: ${(err as Error)?.message ?? String(err)}`,
+      );
+    }
+  }
+
+  /**
+   * Rebuilds every question's statistics from graded test attempts and
+   * practice answers. Keys are read from the current question, so a fixed
+   * key clears its POSSIBLE_WRONG_KEY flag on the next run.
+   */
+  async recomputeAll() {
+    if (this.running) {
+      return { started: false, questions: 0, flagged: 0 };
+    }
+    this.running = true;
+    try {
+      const tallies = new Map<string, ItemTally>();
+      const keys = new Map<string, QuestionKey>();
+      await this.collectAttemptResponses(tallies, keys);
+      await this.collectPracticeResponses(tallies, keys);
+
+      const minResponses = this.siteSettings.getNumber(
+        'QUESTION_STATS_MIN_RESPONSES',
+        30,
+        { integer: true, min: 1 },
+      );
+      const computedAt = new Date();
+      const rows: Prisma.QuestionItemStatCreateManyInput[] = [];
+      let flagged = 0;
+      tallies.forEach((tally, questionId) => {
+        const key = keys.get(questionId);
+        if (!key) {
+          return;
+        }
+        const summary = summarizeItem(tally.acc, {
+          keyOptionIndexes: CHOICE_TYPES.includes(key.type)
+            ? readOptionIndexes(key.correctAnswerJson)
+            : null,
+          minResponses,
+        });
+        if (summary.flags.length) {
+          flagged += 1;
+        }
+        rows.push({
+          questionId,
+          responses: summary.responses,
+          skipped: summary.skipped,
+          attemptResponses: tally.attemptResponses,
+          practiceResponses: tally.practiceResponses,
+          pValue: summary.pValue,
+          discrimination: summary.discrimination,
+          irtDifficulty: summary.irtDifficulty,
+          avgTimeMs: summary.avgTimeMs,
+          medianTimeMs: summary.medianTimeMs,
+          optionStatsJson: summary.options.length
+            ? summary.options
+            : Prisma.DbNull,
+          flags: summary.flags,
+          computedAt,
+        });
+      });
+
+      await this.prisma.$transaction(async (tx) => {
+        await tx.questionItemStat.deleteMany({});
+        for (let index = 0; index < rows.length; index += WRITE_BATCH) {
+          await tx.questionItemStat.createMany({
+            data: rows.slice(index, index + WRITE_BATCH),
+          });
+        }
+      });
+
+      return {
+        started: true,
+        questions: rows.length,
+        flagged,
+      };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async getReport(query: QuestionItemStatQueryDto) {
+    const page = Math.max(Number(query.page ?? 1), 1);
+    const pageSize = Math.min(Math.max(Number(query.pageSize ?? 20), 1), 100);
+    const sort = query.sort ?? 'discrimination';
+    const order = query.order ?? 'asc';
+
+    const where: Prisma.QuestionItemStatWhereInput = {
+      responses:
+        query.minResponses !== undefined
+          ? { gte: Number(query.minResponses) }
+          : undefined,
+      flags: query.flag ? { has: query.flag } : undefined,
+      question:
+        query.subjectId || query.topicId
+          ? {
+              subjectId: query.subjectId ?? undefined,
+              topicId: query.topicId ?? undefined,
+            }
+          : undefined,
+    };
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.questionItemStat.count({ where }),
+      this.prisma.questionItemStat.findMany({
+        where,
+        orderBy: [this.buildReportOrder(sort, order), { questionId: 'asc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          question: {
+            select: {
+              id: true,
+              subjectId: true,
+              topicId: true,
+              type: true,
+              difficulty: true,
+              isPublished: true,
+              searchText: true,
+            },
+          },
+        },
+      }),
+    ]);
+
+    return { data, total, page, pageSize };
+  }
+
+  // Questions without enough data to compute a metric sort after the rest
+  // in either direction.
+  private buildReportOrder(
+    sort: NonNullable<QuestionItemStatQueryDto['sort']>,
+    order: Prisma.SortOrder,
+  ): Prisma.QuestionItemStatOrderByWithRelationInput {
+    switch (sort) {
+      case 'responses':
+        return { responses: order };
+      case 'computedAt':
+        return { computedAt: order };
+      default:
+        return { [sort]: { sort: order, nulls: 'last' } };
+    }
+  }
+
+  private async collectAttemptResponses(
+    tallies: Map<string, ItemTally>,
+    keys: Map<string, QuestionKey>,
+  ) {
+    const tests = await this.prisma.attempt.findMany({
+      where: { status: { in: GRADED_STATUSES } },
+      distinct: ['testId'],
+      select: { testId: true },
+    });
+
+    for (const { testId } of tests) {
+      // Score groups are relative to the test, so totals are ranked first
+      // and answers are streamed afterwards.
+      const scores = await this.prisma.attempt.findMany({
+        where: { testId, status: { in: GRADED_STATUSES } },
+        select: { id: true, totalScore: true },
+      });
+      const groups = assignScoreGroups(
+        scores,
+        (attempt) => attempt.totalScore ?? 0,
+      );
+      const groupById = new Map(
+        Array.from(groups.entries()).map(([attempt, group]) => [
+          attempt.id,
+          group,
+        ]),
+      );
+
+      for (let index = 0; index < scores.length; index += ATTEMPT_BATCH) {
+        const ids = scores
+          .slice(index, index + ATTEMPT_BATCH)
+          .map((attempt) => attempt.id);
+        const attempts = await this.prisma.attempt.findMany({
+          where: { id: { in: ids } },
+          select: {
+            id: true,
+            answersJson: true,
+            questions: { select: { questionId: true } },
+          },
+        });
+        await this.loadKeys(
+          keys,
+          attempts.flatMap((attempt) =>
+            attempt.questions.map((item) => item.questionId),
+          ),
+        );
+
+        attempts.forEach((attempt) => {
+          const answers = readAnswers(attempt.answersJson);
+          attempt.questions.forEach(({ questionId }) => {
+            const key = keys.get(questionId);
+            if (!key) {
+              return;
+            }
+            const answer = answers.get(questionId);
+            const evaluation = evaluateAnswer({
+              questionId,
+              type: key.type,
+              answer,
+              correctAnswer: key.correctAnswerJson,
+            });
+            const tally = this.getTally(tallies, questionId);
+            addItemResponse(tally.acc, {
+              credit: evaluation.credit,
+              skipped: evaluation.status === 'SKIPPED',
+              optionIndexes: CHOICE_TYPES.includes(key.type)
+                ? readOptionIndexes(answer)
+                : null,
+              group: groupById.get(attempt.id) ?? null,
+              timeMs: null,
+            });
+            if (evaluation.status !== 'SKIPPED') {
+              tally.attemptResponses += 1;
+            }
+          });
+        });
+      }
+    }
+  }
+
+  private async collectPracticeResponses(
+    tallies: Map<string, ItemTally>,
+    keys: Map<string, QuestionKey>,
+  ) {
+    let cursor: string | undefined;
+    for (;;) {
+      const events = await this.prisma.practiceQuestionEvent.findMany({
+        where: {
+          eventType: PracticeEventType.ANSWERED,
+          isCorrect: { not: null },
+        },
+        orderBy: { id: 'asc' },
+        take: PRACTICE_BATCH,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        select: {
+          id: true,
+          questionId: true,
+          isCorrect: true,
+          payloadJson: true,
+          timeSpentMs: true,
+        },
+      });
+      if (!events.length) {
+        return;
+      }
+      await this.loadKeys(
+        keys,
+        events.map((event) => event.questionId),
+      );
+
+      events.forEach((event) => {
+        const key = keys.get(event.questionId);
+        if (!key) {
+          return;
+        }
+        const tally = this.getTally(tallies, event.questionId);
+        addItemResponse(tally.acc, {
+          credit: event.isCorrect ? 1 : 0,
+          skipped: false,
+          optionIndexes: CHOICE_TYPES.includes(key.type)
+            ? readOptionIndexes(event.payloadJson)
+            : null,
+          group: null,
+          timeMs: event.timeSpentMs,
+        });
+        tally.practiceResponses += 1;
+      });
+      cursor = events[events.length - 1].id;
+    }
+  }
+
+  private async loadKeys(
+    keys: Map<string, QuestionKey>,
+    questionIds: string[],
+  ) {
+    const missing = Array.from(new Set(questionIds)).filter(
+      (questionId) => !keys.has(questionId),
+    );
+    if (!missing.length) {
+      return;
+    }
+    const questions = await this.prisma.question.findMany({
+      where: { id: { in: missing } },
+      select: { id: true, type: true, correctAnswerJson: true },
+    });
+    questions.forEach((question) =>
+      keys.set(question.id, {
+        type: question.type,
+        correctAnswerJson: question.correctAnswerJson,
+      }),
+    );
+  }
+
+  private getTally(tallies: Map<string, ItemTally>, questionId: string) {
+    let tally = tallies.get(questionId);
+    if (!tally) {
+      tally = {
+        acc: createItemAccumulator(),
+        attemptResponses: 0,
+        practiceResponses: 0,
+      };
+      tallies.set(questionId, tally);
+    }
+    return tally;
+  }
+}
+
+// Attempts store answers either keyed by question id or as a list of
+// `{ questionId, answer }` entries.
+function readAnswers(value: Prisma.JsonValue | null) {
+  const answers = new Map<string, unknown>();
+  if (Array.isArray(value)) {
+    value.forEach((item) => {
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        const entry = item as { questionId?: unknown; answer?: unknown };
+        if (typeof entry.questionId === 'string') {
+          answers.set(entry.questionId, entry.answer);
+        }
+      }
+    });
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([questionId, answer]) =>
+      answers.set(questionId, answer),
+    );
+  }
+  return answers;
+}
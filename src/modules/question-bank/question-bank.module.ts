@@ -1,14 +1,49 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { PrismaModule } from '../../infra/prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
 import { AuthorizationModule } from '../authorization/authorization.module';
+import { FilesModule } from '../files/files.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { AdminQuestionDuplicatesController } from './admin-question-duplicates.controller';
+import { AdminQuestionExportsController } from './admin-question-exports.controller';
+import { AdminQuestionImportsController } from './admin-question-imports.controller';
+import { AdminQuestionReportsController } from './admin-question-reports.controller';
+import { AdminQuestionStatsController } from './admin-question-stats.controller';
 import { AdminQuestionsController } from './admin-questions.controller';
+import { QuestionDuplicatesService } from './question-bank.duplicates.service';
+import { QuestionItemStatsService } from './question-bank.item-stats.service';
+import { QuestionReportsService } from './question-bank.reports.service';
 import { QuestionBankService } from './question-bank.service';
+import { QuestionExportService } from './question-export.service';
+import { QuestionImportService } from './question-import.service';
 import { QuestionsController } from './questions.controller';
 
 @Module({
-  imports: [PrismaModule, AuthModule, AuthorizationModule],
-  controllers: [AdminQuestionsController, QuestionsController],
-  providers: [QuestionBankService],
+  imports: [
+    ConfigModule,
+    PrismaModule,
+    AuthModule,
+    AuthorizationModule,
+    FilesModule,
+    NotificationsModule,
+  ],
+  controllers: [
+    AdminQuestionDuplicatesController,
+    AdminQuestionExportsController,
+    AdminQuestionImportsController,
+    AdminQuestionReportsController,
+    AdminQuestionStatsController,
+    AdminQuestionsController,
+    QuestionsController,
+  ],
+  providers: [
+    QuestionBankService,
+    QuestionDuplicatesService,
+    QuestionExportService,
+    QuestionImportService,
+    QuestionItemStatsService,
+    QuestionReportsService,
+  ],
 })
 export class QuestionBankModule {}
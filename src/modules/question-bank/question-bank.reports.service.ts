@@ -0,0 +1,281 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, QuestionReportStatus } from '@prisma/client';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  QuestionReportCreateDto,
+  QuestionReportQueryDto,
+  QuestionReportUpdateDto,
+} from './dto';
+
+const OPEN_STATUSES: QuestionReportStatus[] = [
+  QuestionReportStatus.OPEN,
+  QuestionReportStatus.ACCEPTED,
+];
+
+// FIXED and REJECTED are final; the reporter has been notified by then.
+const ALLOWED_TRANSITIONS: Record<
+  QuestionReportStatus,
+  QuestionReportStatus[]
+> = {
+  OPEN: [
+    QuestionReportStatus.ACCEPTED,
+    QuestionReportStatus.REJECTED,
+    QuestionReportStatus.FIXED,
+  ],
+  ACCEPTED: [QuestionReportStatus.REJECTED, QuestionReportStatus.FIXED],
+  REJECTED: [],
+  FIXED: [],
+};
+
+const REPORT_QUESTION_SELECT = {
+  id: true,
+  subjectId: true,
+  topicId: true,
+  type: true,
+  version: true,
+  isPublished: true,
+  searchText: true,
+} satisfies Prisma.QuestionSelect;
+
+@Injectable()
+export class QuestionReportsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  async createReport(
+    userId: string,
+    questionId: string,
+    dto: QuestionReportCreateDto,
+  ) {
+    const question = await this.prisma.question.findUnique({
+      where: { id: questionId },
+      select: { id: true, version: true, isPublished: true },
+    });
+    if (!question) {
+      throw new NotFoundException({
+        code: 'QUESTION_NOT_FOUND',
+        message: 'Question not found.',
+      });
+    }
+
+    const questionVersion = await this.resolveReportContext(
+      userId,
+      question,
+      dto,
+    );
+
+    const existing = await this.prisma.questionReport.findFirst({
+      where: {
+        questionId,
+        reporterUserId: userId,
+        reason: dto.reason,
+        status: { in: OPEN_STATUSES },
+      },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException({
+        code: 'QUESTION_REPORT_DUPLICATE',
+        message: 'You already reported this issue on this question.',
+        details: { reportId: existing.id },
+      });
+    }
+
+    return this.prisma.questionReport.create({
+      data: {
+        questionId,
+        questionVersion,
+        reporterUserId: userId,
+        reason: dto.reason,
+        message: dto.message?.trim() || undefined,
+        attemptId: dto.attemptId,
+        practiceSessionId: dto.practiceSessionId,
+      },
+    });
+  }
+
+  async listReports(query: QuestionReportQueryDto) {
+    const page = Math.max(Number(query.page ?? 1), 1);
+    const pageSize = Math.min(Math.max(Number(query.pageSize ?? 20), 1), 100);
+    const where: Prisma.QuestionReportWhereInput = {
+      status: query.status ?? undefined,
+      reason: query.reason ?? undefined,
+      questionId: query.questionId ?? undefined,
+      question: query.subjectId ? { subjectId: query.subjectId } : undefined,
+    };
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.questionReport.count({ where }),
+      this.prisma.questionReport.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          question: { select: REPORT_QUESTION_SELECT },
+          reporter: { select: { id: true, fullName: true, email: true } },
+        },
+      }),
+    ]);
+
+    return {
+      data: data.map((report) => this.withEditLink(report)),
+      total,
+      page,
+      pageSize,
+    };
+  }
+
+  async getReport(reportId: string) {
+    const report = await this.prisma.questionReport.findUnique({
+      where: { id: reportId },
+      include: {
+        question: { select: REPORT_QUESTION_SELECT },
+        reporter: { select: { id: true, fullName: true, email: true } },
+        resolvedBy: { select: { id: true, fullName: true } },
+      },
+    });
+    if (!report) {
+      throw new NotFoundException({
+        code: 'QUESTION_REPORT_NOT_FOUND',
+        message: 'Question report not found.',
+      });
+    }
+
+    const otherOpenReports = await this.prisma.questionReport.count({
+      where: {
+        questionId: report.questionId,
+        id: { not: report.id },
+        status: { in: OPEN_STATUSES },
+      },
+    });
+    return { ...this.withEditLink(report), otherOpenReports };
+  }
+
+  async updateStatus(
+    adminUserId: string,
+    reportId: string,
+    dto: QuestionReportUpdateDto,
+  ) {
+    const report = await this.prisma.questionReport.findUnique({
+      where: { id: reportId },
+      include: { question: { select: { version: true } } },
+    });
+    if (!report) {
+      throw new NotFoundException({
+        code: 'QUESTION_REPORT_NOT_FOUND',
+        message: 'Question report not found.',
+      });
+    }
+    if (!ALLOWED_TRANSITIONS[report.status].includes(dto.status)) {
+      throw new BadRequestException({
+        code: 'QUESTION_REPORT_TRANSITION_INVALID',
+        message: `Cannot move a ${report.status} report to ${dto.status}.`,
+        details: { allowed: ALLOWED_TRANSITIONS[report.status] },
+      });
+    }
+
+    const resolved =
+      dto.status === QuestionReportStatus.FIXED ||
+      dto.status === QuestionReportStatus.REJECTED;
+    const updated = await this.prisma.questionReport.update({
+      where: { id: reportId },
+      data: {
+        status: dto.status,
+        resolutionNote: dto.resolutionNote ?? undefined,
+        fixedVersion:
+          dto.status === QuestionReportStatus.FIXED
+            ? report.question.version
+            : undefined,
+        resolvedByUserId: resolved ? adminUserId : undefined,
+        resolvedAt: resolved ? new Date() : undefined,
+      },
+    });
+
+    if (resolved) {
+      this.notificationsService
+        .sendQuestionReportResolvedEmail({
+          userId: updated.reporterUserId,
+          questionId: updated.questionId,
+          reason: updated.reason,
+          outcome:
+            dto.status === QuestionReportStatus.FIXED ? 'FIXED' : 'REJECTED',
+          resolutionNote: updated.resolutionNote,
+        })
+        .catch(() => undefined);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Reports from practice or attempt review must point at the student's own
+   * session or attempt, and the attempt must contain the question. Returns
+   * the question version the student saw: the pinned revision for attempts,
+   * the current one otherwise.
+   */
+  private async resolveReportContext(
+    userId: string,
+    question: { id: string; version: number; isPublished: boolean },
+    dto: QuestionReportCreateDto,
+  ) {
+    if (dto.attemptId) {
+      const item = await this.prisma.attemptQuestion.findUnique({
+        where: {
+          attemptId_questionId: {
+            attemptId: dto.attemptId,
+            questionId: question.id,
+          },
+        },
+        select: {
+          attempt: { select: { userId: true } },
+          revision: { select: { version: true } },
+        },
+      });
+      if (!item || item.attempt.userId !== userId) {
+        throw new BadRequestException({
+          code: 'QUESTION_REPORT_CONTEXT_INVALID',
+          message: 'Attempt not found or does not include this question.',
+        });
+      }
+      return item.revision?.version ?? question.version;
+    }
+
+    if (dto.practiceSessionId) {
+      const session = await this.prisma.practiceSession.findUnique({
+        where: { id: dto.practiceSessionId },
+        select: { userId: true },
+      });
+      if (!session || session.userId !== userId) {
+        throw new BadRequestException({
+          code: 'QUESTION_REPORT_CONTEXT_INVALID',
+          message: 'Practice session not found.',
+        });
+      }
+    }
+
+    // Outside an attempt, students only ever see published questions.
+    if (!question.isPublished) {
+      throw new NotFoundException({
+        code: 'QUESTION_NOT_FOUND',
+        message: 'Question not found.',
+      });
+    }
+    return question.version;
+  }
+
+  private withEditLink<T extends { questionId: string }>(report: T) {
+    return {
+      ...report,
+      questionEditPath: `/admin/questions/${report.questionId}`,
+    };
+  }
+}
@@ -1,23 +1,69 @@
 import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
-import { AssetResourceType, FileAssetPurpose, Prisma } from '@prisma/client';
+import {
+  AssetResourceType,
+  FileAssetPurpose,
+  Prisma,
+  QuestionReportStatus,
+} from '@prisma/client';
 import { PrismaService } from '../../infra/prisma/prisma.service';
-import { BulkImportDto, CreateQuestionDto, QuestionQueryDto, UpdateQuestionDto } from './dto';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import {
+  BulkImportDto,
+  CreateQuestionDto,
+  QuestionQueryDto,
+  QuestionRevisionDiffQueryDto,
+  UpdateQuestionDto,
+} from './dto';
+import { QuestionDuplicatesService } from './question-bank.duplicates.service';
 import {
-  extractQuestionSearchFragments,
+  buildQuestionSearchText,
   sanitizeQuestionContent,
 } from './utils/rich-content.util';
+import {
+  diffRevisionContent,
+  isAnswerKeyChange,
+  listChangedRevisionFields,
+  pickRevisionContent,
+  toRevisionCreateData,
+} from './utils/question-revision.util';
+import {
+  collectContentLocales,
+  extractLocaleContent,
+  findQuestionLocaleIssues,
+  isQuestionLocale,
+  localizeQuestion,
+  normalizeLocalizedContent,
+} from './utils/question-locale.util';
 
 type PrismaWriter = PrismaService | Prisma.TransactionClient;
 
 @Injectable()
 export class QuestionBankService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly duplicatesService: QuestionDuplicatesService,
+    private readonly siteSettings: SiteSettingsService,
+  ) {}
 
   async createQuestion(userId: string, dto: CreateQuestionDto) {
-    return this.createQuestionInternal(this.prisma, userId, dto);
+    const question = await this.createQuestionInternal(
+      this.prisma,
+      userId,
+      dto,
+    );
+    const possibleDuplicates = await this.duplicatesService.findSimilar(
+      question.searchText ?? '',
+      { subjectId: question.subjectId, excludeIds: [question.id] },
+    );
+
+    return { ...question, possibleDuplicates };
   }
 
-  async updateQuestion(questionId: string, dto: UpdateQuestionDto) {
+  async updateQuestion(
+    userId: string,
+    questionId: string,
+    dto: UpdateQuestionDto,
+  ) {
     const existing = await this.prisma.question.findUnique({ where: { id: questionId } });
     if (!existing) {
       throw new NotFoundException({
@@ -55,30 +101,55 @@ export class QuestionBankService {
     }
 
     const statementInput = dto.statementJson
-      ? (sanitizeQuestionContent(dto.statementJson) as Prisma.InputJsonValue)
+      ? (this.prepareContent(dto.statementJson) as Prisma.InputJsonValue)
       : undefined;
     const optionsInput = dto.optionsJson
-      ? (sanitizeQuestionContent(dto.optionsJson) as Prisma.InputJsonValue)
+      ? (this.prepareContent(dto.optionsJson) as Prisma.InputJsonValue)
       : undefined;
     const explanationInput = dto.explanationJson
-      ? (sanitizeQuestionContent(dto.explanationJson) as Prisma.InputJsonValue)
+      ? (this.prepareContent(dto.explanationJson) as Prisma.InputJsonValue)
       : undefined;
 
     const statementJson = (statementInput ?? existing.statementJson) as Prisma.InputJsonValue;
     const optionsJson = (optionsInput ?? existing.optionsJson) as Prisma.InputJsonValue;
     const explanationJson = (explanationInput ?? existing.explanationJson) as Prisma.InputJsonValue;
+    if (statementInput || optionsInput || explanationInput) {
+      this.assertContentLocales({
+        statementJson,
+        optionsJson,
+        explanationJson,
+      });
+    }
 
     const assetIds = this.extractAssetIds([statementJson, optionsJson, explanationJson]);
     await this.validateAssets(assetIds);
 
-    const searchText = this.buildSearchText(
+    const searchText = buildQuestionSearchText(
       [statementJson, optionsJson, explanationJson],
       subject.name,
       topicName,
     );
 
+    const currentContent = pickRevisionContent(existing);
+    const nextContent = pickRevisionContent({
+      type: dto.type ?? existing.type,
+      difficulty: dto.difficulty ?? existing.difficulty,
+      statementJson: (statementInput ??
+        existing.statementJson) as Prisma.JsonValue,
+      optionsJson: (optionsInput ??
+        existing.optionsJson) as Prisma.JsonValue | null,
+      explanationJson: (explanationInput ??
+        existing.explanationJson) as Prisma.JsonValue | null,
+      correctAnswerJson: (dto.correctAnswerJson ??
+        existing.correctAnswerJson) as Prisma.JsonValue | null,
+    });
+    const changedFields = listChangedRevisionFields(
+      currentContent,
+      nextContent,
+    );
+
     await this.prisma.$transaction(async (tx) => {
-      await tx.question.update({
+      const updated = await tx.question.update({
         where: { id: questionId },
         data: {
           subjectId: dto.subjectId ?? undefined,
@@ -94,9 +165,26 @@ export class QuestionBankService {
           isPublished: dto.isPublished ?? undefined,
           hasMedia: assetIds.length > 0,
           searchText,
+          contentLocales: collectContentLocales([statementJson]),
+          version: changedFields.length ? { increment: 1 } : undefined,
         },
       });
 
+      // Revisions are immutable; attempts keep grading against the one they
+      // were served, so content edits always append a new version.
+      if (changedFields.length) {
+        await tx.questionRevision.create({
+          data: {
+            ...toRevisionCreateData(nextContent),
+            questionId,
+            version: updated.version,
+            answerKeyChanged: isAnswerKeyChange(changedFields),
+            changeNote: dto.changeNote?.trim() || null,
+            createdByUserId: userId,
+          },
+        });
+      }
+
       await tx.assetReference.deleteMany({
         where: { resourceType: AssetResourceType.QUESTION, resourceId: questionId },
       });
@@ -111,7 +199,11 @@ export class QuestionBankService {
         });
       }
 
-      await this.refreshQuestionSearchVector(questionId, tx);
+      await this.refreshQuestionSearchVector(questionId, tx, [
+        statementJson,
+        optionsJson,
+        explanationJson,
+      ]);
     });
 
     return this.prisma.question.findUnique({ where: { id: questionId } });
@@ -218,7 +310,7 @@ export class QuestionBankService {
       difficulty: query.difficulty ?? undefined,
     };
 
-    return this.prisma.question.findMany({
+    const questions = await this.prisma.question.findMany({
       where,
       orderBy: { updatedAt: 'desc' },
       select: {
@@ -231,11 +323,19 @@ export class QuestionBankService {
         optionsJson: true,
         explanationJson: true,
         hasMedia: true,
+        contentLocales: true,
       },
     });
+
+    return questions.map((question) => localizeQuestion(question, query.lang));
   }
 
-  async getQuestion(questionId: string, allowUnpublished = false, includeAssets = false) {
+  async getQuestion(
+    questionId: string,
+    allowUnpublished = false,
+    includeAssets = false,
+    lang?: string,
+  ) {
     const question = await this.prisma.question.findUnique({
       where: { id: questionId },
     });
@@ -249,7 +349,7 @@ export class QuestionBankService {
 
     if (!allowUnpublished) {
       return {
-        ...question,
+        ...localizeQuestion(question, lang),
         correctAnswerJson: undefined,
       };
     }
@@ -277,10 +377,112 @@ export class QuestionBankService {
           },
         })
       : [];
+    const [itemStats, openReports] = await Promise.all([
+      this.prisma.questionItemStat.findUnique({ where: { questionId } }),
+      this.prisma.questionReport.count({
+        where: {
+          questionId,
+          status: {
+            in: [QuestionReportStatus.OPEN, QuestionReportStatus.ACCEPTED],
+          },
+        },
+      }),
+    ]);
 
     return {
       ...question,
       assets,
+      itemStats,
+      openReports,
+    };
+  }
+
+  async listRevisions(questionId: string) {
+    const question = await this.prisma.question.findUnique({
+      where: { id: questionId },
+      select: { id: true, version: true },
+    });
+    if (!question) {
+      throw new NotFoundException({
+        code: 'QUESTION_NOT_FOUND',
+        message: 'Question not found.',
+      });
+    }
+
+    const revisions = await this.prisma.questionRevision.findMany({
+      where: { questionId },
+      orderBy: { version: 'desc' },
+      select: {
+        id: true,
+        version: true,
+        type: true,
+        difficulty: true,
+        answerKeyChanged: true,
+        changeNote: true,
+        createdByUserId: true,
+        createdAt: true,
+        _count: { select: { attemptItems: true } },
+      },
+    });
+
+    return {
+      questionId,
+      currentVersion: question.version,
+      data: revisions.map(({ _count, ...revision }) => ({
+        ...revision,
+        attemptCount: _count.attemptItems,
+      })),
+    };
+  }
+
+  async getRevision(questionId: string, version: number) {
+    return this.findRevisionOrThrow(questionId, version);
+  }
+
+  async diffRevisions(questionId: string, query: QuestionRevisionDiffQueryDto) {
+    const question = await this.prisma.question.findUnique({
+      where: { id: questionId },
+      select: { id: true, version: true },
+    });
+    if (!question) {
+      throw new NotFoundException({
+        code: 'QUESTION_NOT_FOUND',
+        message: 'Question not found.',
+      });
+    }
+
+    const toVersion = query.to ? Number(query.to) : question.version;
+    const fromVersion = query.from ? Number(query.from) : toVersion - 1;
+    if (fromVersion < 1 || fromVersion === toVersion) {
+      throw new BadRequestException({
+        code: 'QUESTION_REVISION_DIFF_INVALID',
+        message: 'Choose two different revisions to compare.',
+        details: { from: fromVersion, to: toVersion },
+      });
+    }
+
+    const [from, to] = await Promise.all([
+      this.findRevisionOrThrow(questionId, fromVersion),
+      this.findRevisionOrThrow(questionId, toVersion),
+    ]);
+    const fields = diffRevisionContent(from, to);
+
+    return {
+      questionId,
+      from: {
+        version: from.version,
+        createdAt: from.createdAt,
+        changeNote: from.changeNote,
+      },
+      to: {
+        version: to.version,
+        createdAt: to.createdAt,
+        changeNote: to.changeNote,
+      },
+      answerKeyChanged: isAnswerKeyChange(
+        fields.filter((item) => item.changed).map((item) => item.field),
+      ),
+      fields,
     };
   }
 
@@ -314,18 +516,20 @@ export class QuestionBankService {
       topicName = topic.name;
     }
 
-    const statementJson = sanitizeQuestionContent(dto.statementJson) as Prisma.InputJsonValue;
+    const statementJson = this.prepareContent(dto.statementJson) as Prisma.InputJsonValue;
     const optionsJson = dto.optionsJson
-      ? (sanitizeQuestionContent(dto.optionsJson) as Prisma.InputJsonValue)
+      ? (this.prepareContent(dto.optionsJson) as Prisma.InputJsonValue)
       : undefined;
     const explanationJson = dto.explanationJson
-      ? (sanitizeQuestionContent(dto.explanationJson) as Prisma.InputJsonValue)
+      ? (this.prepareContent(dto.explanationJson) as Prisma.InputJsonValue)
       : undefined;
 
+    this.assertContentLocales({ statementJson, optionsJson, explanationJson });
+
     const assetIds = this.extractAssetIds([statementJson, optionsJson, explanationJson]);
     await this.validateAssets(assetIds, tx);
 
-    const searchText = this.buildSearchText(
+    const searchText = buildQuestionSearchText(
       [statementJson, optionsJson, explanationJson],
       subject.name,
       topicName,
@@ -347,6 +551,16 @@ export class QuestionBankService {
         isPublished: dto.isPublished ?? false,
         hasMedia: assetIds.length > 0,
         searchText,
+        contentLocales: collectContentLocales([statementJson]),
+      },
+    });
+
+    await tx.questionRevision.create({
+      data: {
+        ...toRevisionCreateData(pickRevisionContent(question)),
+        questionId: question.id,
+        version: question.version,
+        createdByUserId: userId,
       },
     });
 
@@ -360,27 +574,66 @@ export class QuestionBankService {
       });
     }
 
-    await this.refreshQuestionSearchVector(question.id, tx);
+    await this.refreshQuestionSearchVector(question.id, tx, [
+      statementJson,
+      optionsJson,
+      explanationJson,
+    ]);
 
     return question;
   }
 
-  private buildSearchText(values: unknown[], subjectName?: string, topicName?: string) {
-    const fragments = values.flatMap((value) => extractQuestionSearchFragments(value));
-    return [...fragments, subjectName, topicName]
-      .filter((item): item is string => Boolean(item))
-      .join(' ');
+  private async findRevisionOrThrow(questionId: string, version: number) {
+    const revision = await this.prisma.questionRevision.findUnique({
+      where: { questionId_version: { questionId, version } },
+    });
+    if (!revision) {
+      throw new NotFoundException({
+        code: 'QUESTION_REVISION_NOT_FOUND',
+        message: 'Question revision not found.',
+        details: { version },
+      });
+    }
+    return revision;
   }
 
+  // The 'simple' vector covers every language; English text is indexed a
+  // second time with stemming. Postgres ships no Marathi or Hindi config.
   private async refreshQuestionSearchVector(
     questionId: string,
-    tx: PrismaWriter = this.prisma,
+    tx: PrismaWriter,
+    content: unknown[],
   ) {
+    const englishText = buildQuestionSearchText(
+      extractLocaleContent(content, 'en'),
+    );
     await tx.$executeRaw(
-      Prisma.sql`UPDATE \"Question\" SET \"searchVector\" = to_tsvector('simple', coalesce(\"searchText\", '')) WHERE id = ${questionId}`,
+      Prisma.sql`UPDATE \"Question\" SET \"searchVector\" = to_tsvector('simple', coalesce(\"searchText\", '')) || to_tsvector('english', ${englishText}) WHERE id = ${questionId}`,
     );
   }
 
+  private prepareContent(value: unknown) {
+    return sanitizeQuestionContent(normalizeLocalizedContent(value));
+  }
+
+  private assertContentLocales(content: {
+    statementJson: unknown;
+    optionsJson?: unknown;
+    explanationJson?: unknown;
+  }) {
+    const requiredLocales = this.siteSettings
+      .getCsv('QUESTION_REQUIRED_LOCALES')
+      .filter(isQuestionLocale);
+    const issues = findQuestionLocaleIssues(content, requiredLocales);
+    if (issues.length) {
+      throw new BadRequestException({
+        code: 'QUESTION_LOCALE_INVALID',
+        message: 'Question content is missing required languages or uses unsupported ones.',
+        details: { requiredLocales, issues },
+      });
+    }
+  }
+
   private extractAssetIds(values: unknown[]) {
     const ids = new Set<string>();
     const walk = (value: unknown) => {
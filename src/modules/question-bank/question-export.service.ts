@@ -0,0 +1,491 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import {
+  FileAssetPurpose,
+  Prisma,
+  QuestionDifficulty,
+  QuestionExportFormat,
+  QuestionExportStatus,
+  QuestionType,
+} from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { writeZip } from '../../common/utils/zip';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { MinioService } from '../files/minio.service';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { QuestionExportCreateDto, QuestionExportQueryDto } from './dto';
+import {
+  buildMediaPath,
+  buildQtiItem,
+  buildQtiManifest,
+  buildQuestionCsv,
+  collectQuestionAssetIds,
+  ExportableQuestion,
+  QUESTION_EXPORT_BUNDLE_VERSION,
+} from './utils/question-export.util';
+
+type ExportFilters = {
+  subjectId?: string;
+  topicId?: string;
+  type?: QuestionType;
+  difficulty?: QuestionDifficulty;
+  isPublished?: boolean;
+};
+
+const EXPORT_BATCH_SIZE = 200;
+
+@Injectable()
+export class QuestionExportService implements OnModuleInit {
+  private readonly logger = new Logger(QuestionExportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly minioService: MinioService,
+    private readonly siteSettings: SiteSettingsService,
+  ) {}
+
+  async onModuleInit() {
+    // Exports run in-process, so anything left running by a previous boot is lost.
+    try {
+      await this.prisma.questionExportJob.updateMany({
+        where: {
+          status: {
+            in: [QuestionExportStatus.QUEUED, QuestionExportStatus.RUNNING],
+          },
+        },
+        data: {
+          status: QuestionExportStatus.FAILED,
+          errorMessage: 'Export interrupted by a restart.',
+          completedAt: new Date(),
+        },
+      });
+    } catch (err) {
+      this.logger.warn(
+        `Failed to reset interrupted exports: ${(err as Error)?.message ?? String(err)}`,
+      );
+    }
+  }
+
+  async createExport(userId: string, dto: QuestionExportCreateDto) {
+    const filters: ExportFilters = {
+      subjectId: dto.subjectId,
+      topicId: dto.topicId,
+      type: dto.type,
+      difficulty: dto.difficulty,
+      isPublished: dto.isPublished,
+    };
+
+    const total = await this.prisma.question.count({
+      where: this.buildWhere(filters),
+    });
+    if (total === 0) {
+      throw new BadRequestException({
+        code: 'QUESTION_EXPORT_EMPTY',
+        message: 'No questions match the export filters.',
+      });
+    }
+
+    const maxQuestions = this.siteSettings.getNumber(
+      'QUESTION_EXPORT_MAX_QUESTIONS',
+      5000,
+      {
+        integer: true,
+        min: 1,
+      },
+    );
+    if (total > maxQuestions) {
+      throw new BadRequestException({
+        code: 'QUESTION_EXPORT_TOO_LARGE',
+        message: `Exports are limited to ${maxQuestions} questions. Narrow the filters.`,
+        details: { total, maxQuestions },
+      });
+    }
+
+    const job = await this.prisma.questionExportJob.create({
+      data: {
+        format: dto.format,
+        filtersJson: filters,
+        createdByUserId: userId,
+      },
+    });
+
+    setImmediate(() => {
+      this.processJob(job.id).catch((err: Error) =>
+        this.logger.error(
+          `Question export ${job.id} failed`,
+          err?.stack ?? err,
+        ),
+      );
+    });
+
+    return job;
+  }
+
+  async listExports(query: QuestionExportQueryDto) {
+    const page = Number(query.page ?? 1);
+    const pageSize = Number(query.pageSize ?? 20);
+    const where: Prisma.QuestionExportJobWhereInput = query.status
+      ? { status: query.status }
+      : {};
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.questionExportJob.count({ where }),
+      this.prisma.questionExportJob.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return { data, total, page, pageSize };
+  }
+
+  async getExport(jobId: string) {
+    const job = await this.prisma.questionExportJob.findUnique({
+      where: { id: jobId },
+    });
+    if (!job) {
+      throw new NotFoundException({
+        code: 'QUESTION_EXPORT_NOT_FOUND',
+        message: 'Export job not found.',
+      });
+    }
+    return job;
+  }
+
+  async getDownloadUrl(jobId: string) {
+    const job = await this.prisma.questionExportJob.findUnique({
+      where: { id: jobId },
+      include: { outputFile: true },
+    });
+    if (!job) {
+      throw new NotFoundException({
+        code: 'QUESTION_EXPORT_NOT_FOUND',
+        message: 'Export job not found.',
+      });
+    }
+    if (job.status !== QuestionExportStatus.DONE || !job.outputFile) {
+      throw new BadRequestException({
+        code: 'QUESTION_EXPORT_NOT_READY',
+        message: 'Export is not ready yet.',
+        details: { status: job.status },
+      });
+    }
+
+    const downloadUrl = await this.minioService.getPresignedGetUrl(
+      job.outputFile.objectKey,
+    );
+
+    return {
+      fileAssetId: job.outputFile.id,
+      fileName: job.outputFile.fileName,
+      downloadUrl,
+      expiresInSeconds: 900,
+    };
+  }
+
+  private async processJob(jobId: string) {
+    const claimed = await this.prisma.questionExportJob.updateMany({
+      where: { id: jobId, status: QuestionExportStatus.QUEUED },
+      data: { status: QuestionExportStatus.RUNNING, startedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const job = await this.getExport(jobId);
+    try {
+      const filters = (job.filtersJson ?? {}) as ExportFilters;
+      const output =
+        job.format === QuestionExportFormat.CSV
+          ? await this.renderCsv(filters)
+          : job.format === QuestionExportFormat.JSON
+            ? await this.renderJsonBundle(filters)
+            : await this.renderQtiPackage(filters);
+
+      const asset = await this.storeOutput(job, output);
+      await this.prisma.questionExportJob.update({
+        where: { id: jobId },
+        data: {
+          status: QuestionExportStatus.DONE,
+          questionCount: output.questionCount,
+          outputFileAssetId: asset.id,
+          completedAt: new Date(),
+        },
+      });
+    } catch (err) {
+      await this.prisma.questionExportJob.update({
+        where: { id: jobId },
+        data: {
+          status: QuestionExportStatus.FAILED,
+          errorMessage: (err as Error)?.message ?? 'Export failed.',
+          completedAt: new Date(),
+        },
+      });
+      throw err;
+    }
+  }
+
+  private async renderCsv(filters: ExportFilters) {
+    const chunks: string[] = [];
+    let questionCount = 0;
+    for await (const batch of this.iterateQuestions(filters)) {
+      chunks.push(buildQuestionCsv(batch, questionCount === 0));
+      questionCount += batch.length;
+    }
+
+    return {
+      questionCount,
+      buffer: Buffer.from(chunks.join('\r\n'), 'utf8'),
+      extension: 'csv',
+      contentType: 'text/csv',
+    };
+  }
+
+  private async renderJsonBundle(filters: ExportFilters) {
+    const questions: Array<Record<string, unknown>> = [];
+    const assetIds = new Set<string>();
+    for await (const batch of this.iterateQuestions(filters)) {
+      batch.forEach((question) => {
+        collectQuestionAssetIds(question).forEach((id) => assetIds.add(id));
+        const { subject, topic, ...rest } = question;
+        questions.push({
+          ...rest,
+          subjectKey: subject.key,
+          topicName: topic?.name ?? null,
+        });
+      });
+    }
+
+    const media = await this.collectMedia(Array.from(assetIds));
+    const subjectKeys = new Set(
+      questions.map((question) => question.subjectKey as string),
+    );
+    const subjects = await this.prisma.subject.findMany({
+      where: { key: { in: Array.from(subjectKeys) } },
+      select: {
+        id: true,
+        key: true,
+        name: true,
+        topics: { select: { id: true, name: true, parentId: true } },
+      },
+    });
+
+    const bundle = {
+      version: QUESTION_EXPORT_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      filters,
+      subjects,
+      questions,
+      media: media.map(({ data, ...entry }) => ({
+        ...entry,
+        included: Boolean(data),
+      })),
+    };
+
+    return {
+      questionCount: questions.length,
+      buffer: writeZip([
+        {
+          name: 'questions.json',
+          data: Buffer.from(JSON.stringify(bundle, null, 2), 'utf8'),
+        },
+        ...this.toMediaEntries(media),
+      ]),
+      extension: 'zip',
+      contentType: 'application/zip',
+    };
+  }
+
+  private async renderQtiPackage(filters: ExportFilters) {
+    const questions: ExportableQuestion[] = [];
+    for await (const batch of this.iterateQuestions(filters)) {
+      questions.push(...batch);
+    }
+
+    const media = await this.collectMedia(
+      Array.from(
+        new Set(
+          questions.flatMap((question) => collectQuestionAssetIds(question)),
+        ),
+      ),
+    );
+    const mediaPaths = new Map(
+      media
+        .filter((entry) => entry.data)
+        .map((entry) => [entry.id, entry.path]),
+    );
+
+    const itemEntries = questions.map((question) => ({
+      questionId: question.id,
+      href: `items/${question.id}.xml`,
+      media: collectQuestionAssetIds(question)
+        .map((assetId) => mediaPaths.get(assetId))
+        .filter((path): path is string => Boolean(path)),
+      xml: buildQtiItem(question, mediaPaths),
+    }));
+
+    return {
+      questionCount: questions.length,
+      buffer: writeZip([
+        {
+          name: 'imsmanifest.xml',
+          data: Buffer.from(buildQtiManifest(itemEntries), 'utf8'),
+        },
+        ...itemEntries.map((item) => ({
+          name: item.href,
+          data: Buffer.from(item.xml, 'utf8'),
+        })),
+        ...this.toMediaEntries(media),
+      ]),
+      extension: 'zip',
+      contentType: 'application/zip',
+    };
+  }
+
+  private async *iterateQuestions(filters: ExportFilters) {
+    const where = this.buildWhere(filters);
+    let cursor: string | undefined;
+    while (true) {
+      const batch: ExportableQuestion[] = await this.prisma.question.findMany({
+        where,
+        orderBy: { id: 'asc' },
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        select: {
+          id: true,
+          type: true,
+          difficulty: true,
+          statementJson: true,
+          optionsJson: true,
+          explanationJson: true,
+          correctAnswerJson: true,
+          isPublished: true,
+          subject: { select: { key: true } },
+          topic: { select: { name: true } },
+        },
+      });
+      if (!batch.length) {
+        return;
+      }
+      yield batch;
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  private async collectMedia(assetIds: string[]) {
+    if (!assetIds.length) {
+      return [];
+    }
+
+    const assets = await this.prisma.fileAsset.findMany({
+      where: { id: { in: assetIds }, confirmedAt: { not: null } },
+      select: {
+        id: true,
+        objectKey: true,
+        fileName: true,
+        contentType: true,
+        sizeBytes: true,
+        purpose: true,
+      },
+    });
+
+    const media: Array<{
+      id: string;
+      fileName: string;
+      contentType: string;
+      sizeBytes: number;
+      purpose: FileAssetPurpose;
+      path: string;
+      data: Buffer | null;
+    }> = [];
+    for (const { objectKey, ...asset } of assets) {
+      let data: Buffer | null = null;
+      try {
+        data = await this.readObject(objectKey);
+      } catch (err) {
+        // A missing object should not fail the whole export; the bundle flags it.
+        this.logger.warn(
+          `Skipping media ${asset.id} in export: ${(err as Error)?.message ?? String(err)}`,
+        );
+      }
+      media.push({
+        ...asset,
+        path: buildMediaPath(asset.id, asset.fileName),
+        data,
+      });
+    }
+    return media;
+  }
+
+  private toMediaEntries(media: Array<{ path: string; data: Buffer | null }>) {
+    return media
+      .filter((entry): entry is { path: string; data: Buffer } =>
+        Boolean(entry.data),
+      )
+      .map((entry) => ({ name: entry.path, data: entry.data }));
+  }
+
+  private async readObject(objectKey: string) {
+    const stream = await this.minioService.getObjectStream(objectKey);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(
+        Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string),
+      );
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private async storeOutput(
+    job: { id: string; createdByUserId: string | null },
+    output: { buffer: Buffer; extension: string; contentType: string },
+  ) {
+    const now = new Date();
+    const year = now.getUTCFullYear();
+    const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+    const fileName = `question-export-${job.id}.${output.extension}`;
+    const objectKey = `${FileAssetPurpose.QUESTION_EXPORT.toLowerCase()}/${year}/${month}/${randomUUID()}-${fileName}`;
+
+    const asset = await this.prisma.fileAsset.create({
+      data: {
+        objectKey,
+        fileName,
+        contentType: output.contentType,
+        sizeBytes: output.buffer.length,
+        purpose: FileAssetPurpose.QUESTION_EXPORT,
+        createdByUserId: job.createdByUserId ?? undefined,
+      },
+    });
+
+    await this.minioService.uploadObject(
+      objectKey,
+      output.buffer,
+      output.contentType,
+    );
+
+    return this.prisma.fileAsset.update({
+      where: { id: asset.id },
+      data: { confirmedAt: new Date(), sizeBytes: output.buffer.length },
+    });
+  }
+
+  private buildWhere(filters: ExportFilters): Prisma.QuestionWhereInput {
+    return {
+      subjectId: filters.subjectId ?? undefined,
+      topicId: filters.topicId ?? undefined,
+      type: filters.type ?? undefined,
+      difficulty: filters.difficulty ?? undefined,
+      isPublished: filters.isPublished ?? undefined,
+    };
+  }
+}
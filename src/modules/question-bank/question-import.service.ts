@@ -0,0 +1,531 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { FileAssetPurpose, Prisma, QuestionImportStatus } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { MinioService } from '../files/minio.service';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import {
+  CreateQuestionDto,
+  QuestionImportCreateDto,
+  QuestionImportQueryDto,
+} from './dto';
+import { QuestionDuplicatesService } from './question-bank.duplicates.service';
+import { QuestionBankService } from './question-bank.service';
+import {
+  buildErrorReportCsv,
+  buildQuestionDraft,
+  detectImportFormat,
+  parseImportFile,
+  QuestionImportFormat,
+  QuestionImportRowError,
+} from './utils/question-import.util';
+import { buildQuestionSearchText } from './utils/rich-content.util';
+
+type ImportOptions = {
+  defaultSubjectId?: string | null;
+  isPublished?: boolean | null;
+  skipDuplicates?: boolean | null;
+};
+
+type ValidatedImport = {
+  totalRows: number;
+  items: Array<{ rowNumber: number; dto: CreateQuestionDto }>;
+  errors: QuestionImportRowError[];
+  warnings: QuestionImportRowError[];
+};
+
+@Injectable()
+export class QuestionImportService {
+  private readonly logger = new Logger(QuestionImportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly minioService: MinioService,
+    private readonly siteSettings: SiteSettingsService,
+    private readonly questionBankService: QuestionBankService,
+    private readonly duplicatesService: QuestionDuplicatesService,
+  ) {}
+
+  async createImport(userId: string, dto: QuestionImportCreateDto) {
+    const { asset, format } = await this.loadImportAsset(dto.fileAssetId);
+    const options: ImportOptions = {
+      defaultSubjectId: dto.defaultSubjectId ?? null,
+      isPublished: dto.isPublished ?? null,
+      skipDuplicates: dto.skipDuplicates ?? null,
+    };
+
+    const validation = await this.validateFile(
+      asset.objectKey,
+      format,
+      options,
+    );
+    const invalidRows = new Set(
+      validation.errors.map((error) => error.rowNumber),
+    ).size;
+
+    const job = await this.prisma.questionImportJob.create({
+      data: {
+        fileAssetId: asset.id,
+        format,
+        status: QuestionImportStatus.VALIDATED,
+        optionsJson: options,
+        totalRows: validation.totalRows,
+        validRows: validation.items.length,
+        failedRows: invalidRows,
+        errorsJson: validation.errors,
+        warningsJson: validation.warnings,
+        createdByUserId: userId,
+      },
+    });
+
+    if (validation.errors.length) {
+      await this.storeErrorReport(job.id, userId, validation.errors);
+    }
+
+    if (dto.dryRun === false) {
+      return this.commitImport(userId, job.id);
+    }
+
+    return {
+      ...(await this.getImport(job.id)),
+      preview: validation.items.slice(0, 5).map((item) => ({
+        rowNumber: item.rowNumber,
+        ...item.dto,
+      })),
+    };
+  }
+
+  async commitImport(userId: string, jobId: string) {
+    const job = await this.prisma.questionImportJob.findUnique({
+      where: { id: jobId },
+      include: { file: true },
+    });
+    if (!job) {
+      throw new NotFoundException({
+        code: 'QUESTION_IMPORT_NOT_FOUND',
+        message: 'Import job not found.',
+      });
+    }
+
+    const claimed = await this.prisma.questionImportJob.updateMany({
+      where: { id: jobId, status: QuestionImportStatus.VALIDATED },
+      data: { status: QuestionImportStatus.IMPORTING },
+    });
+    if (claimed.count === 0) {
+      throw new BadRequestException({
+        code: 'QUESTION_IMPORT_INVALID_STATE',
+        message: 'Only validated imports can be committed.',
+        details: { status: job.status },
+      });
+    }
+
+    try {
+      // Validate again: subjects or topics may have changed since the dry run.
+      const validation = await this.validateFile(
+        job.file.objectKey,
+        job.format as QuestionImportFormat,
+        (job.optionsJson as ImportOptions) ?? {},
+      );
+
+      const errors = [...validation.errors];
+      const options = (job.optionsJson as ImportOptions) ?? {};
+      const duplicateRows = new Set(
+        validation.warnings.map((warning) => warning.rowNumber),
+      );
+      let importedRows = 0;
+      for (const item of validation.items) {
+        if (options.skipDuplicates && duplicateRows.has(item.rowNumber)) {
+          errors.push({
+            rowNumber: item.rowNumber,
+            code: 'IMPORT_DUPLICATE_SKIPPED',
+            message: 'Skipped as a likely duplicate of an existing question.',
+          });
+          continue;
+        }
+        try {
+          await this.questionBankService.createQuestion(userId, item.dto);
+          importedRows += 1;
+        } catch (err) {
+          errors.push(this.toRowError(item.rowNumber, err));
+        }
+      }
+
+      await this.prisma.questionImportJob.update({
+        where: { id: jobId },
+        data: {
+          status: QuestionImportStatus.COMPLETED,
+          totalRows: validation.totalRows,
+          validRows: validation.items.length,
+          importedRows,
+          failedRows: new Set(errors.map((error) => error.rowNumber)).size,
+          errorsJson: errors,
+          warningsJson: validation.warnings,
+          errorReportAssetId: null,
+          completedAt: new Date(),
+        },
+      });
+
+      if (errors.length) {
+        await this.storeErrorReport(jobId, userId, errors);
+      }
+    } catch (err) {
+      this.logger.error(
+        `Question import ${jobId} failed`,
+        (err as Error)?.stack ?? String(err),
+      );
+      await this.prisma.questionImportJob.update({
+        where: { id: jobId },
+        data: {
+          status: QuestionImportStatus.FAILED,
+          errorMessage: (err as Error)?.message ?? 'Import failed.',
+          completedAt: new Date(),
+        },
+      });
+    }
+
+    return this.getImport(jobId);
+  }
+
+  async listImports(query: QuestionImportQueryDto) {
+    const page = Number(query.page ?? 1);
+    const pageSize = Number(query.pageSize ?? 20);
+    const where: Prisma.QuestionImportJobWhereInput = query.status
+      ? { status: query.status }
+      : {};
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.questionImportJob.count({ where }),
+      this.prisma.questionImportJob.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        omit: { errorsJson: true },
+        include: { file: { select: { id: true, fileName: true } } },
+      }),
+    ]);
+
+    return { data, total, page, pageSize };
+  }
+
+  async getImport(jobId: string) {
+    const job = await this.prisma.questionImportJob.findUnique({
+      where: { id: jobId },
+      include: { file: { select: { id: true, fileName: true } } },
+    });
+    if (!job) {
+      throw new NotFoundException({
+        code: 'QUESTION_IMPORT_NOT_FOUND',
+        message: 'Import job not found.',
+      });
+    }
+    return job;
+  }
+
+  async getErrorReportUrl(jobId: string) {
+    const job = await this.prisma.questionImportJob.findUnique({
+      where: { id: jobId },
+      include: { errorReport: true },
+    });
+    if (!job || !job.errorReport) {
+      throw new NotFoundException({
+        code: 'QUESTION_IMPORT_REPORT_NOT_FOUND',
+        message: 'Error report not available.',
+      });
+    }
+
+    const downloadUrl = await this.minioService.getPresignedGetUrl(
+      job.errorReport.objectKey,
+    );
+
+    return {
+      fileAssetId: job.errorReport.id,
+      fileName: job.errorReport.fileName,
+      downloadUrl,
+      expiresInSeconds: 900,
+    };
+  }
+
+  private async loadImportAsset(fileAssetId: string) {
+    const asset = await this.prisma.fileAsset.findUnique({
+      where: { id: fileAssetId },
+    });
+    if (!asset || asset.purpose !== FileAssetPurpose.QUESTION_IMPORT) {
+      throw new NotFoundException({
+        code: 'FILE_NOT_FOUND',
+        message: 'Import file not found.',
+      });
+    }
+    if (!asset.confirmedAt) {
+      throw new BadRequestException({
+        code: 'FILE_NOT_CONFIRMED',
+        message: 'Confirm the upload before importing.',
+      });
+    }
+
+    const format = detectImportFormat(asset.fileName, asset.contentType);
+    if (!format) {
+      throw new BadRequestException({
+        code: 'QUESTION_IMPORT_FORMAT_INVALID',
+        message: 'Only CSV, XLSX and DOCX files can be imported.',
+      });
+    }
+
+    return { asset, format };
+  }
+
+  private async validateFile(
+    objectKey: string,
+    format: QuestionImportFormat,
+    options: ImportOptions,
+  ): Promise<ValidatedImport> {
+    const buffer = await this.readObject(objectKey);
+
+    let records: ReturnType<typeof parseImportFile>;
+    try {
+      records = parseImportFile(buffer, format);
+    } catch (err) {
+      throw new BadRequestException({
+        code: 'QUESTION_IMPORT_PARSE_FAILED',
+        message: 'The file could not be read.',
+        details: { reason: (err as Error)?.message ?? String(err) },
+      });
+    }
+
+    const maxRows = this.siteSettings.getNumber(
+      'QUESTION_IMPORT_MAX_ROWS',
+      2000,
+      {
+        integer: true,
+        min: 1,
+      },
+    );
+    if (records.length > maxRows) {
+      throw new BadRequestException({
+        code: 'QUESTION_IMPORT_TOO_MANY_ROWS',
+        message: `Imports are limited to ${maxRows} questions per file.`,
+        details: { rows: records.length, maxRows },
+      });
+    }
+
+    const [subjects, topics] = await Promise.all([
+      this.prisma.subject.findMany({
+        select: { id: true, key: true, name: true },
+      }),
+      this.prisma.topic.findMany({
+        select: { id: true, subjectId: true, name: true },
+      }),
+    ]);
+    const subjectByRef = new Map<string, string>();
+    subjects.forEach((subject) => {
+      subjectByRef.set(subject.name.trim().toLowerCase(), subject.id);
+      subjectByRef.set(subject.key.trim().toLowerCase(), subject.id);
+      subjectByRef.set(subject.id, subject.id);
+    });
+    const topicByRef = new Map<string, string>();
+    topics.forEach((topic) => {
+      topicByRef.set(
+        `${topic.subjectId}:${topic.name.trim().toLowerCase()}`,
+        topic.id,
+      );
+      topicByRef.set(`${topic.subjectId}:${topic.id}`, topic.id);
+    });
+    const defaultSubjectId = options.defaultSubjectId
+      ? subjectByRef.get(options.defaultSubjectId)
+      : undefined;
+    if (options.defaultSubjectId && !defaultSubjectId) {
+      throw new BadRequestException({
+        code: 'SUBJECT_NOT_FOUND',
+        message: 'Subject not found.',
+      });
+    }
+
+    const items: ValidatedImport['items'] = [];
+    const errors: QuestionImportRowError[] = [];
+    for (const record of records) {
+      const { draft, errors: rowErrors } = buildQuestionDraft(record);
+      errors.push(...rowErrors);
+      if (!draft) {
+        continue;
+      }
+
+      const subjectId = draft.subjectRef
+        ? subjectByRef.get(draft.subjectRef.toLowerCase())
+        : defaultSubjectId;
+      if (!subjectId) {
+        errors.push({
+          rowNumber: draft.rowNumber,
+          field: 'subject',
+          code: draft.subjectRef
+            ? 'IMPORT_SUBJECT_NOT_FOUND'
+            : 'IMPORT_SUBJECT_REQUIRED',
+          message: draft.subjectRef
+            ? `Subject "${draft.subjectRef}" does not exist.`
+            : 'Subject is required.',
+        });
+        continue;
+      }
+
+      const topicId = draft.topicRef
+        ? topicByRef.get(`${subjectId}:${draft.topicRef.toLowerCase()}`)
+        : undefined;
+      if (draft.topicRef && !topicId) {
+        errors.push({
+          rowNumber: draft.rowNumber,
+          field: 'topic',
+          code: 'IMPORT_TOPIC_NOT_FOUND',
+          message: `Topic "${draft.topicRef}" does not exist in the subject.`,
+        });
+        continue;
+      }
+
+      items.push({
+        rowNumber: draft.rowNumber,
+        dto: {
+          subjectId,
+          topicId,
+          type: draft.type,
+          difficulty: draft.difficulty,
+          statementJson: draft.statementJson,
+          optionsJson: draft.optionsJson,
+          explanationJson: draft.explanationJson,
+          correctAnswerJson: draft.correctAnswerJson,
+          isPublished: draft.isPublished ?? options.isPublished ?? false,
+        },
+      });
+    }
+
+    const subjectNames = new Map(
+      subjects.map((subject) => [subject.id, subject.name]),
+    );
+    const topicNames = new Map(topics.map((topic) => [topic.id, topic.name]));
+    const warnings = await this.flagDuplicates(items, subjectNames, topicNames);
+
+    return { totalRows: records.length, items, errors, warnings };
+  }
+
+  private async flagDuplicates(
+    items: ValidatedImport['items'],
+    subjectNames: Map<string, string>,
+    topicNames: Map<string, string>,
+  ) {
+    const warnings: QuestionImportRowError[] = [];
+    const seenInFile = new Map<string, number>();
+
+    for (const item of items) {
+      const searchText = buildQuestionSearchText(
+        [
+          item.dto.statementJson,
+          item.dto.optionsJson,
+          item.dto.explanationJson,
+        ],
+        subjectNames.get(item.dto.subjectId),
+        item.dto.topicId ? topicNames.get(item.dto.topicId) : undefined,
+      );
+
+      const fileKey = `${item.dto.subjectId}:${searchText.trim().toLowerCase()}`;
+      const firstRow = seenInFile.get(fileKey);
+      if (firstRow !== undefined) {
+        warnings.push({
+          rowNumber: item.rowNumber,
+          field: 'statement',
+          code: 'IMPORT_POSSIBLE_DUPLICATE',
+          message: `Same question as row ${firstRow} in this file.`,
+        });
+        continue;
+      }
+      seenInFile.set(fileKey, item.rowNumber);
+
+      const similar = await this.duplicatesService.findSimilar(searchText, {
+        subjectId: item.dto.subjectId,
+        limit: 3,
+      });
+      if (similar.length) {
+        warnings.push({
+          rowNumber: item.rowNumber,
+          field: 'statement',
+          code: 'IMPORT_POSSIBLE_DUPLICATE',
+          message: `Similar to existing question(s): ${similar
+            .map((match) => match.questionId)
+            .join(', ')}.`,
+        });
+      }
+    }
+
+    return warnings;
+  }
+
+  private async readObject(objectKey: string) {
+    const stream = await this.minioService.getObjectStream(objectKey);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(
+        Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string),
+      );
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private async storeErrorReport(
+    jobId: string,
+    userId: string,
+    errors: QuestionImportRowError[],
+  ) {
+    const buffer = Buffer.from(buildErrorReportCsv(errors), 'utf8');
+    const now = new Date();
+    const year = now.getUTCFullYear();
+    const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+    const fileName = `question-import-${jobId}-errors.csv`;
+    const objectKey = `${FileAssetPurpose.QUESTION_IMPORT.toLowerCase()}/${year}/${month}/${randomUUID()}-${fileName}`;
+
+    try {
+      await this.minioService.uploadObject(objectKey, buffer, 'text/csv');
+      const asset = await this.prisma.fileAsset.create({
+        data: {
+          objectKey,
+          fileName,
+          contentType: 'text/csv',
+          sizeBytes: buffer.length,
+          purpose: FileAssetPurpose.QUESTION_IMPORT,
+          createdByUserId: userId,
+          confirmedAt: now,
+        },
+      });
+      await this.prisma.questionImportJob.update({
+        where: { id: jobId },
+        data: { errorReportAssetId: asset.id },
+      });
+    } catch (err) {
+      // Row errors stay on the job; a missing report should not fail the import.
+      this.logger.warn(
+        `Error report upload failed for import ${jobId}: ${(err as Error)?.message ?? String(err)}`,
+      );
+    }
+  }
+
+  private toRowError(rowNumber: number, err: unknown): QuestionImportRowError {
+    if (err instanceof HttpException) {
+      const response = err.getResponse() as
+        { code?: string; message?: string } | string;
+      if (typeof response === 'object') {
+        return {
+          rowNumber,
+          code: response.code ?? 'IMPORT_ROW_FAILED',
+          message: response.message ?? err.message,
+        };
+      }
+      return { rowNumber, code: 'IMPORT_ROW_FAILED', message: response };
+    }
+    return {
+      rowNumber,
+      code: 'IMPORT_ROW_FAILED',
+      message: (err as Error)?.message ?? 'Row could not be imported.',
+    };
+  }
+}
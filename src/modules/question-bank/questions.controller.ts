@@ -1,13 +1,30 @@
-import { Controller, Get, Param, Query } from '@nestjs/common';
-import { ApiTags } from '@nestjs/swagger';
-import { Public } from '../../common/decorators';
-import { QuestionQueryDto } from './dto';
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CurrentUser, Public } from '../../common/decorators';
+import { JwtAuthGuard } from '../auth/guards';
+import {
+  QuestionLocaleQueryDto,
+  QuestionQueryDto,
+  QuestionReportCreateDto,
+} from './dto';
 import { QuestionBankService } from './question-bank.service';
+import { QuestionReportsService } from './question-bank.reports.service';
 
 @ApiTags('questions')
 @Controller('questions')
 export class QuestionsController {
-  constructor(private readonly questionBankService: QuestionBankService) {}
+  constructor(
+    private readonly questionBankService: QuestionBankService,
+    private readonly reportsService: QuestionReportsService,
+  ) {}
 
   @Public()
   @Get()
@@ -17,7 +34,26 @@ export class QuestionsController {
 
   @Public()
   @Get(':questionId')
-  getQuestion(@Param('questionId') questionId: string) {
-    return this.questionBankService.getQuestion(questionId, false);
+  getQuestion(
+    @Param('questionId') questionId: string,
+    @Query() query: QuestionLocaleQueryDto,
+  ) {
+    return this.questionBankService.getQuestion(
+      questionId,
+      false,
+      false,
+      query.lang,
+    );
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Post(':questionId/report')
+  report(
+    @CurrentUser() user: { userId: string },
+    @Param('questionId') questionId: string,
+    @Body() dto: QuestionReportCreateDto,
+  ) {
+    return this.reportsService.createReport(user.userId, questionId, dto);
   }
 }
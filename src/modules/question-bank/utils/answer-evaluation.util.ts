@@ -0,0 +1,338 @@
+import { QuestionType } from '@prisma/client';
+
+export type AnswerEvaluationStatus =
+  'CORRECT' | 'PARTIAL' | 'WRONG' | 'SKIPPED';
+
+export type AnswerEvaluation = {
+  status: AnswerEvaluationStatus;
+  // Fraction of the full mark earned, 0..1. Only PARTIAL uses values in between.
+  credit: number;
+};
+
+export type AnswerScoringOptions = {
+  partialMarking?: boolean;
+  partialMarkPerOption?: number;
+  numericTolerance?: number;
+  caseSensitive?: boolean;
+  ignorePunctuation?: boolean;
+  alternateAnswers?: Record<string, unknown[]>;
+};
+
+type AnswerEvaluator = (
+  answer: unknown,
+  correctAnswer: unknown,
+  options: AnswerScoringOptions & { questionId?: string },
+) => AnswerEvaluation;
+
+const CORRECT: AnswerEvaluation = { status: 'CORRECT', credit: 1 };
+const WRONG: AnswerEvaluation = { status: 'WRONG', credit: 0 };
+const SKIPPED: AnswerEvaluation = { status: 'SKIPPED', credit: 0 };
+
+const evaluateExact: AnswerEvaluator = (answer, correctAnswer) =>
+  stableStringify(answer) === stableStringify(correctAnswer) ? CORRECT : WRONG;
+
+const evaluateSingleChoice: AnswerEvaluator = (
+  answer,
+  correctAnswer,
+  options,
+) => {
+  const selected = readOptionIndexes(answer);
+  const expected = readOptionIndexes(correctAnswer);
+  if (!selected || !expected) {
+    return evaluateExact(answer, correctAnswer, options);
+  }
+  return selected.length === 1 && expected.includes(selected[0])
+    ? CORRECT
+    : WRONG;
+};
+
+const evaluateMultiChoice: AnswerEvaluator = (
+  answer,
+  correctAnswer,
+  options,
+) => {
+  const selected = readOptionIndexes(answer);
+  const expected = readOptionIndexes(correctAnswer);
+  if (!selected || !expected) {
+    return evaluateExact(answer, correctAnswer, options);
+  }
+
+  const expectedSet = new Set(expected);
+  const chosen = Array.from(new Set(selected));
+  if (chosen.some((index) => !expectedSet.has(index))) {
+    return WRONG;
+  }
+  if (chosen.length === expectedSet.size) {
+    return CORRECT;
+  }
+  if (!options.partialMarking || chosen.length === 0) {
+    return WRONG;
+  }
+
+  return { status: 'PARTIAL', credit: chosen.length / expectedSet.size };
+};
+
+const evaluateTrueFalse: AnswerEvaluator = (answer, correctAnswer, options) => {
+  const given = readBoolean(answer);
+  const expected = readBoolean(correctAnswer);
+  if (given === null || expected === null) {
+    return evaluateExact(answer, correctAnswer, options);
+  }
+  return given === expected ? CORRECT : WRONG;
+};
+
+const evaluateInteger: AnswerEvaluator = (answer, correctAnswer, options) => {
+  const given = readNumber(readValue(answer));
+  if (given === null) {
+    return evaluateExact(answer, correctAnswer, options);
+  }
+
+  const record = asRecord(correctAnswer);
+  const min = readNumber(record?.min);
+  const max = readNumber(record?.max);
+  if (min !== null && max !== null) {
+    return given >= min && given <= max ? CORRECT : WRONG;
+  }
+
+  const tolerance = Math.max(
+    0,
+    readNumber(record?.tolerance) ?? options.numericTolerance ?? 0,
+  );
+  const accepted = collectAcceptedValues(correctAnswer, options)
+    .map((value) => readNumber(value))
+    .filter((value): value is number => value !== null);
+  if (!accepted.length) {
+    return evaluateExact(answer, correctAnswer, options);
+  }
+
+  return accepted.some(
+    (value) => Math.abs(given - value) <= tolerance + Number.EPSILON,
+  )
+    ? CORRECT
+    : WRONG;
+};
+
+const evaluateShortAnswer: AnswerEvaluator = (
+  answer,
+  correctAnswer,
+  options,
+) => {
+  const given = readValue(answer);
+  if (typeof given !== 'string' && typeof given !== 'number') {
+    return evaluateExact(answer, correctAnswer, options);
+  }
+
+  const normalizedGiven = normalizeText(String(given), options);
+  const accepted = collectAcceptedValues(correctAnswer, options)
+    .filter((value) => typeof value === 'string' || typeof value === 'number')
+    .map((value) => normalizeText(String(value), options));
+  if (!accepted.length) {
+    return evaluateExact(answer, correctAnswer, options);
+  }
+
+  return accepted.includes(normalizedGiven) ? CORRECT : WRONG;
+};
+
+export const ANSWER_EVALUATORS: Record<QuestionType, AnswerEvaluator> = {
+  [QuestionType.SINGLE_CHOICE]: evaluateSingleChoice,
+  [QuestionType.MULTI_CHOICE]: evaluateMultiChoice,
+  [QuestionType.TRUE_FALSE]: evaluateTrueFalse,
+  [QuestionType.INTEGER]: evaluateInteger,
+  [QuestionType.SHORT_ANSWER]: evaluateShortAnswer,
+};
+
+export function evaluateAnswer(params: {
+  questionId?: string;
+  type: QuestionType;
+  answer: unknown;
+  correctAnswer: unknown;
+  options?: AnswerScoringOptions;
+}): AnswerEvaluation {
+  if (!hasMeaningfulAnswer(params.answer)) {
+    return SKIPPED;
+  }
+  if (params.correctAnswer === null || params.correctAnswer === undefined) {
+    return WRONG;
+  }
+
+  const evaluator = ANSWER_EVALUATORS[params.type] ?? evaluateExact;
+  return evaluator(params.answer, params.correctAnswer, {
+    ...(params.options ?? {}),
+    questionId: params.questionId,
+  });
+}
+
+/**
+ * Converts an evaluation into a signed mark. Per-option partial marks (JEE
+ * style) take precedence over proportional credit when configured.
+ */
+export function scoreAnswerEvaluation(
+  evaluation: AnswerEvaluation,
+  params: {
+    mark: number;
+    negativeMark: number;
+    correctAnswer?: unknown;
+    options?: AnswerScoringOptions;
+  },
+) {
+  if (evaluation.status === 'CORRECT') {
+    return params.mark;
+  }
+  if (evaluation.status === 'WRONG') {
+    return -params.negativeMark;
+  }
+  if (evaluation.status === 'SKIPPED') {
+    return 0;
+  }
+
+  const perOption = params.options?.partialMarkPerOption;
+  const expectedCount = readOptionIndexes(params.correctAnswer)?.length ?? 0;
+  if (typeof perOption === 'number' && perOption > 0 && expectedCount > 0) {
+    const matched = Math.round(evaluation.credit * expectedCount);
+    return Math.min(params.mark, matched * perOption);
+  }
+
+  return Math.round(params.mark * evaluation.credit * 100) / 100;
+}
+
+export function hasMeaningfulAnswer(value: unknown): boolean {
+  if (value === null || value === undefined) {
+    return false;
+  }
+
+  if (typeof value === 'string') {
+    return value.trim().length > 0;
+  }
+
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return true;
+  }
+
+  if (Array.isArray(value)) {
+    return value.some((item) => hasMeaningfulAnswer(item));
+  }
+
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.optionIndex === 'number') {
+      return true;
+    }
+    if (Array.isArray(record.optionIndexes)) {
+      return record.optionIndexes.some((item) => typeof item === 'number');
+    }
+    if ('value' in record) {
+      return hasMeaningfulAnswer(record.value);
+    }
+    return Object.values(record).some((item) => hasMeaningfulAnswer(item));
+  }
+
+  return false;
+}
+
+export function stableStringify(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, val]) => `"${key}":${stableStringify(val)}`);
+  return `{${entries.join(',')}}`;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function readValue(value: unknown): unknown {
+  const record = asRecord(value);
+  return record && 'value' in record ? record.value : value;
+}
+
+export function readOptionIndexes(value: unknown): number[] | null {
+  const record = asRecord(value);
+  const raw = record
+    ? Array.isArray(record.optionIndexes)
+      ? record.optionIndexes
+      : typeof record.optionIndex === 'number'
+        ? [record.optionIndex]
+        : null
+    : Array.isArray(value)
+      ? value
+      : typeof value === 'number'
+        ? [value]
+        : null;
+  if (!raw) {
+    return null;
+  }
+
+  const indexes = raw.filter(
+    (item): item is number =>
+      typeof item === 'number' && Number.isInteger(item),
+  );
+  return indexes.length === raw.length ? indexes : null;
+}
+
+function readBoolean(value: unknown): boolean | null {
+  const raw = readValue(value);
+  if (typeof raw === 'boolean') {
+    return raw;
+  }
+  if (typeof raw === 'string') {
+    const normalized = raw.trim().toLowerCase();
+    if (normalized === 'true') {
+      return true;
+    }
+    if (normalized === 'false') {
+      return false;
+    }
+  }
+  return null;
+}
+
+function readNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim().length > 0) {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function collectAcceptedValues(
+  correctAnswer: unknown,
+  options: AnswerScoringOptions & { questionId?: string },
+): unknown[] {
+  const record = asRecord(correctAnswer);
+  const values: unknown[] = [readValue(correctAnswer)];
+  if (Array.isArray(record?.acceptedValues)) {
+    values.push(...(record.acceptedValues as unknown[]));
+  }
+  if (
+    options.questionId &&
+    Array.isArray(options.alternateAnswers?.[options.questionId])
+  ) {
+    values.push(...options.alternateAnswers[options.questionId]);
+  }
+  return values.filter((value) => value !== null && value !== undefined);
+}
+
+function normalizeText(value: string, options: AnswerScoringOptions) {
+  let normalized = value.normalize('NFKC').trim().replace(/\s+/g, ' ');
+  if (options.ignorePunctuation) {
+    normalized = normalized
+      .replace(/[^\p{L}\p{N}\s]/gu, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+  return options.caseSensitive ? normalized : normalized.toLowerCase();
+}
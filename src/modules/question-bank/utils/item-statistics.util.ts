@@ -0,0 +1,222 @@
+/**
+ * Classical item analysis for the nightly question statistics job.
+ *
+ * - p-value: mean credit over non-skipped responses (1 = everyone correct).
+ * - discrimination: p-value of the top 27% of a test's attempts by total
+ *   score minus that of the bottom 27%.
+ * - difficulty: Rasch-style logit of the p-value, comparable with the
+ *   practice ability scale (0 = answered correctly half of the time).
+ */
+export const ITEM_STAT_FLAGS = [
+  'TOO_EASY',
+  'TOO_HARD',
+  'LOW_DISCRIMINATION',
+  'NEGATIVE_DISCRIMINATION',
+  'POSSIBLE_WRONG_KEY',
+] as const;
+
+export type ItemStatFlag = (typeof ITEM_STAT_FLAGS)[number];
+
+export type ScoreGroup = 'UPPER' | 'LOWER';
+
+export type ItemResponse = {
+  credit: number;
+  skipped: boolean;
+  optionIndexes: number[] | null;
+  group: ScoreGroup | null;
+  timeMs: number | null;
+};
+
+export type ItemOptionStat = {
+  optionIndex: number;
+  isKey: boolean;
+  count: number;
+  share: number;
+  upperShare: number | null;
+  lowerShare: number | null;
+};
+
+type GroupTally = { responses: number; credit: number };
+
+export type ItemAccumulator = {
+  responses: number;
+  skipped: number;
+  credit: number;
+  groups: Record<ScoreGroup, GroupTally>;
+  options: Map<number, { count: number; upper: number; lower: number }>;
+  times: number[];
+};
+
+const GROUP_FRACTION = 0.27;
+const MIN_GROUP_RESPONSES = 5;
+const EASY_P_VALUE = 0.9;
+const HARD_P_VALUE = 0.2;
+const LOW_DISCRIMINATION = 0.15;
+const MAX_LOGIT = 4;
+
+export function createItemAccumulator(): ItemAccumulator {
+  return {
+    responses: 0,
+    skipped: 0,
+    credit: 0,
+    groups: {
+      UPPER: { responses: 0, credit: 0 },
+      LOWER: { responses: 0, credit: 0 },
+    },
+    options: new Map(),
+    times: [],
+  };
+}
+
+export function addItemResponse(acc: ItemAccumulator, response: ItemResponse) {
+  if (response.timeMs !== null && response.timeMs > 0) {
+    acc.times.push(response.timeMs);
+  }
+  if (response.skipped) {
+    acc.skipped += 1;
+    return;
+  }
+
+  acc.responses += 1;
+  acc.credit += response.credit;
+  if (response.group) {
+    acc.groups[response.group].responses += 1;
+    acc.groups[response.group].credit += response.credit;
+  }
+  new Set(response.optionIndexes ?? []).forEach((optionIndex) => {
+    const option = acc.options.get(optionIndex) ?? {
+      count: 0,
+      upper: 0,
+      lower: 0,
+    };
+    option.count += 1;
+    if (response.group === 'UPPER') {
+      option.upper += 1;
+    } else if (response.group === 'LOWER') {
+      option.lower += 1;
+    }
+    acc.options.set(optionIndex, option);
+  });
+}
+
+/**
+ * Splits one test's attempts into upper and lower score groups. Ties at a
+ * boundary fall in whichever group the sort puts them.
+ */
+export function assignScoreGroups<T>(items: T[], score: (item: T) => number) {
+  const groups = new Map<T, ScoreGroup>();
+  const size = Math.floor(items.length * GROUP_FRACTION);
+  if (size < 1) {
+    return groups;
+  }
+  const sorted = [...items].sort((a, b) => score(b) - score(a));
+  sorted.slice(0, size).forEach((item) => groups.set(item, 'UPPER'));
+  sorted.slice(-size).forEach((item) => groups.set(item, 'LOWER'));
+  return groups;
+}
+
+export function summarizeItem(
+  acc: ItemAccumulator,
+  params: { keyOptionIndexes: number[] | null; minResponses: number },
+) {
+  const pValue = acc.responses ? acc.credit / acc.responses : null;
+  const upper = acc.groups.UPPER;
+  const lower = acc.groups.LOWER;
+  const discrimination =
+    upper.responses >= MIN_GROUP_RESPONSES &&
+    lower.responses >= MIN_GROUP_RESPONSES
+      ? upper.credit / upper.responses - lower.credit / lower.responses
+      : null;
+
+  const keys = new Set(params.keyOptionIndexes ?? []);
+  const optionIndexes = new Set([...keys, ...acc.options.keys()]);
+  const options: ItemOptionStat[] = Array.from(optionIndexes)
+    .sort((a, b) => a - b)
+    .map((optionIndex) => {
+      const option = acc.options.get(optionIndex);
+      return {
+        optionIndex,
+        isKey: keys.has(optionIndex),
+        count: option?.count ?? 0,
+        share: ratio(option?.count ?? 0, acc.responses) ?? 0,
+        upperShare: ratio(option?.upper ?? 0, upper.responses),
+        lowerShare: ratio(option?.lower ?? 0, lower.responses),
+      };
+    });
+
+  const flags: ItemStatFlag[] = [];
+  if (acc.responses >= params.minResponses && pValue !== null) {
+    if (pValue >= EASY_P_VALUE) {
+      flags.push('TOO_EASY');
+    } else if (pValue <= HARD_P_VALUE) {
+      flags.push('TOO_HARD');
+    }
+    if (discrimination !== null && discrimination < 0) {
+      flags.push('NEGATIVE_DISCRIMINATION');
+    } else if (discrimination !== null && discrimination < LOW_DISCRIMINATION) {
+      flags.push('LOW_DISCRIMINATION');
+    }
+    if (isKeySuspect(options, upper.responses)) {
+      flags.push('POSSIBLE_WRONG_KEY');
+    }
+  }
+
+  return {
+    responses: acc.responses,
+    skipped: acc.skipped,
+    pValue: round(pValue),
+    discrimination: round(discrimination),
+    irtDifficulty: round(toLogitDifficulty(pValue, acc.responses)),
+    avgTimeMs: acc.times.length
+      ? Math.round(
+          acc.times.reduce((sum, value) => sum + value, 0) / acc.times.length,
+        )
+      : null,
+    medianTimeMs: median(acc.times),
+    options,
+    flags,
+  };
+}
+
+// The strongest students favour a distractor over the key.
+function isKeySuspect(options: ItemOptionStat[], upperResponses: number) {
+  if (upperResponses < MIN_GROUP_RESPONSES) {
+    return false;
+  }
+  const keyShare = Math.max(
+    0,
+    ...options.filter((option) => option.isKey).map((o) => o.upperShare ?? 0),
+  );
+  return options.some(
+    (option) => !option.isKey && (option.upperShare ?? 0) > keyShare,
+  );
+}
+
+function toLogitDifficulty(pValue: number | null, responses: number) {
+  if (pValue === null) {
+    return null;
+  }
+  // Half a response of smoothing keeps 0% and 100% items finite.
+  const smoothed = (pValue * responses + 0.5) / (responses + 1);
+  const logit = -Math.log(smoothed / (1 - smoothed));
+  return Math.max(-MAX_LOGIT, Math.min(MAX_LOGIT, logit));
+}
+
+function median(values: number[]) {
+  if (!values.length) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function ratio(part: number, total: number) {
+  return total ? round(part / total) : null;
+}
+
+function round(value: number | null) {
+  return value === null ? null : Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,353 @@
+import { Question, QuestionType } from '@prisma/client';
+import { toCsv } from './question-import.util';
+import { localizeQuestionContent } from './question-locale.util';
+
+export const QUESTION_EXPORT_BUNDLE_VERSION = 1;
+
+const OPTION_LETTERS = 'ABCDEFGH';
+
+// Same column names the importer reads, so a CSV export can be re-imported.
+export const QUESTION_EXPORT_CSV_COLUMNS = [
+  'id',
+  'subject',
+  'topic',
+  'type',
+  'difficulty',
+  'statement',
+  ...OPTION_LETTERS.split('').map((letter) => `option_${letter.toLowerCase()}`),
+  'answer',
+  'tolerance',
+  'explanation',
+  'published',
+];
+
+export type ExportableQuestion = Pick<
+  Question,
+  | 'id'
+  | 'type'
+  | 'difficulty'
+  | 'statementJson'
+  | 'optionsJson'
+  | 'explanationJson'
+  | 'correctAnswerJson'
+  | 'isPublished'
+> & {
+  subject: { key: string };
+  topic: { name: string } | null;
+};
+
+export function buildQuestionCsv(
+  questions: ExportableQuestion[],
+  includeHeader: boolean,
+) {
+  const rows = questions.map((question) => {
+    const options = readOptionTexts(question.optionsJson);
+    const answer = describeAnswer(question);
+    return [
+      question.id,
+      question.subject.key,
+      question.topic?.name ?? '',
+      question.type,
+      question.difficulty,
+      readText(question.statementJson),
+      ...OPTION_LETTERS.split('').map((_, index) => options[index] ?? ''),
+      answer.answer,
+      answer.tolerance,
+      readText(question.explanationJson),
+      question.isPublished ? 'true' : 'false',
+    ];
+  });
+  return toCsv(includeHeader ? [QUESTION_EXPORT_CSV_COLUMNS, ...rows] : rows);
+}
+
+/**
+ * Renders a QTI 2.1 assessmentItem. Choice types map to choiceInteraction,
+ * INTEGER and SHORT_ANSWER to textEntryInteraction. Numeric tolerance and
+ * ranges have no portable equivalent, so INTEGER items carry the exact value
+ * (or the range minimum).
+ */
+export function buildQtiItem(
+  question: ExportableQuestion,
+  mediaPaths: Map<string, string>,
+) {
+  const identifier = `Q_${question.id}`;
+  const statement = renderQtiContent(question.statementJson, mediaPaths);
+  const answer = asRecord(question.correctAnswerJson);
+  const lines: string[] = [];
+
+  const isChoice =
+    question.type === QuestionType.SINGLE_CHOICE ||
+    question.type === QuestionType.MULTI_CHOICE ||
+    question.type === QuestionType.TRUE_FALSE;
+
+  if (isChoice) {
+    const choices = readChoices(question);
+    const multiple = question.type === QuestionType.MULTI_CHOICE;
+    const correct = readCorrectChoices(question, choices.length);
+    lines.push(
+      `<responseDeclaration identifier="RESPONSE" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">`,
+      '<correctResponse>',
+      ...correct.map((index) => `<value>CHOICE_${index}</value>`),
+      '</correctResponse>',
+      '</responseDeclaration>',
+      '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+      '<itemBody>',
+      statement,
+      `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">`,
+      ...choices.map(
+        (choice, index) =>
+          `<simpleChoice identifier="CHOICE_${index}">${renderQtiContent(choice, mediaPaths)}</simpleChoice>`,
+      ),
+      '</choiceInteraction>',
+      '</itemBody>',
+      '<responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>',
+    );
+  } else {
+    const numeric = question.type === QuestionType.INTEGER;
+    const accepted = [
+      answer?.value ?? (numeric ? answer?.min : undefined),
+      ...(Array.isArray(answer?.acceptedValues)
+        ? (answer.acceptedValues as unknown[])
+        : []),
+    ]
+      .filter((value) => value !== undefined && value !== null)
+      .map((value) => String(value as string | number));
+    lines.push(
+      `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="${numeric ? 'float' : 'string'}">`,
+      '<correctResponse>',
+      ...accepted
+        .slice(0, 1)
+        .map((value) => `<value>${escapeXml(value)}</value>`),
+      '</correctResponse>',
+    );
+    if (!numeric && accepted.length) {
+      lines.push(
+        '<mapping defaultValue="0">',
+        ...accepted.map(
+          (value) =>
+            `<mapEntry mapKey="${escapeXml(value)}" mappedValue="1" caseSensitive="false"/>`,
+        ),
+        '</mapping>',
+      );
+    }
+    lines.push(
+      '</responseDeclaration>',
+      '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+      '<itemBody>',
+      statement,
+      '<p><textEntryInteraction responseIdentifier="RESPONSE"/></p>',
+      '</itemBody>',
+      `<responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/${numeric ? 'match_correct' : 'map_response'}"/>`,
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1"',
+    ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    ' xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"',
+    ` identifier="${identifier}" title="${escapeXml(truncate(readText(question.statementJson), 80) || identifier)}" adaptive="false" timeDependent="false">`,
+    ...lines,
+    '</assessmentItem>',
+  ].join('\n');
+}
+
+export function buildQtiManifest(
+  items: Array<{ questionId: string; href: string; media: string[] }>,
+) {
+  const resources = items.map((item) =>
+    [
+      `<resource identifier="RES_${item.questionId}" type="imsqti_item_xmlv2p1" href="${escapeXml(item.href)}">`,
+      `<file href="${escapeXml(item.href)}"/>`,
+      ...item.media.map((path) => `<file href="${escapeXml(path)}"/>`),
+      '</resource>',
+    ].join('\n'),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"',
+    ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    ' xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd"',
+    ' identifier="MANIFEST_QUESTION_EXPORT">',
+    '<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>',
+    '<organizations/>',
+    '<resources>',
+    ...resources,
+    '</resources>',
+    '</manifest>',
+  ].join('\n');
+}
+
+export function collectQuestionAssetIds(question: ExportableQuestion) {
+  const ids = new Set<string>();
+  const walk = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+      return;
+    }
+    if (value && typeof value === 'object') {
+      Object.entries(value as Record<string, unknown>).forEach(([key, val]) => {
+        if (
+          typeof val === 'string' &&
+          (key === 'imageAssetId' || key === 'assetId')
+        ) {
+          ids.add(val);
+        }
+        walk(val);
+      });
+    }
+  };
+  [
+    question.statementJson,
+    question.optionsJson,
+    question.explanationJson,
+  ].forEach(walk);
+  return Array.from(ids);
+}
+
+export function buildMediaPath(assetId: string, fileName: string) {
+  const safeName = fileName.replace(/[^A-Za-z0-9._-]+/g, '_');
+  return `media/${assetId}-${safeName}`;
+}
+
+function describeAnswer(question: ExportableQuestion) {
+  const answer = asRecord(question.correctAnswerJson);
+  if (!answer) {
+    return { answer: '', tolerance: '' };
+  }
+
+  if (Array.isArray(answer.optionIndexes)) {
+    return {
+      answer: answer.optionIndexes
+        .filter((index): index is number => typeof index === 'number')
+        .map((index) => OPTION_LETTERS[index] ?? String(index + 1))
+        .join(','),
+      tolerance: '',
+    };
+  }
+  if (typeof answer.optionIndex === 'number') {
+    return {
+      answer:
+        OPTION_LETTERS[answer.optionIndex] ?? String(answer.optionIndex + 1),
+      tolerance: '',
+    };
+  }
+  if (typeof answer.min === 'number' && typeof answer.max === 'number') {
+    return { answer: `${answer.min}..${answer.max}`, tolerance: '' };
+  }
+
+  const values = [
+    answer.value,
+    ...(Array.isArray(answer.acceptedValues)
+      ? (answer.acceptedValues as unknown[])
+      : []),
+  ]
+    .filter((value) => value !== undefined && value !== null)
+    .map((value) => String(value as string | number | boolean));
+  return {
+    answer: values.join('|'),
+    tolerance:
+      typeof answer.tolerance === 'number' ? String(answer.tolerance) : '',
+  };
+}
+
+function readChoices(question: ExportableQuestion): unknown[] {
+  const options = readOptionList(question.optionsJson);
+  if (options.length || question.type !== QuestionType.TRUE_FALSE) {
+    return options;
+  }
+  return [{ text: 'True' }, { text: 'False' }];
+}
+
+function readCorrectChoices(question: ExportableQuestion, choiceCount: number) {
+  const answer = asRecord(question.correctAnswerJson);
+  if (!answer) {
+    return [];
+  }
+  if (Array.isArray(answer.optionIndexes)) {
+    return answer.optionIndexes.filter(
+      (index): index is number =>
+        typeof index === 'number' && index < choiceCount,
+    );
+  }
+  if (typeof answer.optionIndex === 'number') {
+    return [answer.optionIndex];
+  }
+  if (question.type === QuestionType.TRUE_FALSE) {
+    const value = String(answer.value).toLowerCase();
+    if (value === 'true' || value === 'false') {
+      // Without explicit options the generated choices are True, False.
+      const labels = readOptionTexts(question.optionsJson).map((text) =>
+        text.toLowerCase(),
+      );
+      const index = labels.length
+        ? labels.indexOf(value)
+        : value === 'true'
+          ? 0
+          : 1;
+      return index >= 0 ? [index] : [];
+    }
+  }
+  return [];
+}
+
+function renderQtiContent(value: unknown, mediaPaths: Map<string, string>) {
+  const text = readText(value);
+  const record = asRecord(value);
+  const assetId =
+    typeof record?.imageAssetId === 'string'
+      ? record.imageAssetId
+      : typeof record?.assetId === 'string'
+        ? record.assetId
+        : null;
+  const imagePath = assetId ? mediaPaths.get(assetId) : undefined;
+  const parts: string[] = [];
+  if (text) {
+    parts.push(`<p>${escapeXml(text)}</p>`);
+  }
+  if (imagePath) {
+    parts.push(`<p><img src="${escapeXml(imagePath)}" alt=""/></p>`);
+  }
+  return parts.join('');
+}
+
+function readOptionList(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  const record = asRecord(value);
+  return Array.isArray(record?.options) ? record.options : [];
+}
+
+function readOptionTexts(value: unknown) {
+  return readOptionList(value).map((option) => readText(option));
+}
+
+function readText(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  // Flat formats carry one language: the primary one.
+  const record = asRecord(localizeQuestionContent(value));
+  return typeof record?.text === 'string' ? record.text : '';
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function truncate(value: string, length: number) {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,678 @@
+import { QuestionDifficulty, QuestionType } from '@prisma/client';
+import { readZipEntries } from '../../../common/utils/zip';
+
+export type QuestionImportFormat = 'CSV' | 'XLSX' | 'DOCX';
+
+export type QuestionImportRecord = {
+  rowNumber: number;
+  fields: Record<string, string>;
+};
+
+export type QuestionImportRowError = {
+  rowNumber: number;
+  field?: string;
+  code: string;
+  message: string;
+};
+
+export type QuestionImportDraft = {
+  rowNumber: number;
+  subjectRef: string | null;
+  topicRef: string | null;
+  type: QuestionType;
+  difficulty?: QuestionDifficulty;
+  statementJson: Record<string, unknown>;
+  optionsJson?: Record<string, unknown>;
+  explanationJson?: Record<string, unknown>;
+  correctAnswerJson: Record<string, unknown>;
+  isPublished?: boolean;
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  question: 'statement',
+  question_text: 'statement',
+  subject_key: 'subject',
+  subject_name: 'subject',
+  topic_name: 'topic',
+  question_type: 'type',
+  level: 'difficulty',
+  correct_answer: 'answer',
+  correct_option: 'answer',
+  solution: 'explanation',
+  is_published: 'published',
+};
+
+const TYPE_ALIASES: Record<string, QuestionType> = {
+  single_choice: QuestionType.SINGLE_CHOICE,
+  single: QuestionType.SINGLE_CHOICE,
+  mcq: QuestionType.SINGLE_CHOICE,
+  multi_choice: QuestionType.MULTI_CHOICE,
+  multiple_choice: QuestionType.MULTI_CHOICE,
+  multi: QuestionType.MULTI_CHOICE,
+  msq: QuestionType.MULTI_CHOICE,
+  true_false: QuestionType.TRUE_FALSE,
+  tf: QuestionType.TRUE_FALSE,
+  integer: QuestionType.INTEGER,
+  numeric: QuestionType.INTEGER,
+  number: QuestionType.INTEGER,
+  short_answer: QuestionType.SHORT_ANSWER,
+  short: QuestionType.SHORT_ANSWER,
+  text: QuestionType.SHORT_ANSWER,
+};
+
+const OPTION_LETTERS = 'ABCDEFGH';
+
+export const QUESTION_IMPORT_CONTENT_TYPES: Record<
+  string,
+  QuestionImportFormat
+> = {
+  'text/csv': 'CSV',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'XLSX',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+    'DOCX',
+};
+
+export function detectImportFormat(
+  fileName: string,
+  contentType: string,
+): QuestionImportFormat | null {
+  const byType = QUESTION_IMPORT_CONTENT_TYPES[contentType];
+  if (byType) {
+    return byType;
+  }
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return 'CSV';
+  if (extension === 'xlsx') return 'XLSX';
+  if (extension === 'docx') return 'DOCX';
+  return null;
+}
+
+export function parseImportFile(
+  buffer: Buffer,
+  format: QuestionImportFormat,
+): QuestionImportRecord[] {
+  if (format === 'CSV') {
+    return rowsToRecords(
+      parseCsv(buffer.toString('utf8').replace(/^\uFEFF/, '')),
+    );
+  }
+  if (format === 'XLSX') {
+    return rowsToRecords(parseXlsx(buffer));
+  }
+  return parseDocx(buffer);
+}
+
+/**
+ * Maps a raw record to a question draft. Subject and topic stay as the
+ * author typed them; the caller resolves them against the database.
+ */
+export function buildQuestionDraft(record: QuestionImportRecord): {
+  draft: QuestionImportDraft | null;
+  errors: QuestionImportRowError[];
+} {
+  const { rowNumber, fields } = record;
+  const errors: QuestionImportRowError[] = [];
+  const fail = (field: string, code: string, message: string) =>
+    errors.push({ rowNumber, field, code, message });
+
+  const statement = fields.statement?.trim();
+  if (!statement) {
+    fail(
+      'statement',
+      'IMPORT_STATEMENT_REQUIRED',
+      'Question statement is required.',
+    );
+  }
+
+  const options = readOptions(fields);
+  const rawType = fields.type?.trim();
+  let type: QuestionType | null = rawType
+    ? (TYPE_ALIASES[normalizeKey(rawType)] ?? null)
+    : options.length
+      ? QuestionType.SINGLE_CHOICE
+      : null;
+  if (!type) {
+    fail(
+      'type',
+      'IMPORT_TYPE_INVALID',
+      rawType
+        ? `Unknown question type "${rawType}".`
+        : 'Question type is required.',
+    );
+  }
+  if (type === QuestionType.TRUE_FALSE && options.length === 0) {
+    options.push('True', 'False');
+  }
+
+  let difficulty: QuestionDifficulty | undefined;
+  const rawDifficulty = fields.difficulty?.trim();
+  if (rawDifficulty) {
+    const candidate = rawDifficulty.toUpperCase() as QuestionDifficulty;
+    if (Object.values(QuestionDifficulty).includes(candidate)) {
+      difficulty = candidate;
+    } else {
+      fail(
+        'difficulty',
+        'IMPORT_DIFFICULTY_INVALID',
+        `Unknown difficulty "${rawDifficulty}".`,
+      );
+    }
+  }
+
+  if (
+    (type === QuestionType.SINGLE_CHOICE ||
+      type === QuestionType.MULTI_CHOICE) &&
+    options.length < 2
+  ) {
+    fail(
+      'options',
+      'IMPORT_OPTIONS_REQUIRED',
+      'At least two options are required.',
+    );
+    type = null;
+  }
+
+  let correctAnswerJson: Record<string, unknown> | null = null;
+  const rawAnswer = fields.answer?.trim();
+  if (!rawAnswer) {
+    fail('answer', 'IMPORT_ANSWER_REQUIRED', 'Correct answer is required.');
+  } else if (type) {
+    correctAnswerJson = parseAnswer(type, rawAnswer, options, fields.tolerance);
+    if (!correctAnswerJson && isAmbiguousAnswer(type, rawAnswer, options)) {
+      fail(
+        'answer',
+        'IMPORT_ANSWER_AMBIGUOUS',
+        `Answer "${rawAnswer}" matches no option text and could be an option position; give the exact option text.`,
+      );
+    } else if (!correctAnswerJson) {
+      fail(
+        'answer',
+        'IMPORT_ANSWER_INVALID',
+        `Answer "${rawAnswer}" is not valid for ${type}.`,
+      );
+    }
+  }
+
+  let isPublished: boolean | undefined;
+  const rawPublished = fields.published?.trim();
+  if (rawPublished) {
+    isPublished = parseBoolean(rawPublished) ?? undefined;
+    if (isPublished === undefined) {
+      fail(
+        'published',
+        'IMPORT_PUBLISHED_INVALID',
+        'Published must be true or false.',
+      );
+    }
+  }
+
+  if (errors.length || !type || !statement || !correctAnswerJson) {
+    return { draft: null, errors };
+  }
+
+  const explanation = fields.explanation?.trim();
+  return {
+    draft: {
+      rowNumber,
+      subjectRef: fields.subject?.trim() || null,
+      topicRef: fields.topic?.trim() || null,
+      type,
+      difficulty,
+      statementJson: { text: statement },
+      optionsJson: options.length
+        ? { options: options.map((text) => ({ text })) }
+        : undefined,
+      explanationJson: explanation ? { text: explanation } : undefined,
+      correctAnswerJson,
+      isPublished,
+    },
+    errors,
+  };
+}
+
+export function buildErrorReportCsv(errors: QuestionImportRowError[]) {
+  const lines = [['row', 'field', 'code', 'message']];
+  errors.forEach((error) =>
+    lines.push([
+      String(error.rowNumber),
+      error.field ?? '',
+      error.code,
+      error.message,
+    ]),
+  );
+  return toCsv(lines);
+}
+
+export function toCsv(rows: string[][]) {
+  return rows
+    .map((row) => row.map((cell) => escapeCsvCell(cell)).join(','))
+    .join('\r\n');
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// `rows[i]` is spreadsheet row i + 1; the first non-empty row is the header.
+function rowsToRecords(rows: string[][]): QuestionImportRecord[] {
+  const headerIndex = rows.findIndex((cells) =>
+    cells.some((cell) => cell?.trim()),
+  );
+  if (headerIndex < 0) {
+    return [];
+  }
+  const header = rows[headerIndex];
+
+  const keys = header.map((cell) => {
+    const key = normalizeKey(cell);
+    return FIELD_ALIASES[key] ?? key;
+  });
+
+  const records: QuestionImportRecord[] = [];
+  rows.forEach((cells, index) => {
+    if (index <= headerIndex || cells.every((cell) => !cell?.trim())) {
+      return;
+    }
+    const fields: Record<string, string> = {};
+    keys.forEach((key, column) => {
+      if (key) {
+        fields[key] = cells[column] ?? '';
+      }
+    });
+    records.push({ rowNumber: index + 1, fields });
+  });
+  return records;
+}
+
+function parseXlsx(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer, {
+    include: (name) =>
+      name === 'xl/sharedStrings.xml' || name.startsWith('xl/worksheets/sheet'),
+  });
+
+  const sharedStrings = Array.from(
+    (entries.get('xl/sharedStrings.xml')?.toString('utf8') ?? '').matchAll(
+      /<si>([\s\S]*?)<\/si>/g,
+    ),
+  ).map((match) => readXmlText(match[1]));
+
+  const sheetName =
+    ['xl/worksheets/sheet1.xml', ...Array.from(entries.keys()).sort()].find(
+      (name) => entries.has(name),
+    ) ?? null;
+  if (!sheetName) {
+    return [];
+  }
+  const sheet = entries.get(sheetName)!.toString('utf8');
+
+  // Excel leaves empty rows out of the sheet, so rows are placed by their
+  // `r` attribute and gaps stay as empty rows.
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(
+    /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g,
+  )) {
+    const rowNumber = Number(/\br="(\d+)"/.exec(rowMatch[1])?.[1]);
+    const cells: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g,
+    )) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const ref = /\br="([A-Z]+)\d+"/.exec(attrs)?.[1];
+      const cellType = /\bt="([^"]+)"/.exec(attrs)?.[1];
+      const column = ref ? columnIndex(ref) : cells.length;
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let value = '';
+      if (cellType === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (cellType === 'inlineStr') {
+        value = readXmlText(body);
+      } else if (cellType === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+      }
+
+      while (cells.length < column) {
+        cells.push('');
+      }
+      cells[column] = value;
+    }
+    while (rowNumber > rows.length + 1) {
+      rows.push([]);
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+/**
+ * Structured DOCX: one question per "Q:" paragraph followed by "A)" style
+ * options and "Answer:"/"Explanation:" lines. "Subject:", "Topic:", "Type:"
+ * and "Difficulty:" lines apply to every following question until changed.
+ */
+function parseDocx(buffer: Buffer): QuestionImportRecord[] {
+  const entries = readZipEntries(buffer, {
+    include: (name) => name === 'word/document.xml',
+  });
+  const xml = entries.get('word/document.xml')?.toString('utf8');
+  if (!xml) {
+    return [];
+  }
+
+  const paragraphs = Array.from(
+    xml
+      .replace(/<w:p\b[^>]*\/>/g, '')
+      .matchAll(/<w:p\b[^>]*>([\s\S]*?)<\/w:p>/g),
+  ).map((match) =>
+    Array.from(
+      match[1]
+        .replace(/<w:pPr>[\s\S]*?<\/w:pPr>/g, '')
+        .matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:(tab|br)\b[^>]*\/>/g),
+    )
+      .map((token) =>
+        token[2] === 'tab'
+          ? '\t'
+          : token[2] === 'br'
+            ? '\n'
+            : decodeXml(token[1]),
+      )
+      .join('')
+      .trim(),
+  );
+
+  const sticky: Record<string, string> = {};
+  const records: QuestionImportRecord[] = [];
+  let current: QuestionImportRecord | null = null;
+  let lastField: string | null = null;
+
+  for (const paragraph of paragraphs) {
+    if (!paragraph) {
+      continue;
+    }
+
+    const labelled =
+      /^(subject|topic|type|difficulty|published|q\s*\d*|question\s*\d*|answer|explanation|solution|tolerance)\s*[:.)-]\s*(.*)$/i.exec(
+        paragraph,
+      );
+    const option = /^\(?([A-H])[).:]\s*(.+)$/.exec(paragraph);
+
+    if (labelled) {
+      const label = labelled[1].toLowerCase();
+      const value = labelled[2].trim();
+      if (label.startsWith('q')) {
+        current = {
+          rowNumber: records.length + 1,
+          fields: { ...sticky, statement: value },
+        };
+        records.push(current);
+        lastField = 'statement';
+        continue;
+      }
+
+      const field = FIELD_ALIASES[label] ?? label;
+      if (
+        current &&
+        (field === 'answer' || field === 'explanation' || field === 'tolerance')
+      ) {
+        current.fields[field] = value;
+        lastField = field;
+      } else {
+        sticky[field] = value;
+        lastField = null;
+      }
+      continue;
+    }
+
+    if (current && option) {
+      current.fields[`option_${option[1].toLowerCase()}`] = option[2].trim();
+      lastField = null;
+      continue;
+    }
+
+    // Continuation lines extend the statement or explanation they follow.
+    if (current && lastField) {
+      current.fields[lastField] = `${current.fields[lastField]}\n${paragraph}`;
+    }
+  }
+
+  return records;
+}
+
+function readOptions(fields: Record<string, string>) {
+  const lettered = OPTION_LETTERS.split('')
+    .map(
+      (letter, index) =>
+        fields[`option_${letter.toLowerCase()}`] ??
+        fields[`option_${index + 1}`],
+    )
+    .filter(
+      (value): value is string =>
+        typeof value === 'string' && value.trim().length > 0,
+    )
+    .map((value) => value.trim());
+  if (lettered.length) {
+    return lettered;
+  }
+
+  return (fields.options ?? '')
+    .split('|')
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function parseAnswer(
+  type: QuestionType,
+  raw: string,
+  options: string[],
+  rawTolerance?: string,
+): Record<string, unknown> | null {
+  switch (type) {
+    case QuestionType.SINGLE_CHOICE: {
+      const index = parseOptionReference(raw, options);
+      return index === null ? null : { optionIndex: index };
+    }
+    case QuestionType.MULTI_CHOICE: {
+      const parts = splitOptionReferences(raw);
+      const indexes = parts.map((part) => parseOptionReference(part, options));
+      if (!indexes.length || indexes.some((index) => index === null)) {
+        return null;
+      }
+      return {
+        optionIndexes: Array.from(new Set(indexes as number[])).sort(
+          (a, b) => a - b,
+        ),
+      };
+    }
+    case QuestionType.TRUE_FALSE: {
+      const value = parseBoolean(raw);
+      return value === null ? null : { value };
+    }
+    case QuestionType.INTEGER: {
+      const range =
+        /^\s*(-?\d+(?:\.\d+)?)\s*(?:\.\.|to)\s*(-?\d+(?:\.\d+)?)\s*$/i.exec(
+          raw,
+        );
+      if (range) {
+        const min = Number(range[1]);
+        const max = Number(range[2]);
+        return min <= max ? { min, max } : null;
+      }
+      const value = Number(raw);
+      if (!Number.isFinite(value)) {
+        return null;
+      }
+      const tolerance = rawTolerance?.trim() ? Number(rawTolerance) : undefined;
+      if (
+        tolerance !== undefined &&
+        (!Number.isFinite(tolerance) || tolerance < 0)
+      ) {
+        return null;
+      }
+      return tolerance !== undefined ? { value, tolerance } : { value };
+    }
+    case QuestionType.SHORT_ANSWER: {
+      const [value, ...acceptedValues] = raw
+        .split('|')
+        .map((item) => item.trim())
+        .filter(Boolean);
+      if (!value) {
+        return null;
+      }
+      return acceptedValues.length ? { value, acceptedValues } : { value };
+    }
+    default:
+      return null;
+  }
+}
+
+// Spaces belong to option texts such as "New Delhi".
+function splitOptionReferences(raw: string) {
+  return raw
+    .split(/[,;|]+/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Resolves an answer to an option by exact text first, then by letter or
+ * 1-based position. Positions are not guessed when the options themselves
+ * look like positions (e.g. "2", "4", "6", "8").
+ */
+function parseOptionReference(raw: string, options: string[]) {
+  const value = raw.trim();
+  const byText = options.findIndex(
+    (option) => option.toLowerCase() === value.toLowerCase(),
+  );
+  if (byText >= 0) {
+    return byText;
+  }
+  if (isAmbiguousReference(value, options)) {
+    return null;
+  }
+  if (/^[A-Ha-h]$/.test(value)) {
+    const index = OPTION_LETTERS.indexOf(value.toUpperCase());
+    return index < options.length ? index : null;
+  }
+  if (/^\d+$/.test(value)) {
+    const index = Number(value) - 1;
+    return index >= 0 && index < options.length ? index : null;
+  }
+  return null;
+}
+
+function isAmbiguousReference(value: string, options: string[]) {
+  const pattern = /^\d+$/.test(value)
+    ? /^\d+$/
+    : /^[A-Ha-h]$/.test(value)
+      ? /^[A-Ha-h]$/
+      : null;
+  return (
+    pattern !== null &&
+    options.some((option) => pattern.test(option)) &&
+    !options.some((option) => option.toLowerCase() === value.toLowerCase())
+  );
+}
+
+function isAmbiguousAnswer(type: QuestionType, raw: string, options: string[]) {
+  if (type === QuestionType.SINGLE_CHOICE) {
+    return isAmbiguousReference(raw.trim(), options);
+  }
+  if (type === QuestionType.MULTI_CHOICE) {
+    return splitOptionReferences(raw).some((part) =>
+      isAmbiguousReference(part, options),
+    );
+  }
+  return false;
+}
+
+function parseBoolean(raw: string) {
+  const value = raw.trim().toLowerCase();
+  if (['true', 't', 'yes', 'y', '1'].includes(value)) return true;
+  if (['false', 'f', 'no', 'n', '0'].includes(value)) return false;
+  return null;
+}
+
+function normalizeKey(value: string) {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function columnIndex(letters: string) {
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function readXmlText(xml: string) {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map((match) => decodeXml(match[1]))
+    .join('');
+}
+
+function decodeXml(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) =>
+      String.fromCodePoint(Number(code)),
+    )
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) =>
+      String.fromCodePoint(parseInt(code, 16)),
+    )
+    .replace(/&amp;/g, '&');
+}
+
+function escapeCsvCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
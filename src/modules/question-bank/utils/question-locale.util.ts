@@ -0,0 +1,291 @@
+/**
+ * Localized question content.
+ *
+ * `statementJson`, `explanationJson` and every entry of `optionsJson.options`
+ * are content nodes. A node is either plain (`{ text, html?, imageAssetId? }`,
+ * the pre-localization shape) or localized:
+ *
+ *   {
+ *     primaryLanguage: 'mr',
+ *     translations: { mr: { html: '...' }, en: { text: '...' } },
+ *     imageAssetId?: '...',   // shared by every translation
+ *   }
+ *
+ * Older content keeps translations as top-level `en` / `mr` keys; it is read
+ * the same way and normalized into `translations` on write.
+ */
+export const QUESTION_LOCALES = ['en', 'mr', 'hi'] as const;
+
+export type QuestionLocale = (typeof QUESTION_LOCALES)[number];
+
+export const QUESTION_FALLBACK_LOCALE: QuestionLocale = 'en';
+
+export type QuestionLocaleIssue = {
+  field: string;
+  code: 'LOCALE_MISSING' | 'LOCALE_UNSUPPORTED' | 'PRIMARY_LANGUAGE_INVALID';
+  locale: string;
+};
+
+type LocalizableFields = {
+  statementJson: unknown;
+  optionsJson?: unknown;
+  explanationJson?: unknown;
+};
+
+const LOCALIZATION_KEYS = new Set([
+  'primaryLanguage',
+  'languageMode',
+  'translations',
+]);
+
+export function isQuestionLocale(value: unknown): value is QuestionLocale {
+  return (
+    typeof value === 'string' &&
+    (QUESTION_LOCALES as readonly string[]).includes(value)
+  );
+}
+
+/** Moves top-level locale keys into `translations`, recursively. */
+export function normalizeLocalizedContent(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeLocalizedContent(item));
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+
+  const output: Record<string, unknown> = {};
+  const translations: Record<string, unknown> = isRecord(value.translations)
+    ? { ...value.translations }
+    : {};
+  Object.entries(value).forEach(([key, entry]) => {
+    if (key === 'translations') {
+      return;
+    }
+    if (isQuestionLocale(key) && isContentValue(entry)) {
+      translations[key] ??= entry;
+      return;
+    }
+    output[key] = normalizeLocalizedContent(entry);
+  });
+
+  if (Object.keys(translations).length) {
+    output.translations = Object.fromEntries(
+      Object.entries(translations).map(([locale, entry]) => [
+        locale,
+        normalizeLocalizedContent(entry),
+      ]),
+    );
+  }
+  return output;
+}
+
+export function collectContentLocales(values: unknown[]) {
+  const locales = new Set<QuestionLocale>();
+  const walk = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+      return;
+    }
+    if (!isRecord(value)) {
+      return;
+    }
+    Object.entries(readTranslations(value)).forEach(([locale, entry]) => {
+      if (isQuestionLocale(locale) && hasContent(entry)) {
+        locales.add(locale);
+      }
+      walk(entry);
+    });
+    Object.entries(value)
+      .filter(([key]) => !LOCALIZATION_KEYS.has(key) && !isQuestionLocale(key))
+      .forEach(([, entry]) => walk(entry));
+  };
+  values.forEach(walk);
+  return QUESTION_LOCALES.filter((locale) => locales.has(locale));
+}
+
+/**
+ * Checks the localized structure and, when `requiredLocales` is non-empty,
+ * that the statement, every option and the explanation (if any) carry each
+ * of them.
+ */
+export function findQuestionLocaleIssues(
+  content: LocalizableFields,
+  requiredLocales: string[],
+): QuestionLocaleIssue[] {
+  const issues: QuestionLocaleIssue[] = [];
+  const nodes: Array<{ field: string; value: unknown }> = [
+    { field: 'statementJson', value: content.statementJson },
+  ];
+  readOptionNodes(content.optionsJson).forEach((value, index) =>
+    nodes.push({ field: `optionsJson.options[${index}]`, value }),
+  );
+  if (content.explanationJson) {
+    nodes.push({ field: 'explanationJson', value: content.explanationJson });
+  }
+
+  nodes.forEach(({ field, value }) => {
+    const record = isRecord(value) ? value : {};
+    const translations = readTranslations(record);
+    Object.keys(translations)
+      .filter((locale) => !isQuestionLocale(locale))
+      .forEach((locale) =>
+        issues.push({ field, code: 'LOCALE_UNSUPPORTED', locale }),
+      );
+
+    const present = Object.entries(translations)
+      .filter(([, entry]) => hasContent(entry))
+      .map(([locale]) => locale);
+    const primary = record.primaryLanguage;
+    if (
+      primary !== undefined &&
+      (typeof primary !== 'string' || !present.includes(primary))
+    ) {
+      issues.push({
+        field,
+        code: 'PRIMARY_LANGUAGE_INVALID',
+        locale: typeof primary === 'string' ? primary : JSON.stringify(primary),
+      });
+    }
+
+    requiredLocales
+      .filter((locale) => !present.includes(locale))
+      .forEach((locale) =>
+        issues.push({ field, code: 'LOCALE_MISSING', locale }),
+      );
+  });
+
+  return issues;
+}
+
+/**
+ * Replaces every localized node with the requested translation, falling back
+ * to the node's primary language, then English, then whatever is present.
+ * Plain nodes pass through unchanged.
+ */
+export function localizeQuestionContent(
+  value: unknown,
+  locale?: string | null,
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => localizeQuestionContent(item, locale));
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+
+  const translations = readTranslations(value);
+  const resolved = resolveNodeLocale(value, translations, locale);
+  const shared = Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => !LOCALIZATION_KEYS.has(key) && !isQuestionLocale(key))
+      .map(([key, entry]) => [key, localizeQuestionContent(entry, locale)]),
+  );
+  if (!resolved) {
+    return shared;
+  }
+
+  const selected = localizeQuestionContent(translations[resolved], locale);
+  return isRecord(selected)
+    ? { ...shared, ...selected, lang: resolved }
+    : { ...shared, text: selected, lang: resolved };
+}
+
+export function localizeQuestion<T extends LocalizableFields>(
+  question: T,
+  locale?: string | null,
+): T {
+  if (!locale) {
+    return question;
+  }
+  return {
+    ...question,
+    statementJson: localizeQuestionContent(question.statementJson, locale),
+    optionsJson: localizeQuestionContent(question.optionsJson, locale),
+    explanationJson: localizeQuestionContent(question.explanationJson, locale),
+  };
+}
+
+/** Text of one locale only, used for the language-specific search vector. */
+export function extractLocaleContent(
+  values: unknown[],
+  locale: QuestionLocale,
+) {
+  const parts: unknown[] = [];
+  const walk = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+      return;
+    }
+    if (!isRecord(value)) {
+      return;
+    }
+    const translations = readTranslations(value);
+    if (translations[locale] !== undefined) {
+      parts.push(translations[locale]);
+    }
+    Object.entries(value)
+      .filter(([key]) => !LOCALIZATION_KEYS.has(key) && !isQuestionLocale(key))
+      .forEach(([, entry]) => walk(entry));
+  };
+  values.forEach(walk);
+  return parts;
+}
+
+function resolveNodeLocale(
+  node: Record<string, unknown>,
+  translations: Record<string, unknown>,
+  requested?: string | null,
+) {
+  const candidates = [
+    requested,
+    typeof node.primaryLanguage === 'string' ? node.primaryLanguage : null,
+    QUESTION_FALLBACK_LOCALE,
+    ...Object.keys(translations),
+  ];
+  return candidates.find(
+    (candidate): candidate is string =>
+      typeof candidate === 'string' && hasContent(translations[candidate]),
+  );
+}
+
+function readTranslations(node: Record<string, unknown>) {
+  const translations: Record<string, unknown> = {};
+  QUESTION_LOCALES.forEach((locale) => {
+    if (isContentValue(node[locale])) {
+      translations[locale] = node[locale];
+    }
+  });
+  if (isRecord(node.translations)) {
+    Object.assign(translations, node.translations);
+  }
+  return translations;
+}
+
+function readOptionNodes(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return isRecord(value) && Array.isArray(value.options) ? value.options : [];
+}
+
+function hasContent(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return value.trim().length > 0;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.some(hasContent);
+  }
+  return isRecord(value) && Object.values(value).some(hasContent);
+}
+
+function isContentValue(value: unknown) {
+  return typeof value === 'string' || isRecord(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
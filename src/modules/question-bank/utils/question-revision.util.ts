@@ -0,0 +1,125 @@
+import { Prisma, QuestionDifficulty, QuestionType } from '@prisma/client';
+import { stableStringify } from './answer-evaluation.util';
+
+export const QUESTION_REVISION_FIELDS = [
+  'type',
+  'difficulty',
+  'statementJson',
+  'optionsJson',
+  'explanationJson',
+  'correctAnswerJson',
+] as const;
+
+export type QuestionRevisionField = (typeof QUESTION_REVISION_FIELDS)[number];
+
+export type QuestionRevisionContent = {
+  type: QuestionType;
+  difficulty: QuestionDifficulty;
+  statementJson: Prisma.JsonValue;
+  optionsJson: Prisma.JsonValue | null;
+  explanationJson: Prisma.JsonValue | null;
+  correctAnswerJson: Prisma.JsonValue | null;
+};
+
+export type QuestionRevisionChange = {
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+export function pickRevisionContent(
+  source: QuestionRevisionContent,
+): QuestionRevisionContent {
+  return {
+    type: source.type,
+    difficulty: source.difficulty,
+    statementJson: source.statementJson,
+    optionsJson: source.optionsJson,
+    explanationJson: source.explanationJson,
+    correctAnswerJson: source.correctAnswerJson,
+  };
+}
+
+export function toRevisionCreateData(content: QuestionRevisionContent) {
+  const toJson = (value: Prisma.JsonValue | null) =>
+    value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+  return {
+    type: content.type,
+    difficulty: content.difficulty,
+    statementJson: content.statementJson as Prisma.InputJsonValue,
+    optionsJson: toJson(content.optionsJson),
+    explanationJson: toJson(content.explanationJson),
+    correctAnswerJson: toJson(content.correctAnswerJson),
+  };
+}
+
+export function listChangedRevisionFields(
+  before: QuestionRevisionContent,
+  after: QuestionRevisionContent,
+): QuestionRevisionField[] {
+  return QUESTION_REVISION_FIELDS.filter(
+    (field) => stableStringify(before[field]) !== stableStringify(after[field]),
+  );
+}
+
+/**
+ * A change to the type or the answer key alters how existing responses are
+ * graded; wording, options and explanation edits do not.
+ */
+export function isAnswerKeyChange(fields: QuestionRevisionField[]) {
+  return fields.includes('type') || fields.includes('correctAnswerJson');
+}
+
+export function diffRevisionContent(
+  before: QuestionRevisionContent,
+  after: QuestionRevisionContent,
+) {
+  return QUESTION_REVISION_FIELDS.map((field) => {
+    const changes: QuestionRevisionChange[] = [];
+    collectJsonChanges(before[field], after[field], field, changes);
+    return { field, changed: changes.length > 0, changes };
+  });
+}
+
+// Walks both values in parallel and records leaf-level differences, so an
+// edited option shows up as `optionsJson.options[1].text` rather than the
+// whole options payload.
+function collectJsonChanges(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: QuestionRevisionChange[],
+) {
+  if (stableStringify(before) === stableStringify(after)) {
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index += 1) {
+      collectJsonChanges(
+        before[index],
+        after[index],
+        `${path}[${index}]`,
+        changes,
+      );
+    }
+    return;
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    Array.from(keys)
+      .sort()
+      .forEach((key) =>
+        collectJsonChanges(before[key], after[key], `${path}.${key}`, changes),
+      );
+    return;
+  }
+
+  changes.push({ path, before: before ?? null, after: after ?? null });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
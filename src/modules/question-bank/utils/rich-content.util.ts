@@ -215,6 +215,19 @@ export function extractQuestionSearchFragments(value: unknown): string[] {
   return fragments;
 }
 
+export function buildQuestionSearchText(
+  values: unknown[],
+  subjectName?: string,
+  topicName?: string,
+) {
+  const fragments = values.flatMap((value) =>
+    extractQuestionSearchFragments(value),
+  );
+  return [...fragments, subjectName, topicName]
+    .filter((item): item is string => Boolean(item))
+    .join(' ');
+}
+
 function renderMathExpression(latexRaw: string, displayMode: boolean): string {
   const latex = normalizeStoredLatex(latexRaw);
 
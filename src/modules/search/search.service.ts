@@ -278,7 +278,8 @@ export class SearchService implements OnModuleInit {
     },
   ): Promise<SearchResult<QuestionSearchRow>> {
     const offset = (options.page - 1) * options.pageSize;
-    const tsQuery = Prisma.sql`websearch_to_tsquery('simple', ${term})`;
+    // Question vectors also hold stemmed English lexemes.
+    const tsQuery = Prisma.sql`(websearch_to_tsquery('simple', ${term}) || websearch_to_tsquery('english', ${term}))`;
 
     const filters: Prisma.Sql[] = [
       Prisma.sql`coalesce(qs."searchVector", to_tsvector('simple', coalesce(qs."searchText", ''))) @@ q`,
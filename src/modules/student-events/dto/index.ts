@@ -0,0 +1,3 @@
+// DTOs for the StudentEvents module.
+export { StudentEventBatchDto } from './student-event-batch.dto';
+export { StudentEventDto } from './student-event.dto';
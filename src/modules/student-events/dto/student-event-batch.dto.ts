@@ -0,0 +1,11 @@
+import { Type } from 'class-transformer';
+import { ArrayMaxSize, ArrayMinSize, ValidateNested } from 'class-validator';
+import { StudentEventDto } from './student-event.dto';
+
+export class StudentEventBatchDto {
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => StudentEventDto)
+  events!: StudentEventDto[];
+}
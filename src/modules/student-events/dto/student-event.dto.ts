@@ -0,0 +1,77 @@
+import { StudentEventType } from '@prisma/client';
+import {
+  IsEnum,
+  IsInt,
+  IsISO8601,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * One client event. Fields beyond the common ones are required per type:
+ * SCREEN_VIEW needs `screen`, NOTE_PAGE_VIEW `noteId` and `pageNumber`,
+ * VIDEO_PROGRESS `videoId` and `positionSeconds`.
+ */
+export class StudentEventDto {
+  /** Client-generated and stable across retries; used for dedupe. */
+  @IsString()
+  @MaxLength(64)
+  clientEventId!: string;
+
+  @IsEnum(StudentEventType)
+  type!: StudentEventType;
+
+  @IsISO8601()
+  occurredAt!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  sessionId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  platform?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  appVersion?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  screen?: string;
+
+  @IsOptional()
+  @IsString()
+  noteId?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  pageNumber?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  videoId?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  positionSeconds?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  durationSeconds?: number;
+
+  @IsOptional()
+  @IsObject()
+  properties?: Record<string, unknown>;
+}
@@ -0,0 +1,14 @@
+// Offline clients flush queued events late; anything older is rejected.
+export const STUDENT_EVENT_MAX_AGE_DAYS = 7;
+export const STUDENT_EVENT_MAX_CLOCK_SKEW_MS = 10 * 60 * 1000;
+export const STUDENT_EVENT_PARTITION_LOOKAHEAD_DAYS = 3;
+
+export function startOfUtcDay(date: Date) {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+export function addUtcDays(date: Date, days: number) {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
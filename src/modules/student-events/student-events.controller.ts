@@ -2,23 +2,21 @@ import { Body, Controller, Post, UseGuards } from '@nestjs/common';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { CurrentUser } from '../../common/decorators';
 import { JwtAuthGuard } from '../auth/guards';
+import { StudentEventBatchDto } from './dto';
+import { StudentEventsService } from './student-events.service';
 
 @ApiTags('student-events')
 @ApiBearerAuth()
 @Controller('student/events')
 @UseGuards(JwtAuthGuard)
 export class StudentEventsController {
+  constructor(private readonly studentEventsService: StudentEventsService) {}
+
   @Post()
-  recordEvent(
+  recordEvents(
     @CurrentUser() user: { userId: string },
-    @Body() payload: Record<string, unknown>,
+    @Body() dto: StudentEventBatchDto,
   ) {
-    // Best-effort event intake (no persistence yet).
-    return {
-      success: true,
-      userId: user.userId,
-      receivedAt: new Date().toISOString(),
-      payload,
-    };
+    return this.studentEventsService.ingest(user.userId, dto);
   }
 }
@@ -1,9 +1,13 @@
 import { Module } from '@nestjs/common';
+import { PrismaModule } from '../../infra/prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
 import { StudentEventsController } from './student-events.controller';
+import { StudentEventsPartitionService } from './student-events.partition.service';
+import { StudentEventsService } from './student-events.service';
 
 @Module({
-  imports: [AuthModule],
+  imports: [PrismaModule, AuthModule],
   controllers: [StudentEventsController],
+  providers: [StudentEventsService, StudentEventsPartitionService],
 })
 export class StudentEventsModule {}
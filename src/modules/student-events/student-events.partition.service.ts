@@ -0,0 +1,107 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import {
+  addUtcDays,
+  startOfUtcDay,
+  STUDENT_EVENT_MAX_AGE_DAYS,
+  STUDENT_EVENT_PARTITION_LOOKAHEAD_DAYS,
+} from './student-events.constants';
+
+const PARTITION_PREFIX = 'StudentEvent_p';
+const PARTITION_NAME_PATTERN = /^StudentEvent_p(\d{4})(\d{2})(\d{2})$/;
+
+/**
+ * Keeps one `StudentEvent` partition per UTC day: every day events may
+ * still arrive for exists ahead of time, and days past the retention window
+ * are dropped whole.
+ */
+@Injectable()
+export class StudentEventsPartitionService implements OnModuleInit {
+  private readonly logger = new Logger(StudentEventsPartitionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly siteSettings: SiteSettingsService,
+  ) {}
+
+  async onModuleInit() {
+    await this.nightlyMaintenance();
+  }
+
+  @Cron('10 0 * * *')
+  async nightlyMaintenance() {
+    try {
+      const result = await this.maintainPartitions();
+      if (result.dropped.length) {
+        this.logger.log(
+          `Student event partitions dropped: ${result.dropped.join(', ')}`,
+        );
+      }
+    } catch (err) {
+      this.logger.warn(
+        `Student event partition maintenance failed: ${(err as Error)?.message ?? String(err)}`,
+      );
+    }
+  }
+
+  async maintainPartitions(now = new Date()) {
+    const today = startOfUtcDay(now);
+    for (
+      let offset = -STUDENT_EVENT_MAX_AGE_DAYS;
+      offset <= STUDENT_EVENT_PARTITION_LOOKAHEAD_DAYS;
+      offset += 1
+    ) {
+      await this.ensurePartition(addUtcDays(today, offset));
+    }
+
+    const retentionDays = this.siteSettings.getNumber(
+      'STUDENT_EVENTS_RETENTION_DAYS',
+      180,
+      { integer: true, min: 7 },
+    );
+    const cutoff = addUtcDays(today, -retentionDays);
+    const partitions = await this.prisma.$queryRaw<{ name: string }[]>(
+      Prisma.sql`SELECT c.relname AS name FROM pg_inherits i JOIN pg_class c ON c.oid = i.inhrelid JOIN pg_class p ON p.oid = i.inhparent WHERE p.relname = 'StudentEvent'`,
+    );
+    const dropped: string[] = [];
+    for (const { name } of partitions) {
+      const match = PARTITION_NAME_PATTERN.exec(name);
+      if (!match) {
+        continue;
+      }
+      const day = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+      if (day < cutoff) {
+        await this.prisma.$executeRaw(
+          Prisma.sql`DROP TABLE IF EXISTS ${Prisma.raw(`"${name}"`)}`,
+        );
+        dropped.push(name);
+      }
+    }
+    // Stragglers in the default partition.
+    await this.prisma.studentEvent.deleteMany({
+      where: { day: { lt: cutoff } },
+    });
+
+    return { dropped };
+  }
+
+  private async ensurePartition(day: Date) {
+    const from = day.toISOString().slice(0, 10);
+    const to = addUtcDays(day, 1).toISOString().slice(0, 10);
+    const name = `${PARTITION_PREFIX}${from.replace(/-/g, '')}`;
+    try {
+      await this.prisma.$executeRaw(
+        Prisma.sql`CREATE TABLE IF NOT EXISTS ${Prisma.raw(`"${name}"`)} PARTITION OF "StudentEvent" FOR VALUES FROM (${Prisma.raw(`'${from}'`)}) TO (${Prisma.raw(`'${to}'`)})`,
+      );
+    } catch (err) {
+      // Fails when the default partition already holds rows for the day;
+      // those rows stay there and are still counted.
+      this.logger.warn(
+        `Could not create partition ${name}: ${(err as Error)?.message ?? String(err)}`,
+      );
+    }
+  }
+}
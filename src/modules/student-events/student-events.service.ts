@@ -0,0 +1,118 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, StudentEventType } from '@prisma/client';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { StudentEventBatchDto, StudentEventDto } from './dto';
+import {
+  addUtcDays,
+  startOfUtcDay,
+  STUDENT_EVENT_MAX_AGE_DAYS,
+  STUDENT_EVENT_MAX_CLOCK_SKEW_MS,
+} from './student-events.constants';
+
+const REQUIRED_FIELDS: Record<
+  StudentEventType,
+  Array<keyof StudentEventDto>
+> = {
+  APP_OPEN: [],
+  SCREEN_VIEW: ['screen'],
+  NOTE_PAGE_VIEW: ['noteId', 'pageNumber'],
+  VIDEO_PROGRESS: ['videoId', 'positionSeconds'],
+};
+
+const MAX_PROPERTIES_LENGTH = 2000;
+
+type RejectedEvent = { clientEventId: string; code: string; message: string };
+
+@Injectable()
+export class StudentEventsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Stores a batch of client events. Invalid events are reported back
+   * without failing the rest of the batch; events already received (same
+   * client event id on the same day) are skipped, so clients can retry a
+   * batch safely.
+   */
+  async ingest(userId: string, dto: StudentEventBatchDto) {
+    const now = new Date();
+    const rejected: RejectedEvent[] = [];
+    const rows: Prisma.StudentEventCreateManyInput[] = [];
+
+    dto.events.forEach((event) => {
+      const problem = this.validateEvent(event, now);
+      if (problem) {
+        rejected.push({ clientEventId: event.clientEventId, ...problem });
+        return;
+      }
+      const occurredAt = new Date(event.occurredAt);
+      rows.push({
+        day: startOfUtcDay(occurredAt),
+        userId,
+        clientEventId: event.clientEventId,
+        eventType: event.type,
+        occurredAt,
+        receivedAt: now,
+        sessionId: event.sessionId,
+        platform: event.platform?.toLowerCase(),
+        appVersion: event.appVersion,
+        screen: event.screen,
+        noteId: event.noteId,
+        pageNumber: event.pageNumber,
+        videoId: event.videoId,
+        positionSeconds: event.positionSeconds,
+        durationSeconds: event.durationSeconds,
+        propertiesJson: event.properties
+          ? (event.properties as Prisma.InputJsonValue)
+          : undefined,
+      });
+    });
+
+    const { count } = rows.length
+      ? await this.prisma.studentEvent.createMany({
+          data: rows,
+          skipDuplicates: true,
+        })
+      : { count: 0 };
+
+    return {
+      accepted: count,
+      duplicates: rows.length - count,
+      rejected,
+      receivedAt: now.toISOString(),
+    };
+  }
+
+  private validateEvent(event: StudentEventDto, now: Date) {
+    const missing = REQUIRED_FIELDS[event.type].filter(
+      (field) => event[field] === undefined || event[field] === '',
+    );
+    if (missing.length) {
+      return {
+        code: 'STUDENT_EVENT_FIELDS_MISSING',
+        message: `${event.type} events require ${missing.join(', ')}.`,
+      };
+    }
+
+    const occurredAt = new Date(event.occurredAt);
+    if (
+      occurredAt.getTime() > now.getTime() + STUDENT_EVENT_MAX_CLOCK_SKEW_MS ||
+      occurredAt < addUtcDays(now, -STUDENT_EVENT_MAX_AGE_DAYS)
+    ) {
+      return {
+        code: 'STUDENT_EVENT_TIME_OUT_OF_RANGE',
+        message: `occurredAt must be within the last ${STUDENT_EVENT_MAX_AGE_DAYS} days.`,
+      };
+    }
+
+    if (
+      event.properties &&
+      JSON.stringify(event.properties).length > MAX_PROPERTIES_LENGTH
+    ) {
+      return {
+        code: 'STUDENT_EVENT_PROPERTIES_TOO_LARGE',
+        message: `properties must serialize to at most ${MAX_PROPERTIES_LENGTH} characters.`,
+      };
+    }
+    return null;
+  }
+}
@@ -14,15 +14,27 @@ import { Audit, CurrentUser } from '../../common/decorators';
 import { JwtAuthGuard } from '../auth/guards';
 import { PolicyGuard } from '../authorization/guards';
 import { Policy, RequireUserType } from '../authorization/decorators';
-import { TestCreateDto, TestQueryDto, TestUpdateDto } from './dto';
+import {
+  AttemptRegradeDto,
+  TestCreateDto,
+  TestQueryDto,
+  TestRegistrationQueryDto,
+  TestUpdateDto,
+} from './dto';
 import { TestEngineService } from './test-engine.service';
+import { TestLeaderboardService } from './test-engine.leaderboard.service';
+import { TestLiveService } from './test-engine.live.service';
 
 @ApiTags('admin-tests')
 @ApiBearerAuth()
 @Controller('admin/tests')
 @UseGuards(JwtAuthGuard, PolicyGuard)
 export class AdminTestsController {
-  constructor(private readonly testEngineService: TestEngineService) {}
+  constructor(
+    private readonly testEngineService: TestEngineService,
+    private readonly leaderboardService: TestLeaderboardService,
+    private readonly liveService: TestLiveService,
+  ) {}
 
   @Get()
   @RequireUserType('ADMIN')
@@ -38,11 +50,22 @@ export class AdminTestsController {
     return this.testEngineService.listTestPresets();
   }
 
+  @Post('regrade')
+  @RequireUserType('ADMIN')
+  @Policy('tests.publish')
+  @Audit('tests.regrade', 'Question')
+  regradeAttempts(@Body() dto: AttemptRegradeDto) {
+    return this.testEngineService.regradeQuestionAttempts(dto);
+  }
+
   @Post()
   @RequireUserType('ADMIN')
   @Policy('tests.crud')
   @Audit('tests.create', 'Test')
-  createTest(@CurrentUser() user: { userId: string }, @Body() dto: TestCreateDto) {
+  createTest(
+    @CurrentUser() user: { userId: string },
+    @Body() dto: TestCreateDto,
+  ) {
     return this.testEngineService.createTest(user.userId, dto);
   }
 
@@ -70,6 +93,32 @@ export class AdminTestsController {
     return this.testEngineService.unpublishTest(testId);
   }
 
+  @Post(':testId/results/freeze')
+  @RequireUserType('ADMIN')
+  @Policy('tests.publish')
+  @Audit('tests.results.freeze', 'Test')
+  freezeResults(@Param('testId') testId: string) {
+    return this.leaderboardService.freezeResults(testId);
+  }
+
+  @Post(':testId/results/publish')
+  @RequireUserType('ADMIN')
+  @Policy('tests.publish')
+  @Audit('tests.results.publish', 'Test')
+  publishResults(@Param('testId') testId: string) {
+    return this.testEngineService.publishTestResults(testId);
+  }
+
+  @Get(':testId/registrations')
+  @RequireUserType('ADMIN')
+  @Policy('tests.crud')
+  listRegistrations(
+    @Param('testId') testId: string,
+    @Query() query: TestRegistrationQueryDto,
+  ) {
+    return this.liveService.listRegistrations(testId, query);
+  }
+
   @Delete(':testId')
   @RequireUserType('ADMIN')
   @Policy('tests.crud')
@@ -0,0 +1,19 @@
+import { IsBoolean, IsInt, IsOptional, IsString, Min } from 'class-validator';
+
+export class AttemptRegradeDto {
+  @IsString()
+  questionId!: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  version?: number;
+
+  @IsOptional()
+  @IsString()
+  testId?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
@@ -5,3 +5,7 @@ export { TestQueryDto } from './test-query.dto';
 export { AttemptSaveDto } from './attempt-save.dto';
 export { AttemptSubmitDto } from './attempt-submit.dto';
 export { AttemptQueryDto } from './attempt-query.dto';
+export { LeaderboardQueryDto } from './leaderboard-query.dto';
+export { AttemptRegradeDto } from './attempt-regrade.dto';
+export { TestLocaleQueryDto } from './test-locale-query.dto';
+export { TestRegistrationQueryDto } from './test-registration-query.dto';
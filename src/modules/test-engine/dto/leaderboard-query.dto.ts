@@ -0,0 +1,11 @@
+import { IsNumberString, IsOptional } from 'class-validator';
+
+export class LeaderboardQueryDto {
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pageSize?: string;
+}
@@ -1,5 +1,15 @@
 import { TestType } from '@prisma/client';
-import { IsBoolean, IsDateString, IsEnum, IsObject, IsOptional, IsString } from 'class-validator';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
 
 export class TestCreateDto {
   @IsOptional()
@@ -30,4 +40,25 @@ export class TestCreateDto {
   @IsOptional()
   @IsDateString()
   endsAt?: string;
+
+  // Live tests need a registration before an attempt can be started.
+  @IsOptional()
+  @IsBoolean()
+  isLive?: boolean;
+
+  @IsOptional()
+  @IsDateString()
+  registrationClosesAt?: string;
+
+  // Minutes after `startsAt` during which attempts can still be started.
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(1440)
+  lateEntryMinutes?: number;
+
+  // Scores, reviews and ranks stay hidden until this time.
+  @IsOptional()
+  @IsDateString()
+  resultsReleaseAt?: string;
 }
@@ -0,0 +1,8 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { QUESTION_LOCALES } from '../../question-bank/utils/question-locale.util';
+
+export class TestLocaleQueryDto {
+  @IsOptional()
+  @IsIn(QUESTION_LOCALES)
+  lang?: string;
+}
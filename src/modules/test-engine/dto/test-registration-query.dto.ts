@@ -0,0 +1,17 @@
+import { IsIn, IsNumberString, IsOptional } from 'class-validator';
+
+export const TEST_REGISTRATION_SCOPES = ['UPCOMING', 'PAST', 'ALL'] as const;
+
+export class TestRegistrationQueryDto {
+  @IsOptional()
+  @IsIn(TEST_REGISTRATION_SCOPES)
+  scope?: (typeof TEST_REGISTRATION_SCOPES)[number];
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pageSize?: string;
+}
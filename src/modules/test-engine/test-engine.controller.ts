@@ -1,16 +1,40 @@
-import { Body, Controller, Get, Param, Patch, Post, Query, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
 import { ApiTags } from '@nestjs/swagger';
 import { TestEngineService } from './test-engine.service';
 import { Public, CurrentUser } from '../../common/decorators';
 import { JwtAuthGuard } from '../auth/guards';
 import { PolicyGuard } from '../authorization/guards';
 import { Policy } from '../authorization/decorators';
-import { AttemptQueryDto, AttemptSaveDto, AttemptSubmitDto, TestQueryDto } from './dto';
+import {
+  AttemptQueryDto,
+  AttemptSaveDto,
+  AttemptSubmitDto,
+  LeaderboardQueryDto,
+  TestLocaleQueryDto,
+  TestQueryDto,
+  TestRegistrationQueryDto,
+} from './dto';
+import { TestLeaderboardService } from './test-engine.leaderboard.service';
+import { TestLiveService } from './test-engine.live.service';
 
 @ApiTags('tests')
 @Controller()
 export class TestEngineController {
-  constructor(private readonly testEngineService: TestEngineService) {}
+  constructor(
+    private readonly testEngineService: TestEngineService,
+    private readonly leaderboardService: TestLeaderboardService,
+    private readonly liveService: TestLiveService,
+  ) {}
 
   @Public()
   @Get('tests')
@@ -18,10 +42,64 @@ export class TestEngineController {
     return this.testEngineService.listPublishedTests(query);
   }
 
+  // Declared before `tests/:testId` so the literal paths are matched first.
+  @Public()
+  @Get('tests/live')
+  listLiveTests(@Query() query: TestQueryDto) {
+    return this.liveService.listLiveTests(query);
+  }
+
+  @Get('tests/registrations/me')
+  @UseGuards(JwtAuthGuard)
+  listMyRegistrations(
+    @CurrentUser() user: { userId: string },
+    @Query() query: TestRegistrationQueryDto,
+  ) {
+    return this.liveService.listMyRegistrations(user.userId, query);
+  }
+
   @Public()
   @Get('tests/:testId')
-  getTest(@Param('testId') testId: string) {
-    return this.testEngineService.getTestPublic(testId);
+  getTest(@Param('testId') testId: string, @Query() query: TestLocaleQueryDto) {
+    return this.testEngineService.getTestDetail(testId, query.lang);
+  }
+
+  @Get('tests/:testId/leaderboard')
+  @UseGuards(JwtAuthGuard)
+  getLeaderboard(
+    @CurrentUser() user: { userId: string },
+    @Param('testId') testId: string,
+    @Query() query: LeaderboardQueryDto,
+  ) {
+    return this.leaderboardService.getLeaderboard(user.userId, testId, query);
+  }
+
+  @Get('tests/:testId/registration')
+  @UseGuards(JwtAuthGuard)
+  getRegistration(
+    @CurrentUser() user: { userId: string },
+    @Param('testId') testId: string,
+  ) {
+    return this.liveService.getRegistration(user.userId, testId);
+  }
+
+  @Post('tests/:testId/registration')
+  @UseGuards(JwtAuthGuard, PolicyGuard)
+  @Policy('tests.attempt')
+  register(
+    @CurrentUser() user: { userId: string },
+    @Param('testId') testId: string,
+  ) {
+    return this.liveService.register(user.userId, testId);
+  }
+
+  @Delete('tests/:testId/registration')
+  @UseGuards(JwtAuthGuard)
+  cancelRegistration(
+    @CurrentUser() user: { userId: string },
+    @Param('testId') testId: string,
+  ) {
+    return this.liveService.cancelRegistration(user.userId, testId);
   }
 
   @Post('tests/:testId/start')
@@ -30,8 +108,9 @@ export class TestEngineController {
   startAttempt(
     @CurrentUser() user: { userId: string },
     @Param('testId') testId: string,
+    @Query() query: TestLocaleQueryDto,
   ) {
-    return this.testEngineService.startAttempt(user.userId, testId);
+    return this.testEngineService.startAttempt(user.userId, testId, query.lang);
   }
 
   @Patch('attempts/:attemptId/save')
@@ -44,6 +123,15 @@ export class TestEngineController {
     return this.testEngineService.saveAttempt(user.userId, attemptId, dto);
   }
 
+  @Post('attempts/:attemptId/sections/next')
+  @UseGuards(JwtAuthGuard)
+  advanceSection(
+    @CurrentUser() user: { userId: string },
+    @Param('attemptId') attemptId: string,
+  ) {
+    return this.testEngineService.advanceSection(user.userId, attemptId);
+  }
+
   @Post('attempts/:attemptId/submit')
   @UseGuards(JwtAuthGuard)
   submitAttempt(
@@ -65,4 +153,22 @@ export class TestEngineController {
   getAttempt(@CurrentUser() user: { userId: string }, @Param('attemptId') attemptId: string) {
     return this.testEngineService.getAttempt(user.userId, attemptId);
   }
+
+  @Get('attempts/:attemptId/review')
+  @UseGuards(JwtAuthGuard)
+  getAttemptReview(
+    @CurrentUser() user: { userId: string },
+    @Param('attemptId') attemptId: string,
+  ) {
+    return this.testEngineService.getAttemptReview(user.userId, attemptId);
+  }
+
+  @Get('attempts/:attemptId/comparison')
+  @UseGuards(JwtAuthGuard)
+  getAttemptComparison(
+    @CurrentUser() user: { userId: string },
+    @Param('attemptId') attemptId: string,
+  ) {
+    return this.leaderboardService.getSubjectComparison(user.userId, attemptId);
+  }
 }
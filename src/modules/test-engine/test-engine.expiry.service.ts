@@ -0,0 +1,50 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { TestEngineService } from './test-engine.service';
+
+@Injectable()
+export class TestEngineExpiryService {
+  private readonly logger = new Logger(TestEngineExpiryService.name);
+  private lastRunAt = 0;
+
+  constructor(
+    private readonly testEngineService: TestEngineService,
+    private readonly siteSettings: SiteSettingsService,
+  ) {}
+
+  @Interval(30000)
+  async expiryTick() {
+    const intervalSeconds = this.siteSettings.getNumber(
+      'TEST_ATTEMPT_SWEEP_INTERVAL_SECONDS',
+      60,
+      {
+        integer: true,
+        min: 10,
+      },
+    );
+    if (intervalSeconds <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    if (now - this.lastRunAt < intervalSeconds * 1000 - 500) {
+      return;
+    }
+    this.lastRunAt = now;
+
+    try {
+      const result = await this.testEngineService.expireOverdueAttempts();
+
+      if (result.submitted) {
+        this.logger.log(
+          `Attempt expiry tick: submitted=${result.submitted}/${result.scanned}`,
+        );
+      }
+    } catch (err) {
+      this.logger.warn(
+        `Attempt expiry tick failed: ${(err as Error)?.message ?? String(err)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,514 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { AttemptStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { LeaderboardQueryDto } from './dto';
+
+type StandingScoreJson = {
+  totalScore?: number;
+  perSubject?: Record<
+    string,
+    { correct?: number; total?: number; netScore?: number }
+  >;
+} | null;
+
+type LeaderboardTest = {
+  id: string;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  resultsFrozenAt: Date | null;
+  resultsPublishedAt: Date | null;
+  resultsReleaseAt: Date | null;
+};
+
+export type TestStanding = {
+  attemptId: string;
+  userId: string;
+  rank: number;
+  percentile: number;
+  score: number;
+  timeTakenSeconds: number;
+  scoreJson: Prisma.JsonValue | null;
+};
+
+const LEADERBOARD_TEST_SELECT = {
+  id: true,
+  title: true,
+  isPublished: true,
+  startsAt: true,
+  endsAt: true,
+  resultsFrozenAt: true,
+  resultsPublishedAt: true,
+  resultsReleaseAt: true,
+} as const;
+
+@Injectable()
+export class TestLeaderboardService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getLeaderboard(
+    userId: string,
+    testId: string,
+    query: LeaderboardQueryDto,
+  ) {
+    const test = await this.prisma.test.findUnique({
+      where: { id: testId },
+      select: LEADERBOARD_TEST_SELECT,
+    });
+    if (!test || !test.isPublished) {
+      throw new NotFoundException({
+        code: 'TEST_NOT_FOUND',
+        message: 'Test not found.',
+      });
+    }
+    this.assertResultsVisible(test);
+
+    const page = Number(query.page ?? 1);
+    const pageSize = Number(query.pageSize ?? 20);
+    const standings = await this.getStandings(test);
+    const pageItems = standings.slice((page - 1) * pageSize, page * pageSize);
+    const me = standings.find((item) => item.userId === userId) ?? null;
+
+    const userIds = Array.from(
+      new Set([
+        ...pageItems.map((item) => item.userId),
+        ...(me ? [me.userId] : []),
+      ]),
+    );
+    const users = userIds.length
+      ? await this.prisma.user.findMany({
+          where: { id: { in: userIds } },
+          select: { id: true, fullName: true },
+        })
+      : [];
+    const nameMap = new Map(
+      users.map((user) => [user.id, user.fullName] as const),
+    );
+
+    const toEntry = (item: TestStanding) => ({
+      rank: item.rank,
+      percentile: item.percentile,
+      score: item.score,
+      timeTakenSeconds: item.timeTakenSeconds,
+      userId: item.userId,
+      fullName: nameMap.get(item.userId) ?? null,
+      isMe: item.userId === userId,
+    });
+
+    return {
+      testId: test.id,
+      testTitle: test.title,
+      frozen: Boolean(test.resultsFrozenAt),
+      resultsPublishedAt: test.resultsPublishedAt,
+      totalCandidates: standings.length,
+      data: pageItems.map(toEntry),
+      page,
+      pageSize,
+      me: me ? toEntry(me) : null,
+    };
+  }
+
+  async getAttemptStanding(attempt: { id: string; testId: string }) {
+    const test = await this.prisma.test.findUnique({
+      where: { id: attempt.testId },
+      select: LEADERBOARD_TEST_SELECT,
+    });
+    if (!test || !this.areResultsVisible(test)) {
+      return null;
+    }
+
+    const standings = await this.getStandings(test);
+    const standing = standings.find((item) => item.attemptId === attempt.id);
+    if (!standing) {
+      return null;
+    }
+
+    return {
+      rank: standing.rank,
+      percentile: standing.percentile,
+      totalCandidates: standings.length,
+      score: standing.score,
+      timeTakenSeconds: standing.timeTakenSeconds,
+    };
+  }
+
+  async getSubjectComparison(userId: string, attemptId: string) {
+    const attempt = await this.prisma.attempt.findUnique({
+      where: { id: attemptId },
+      select: {
+        id: true,
+        userId: true,
+        testId: true,
+        status: true,
+        totalScore: true,
+        scoreJson: true,
+      },
+    });
+    if (!attempt || attempt.userId !== userId) {
+      throw new NotFoundException({
+        code: 'ATTEMPT_NOT_FOUND',
+        message: 'Attempt not found.',
+      });
+    }
+    if (
+      attempt.status !== AttemptStatus.SUBMITTED &&
+      attempt.status !== AttemptStatus.EVALUATED
+    ) {
+      throw new BadRequestException({
+        code: 'ATTEMPT_NOT_SUBMITTED',
+        message: 'Comparison is available after the attempt is submitted.',
+      });
+    }
+
+    const test = await this.prisma.test.findUnique({
+      where: { id: attempt.testId },
+      select: LEADERBOARD_TEST_SELECT,
+    });
+    if (!test) {
+      throw new NotFoundException({
+        code: 'TEST_NOT_FOUND',
+        message: 'Test not found.',
+      });
+    }
+    this.assertResultsVisible(test);
+
+    const standings = await this.getStandings(test);
+    const ownScore = attempt.scoreJson as StandingScoreJson;
+
+    const subjectTotals = new Map<
+      string,
+      { top: number; sum: number; count: number }
+    >();
+    for (const standing of standings) {
+      const perSubject =
+        (standing.scoreJson as StandingScoreJson)?.perSubject ?? {};
+      Object.entries(perSubject).forEach(([subjectId, totals]) => {
+        const value = this.getSubjectScore(totals);
+        const current = subjectTotals.get(subjectId) ?? {
+          top: Number.NEGATIVE_INFINITY,
+          sum: 0,
+          count: 0,
+        };
+        current.top = Math.max(current.top, value);
+        current.sum += value;
+        current.count += 1;
+        subjectTotals.set(subjectId, current);
+      });
+    }
+
+    const subjectIds = Object.keys(ownScore?.perSubject ?? {});
+    const subjects = subjectIds.length
+      ? await this.prisma.subject.findMany({
+          where: { id: { in: subjectIds } },
+          select: { id: true, name: true },
+        })
+      : [];
+    const subjectMap = new Map(
+      subjects.map((subject) => [subject.id, subject.name] as const),
+    );
+
+    const scores = standings.map((item) => item.score);
+    const topper = standings[0] ?? null;
+
+    return {
+      attemptId: attempt.id,
+      testId: attempt.testId,
+      standing: await this.getAttemptStanding(attempt),
+      overall: {
+        yourScore: this.getAttemptScore(attempt.scoreJson, attempt.totalScore),
+        topperScore: topper?.score ?? null,
+        averageScore: scores.length
+          ? this.round(this.sum(scores) / scores.length)
+          : null,
+      },
+      subjects: subjectIds.map((subjectId) => {
+        const own = ownScore?.perSubject?.[subjectId] ?? {};
+        const totals = subjectTotals.get(subjectId);
+        return {
+          subjectId,
+          subjectName: subjectMap.get(subjectId) ?? null,
+          yourScore: this.getSubjectScore(own),
+          correct: own.correct ?? 0,
+          total: own.total ?? 0,
+          topperScore: totals ? totals.top : null,
+          averageScore: totals?.count
+            ? this.round(totals.sum / totals.count)
+            : null,
+        };
+      }),
+    };
+  }
+
+  async freezeResults(testId: string) {
+    const test = await this.prisma.test.findUnique({
+      where: { id: testId },
+      select: LEADERBOARD_TEST_SELECT,
+    });
+    if (!test) {
+      throw new NotFoundException({
+        code: 'TEST_NOT_FOUND',
+        message: 'Test not found.',
+      });
+    }
+    if (!this.isScheduled(test)) {
+      throw new BadRequestException({
+        code: 'TEST_NOT_SCHEDULED',
+        message: 'Only scheduled tests with a start or end time can be frozen.',
+      });
+    }
+    if (test.resultsPublishedAt) {
+      throw new BadRequestException({
+        code: 'TEST_RESULTS_ALREADY_PUBLISHED',
+        message: 'Results are already published.',
+      });
+    }
+
+    const now = new Date();
+    if (!test.endsAt || test.endsAt > now) {
+      throw new BadRequestException({
+        code: 'TEST_NOT_ENDED',
+        message: 'Results can be frozen only after the test window ends.',
+        details: { endsAt: test.endsAt },
+      });
+    }
+
+    const pending = await this.prisma.attempt.count({
+      where: {
+        testId,
+        status: { in: [AttemptStatus.STARTED, AttemptStatus.IN_PROGRESS] },
+      },
+    });
+    if (pending > 0) {
+      throw new BadRequestException({
+        code: 'TEST_ATTEMPTS_PENDING',
+        message: 'Some attempts are still being submitted. Try again shortly.',
+        details: { pending },
+      });
+    }
+
+    const standings = await this.computeStandings(testId);
+    await this.prisma.$transaction([
+      this.prisma.testResult.deleteMany({ where: { testId } }),
+      this.prisma.testResult.createMany({
+        data: this.toResultRows(testId, standings),
+      }),
+      this.prisma.test.update({
+        where: { id: testId },
+        data: { resultsFrozenAt: now },
+      }),
+    ]);
+
+    return {
+      testId,
+      resultsFrozenAt: now,
+      totalCandidates: standings.length,
+    };
+  }
+
+  async publishResults(testId: string) {
+    const test = await this.prisma.test.findUnique({
+      where: { id: testId },
+      select: LEADERBOARD_TEST_SELECT,
+    });
+    if (!test) {
+      throw new NotFoundException({
+        code: 'TEST_NOT_FOUND',
+        message: 'Test not found.',
+      });
+    }
+    if (test.resultsPublishedAt) {
+      throw new BadRequestException({
+        code: 'TEST_RESULTS_ALREADY_PUBLISHED',
+        message: 'Results are already published.',
+      });
+    }
+
+    if (!test.resultsFrozenAt) {
+      await this.freezeResults(testId);
+    }
+
+    return this.prisma.test.update({
+      where: { id: testId },
+      data: { resultsPublishedAt: new Date() },
+      select: LEADERBOARD_TEST_SELECT,
+    });
+  }
+
+  /**
+   * Rewrites the frozen snapshot after attempts were re-graded. Published
+   * results are refreshed too: a corrected answer key should reach the ranks
+   * students already see.
+   */
+  async refreshFrozenResults(testId: string) {
+    const test = await this.prisma.test.findUnique({
+      where: { id: testId },
+      select: { resultsFrozenAt: true },
+    });
+    if (!test?.resultsFrozenAt) {
+      return false;
+    }
+
+    const standings = await this.computeStandings(testId);
+    await this.prisma.$transaction([
+      this.prisma.testResult.deleteMany({ where: { testId } }),
+      this.prisma.testResult.createMany({
+        data: this.toResultRows(testId, standings),
+      }),
+    ]);
+    return true;
+  }
+
+  private toResultRows(testId: string, standings: TestStanding[]) {
+    return standings.map((item) => ({
+      testId,
+      attemptId: item.attemptId,
+      userId: item.userId,
+      rank: item.rank,
+      percentile: item.percentile,
+      score: item.score,
+      timeTakenSeconds: item.timeTakenSeconds,
+      scoreJson:
+        item.scoreJson === null
+          ? Prisma.DbNull
+          : (item.scoreJson as Prisma.InputJsonValue),
+    }));
+  }
+
+  private async getStandings(test: LeaderboardTest): Promise<TestStanding[]> {
+    if (!test.resultsFrozenAt) {
+      return this.computeStandings(test.id);
+    }
+
+    const results = await this.prisma.testResult.findMany({
+      where: { testId: test.id },
+      orderBy: [{ rank: 'asc' }, { timeTakenSeconds: 'asc' }],
+    });
+    return results.map((item) => ({
+      attemptId: item.attemptId,
+      userId: item.userId,
+      rank: item.rank,
+      percentile: item.percentile,
+      score: item.score,
+      timeTakenSeconds: item.timeTakenSeconds,
+      scoreJson: item.scoreJson,
+    }));
+  }
+
+  private async computeStandings(testId: string): Promise<TestStanding[]> {
+    const attempts = await this.prisma.attempt.findMany({
+      where: { testId },
+      orderBy: [{ startedAt: 'asc' }, { id: 'asc' }],
+      select: {
+        id: true,
+        userId: true,
+        status: true,
+        startedAt: true,
+        submittedAt: true,
+        totalScore: true,
+        scoreJson: true,
+      },
+    });
+
+    // Only a user's first attempt counts; re-attempts are practice and never
+    // displace it, even when the first one is still in progress.
+    const firstAttempts = new Map<string, (typeof attempts)[number]>();
+    for (const attempt of attempts) {
+      if (!firstAttempts.has(attempt.userId)) {
+        firstAttempts.set(attempt.userId, attempt);
+      }
+    }
+
+    const ranked = Array.from(firstAttempts.values())
+      .filter(
+        (attempt) =>
+          attempt.status === AttemptStatus.SUBMITTED ||
+          attempt.status === AttemptStatus.EVALUATED,
+      )
+      .map((attempt) => ({
+        attemptId: attempt.id,
+        userId: attempt.userId,
+        score: this.getAttemptScore(attempt.scoreJson, attempt.totalScore),
+        timeTakenSeconds: Math.max(
+          0,
+          Math.round(
+            ((attempt.submittedAt ?? attempt.startedAt).getTime() -
+              attempt.startedAt.getTime()) /
+              1000,
+          ),
+        ),
+        scoreJson: attempt.scoreJson,
+      }))
+      .sort(
+        (a, b) => b.score - a.score || a.timeTakenSeconds - b.timeTakenSeconds,
+      );
+
+    const total = ranked.length;
+    let rank = 0;
+    return ranked.map((item, index) => {
+      const previous = ranked[index - 1];
+      if (
+        !previous ||
+        previous.score !== item.score ||
+        previous.timeTakenSeconds !== item.timeTakenSeconds
+      ) {
+        rank = index + 1;
+      }
+      return {
+        ...item,
+        rank,
+        percentile: this.round(((total - rank + 1) / total) * 100),
+      };
+    });
+  }
+
+  private assertResultsVisible(test: LeaderboardTest) {
+    if (!this.areResultsVisible(test)) {
+      throw new BadRequestException({
+        code: 'TEST_RESULTS_NOT_PUBLISHED',
+        message: 'Results for this test are not published yet.',
+        details: {
+          endsAt: test.endsAt,
+          resultsReleaseAt: test.resultsReleaseAt,
+        },
+      });
+    }
+  }
+
+  private areResultsVisible(test: LeaderboardTest) {
+    return !this.isScheduled(test) || Boolean(test.resultsPublishedAt);
+  }
+
+  private isScheduled(test: LeaderboardTest) {
+    return Boolean(test.startsAt || test.endsAt);
+  }
+
+  private getAttemptScore(
+    scoreJson: Prisma.JsonValue | null,
+    totalScore: number | null,
+  ) {
+    const score = (scoreJson as StandingScoreJson)?.totalScore;
+    if (typeof score === 'number' && Number.isFinite(score)) {
+      return score;
+    }
+    return totalScore ?? 0;
+  }
+
+  private getSubjectScore(totals: { correct?: number; netScore?: number }) {
+    // Attempts evaluated before per-subject net scores existed only carry
+    // correct counts.
+    return typeof totals.netScore === 'number'
+      ? totals.netScore
+      : (totals.correct ?? 0);
+  }
+
+  private sum(values: number[]) {
+    return values.reduce((acc, value) => acc + value, 0);
+  }
+
+  private round(value: number) {
+    return Math.round(value * 100) / 100;
+  }
+}
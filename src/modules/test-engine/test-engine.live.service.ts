@@ -0,0 +1,397 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../infra/prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { TestQueryDto, TestRegistrationQueryDto } from './dto';
+import { TestEngineService } from './test-engine.service';
+import {
+  getEntryClosesAt,
+  getRegistrationClosesAt,
+} from './utils/live-test.util';
+
+const LIVE_TEST_SELECT = {
+  id: true,
+  subjectId: true,
+  title: true,
+  description: true,
+  type: true,
+  isPublished: true,
+  startsAt: true,
+  endsAt: true,
+  isLive: true,
+  registrationClosesAt: true,
+  lateEntryMinutes: true,
+  resultsReleaseAt: true,
+  resultsPublishedAt: true,
+} satisfies Prisma.TestSelect;
+
+type LiveTest = Prisma.TestGetPayload<{ select: typeof LIVE_TEST_SELECT }>;
+
+const DEFAULT_REMINDER_OFFSETS = ['1440', '60', '10'];
+const REMINDER_BATCH = 200;
+const RELEASE_BATCH = 10;
+const RELEASE_RETRY_MAX_MS = 60 * 60 * 1000;
+
+/**
+ * Live tests: registration, reminders before the window opens and the
+ * scheduled release of embargoed results.
+ */
+@Injectable()
+export class TestLiveService {
+  private readonly logger = new Logger(TestLiveService.name);
+  private running = false;
+  // Tests whose release failed, skipped until their retry time.
+  private readonly releaseRetries = new Map<
+    string,
+    { failures: number; retryAt: Date }
+  >();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly siteSettings: SiteSettingsService,
+    private readonly notificationsService: NotificationsService,
+    private readonly testEngineService: TestEngineService,
+  ) {}
+
+  /** Live tests that have not ended, soonest first. */
+  async listLiveTests(query: TestQueryDto) {
+    const page = Math.max(Number(query.page ?? 1), 1);
+    const pageSize = Math.min(Math.max(Number(query.pageSize ?? 20), 1), 100);
+    const where: Prisma.TestWhereInput = {
+      isLive: true,
+      isPublished: true,
+      endsAt: { gte: new Date() },
+      subjectId: query.subjectId ?? undefined,
+    };
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.test.count({ where }),
+      this.prisma.test.findMany({
+        where,
+        orderBy: [{ startsAt: 'asc' }, { id: 'asc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        select: {
+          ...LIVE_TEST_SELECT,
+          _count: { select: { registrations: true } },
+        },
+      }),
+    ]);
+
+    return {
+      data: data.map(({ _count, ...test }) => ({
+        ...this.withSchedule(test),
+        registrations: _count.registrations,
+      })),
+      total,
+      page,
+      pageSize,
+    };
+  }
+
+  async register(userId: string, testId: string) {
+    const test = await this.getLiveTest(testId);
+    const closesAt = getRegistrationClosesAt(test);
+    if (closesAt && closesAt < new Date()) {
+      throw new BadRequestException({
+        code: 'TEST_REGISTRATION_CLOSED',
+        message: 'Registration for this test has closed.',
+        details: { registrationClosesAt: closesAt },
+      });
+    }
+
+    const registration = await this.prisma.testRegistration.upsert({
+      where: { testId_userId: { testId, userId } },
+      update: {},
+      create: { testId, userId },
+    });
+    return { ...registration, test: this.withSchedule(test) };
+  }
+
+  /** Registrations can be withdrawn until the window opens. */
+  async cancelRegistration(userId: string, testId: string) {
+    const test = await this.getLiveTest(testId);
+    if (test.startsAt && test.startsAt <= new Date()) {
+      throw new BadRequestException({
+        code: 'TEST_REGISTRATION_LOCKED',
+        message: 'Registration cannot be cancelled after the test starts.',
+      });
+    }
+
+    const { count } = await this.prisma.testRegistration.deleteMany({
+      where: { testId, userId },
+    });
+    if (!count) {
+      throw new NotFoundException({
+        code: 'TEST_REGISTRATION_NOT_FOUND',
+        message: 'You are not registered for this test.',
+      });
+    }
+    return { success: true };
+  }
+
+  async getRegistration(userId: string, testId: string) {
+    const test = await this.getLiveTest(testId);
+    const [registration, attempt] = await Promise.all([
+      this.prisma.testRegistration.findUnique({
+        where: { testId_userId: { testId, userId } },
+      }),
+      this.prisma.attempt.findFirst({
+        where: { testId, userId },
+        select: { id: true, status: true },
+      }),
+    ]);
+
+    return {
+      test: this.withSchedule(test),
+      registered: Boolean(registration),
+      registeredAt: registration?.registeredAt ?? null,
+      attempt,
+    };
+  }
+
+  async listMyRegistrations(userId: string, query: TestRegistrationQueryDto) {
+    const page = Math.max(Number(query.page ?? 1), 1);
+    const pageSize = Math.min(Math.max(Number(query.pageSize ?? 20), 1), 100);
+    const scope = query.scope ?? 'UPCOMING';
+    const now = new Date();
+    const where: Prisma.TestRegistrationWhereInput = {
+      userId,
+      test:
+        scope === 'UPCOMING'
+          ? { endsAt: { gte: now } }
+          : scope === 'PAST'
+            ? { endsAt: { lt: now } }
+            : undefined,
+    };
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.testRegistration.count({ where }),
+      this.prisma.testRegistration.findMany({
+        where,
+        orderBy: [
+          { test: { startsAt: scope === 'UPCOMING' ? 'asc' : 'desc' } },
+          { id: 'asc' },
+        ],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: { test: { select: LIVE_TEST_SELECT } },
+      }),
+    ]);
+
+    return {
+      data: data.map((registration) => ({
+        ...registration,
+        test: this.withSchedule(registration.test),
+      })),
+      total,
+      page,
+      pageSize,
+    };
+  }
+
+  async listRegistrations(testId: string, query: TestRegistrationQueryDto) {
+    const page = Math.max(Number(query.page ?? 1), 1);
+    const pageSize = Math.min(Math.max(Number(query.pageSize ?? 20), 1), 100);
+    const test = await this.prisma.test.findUnique({
+      where: { id: testId },
+      select: { id: true },
+    });
+    if (!test) {
+      throw new NotFoundException({
+        code: 'TEST_NOT_FOUND',
+        message: 'Test not found.',
+      });
+    }
+
+    const where = { testId };
+    const [total, data, attempted] = await this.prisma.$transaction([
+      this.prisma.testRegistration.count({ where }),
+      this.prisma.testRegistration.findMany({
+        where,
+        orderBy: [{ registeredAt: 'asc' }, { id: 'asc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          user: { select: { id: true, fullName: true, email: true } },
+        },
+      }),
+      this.prisma.attempt.count({ where }),
+    ]);
+
+    return { data, total, attempted, page, pageSize };
+  }
+
+  @Interval(60000)
+  async liveTick() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const reminded = await this.sendDueReminders(new Date());
+      const released = await this.releaseDueResults(new Date());
+      if (reminded || released) {
+        this.logger.log(
+          `Live test tick: reminders=${reminded} released=${released}`,
+        );
+      }
+    } catch (err) {
+      this.logger.warn(
+        `Live test tick failed: ${(err as Error)?.message ?? String(err)}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Each registration gets at most one reminder per configured offset. A
+   * student who registers late, or a tick that runs late, skips straight to
+   * the nearest offset that is due instead of sending the missed ones.
+   */
+  private async sendDueReminders(now: Date) {
+    const offsets = this.getReminderOffsets();
+    if (!offsets.length) {
+      return 0;
+    }
+
+    const tests = await this.prisma.test.findMany({
+      where: {
+        isLive: true,
+        isPublished: true,
+        startsAt: {
+          gt: now,
+          lte: new Date(now.getTime() + offsets[0] * 60 * 1000),
+        },
+      },
+      select: LIVE_TEST_SELECT,
+    });
+
+    let sent = 0;
+    for (const test of tests) {
+      const startsAt = test.startsAt as Date;
+      const minutesBefore = (startsAt.getTime() - now.getTime()) / 60000;
+      const offset = Math.min(
+        ...offsets.filter((value) => value >= minutesBefore),
+      );
+      const registrations = await this.prisma.testRegistration.findMany({
+        where: {
+          testId: test.id,
+          OR: [
+            { lastReminderOffset: null },
+            { lastReminderOffset: { gt: offset } },
+          ],
+        },
+        take: REMINDER_BATCH,
+        select: { id: true, userId: true },
+      });
+
+      for (const registration of registrations) {
+        // Claimed first so overlapping ticks cannot send the same reminder.
+        const claimed = await this.prisma.testRegistration.updateMany({
+          where: {
+            id: registration.id,
+            OR: [
+              { lastReminderOffset: null },
+              { lastReminderOffset: { gt: offset } },
+            ],
+          },
+          data: { lastReminderOffset: offset, lastRemindedAt: now },
+        });
+        if (!claimed.count) {
+          continue;
+        }
+        this.notificationsService
+          .sendTestReminderEmail({
+            userId: registration.userId,
+            testTitle: test.title,
+            startsAt,
+            entryClosesAt: getEntryClosesAt(test) ?? startsAt,
+            minutesBefore: Math.round(minutesBefore),
+          })
+          .catch(() => undefined);
+        sent += 1;
+      }
+    }
+    return sent;
+  }
+
+  // Publishing fails while attempts are still being submitted; those tests
+  // back off (one tick, doubling up to an hour) so the batch moves on.
+  private async releaseDueResults(now: Date) {
+    const waiting = Array.from(this.releaseRetries)
+      .filter(([, retry]) => retry.retryAt > now)
+      .map(([testId]) => testId);
+    const due = await this.prisma.test.findMany({
+      where: {
+        resultsReleaseAt: { lte: now },
+        resultsPublishedAt: null,
+        id: waiting.length ? { notIn: waiting } : undefined,
+      },
+      orderBy: { resultsReleaseAt: 'asc' },
+      take: RELEASE_BATCH,
+      select: { id: true },
+    });
+
+    let released = 0;
+    for (const test of due) {
+      try {
+        await this.testEngineService.publishTestResults(test.id);
+        this.releaseRetries.delete(test.id);
+        released += 1;
+      } catch (err) {
+        const failures = (this.releaseRetries.get(test.id)?.failures ?? 0) + 1;
+        const delayMs = Math.min(
+          60000 * 2 ** (failures - 1),
+          RELEASE_RETRY_MAX_MS,
+        );
+        this.releaseRetries.set(test.id, {
+          failures,
+          retryAt: new Date(now.getTime() + delayMs),
+        });
+        this.logger.warn(
+          `Result release for test ${test.id} failed (attempt ${failures}): ${(err as Error)?.message ?? String(err)}`,
+        );
+      }
+    }
+    return released;
+  }
+
+  private getReminderOffsets() {
+    const offsets = this.siteSettings
+      .getCsv('TEST_REMINDER_OFFSETS_MINUTES', DEFAULT_REMINDER_OFFSETS)
+      .map((value) => Number(value))
+      .filter((value) => Number.isInteger(value) && value > 0);
+    return Array.from(new Set(offsets)).sort((a, b) => b - a);
+  }
+
+  private async getLiveTest(testId: string) {
+    const test = await this.prisma.test.findUnique({
+      where: { id: testId },
+      select: LIVE_TEST_SELECT,
+    });
+    if (!test || !test.isPublished || !test.isLive) {
+      throw new NotFoundException({
+        code: 'TEST_NOT_FOUND',
+        message: 'Test not found.',
+      });
+    }
+    return test;
+  }
+
+  private withSchedule(test: LiveTest) {
+    return {
+      ...test,
+      registrationClosesAt: getRegistrationClosesAt(test),
+      entryClosesAt: getEntryClosesAt(test),
+    };
+  }
+}
@@ -2,13 +2,29 @@ import { Module } from '@nestjs/common';
 import { PrismaModule } from '../../infra/prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
 import { AuthorizationModule } from '../authorization/authorization.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PracticeModule } from '../practice/practice.module';
 import { TestEngineController } from './test-engine.controller';
 import { TestEngineService } from './test-engine.service';
+import { TestEngineExpiryService } from './test-engine.expiry.service';
+import { TestLeaderboardService } from './test-engine.leaderboard.service';
+import { TestLiveService } from './test-engine.live.service';
 import { AdminTestsController } from './admin-tests.controller';
 
 @Module({
-  imports: [PrismaModule, AuthModule, AuthorizationModule],
+  imports: [
+    PrismaModule,
+    AuthModule,
+    AuthorizationModule,
+    NotificationsModule,
+    PracticeModule,
+  ],
   controllers: [TestEngineController, AdminTestsController],
-  providers: [TestEngineService],
+  providers: [
+    TestEngineService,
+    TestEngineExpiryService,
+    TestLeaderboardService,
+    TestLiveService,
+  ],
 })
 export class TestEngineModule {}
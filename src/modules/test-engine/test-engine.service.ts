@@ -9,11 +9,28 @@ import {
   CmsConfigStatus,
   Prisma,
   QuestionDifficulty,
+  QuestionType,
+  Test,
   TestType,
 } from '@prisma/client';
 import { PrismaService } from '../../infra/prisma/prisma.service';
+import { PracticeMistakesService } from '../practice/practice.mistakes.service';
+import { SiteSettingsService } from '../site-settings/site-settings.service';
+import { TestLeaderboardService } from './test-engine.leaderboard.service';
+import {
+  AnswerScoringOptions,
+  evaluateAnswer,
+  scoreAnswerEvaluation,
+  stableStringify,
+} from '../question-bank/utils/answer-evaluation.util';
+import { pickRevisionContent } from '../question-bank/utils/question-revision.util';
+import {
+  localizeQuestion,
+  QUESTION_LOCALES,
+} from '../question-bank/utils/question-locale.util';
 import {
   AttemptQueryDto,
+  AttemptRegradeDto,
   AttemptSaveDto,
   AttemptSubmitDto,
   TestCreateDto,
@@ -21,6 +38,19 @@ import {
   TestUpdateDto,
 } from './dto';
 import { DEFAULT_TEST_PRESETS, TestPreset } from './test-presets';
+import {
+  applyOptionOrder,
+  countOptions,
+  createAttemptSeed,
+  createOptionOrder,
+  createSeededRandom,
+  mapAnswerOptions,
+  mapAttemptAnswers,
+  OptionOrders,
+  seededShuffle,
+  toOptionOrders,
+} from './utils/attempt-shuffle.util';
+import { getEntryClosesAt, isResultEmbargoed } from './utils/live-test.util';
 
 type TestConfig = {
   presetKey?: string;
@@ -47,13 +77,62 @@ type TestConfig = {
   durationMinutes?: number;
   marksPerQuestion?: number;
   negativeMarksPerWrong?: number;
+  reviewAfterTestEnds?: boolean;
+  freeNavigation?: boolean;
+  // Per-attempt seeded shuffling; questions only move within their section.
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+  scoring?: AnswerScoringOptions;
 };
 
-type AttemptQuestionReviewStatus = 'CORRECT' | 'WRONG' | 'SKIPPED';
+type SectionRule = {
+  sectionKey: string;
+  sectionTitle?: string;
+  marksPerQuestion?: number;
+  negativeMarksPerWrong?: number;
+};
+
+type SectionPlanItem = {
+  index: number;
+  sectionKey: string;
+  title: string;
+  durationMinutes: number;
+  startOrder: number;
+  endOrder: number;
+};
+
+type SectionWindow = SectionPlanItem & {
+  status: 'LOCKED' | 'ACTIVE' | 'CLOSED';
+  startedAt: Date | null;
+  endsAt: Date | null;
+  closedAt: Date | null;
+};
+
+type SectionTimeline = {
+  windows: SectionWindow[];
+  current: SectionWindow | null;
+};
+
+type AttemptForEvaluation = Prisma.AttemptGetPayload<{
+  include: {
+    test: true;
+    questions: { include: { question: true; revision: true } };
+  };
+}>;
+
+type AttemptQuestionForEvaluation = AttemptForEvaluation['questions'][number];
+
+const CHOICE_TYPES: QuestionType[] = [
+  QuestionType.SINGLE_CHOICE,
+  QuestionType.MULTI_CHOICE,
+];
+
+type AttemptQuestionReviewStatus = 'CORRECT' | 'PARTIAL' | 'WRONG' | 'SKIPPED';
 
 type AttemptQuestionReview = {
   questionId: string;
   orderIndex: number;
+  sectionKey: string;
   answerJson: Prisma.JsonValue | null;
   correctAnswerJson: Prisma.JsonValue | null;
   isCorrect: boolean | null;
@@ -65,7 +144,12 @@ type AttemptQuestionReview = {
 
 @Injectable()
 export class TestEngineService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly siteSettings: SiteSettingsService,
+    private readonly leaderboardService: TestLeaderboardService,
+    private readonly mistakesService: PracticeMistakesService,
+  ) {}
 
   async listTestPresets() {
     const configuredPresets = await this.getConfiguredPresets();
@@ -81,6 +165,7 @@ export class TestEngineService {
     }
 
     const config = await this.normalizeTestConfig(dto.configJson as TestConfig);
+    this.assertLiveSchedule(dto);
 
     return this.prisma.$transaction(async (tx) => {
       const test = await tx.test.create({
@@ -95,6 +180,14 @@ export class TestEngineService {
           startsAt: dto.startsAt ? new Date(dto.startsAt) : undefined,
           endsAt: dto.endsAt ? new Date(dto.endsAt) : undefined,
           publishedAt: dto.isPublished ? new Date() : undefined,
+          isLive: dto.isLive ?? false,
+          registrationClosesAt: dto.registrationClosesAt
+            ? new Date(dto.registrationClosesAt)
+            : undefined,
+          lateEntryMinutes: dto.lateEntryMinutes,
+          resultsReleaseAt: dto.resultsReleaseAt
+            ? new Date(dto.resultsReleaseAt)
+            : undefined,
         },
       });
 
@@ -119,6 +212,7 @@ export class TestEngineService {
     const config = dto.configJson
       ? await this.normalizeTestConfig(dto.configJson as TestConfig)
       : (test.configJson as TestConfig);
+    this.assertLiveSchedule(dto, test);
 
     return this.prisma.$transaction(async (tx) => {
       const updated = await tx.test.update({
@@ -135,6 +229,14 @@ export class TestEngineService {
           startsAt: dto.startsAt ? new Date(dto.startsAt) : undefined,
           endsAt: dto.endsAt ? new Date(dto.endsAt) : undefined,
           publishedAt: dto.isPublished ? new Date() : undefined,
+          isLive: dto.isLive ?? undefined,
+          registrationClosesAt: dto.registrationClosesAt
+            ? new Date(dto.registrationClosesAt)
+            : undefined,
+          lateEntryMinutes: dto.lateEntryMinutes ?? undefined,
+          resultsReleaseAt: dto.resultsReleaseAt
+            ? new Date(dto.resultsReleaseAt)
+            : undefined,
         },
       });
 
@@ -263,11 +365,41 @@ export class TestEngineService {
     return test;
   }
 
-  async startAttempt(userId: string, testId: string) {
+  async getTestDetail(testId: string, lang?: string) {
+    const test = await this.getTestPublic(testId);
+    const items = await this.prisma.testQuestion.findMany({
+      where: { testId },
+      select: { question: { select: { contentLocales: true } } },
+    });
+    // Languages every fixed question can be served in; empty for tests that
+    // draw questions at start time.
+    const contentLocales = items.length
+      ? QUESTION_LOCALES.filter((locale) =>
+          items.every((item) => item.question.contentLocales.includes(locale)),
+        )
+      : [];
+
+    return {
+      ...test,
+      contentLocales,
+      lang:
+        lang && contentLocales.some((locale) => locale === lang) ? lang : null,
+    };
+  }
+
+  async startAttempt(userId: string, testId: string, lang?: string) {
     const test = await this.getTestPublic(testId);
+    if (test.isLive) {
+      await this.assertLiveEntry(userId, test, new Date());
+    }
     const config = test.configJson as TestConfig;
 
-    const selections = await this.selectQuestions(test, config);
+    const shuffleSeed = createAttemptSeed();
+    const random = createSeededRandom(shuffleSeed);
+    let selections = await this.selectQuestions(test, config, random);
+    if (config.shuffleQuestions) {
+      selections = this.shuffleWithinSections(selections, config, random);
+    }
     const questionIds = selections.map((item) => item.questionId);
 
     const questions = await this.prisma.question.findMany({
@@ -284,18 +416,61 @@ export class TestEngineService {
         hasMedia: true,
       },
     });
+    const latestRevisions = await this.prisma.questionRevision.findMany({
+      where: { questionId: { in: questionIds } },
+      orderBy: [{ questionId: 'asc' }, { version: 'desc' }],
+      distinct: ['questionId'],
+      select: { id: true, questionId: true },
+    });
+    const revisionIds = new Map(
+      latestRevisions.map((revision) => [revision.questionId, revision.id]),
+    );
+    const optionOrders: OptionOrders = new Map();
+    if (config.shuffleOptions) {
+      questions
+        .filter((question) => CHOICE_TYPES.includes(question.type))
+        .forEach((question) => {
+          const order = createOptionOrder(
+            shuffleSeed,
+            question.id,
+            countOptions(question.optionsJson),
+          );
+          if (order.length) {
+            optionOrders.set(question.id, order);
+          }
+        });
+    }
+
+    const startedAt = new Date();
+    const expiresAt = this.computeAttemptExpiresAt(startedAt, config, test.endsAt);
+    const sectionPlan = this.getSectionPlan(config);
+    const sectionTimeline = sectionPlan
+      ? this.resolveSectionTimeline(startedAt, sectionPlan, new Map(), startedAt)
+      : null;
 
     const questionMap = new Map(questions.map((q) => [q.id, q]));
     const orderedQuestions = selections
+      .filter((item, index) =>
+        sectionTimeline?.current
+          ? this.isOrderInSection(item.orderIndex ?? index, sectionTimeline.current)
+          : true,
+      )
       .map((item) => questionMap.get(item.questionId))
       .filter((item): item is (typeof questions)[number] => Boolean(item));
 
     return this.prisma.$transaction(async (tx) => {
+      if (test.isLive) {
+        await this.assertFirstLiveAttempt(tx, userId, test.id);
+      }
       const attempt = await tx.attempt.create({
         data: {
           testId: test.id,
           userId,
           status: AttemptStatus.STARTED,
+          startedAt,
+          expiresAt,
+          locale: lang ?? null,
+          shuffleSeed,
         },
       });
 
@@ -304,6 +479,8 @@ export class TestEngineService {
           attemptId: attempt.id,
           questionId: item.questionId,
           orderIndex: item.orderIndex ?? index,
+          revisionId: revisionIds.get(item.questionId) ?? null,
+          optionOrder: optionOrders.get(item.questionId) ?? [],
         })),
       });
 
@@ -314,16 +491,42 @@ export class TestEngineService {
         },
       });
 
+      if (sectionTimeline?.current) {
+        await tx.attemptEventLog.create({
+          data: {
+            attemptId: attempt.id,
+            eventType: AttemptEventType.SECTION_START,
+            metaJson: this.buildSectionEventMeta(sectionTimeline.current),
+            createdAt: startedAt,
+          },
+        });
+      }
+
       return {
         attemptId: attempt.id,
         testId: test.id,
-        questions: orderedQuestions,
+        startedAt,
+        expiresAt,
+        durationMinutes: this.resolveDurationMinutes(config),
+        remainingSeconds: this.getRemainingSeconds(expiresAt, startedAt),
+        sectionState: sectionTimeline
+          ? this.toSectionStatePayload(sectionTimeline, startedAt)
+          : null,
+        questions: orderedQuestions.map((question) =>
+          localizeQuestion(
+            this.withOptionOrder(question, optionOrders.get(question.id)),
+            lang,
+          ),
+        ),
       };
     });
   }
 
   async saveAttempt(userId: string, attemptId: string, dto: AttemptSaveDto) {
-    const attempt = await this.prisma.attempt.findUnique({ where: { id: attemptId } });
+    const attempt = await this.prisma.attempt.findUnique({
+      where: { id: attemptId },
+      include: { test: { select: { configJson: true } } },
+    });
     if (!attempt || attempt.userId !== userId) {
       throw new NotFoundException({
         code: 'ATTEMPT_NOT_FOUND',
@@ -338,154 +541,1235 @@ export class TestEngineService {
       });
     }
 
-    const answersJson = dto.answersJson ?? (attempt.answersJson as Prisma.JsonValue | null);
+    const now = new Date();
+    const sectionPlan = this.getSectionPlan(
+      (attempt.test?.configJson as TestConfig) ?? {},
+    );
+    const sectionTimeline = sectionPlan
+      ? await this.getSectionTimeline(attempt, sectionPlan, now)
+      : null;
 
-    await this.prisma.$transaction([
-      this.prisma.attempt.update({
-        where: { id: attemptId },
+    if (
+      this.isAttemptOverdue(attempt.expiresAt, now) ||
+      (sectionTimeline && !sectionTimeline.current)
+    ) {
+      await this.autoSubmitAttempt(attemptId, now);
+      throw new BadRequestException({
+        code: 'ATTEMPT_TIME_EXPIRED',
+        message: 'Time is up. The attempt has been submitted automatically.',
+      });
+    }
+
+    const incoming = dto.answersJson
+      ? await this.toCanonicalAnswers(attemptId, dto.answersJson)
+      : undefined;
+
+    let answersJson: unknown = incoming ?? attempt.answersJson;
+
+    if (sectionTimeline?.current && incoming) {
+      const attemptQuestions = await this.prisma.attemptQuestion.findMany({
+        where: { attemptId },
+        select: { questionId: true, orderIndex: true },
+      });
+      const blockedQuestionIds = this.findClosedSectionChanges(
+        attemptQuestions,
+        sectionTimeline.current,
+        incoming,
+        attempt.answersJson,
+      );
+      if (blockedQuestionIds.length) {
+        throw new BadRequestException({
+          code: 'ATTEMPT_SECTION_CLOSED',
+          message: 'Answers can only be changed for the current section.',
+          details: { questionIds: blockedQuestionIds },
+        });
+      }
+      // Clients may only send the open section; closed sections keep their
+      // saved answers.
+      answersJson = this.mergeSectionAnswers(
+        attemptQuestions,
+        sectionTimeline.current,
+        incoming,
+        attempt.answersJson,
+      );
+    }
+
+    // Guard on status so a save racing a submit or the expiry sweeper cannot
+    // reopen an attempt that has already been finalized.
+    await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.attempt.updateMany({
+        where: {
+          id: attemptId,
+          status: { in: [AttemptStatus.STARTED, AttemptStatus.IN_PROGRESS] },
+        },
         data: {
           answersJson: answersJson as Prisma.InputJsonValue | undefined,
           status: AttemptStatus.IN_PROGRESS,
         },
-      }),
-      this.prisma.attemptEventLog.create({
+      });
+      if (updated.count === 0) {
+        throw new BadRequestException({
+          code: 'ATTEMPT_LOCKED',
+          message: 'Attempt already submitted.',
+        });
+      }
+      await tx.attemptEventLog.create({
         data: {
           attemptId,
           eventType: AttemptEventType.SAVE,
         },
+      });
+    });
+
+    return {
+      success: true,
+      expiresAt: attempt.expiresAt,
+      remainingSeconds: this.getRemainingSeconds(attempt.expiresAt, now),
+      sectionState: sectionTimeline
+        ? this.toSectionStatePayload(sectionTimeline, now)
+        : null,
+    };
+  }
+
+  async submitAttempt(userId: string, attemptId: string, dto: AttemptSubmitDto) {
+    const attempt = await this.loadAttemptForEvaluation(attemptId);
+
+    if (!attempt || attempt.userId !== userId) {
+      throw new NotFoundException({
+        code: 'ATTEMPT_NOT_FOUND',
+        message: 'Attempt not found.',
+      });
+    }
+
+    if (attempt.status === AttemptStatus.SUBMITTED || attempt.status === AttemptStatus.EVALUATED) {
+      throw new BadRequestException({
+        code: 'ATTEMPT_LOCKED',
+        message: 'Attempt already submitted.',
+      });
+    }
+
+    // Answers sent after the deadline (plus grace) are ignored; the last
+    // saved snapshot is graded instead.
+    const now = new Date();
+    const isLate = this.isAttemptOverdue(attempt.expiresAt, now);
+    const optionOrders = toOptionOrders(attempt.questions);
+    const incoming = dto.answersJson
+      ? mapAttemptAnswers(dto.answersJson, optionOrders, 'toCanonical')
+      : undefined;
+    let answersJson = isLate
+      ? attempt.answersJson
+      : ((incoming as Prisma.JsonValue | undefined) ?? attempt.answersJson);
+
+    // With sectional timing, only the open section accepts answers at submit;
+    // closed sections keep their last saved values.
+    const sectionPlan = this.getSectionPlan(
+      (attempt.test?.configJson as TestConfig) ?? {},
+    );
+    if (sectionPlan && !isLate && incoming) {
+      const sectionTimeline = await this.getSectionTimeline(attempt, sectionPlan, now);
+      answersJson = this.mergeSectionAnswers(
+        attempt.questions,
+        sectionTimeline.current,
+        incoming,
+        attempt.answersJson,
+      ) as Prisma.JsonValue;
+    }
+
+    const result = await this.finalizeAttempt(attempt, answersJson, {
+      submittedAt: isLate ? (attempt.expiresAt ?? now) : now,
+      autoSubmitted: false,
+      reason: isLate ? 'LATE_SUBMISSION' : undefined,
+    });
+    if (!result) {
+      throw new BadRequestException({
+        code: 'ATTEMPT_LOCKED',
+        message: 'Attempt already submitted.',
+      });
+    }
+
+    if (isResultEmbargoed(attempt.test)) {
+      return {
+        totalScore: null,
+        scoreJson: null,
+        questionResults: [],
+        resultsReleaseAt: attempt.test.resultsReleaseAt,
+        lateSubmission: isLate,
+      };
+    }
+
+    return {
+      ...result,
+      questionResults: this.toShownResults(
+        result.questionResults,
+        optionOrders,
+      ),
+      lateSubmission: isLate,
+    };
+  }
+
+  async advanceSection(userId: string, attemptId: string) {
+    const attempt = await this.prisma.attempt.findUnique({
+      where: { id: attemptId },
+      include: { test: { select: { configJson: true, endsAt: true } } },
+    });
+    if (!attempt || attempt.userId !== userId) {
+      throw new NotFoundException({
+        code: 'ATTEMPT_NOT_FOUND',
+        message: 'Attempt not found.',
+      });
+    }
+
+    if (attempt.status === AttemptStatus.SUBMITTED || attempt.status === AttemptStatus.EVALUATED) {
+      throw new BadRequestException({
+        code: 'ATTEMPT_LOCKED',
+        message: 'Attempt already submitted.',
+      });
+    }
+
+    const sectionPlan = this.getSectionPlan(
+      (attempt.test?.configJson as TestConfig) ?? {},
+    );
+    if (!sectionPlan) {
+      throw new BadRequestException({
+        code: 'ATTEMPT_SECTIONS_DISABLED',
+        message: 'This test does not use sectional timing.',
+      });
+    }
+
+    const now = new Date();
+    const timeline = await this.getSectionTimeline(attempt, sectionPlan, now);
+    if (this.isAttemptOverdue(attempt.expiresAt, now) || !timeline.current) {
+      await this.autoSubmitAttempt(attemptId, now);
+      throw new BadRequestException({
+        code: 'ATTEMPT_TIME_EXPIRED',
+        message: 'Time is up. The attempt has been submitted automatically.',
+      });
+    }
+
+    const current = timeline.current;
+    const next = sectionPlan[current.index + 1];
+    if (!next) {
+      throw new BadRequestException({
+        code: 'ATTEMPT_SECTION_LAST',
+        message: 'This is the last section. Submit the attempt to finish.',
+      });
+    }
+
+    const remainingMinutes = sectionPlan
+      .slice(next.index)
+      .reduce((sum, section) => sum + section.durationMinutes, 0);
+    const projectedEnd = new Date(now.getTime() + remainingMinutes * 60 * 1000);
+    const expiresAt =
+      attempt.test?.endsAt && attempt.test.endsAt < projectedEnd
+        ? attempt.test.endsAt
+        : projectedEnd;
+
+    // The status guard locks the attempt row first, so the sweeper cannot be
+    // undone and a second advance sees the section this one closed.
+    await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.attempt.updateMany({
+        where: {
+          id: attemptId,
+          status: { in: [AttemptStatus.STARTED, AttemptStatus.IN_PROGRESS] },
+        },
+        data: { expiresAt, status: AttemptStatus.IN_PROGRESS },
+      });
+      if (updated.count === 0) {
+        throw new BadRequestException({
+          code: 'ATTEMPT_LOCKED',
+          message: 'Attempt already submitted.',
+        });
+      }
+      const closed = await tx.attemptEventLog.count({
+        where: {
+          attemptId,
+          eventType: AttemptEventType.SECTION_END,
+          metaJson: { path: ['sectionIndex'], equals: current.index },
+        },
+      });
+      if (closed) {
+        throw new BadRequestException({
+          code: 'ATTEMPT_SECTION_CLOSED',
+          message: 'This section has already ended.',
+        });
+      }
+      await tx.attemptEventLog.createMany({
+        data: [
+          {
+            attemptId,
+            eventType: AttemptEventType.SECTION_END,
+            metaJson: {
+              ...this.buildSectionEventMeta(current),
+              reason: 'SUBMITTED',
+            },
+            createdAt: now,
+          },
+          {
+            attemptId,
+            eventType: AttemptEventType.SECTION_START,
+            metaJson: this.buildSectionEventMeta({
+              ...next,
+              endsAt: new Date(
+                now.getTime() + next.durationMinutes * 60 * 1000,
+              ),
+            }),
+            createdAt: now,
+          },
+        ],
+      });
+    });
+
+    const nextTimeline = await this.getSectionTimeline(attempt, sectionPlan, now);
+    const questions = nextTimeline.current
+      ? await this.prisma.attemptQuestion.findMany({
+          where: {
+            attemptId,
+            orderIndex: {
+              gte: nextTimeline.current.startOrder,
+              lt: nextTimeline.current.endOrder,
+            },
+          },
+          orderBy: { orderIndex: 'asc' },
+          select: {
+            optionOrder: true,
+            question: {
+              select: {
+                id: true,
+                subjectId: true,
+                topicId: true,
+                type: true,
+                difficulty: true,
+                statementJson: true,
+                optionsJson: true,
+                explanationJson: true,
+                hasMedia: true,
+              },
+            },
+            revision: {
+              select: {
+                type: true,
+                difficulty: true,
+                statementJson: true,
+                optionsJson: true,
+                explanationJson: true,
+              },
+            },
+          },
+        })
+      : [];
+
+    return {
+      attemptId,
+      expiresAt,
+      remainingSeconds: this.getRemainingSeconds(expiresAt, now),
+      sectionState: this.toSectionStatePayload(nextTimeline, now),
+      questions: questions.map((item) =>
+        localizeQuestion(
+          this.withOptionOrder(
+            { ...item.question, ...(item.revision ?? {}) },
+            item.optionOrder,
+          ),
+          attempt.locale,
+        ),
+      ),
+    };
+  }
+
+  async expireOverdueAttempts(limit = 50) {
+    const cutoff = new Date(Date.now() - this.getGraceSeconds() * 1000);
+    const overdue = await this.prisma.attempt.findMany({
+      where: {
+        status: { in: [AttemptStatus.STARTED, AttemptStatus.IN_PROGRESS] },
+        expiresAt: { lte: cutoff },
+      },
+      orderBy: { expiresAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    });
+
+    let submitted = 0;
+    for (const item of overdue) {
+      const attempt = await this.loadAttemptForEvaluation(item.id);
+      if (!attempt) {
+        continue;
+      }
+      const result = await this.finalizeAttempt(attempt, attempt.answersJson, {
+        submittedAt: attempt.expiresAt ?? new Date(),
+        autoSubmitted: true,
+        reason: 'TIME_EXPIRED',
+      });
+      if (result) {
+        submitted += 1;
+      }
+    }
+
+    return { scanned: overdue.length, submitted };
+  }
+
+  async listAttempts(userId: string, query: AttemptQueryDto) {
+    const page = Number(query.page ?? 1);
+    const pageSize = Number(query.pageSize ?? 20);
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.attempt.count({ where: { userId } }),
+      this.prisma.attempt.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: { test: true },
       }),
     ]);
 
-    return { success: true };
+    return {
+      data: data.map((attempt) =>
+        isResultEmbargoed(attempt.test)
+          ? { ...attempt, totalScore: null, scoreJson: null }
+          : attempt,
+      ),
+      total,
+      page,
+      pageSize,
+    };
+  }
+
+  async getAttempt(userId: string, attemptId: string) {
+    let attempt = await this.loadAttemptForEvaluation(attemptId);
+
+    if (!attempt || attempt.userId !== userId) {
+      throw new NotFoundException({
+        code: 'ATTEMPT_NOT_FOUND',
+        message: 'Attempt not found.',
+      });
+    }
+
+    const now = new Date();
+    if (
+      (attempt.status === AttemptStatus.STARTED ||
+        attempt.status === AttemptStatus.IN_PROGRESS) &&
+      this.isAttemptOverdue(attempt.expiresAt, now)
+    ) {
+      await this.finalizeAttempt(attempt, attempt.answersJson, {
+        submittedAt: attempt.expiresAt ?? now,
+        autoSubmitted: true,
+        reason: 'TIME_EXPIRED',
+      });
+      attempt = (await this.loadAttemptForEvaluation(attemptId)) ?? attempt;
+    }
+
+    const orderedAttemptQuestions = [...attempt.questions].sort(
+      (a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0),
+    );
+
+    const isActive =
+      attempt.status === AttemptStatus.STARTED ||
+      attempt.status === AttemptStatus.IN_PROGRESS;
+    const sectionPlan = isActive
+      ? this.getSectionPlan((attempt.test?.configJson as TestConfig) ?? {})
+      : null;
+    const sectionTimeline = sectionPlan
+      ? await this.getSectionTimeline(attempt, sectionPlan, now)
+      : null;
+    const openedUntil = sectionTimeline?.current?.endOrder;
+    const optionOrders = toOptionOrders(attempt.questions);
+
+    const questions = orderedAttemptQuestions
+      .filter((item, index) =>
+        openedUntil === undefined ? true : (item.orderIndex ?? index) < openedUntil,
+      )
+      .map((item) => {
+        const question = item.question;
+        if (!question) return null;
+        return {
+          ...localizeQuestion(
+            this.withOptionOrder(question, item.optionOrder),
+            attempt.locale,
+          ),
+          correctAnswerJson: undefined,
+        };
+      })
+      .filter(Boolean);
+
+    let questionResults: AttemptQuestionReview[] | undefined;
+    const embargoed = isResultEmbargoed(attempt.test);
+
+    if (attempt.status === AttemptStatus.EVALUATED && !embargoed) {
+      questionResults = this.toShownResults(
+        (await this.evaluateStoredAttempt(attempt, orderedAttemptQuestions))
+          .questionResults,
+        optionOrders,
+      );
+    }
+
+    return {
+      ...attempt,
+      shuffleSeed: undefined,
+      answersJson: mapAttemptAnswers(
+        attempt.answersJson,
+        optionOrders,
+        'toShown',
+      ),
+      totalScore: embargoed ? null : attempt.totalScore,
+      scoreJson: embargoed ? null : attempt.scoreJson,
+      remainingSeconds: isActive
+        ? this.getRemainingSeconds(attempt.expiresAt, now)
+        : null,
+      sectionState: sectionTimeline
+        ? this.toSectionStatePayload(sectionTimeline, now)
+        : null,
+      standing: isActive
+        ? null
+        : await this.leaderboardService.getAttemptStanding(attempt),
+      questions,
+      questionResults,
+    };
+  }
+
+  async getAttemptReview(userId: string, attemptId: string) {
+    const attempt = await this.loadAttemptForEvaluation(attemptId);
+
+    if (!attempt || attempt.userId !== userId) {
+      throw new NotFoundException({
+        code: 'ATTEMPT_NOT_FOUND',
+        message: 'Attempt not found.',
+      });
+    }
+
+    if (
+      attempt.status !== AttemptStatus.SUBMITTED &&
+      attempt.status !== AttemptStatus.EVALUATED
+    ) {
+      throw new BadRequestException({
+        code: 'ATTEMPT_REVIEW_NOT_AVAILABLE',
+        message: 'Review is available only after the attempt is submitted.',
+      });
+    }
+
+    const testConfig = (attempt.test?.configJson as TestConfig) ?? {};
+    const now = new Date();
+    if (
+      testConfig.reviewAfterTestEnds &&
+      attempt.test?.endsAt &&
+      attempt.test.endsAt > now
+    ) {
+      throw new BadRequestException({
+        code: 'ATTEMPT_REVIEW_LOCKED',
+        message: 'Review will be available after the test window ends.',
+        details: { availableAt: attempt.test.endsAt.toISOString() },
+      });
+    }
+    if (isResultEmbargoed(attempt.test)) {
+      throw new BadRequestException({
+        code: 'ATTEMPT_REVIEW_LOCKED',
+        message: 'Review will be available once results are released.',
+        details: { availableAt: attempt.test?.resultsReleaseAt?.toISOString() },
+      });
+    }
+
+    const orderedAttemptQuestions = [...attempt.questions].sort(
+      (a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0),
+    );
+    const { totalScore, scoreJson, questionResults, sectionRuleByOrder } =
+      await this.evaluateStoredAttempt(attempt, orderedAttemptQuestions);
+
+    // Reviewed in the option order the student was shown.
+    const questionMap = new Map(
+      orderedAttemptQuestions
+        .filter((item) => Boolean(item.question))
+        .map((item) => [
+          item.questionId,
+          this.withOptionOrder(item.question, item.optionOrder),
+        ]),
+    );
+
+    const sectionTitles = new Map<string, string | undefined>();
+    sectionRuleByOrder.forEach((rule) => {
+      sectionTitles.set(rule.sectionKey, rule.sectionTitle);
+    });
+
+    const sections = new Map<
+      string,
+      {
+        sectionKey: string;
+        title: string;
+        totalQuestions: number;
+        correctCount: number;
+        partialCount: number;
+        wrongCount: number;
+        skipCount: number;
+        marksAwarded: number;
+        marksDeducted: number;
+        netScore: number;
+      }
+    >();
+
+    const shownResults = this.toShownResults(
+      questionResults,
+      toOptionOrders(attempt.questions),
+    );
+    const questions = shownResults.map((result) => {
+      const pinned = questionMap.get(result.questionId);
+      const question = pinned ? localizeQuestion(pinned, attempt.locale) : null;
+      const marksAwarded = result.scoreDelta > 0 ? result.scoreDelta : 0;
+      const marksDeducted = result.scoreDelta < 0 ? -result.scoreDelta : 0;
+
+      const section = sections.get(result.sectionKey) ?? {
+        sectionKey: result.sectionKey,
+        title: sectionTitles.get(result.sectionKey) ?? result.sectionKey,
+        totalQuestions: 0,
+        correctCount: 0,
+        partialCount: 0,
+        wrongCount: 0,
+        skipCount: 0,
+        marksAwarded: 0,
+        marksDeducted: 0,
+        netScore: 0,
+      };
+      section.totalQuestions += 1;
+      if (result.status === 'CORRECT') {
+        section.correctCount += 1;
+      } else if (result.status === 'PARTIAL') {
+        section.partialCount += 1;
+      } else if (result.status === 'WRONG') {
+        section.wrongCount += 1;
+      } else {
+        section.skipCount += 1;
+      }
+      section.marksAwarded += marksAwarded;
+      section.marksDeducted += marksDeducted;
+      section.netScore += result.scoreDelta;
+      sections.set(result.sectionKey, section);
+
+      return {
+        ...result,
+        marksAwarded,
+        marksDeducted,
+        question: question
+          ? {
+              id: question.id,
+              subjectId: question.subjectId,
+              topicId: question.topicId,
+              type: question.type,
+              difficulty: question.difficulty,
+              statementJson: question.statementJson,
+              optionsJson: question.optionsJson,
+              explanationJson: question.explanationJson,
+              hasMedia: question.hasMedia,
+            }
+          : null,
+      };
+    });
+
+    return {
+      attemptId: attempt.id,
+      testId: attempt.testId,
+      testTitle: attempt.test?.title ?? null,
+      status: attempt.status,
+      startedAt: attempt.startedAt,
+      submittedAt: attempt.submittedAt,
+      totalScore: attempt.totalScore ?? totalScore,
+      scoreJson: attempt.scoreJson ?? scoreJson,
+      sections: Array.from(sections.values()),
+      questions,
+    };
+  }
+
+  /**
+   * Publishes ranks and lifts a result embargo. Mistake notebooks held back
+   * at submission are filled in the background.
+   */
+  async publishTestResults(testId: string) {
+    const test = await this.prisma.test.findUnique({
+      where: { id: testId },
+      select: { resultsReleaseAt: true, resultsPublishedAt: true },
+    });
+    const published = await this.leaderboardService.publishResults(testId);
+    if (isResultEmbargoed(test)) {
+      this.recordReleasedMistakes(testId).catch(() => undefined);
+    }
+    return published;
+  }
+
+  async regradeQuestionAttempts(dto: AttemptRegradeDto) {
+    const question = await this.prisma.question.findUnique({
+      where: { id: dto.questionId },
+      select: { id: true, version: true },
+    });
+    if (!question) {
+      throw new NotFoundException({
+        code: 'QUESTION_NOT_FOUND',
+        message: 'Question not found.',
+      });
+    }
+
+    const version = dto.version ?? question.version;
+    const revision = await this.prisma.questionRevision.findUnique({
+      where: { questionId_version: { questionId: question.id, version } },
+    });
+    if (!revision) {
+      throw new NotFoundException({
+        code: 'QUESTION_REVISION_NOT_FOUND',
+        message: 'Question revision not found.',
+        details: { version },
+      });
+    }
+
+    const affected = await this.prisma.attemptQuestion.findMany({
+      where: {
+        questionId: question.id,
+        OR: [{ revisionId: null }, { revisionId: { not: revision.id } }],
+        attempt: {
+          testId: dto.testId ?? undefined,
+          status: { in: [AttemptStatus.SUBMITTED, AttemptStatus.EVALUATED] },
+        },
+      },
+      orderBy: { attemptId: 'asc' },
+      select: { attemptId: true, revision: { select: { version: true } } },
+    });
+
+    const attempts: Array<{
+      attemptId: string;
+      testId: string;
+      fromVersion: number | null;
+      previousScore: number | null;
+      totalScore: number;
+      scoreChanged: boolean;
+    }> = [];
+    const regradedTestIds = new Set<string>();
+
+    for (const item of affected) {
+      const attempt = await this.loadAttemptForEvaluation(item.attemptId);
+      if (!attempt) {
+        continue;
+      }
+      const orderedAttemptQuestions = attempt.questions
+        .map((entry) =>
+          entry.questionId === question.id
+            ? this.withPinnedRevision({
+                ...entry,
+                revisionId: revision.id,
+                revision,
+              })
+            : entry,
+        )
+        .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0));
+      const { totalScore, scoreJson } = await this.evaluateStoredAttempt(
+        attempt,
+        orderedAttemptQuestions,
+      );
+
+      if (!dto.dryRun) {
+        const applied = await this.prisma.$transaction(async (tx) => {
+          const updated = await tx.attempt.updateMany({
+            where: {
+              id: attempt.id,
+              status: {
+                in: [AttemptStatus.SUBMITTED, AttemptStatus.EVALUATED],
+              },
+            },
+            data: { totalScore, scoreJson },
+          });
+          if (updated.count === 0) {
+            return false;
+          }
+          await tx.attemptQuestion.update({
+            where: {
+              attemptId_questionId: {
+                attemptId: attempt.id,
+                questionId: question.id,
+              },
+            },
+            data: { revisionId: revision.id },
+          });
+          await tx.attemptEventLog.create({
+            data: {
+              attemptId: attempt.id,
+              eventType: AttemptEventType.REGRADE,
+              metaJson: {
+                questionId: question.id,
+                fromVersion: item.revision?.version ?? null,
+                toVersion: revision.version,
+                previousScore: attempt.totalScore,
+                totalScore,
+              },
+            },
+          });
+          return true;
+        });
+        if (!applied) {
+          continue;
+        }
+        regradedTestIds.add(attempt.testId);
+      }
+
+      attempts.push({
+        attemptId: attempt.id,
+        testId: attempt.testId,
+        fromVersion: item.revision?.version ?? null,
+        previousScore: attempt.totalScore,
+        totalScore,
+        scoreChanged: attempt.totalScore !== totalScore,
+      });
+    }
+
+    const refreshedTestIds: string[] = [];
+    for (const testId of regradedTestIds) {
+      if (await this.leaderboardService.refreshFrozenResults(testId)) {
+        refreshedTestIds.push(testId);
+      }
+    }
+
+    return {
+      questionId: question.id,
+      version: revision.version,
+      dryRun: Boolean(dto.dryRun),
+      attemptCount: attempts.length,
+      changedCount: attempts.filter((item) => item.scoreChanged).length,
+      refreshedTestIds,
+      attempts,
+    };
+  }
+
+  private async loadAttemptForEvaluation(attemptId: string) {
+    const attempt = await this.prisma.attempt.findUnique({
+      where: { id: attemptId },
+      include: {
+        test: true,
+        questions: { include: { question: true, revision: true } },
+      },
+    });
+    if (!attempt) {
+      return null;
+    }
+    return {
+      ...attempt,
+      questions: attempt.questions.map((item) => this.withPinnedRevision(item)),
+    };
+  }
+
+  // Attempts are graded and reviewed against the revision they were served,
+  // not whatever the question says now.
+  private withPinnedRevision(
+    item: AttemptQuestionForEvaluation,
+  ): AttemptQuestionForEvaluation {
+    if (!item.revision) {
+      return item;
+    }
+    return {
+      ...item,
+      question: { ...item.question, ...pickRevisionContent(item.revision) },
+    };
+  }
+
+  private async autoSubmitAttempt(attemptId: string, now: Date) {
+    const attempt = await this.loadAttemptForEvaluation(attemptId);
+    if (!attempt) {
+      return null;
+    }
+    return this.finalizeAttempt(attempt, attempt.answersJson, {
+      submittedAt:
+        attempt.expiresAt && attempt.expiresAt < now ? attempt.expiresAt : now,
+      autoSubmitted: true,
+      reason: 'TIME_EXPIRED',
+    });
+  }
+
+  private getSectionPlan(config: TestConfig): SectionPlanItem[] | null {
+    if (config?.freeNavigation) {
+      return null;
+    }
+    if (!Array.isArray(config?.sections) || config.sections.length === 0) {
+      return null;
+    }
+
+    const plan: SectionPlanItem[] = [];
+    let cursor = 0;
+    for (let index = 0; index < config.sections.length; index += 1) {
+      const section = config.sections[index];
+      if (typeof section.durationMinutes !== 'number' || section.durationMinutes <= 0) {
+        return null;
+      }
+
+      const countFromIds = Array.isArray(section.questionIds)
+        ? section.questionIds.length
+        : 0;
+      const count = Number(section.count ?? countFromIds);
+      if (!Number.isFinite(count) || count <= 0) {
+        continue;
+      }
+
+      plan.push({
+        index: plan.length,
+        sectionKey: section.key || section.title || `section_${index + 1}`,
+        title: section.title || section.key || `Section ${index + 1}`,
+        durationMinutes: section.durationMinutes,
+        startOrder: cursor,
+        endOrder: cursor + count,
+      });
+      cursor += count;
+    }
+
+    return plan.length ? plan : null;
+  }
+
+  private resolveSectionTimeline(
+    startedAt: Date,
+    plan: SectionPlanItem[],
+    manualCloses: Map<number, Date>,
+    now: Date,
+  ): SectionTimeline {
+    const windows: SectionWindow[] = [];
+    let current: SectionWindow | null = null;
+    let cursor = startedAt;
+
+    for (const section of plan) {
+      if (current) {
+        windows.push({
+          ...section,
+          status: 'LOCKED',
+          startedAt: null,
+          endsAt: null,
+          closedAt: null,
+        });
+        continue;
+      }
+
+      const endsAt = new Date(cursor.getTime() + section.durationMinutes * 60 * 1000);
+      const manualClose = manualCloses.get(section.index);
+      const effectiveEnd = manualClose && manualClose < endsAt ? manualClose : endsAt;
+
+      if (now >= effectiveEnd) {
+        windows.push({
+          ...section,
+          status: 'CLOSED',
+          startedAt: cursor,
+          endsAt,
+          closedAt: effectiveEnd,
+        });
+        cursor = effectiveEnd;
+        continue;
+      }
+
+      current = {
+        ...section,
+        status: 'ACTIVE',
+        startedAt: cursor,
+        endsAt,
+        closedAt: null,
+      };
+      windows.push(current);
+    }
+
+    return { windows, current };
+  }
+
+  private async getSectionTimeline(
+    attempt: { id: string; startedAt: Date },
+    plan: SectionPlanItem[],
+    now: Date,
+  ) {
+    const events = await this.prisma.attemptEventLog.findMany({
+      where: {
+        attemptId: attempt.id,
+        eventType: {
+          in: [AttemptEventType.SECTION_START, AttemptEventType.SECTION_END],
+        },
+      },
+      select: { eventType: true, metaJson: true, createdAt: true },
+    });
+
+    const started = new Set<number>();
+    const ended = new Set<number>();
+    const manualCloses = new Map<number, Date>();
+    for (const event of events) {
+      const meta = (event.metaJson ?? {}) as { sectionIndex?: number; reason?: string };
+      if (typeof meta.sectionIndex !== 'number') {
+        continue;
+      }
+      if (event.eventType === AttemptEventType.SECTION_START) {
+        started.add(meta.sectionIndex);
+        continue;
+      }
+      ended.add(meta.sectionIndex);
+      if (meta.reason === 'SUBMITTED') {
+        manualCloses.set(meta.sectionIndex, event.createdAt);
+      }
+    }
+
+    const timeline = this.resolveSectionTimeline(
+      attempt.startedAt,
+      plan,
+      manualCloses,
+      now,
+    );
+
+    // Sections that opened or timed out since the last request are written to
+    // the event log lazily so the log always reflects each section window.
+    const missing: Prisma.AttemptEventLogCreateManyInput[] = [];
+    for (const window of timeline.windows) {
+      if (window.startedAt && !started.has(window.index)) {
+        missing.push({
+          attemptId: attempt.id,
+          eventType: AttemptEventType.SECTION_START,
+          metaJson: this.buildSectionEventMeta(window),
+          createdAt: window.startedAt,
+        });
+      }
+      if (window.closedAt && !ended.has(window.index)) {
+        missing.push({
+          attemptId: attempt.id,
+          eventType: AttemptEventType.SECTION_END,
+          metaJson: { ...this.buildSectionEventMeta(window), reason: 'TIME_UP' },
+          createdAt: window.closedAt,
+        });
+      }
+    }
+    if (missing.length) {
+      await this.prisma.attemptEventLog.createMany({ data: missing });
+    }
+
+    return timeline;
   }
 
-  async submitAttempt(userId: string, attemptId: string, dto: AttemptSubmitDto) {
-    const attempt = await this.prisma.attempt.findUnique({
-      where: { id: attemptId },
-      include: {
-        test: true,
-        questions: { include: { question: true } },
-      },
-    });
+  private buildSectionEventMeta(section: {
+    index: number;
+    sectionKey: string;
+    endsAt?: Date | null;
+  }) {
+    return {
+      sectionIndex: section.index,
+      sectionKey: section.sectionKey,
+      endsAt: section.endsAt ? section.endsAt.toISOString() : null,
+    };
+  }
 
-    if (!attempt || attempt.userId !== userId) {
-      throw new NotFoundException({
-        code: 'ATTEMPT_NOT_FOUND',
-        message: 'Attempt not found.',
-      });
-    }
+  private toSectionStatePayload(timeline: SectionTimeline, now: Date) {
+    return {
+      currentSectionIndex: timeline.current?.index ?? null,
+      currentSectionKey: timeline.current?.sectionKey ?? null,
+      currentSectionEndsAt: timeline.current?.endsAt ?? null,
+      currentSectionRemainingSeconds: timeline.current
+        ? this.getRemainingSeconds(timeline.current.endsAt, now)
+        : null,
+      sections: timeline.windows.map((window) => ({
+        index: window.index,
+        sectionKey: window.sectionKey,
+        title: window.title,
+        durationMinutes: window.durationMinutes,
+        questionCount: window.endOrder - window.startOrder,
+        status: window.status,
+        startedAt: window.startedAt,
+        endsAt: window.endsAt,
+        closedAt: window.closedAt,
+      })),
+    };
+  }
 
-    if (attempt.status === AttemptStatus.SUBMITTED || attempt.status === AttemptStatus.EVALUATED) {
-      throw new BadRequestException({
-        code: 'ATTEMPT_LOCKED',
-        message: 'Attempt already submitted.',
-      });
-    }
+  private isOrderInSection(orderIndex: number, section: SectionPlanItem) {
+    return orderIndex >= section.startOrder && orderIndex < section.endOrder;
+  }
+
+  private findClosedSectionChanges(
+    attemptQuestions: Array<{ questionId: string; orderIndex: number | null }>,
+    current: SectionPlanItem,
+    incoming: unknown,
+    stored: unknown,
+  ) {
+    const incomingMap = this.normalizeAnswers(incoming);
+    const storedMap = this.normalizeAnswers(stored);
+
+    return attemptQuestions
+      .filter((item, index) => !this.isOrderInSection(item.orderIndex ?? index, current))
+      .map((item) => item.questionId)
+      .filter(
+        (questionId) =>
+          incomingMap.has(questionId) &&
+          !this.isEqual(incomingMap.get(questionId), storedMap.get(questionId)),
+      );
+  }
 
-    const answersMap = this.normalizeAnswers(dto.answersJson ?? (attempt.answersJson as Prisma.JsonValue | null));
+  private mergeSectionAnswers(
+    attemptQuestions: Array<{ questionId: string; orderIndex: number | null }>,
+    current: SectionPlanItem | null,
+    incoming: unknown,
+    stored: unknown,
+  ) {
+    const incomingMap = this.normalizeAnswers(incoming);
+    const storedMap = this.normalizeAnswers(stored);
+    const merged: Record<string, unknown> = {};
+
+    attemptQuestions.forEach((item, index) => {
+      const isOpen = current
+        ? this.isOrderInSection(item.orderIndex ?? index, current)
+        : false;
+      const value =
+        isOpen && incomingMap.has(item.questionId)
+          ? incomingMap.get(item.questionId)
+          : storedMap.get(item.questionId);
+      if (value !== undefined) {
+        merged[item.questionId] = value;
+      }
+    });
 
-    const testConfig = (attempt.test?.configJson as TestConfig) ?? {};
-    const marksMap = await this.getMarksMap(attempt.testId);
-    const sectionRuleByOrder = this.buildSectionRuleByOrder(testConfig);
+    return merged;
+  }
 
+  private async finalizeAttempt(
+    attempt: AttemptForEvaluation,
+    answersJson: Prisma.JsonValue | null,
+    options: { submittedAt: Date; autoSubmitted: boolean; reason?: string },
+  ) {
     const orderedAttemptQuestions = [...attempt.questions].sort(
       (a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0),
     );
 
-    const { totalScore, scoreJson, questionResults } = this.evaluateAttemptQuestions({
-      orderedAttemptQuestions,
-      answersMap,
-      marksMap,
-      testConfig,
-      sectionRuleByOrder,
-    });
-
-    await this.prisma.$transaction([
-      this.prisma.attempt.update({
-        where: { id: attemptId },
+    const { totalScore, scoreJson, questionResults } =
+      await this.evaluateStoredAttempt(
+        { ...attempt, answersJson },
+        orderedAttemptQuestions,
+      );
+
+    // Guard on status so a manual submit and the expiry sweeper cannot both
+    // finalize the same attempt.
+    const finalized = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.attempt.updateMany({
+        where: {
+          id: attempt.id,
+          status: { in: [AttemptStatus.STARTED, AttemptStatus.IN_PROGRESS] },
+        },
         data: {
           status: AttemptStatus.EVALUATED,
-          submittedAt: new Date(),
-          answersJson: (dto.answersJson ?? attempt.answersJson) as Prisma.InputJsonValue | undefined,
+          submittedAt: options.submittedAt,
+          answersJson:
+            answersJson === null
+              ? undefined
+              : (answersJson as Prisma.InputJsonValue),
           scoreJson: scoreJson as Prisma.InputJsonValue,
           totalScore,
         },
-      }),
-      this.prisma.attemptEventLog.create({
+      });
+      if (updated.count === 0) {
+        return false;
+      }
+
+      await tx.attemptEventLog.create({
         data: {
-          attemptId,
+          attemptId: attempt.id,
           eventType: AttemptEventType.SUBMIT,
+          metaJson:
+            options.autoSubmitted || options.reason
+              ? {
+                  autoSubmitted: options.autoSubmitted,
+                  reason: options.reason ?? null,
+                }
+              : undefined,
         },
-      }),
-    ]);
+      });
+      return true;
+    });
+
+    if (!finalized) {
+      return null;
+    }
+
+    // The mistake notebook is best effort; it must not fail a submission.
+    // Under a result embargo it would give answers away, so it is filled
+    // when results are published instead.
+    if (!isResultEmbargoed(attempt.test)) {
+      this.mistakesService
+        .recordAttemptResults(attempt.userId, attempt.id, questionResults)
+        .catch(() => undefined);
+    }
 
     return { totalScore, scoreJson, questionResults };
   }
 
-  async listAttempts(userId: string, query: AttemptQueryDto) {
-    const page = Number(query.page ?? 1);
-    const pageSize = Number(query.pageSize ?? 20);
+  private resolveDurationMinutes(config: TestConfig) {
+    if (typeof config?.durationMinutes === 'number' && config.durationMinutes > 0) {
+      return config.durationMinutes;
+    }
 
-    const [total, data] = await this.prisma.$transaction([
-      this.prisma.attempt.count({ where: { userId } }),
-      this.prisma.attempt.findMany({
-        where: { userId },
-        orderBy: { createdAt: 'desc' },
-        skip: (page - 1) * pageSize,
-        take: pageSize,
-        include: { test: true },
-      }),
-    ]);
+    if (!Array.isArray(config?.sections) || config.sections.length === 0) {
+      return null;
+    }
 
-    return { data, total, page, pageSize };
+    let total = 0;
+    for (const section of config.sections) {
+      if (typeof section.durationMinutes !== 'number' || section.durationMinutes <= 0) {
+        return null;
+      }
+      total += section.durationMinutes;
+    }
+    return total;
   }
 
-  async getAttempt(userId: string, attemptId: string) {
-    const attempt = await this.prisma.attempt.findUnique({
-      where: { id: attemptId },
-      include: {
-        test: true,
-        questions: { include: { question: true } },
-      },
-    });
+  private computeAttemptExpiresAt(
+    startedAt: Date,
+    config: TestConfig,
+    testEndsAt: Date | null,
+  ) {
+    const durationMinutes = this.resolveDurationMinutes(config);
+    const byDuration = durationMinutes
+      ? new Date(startedAt.getTime() + durationMinutes * 60 * 1000)
+      : null;
 
-    if (!attempt || attempt.userId !== userId) {
-      throw new NotFoundException({
-        code: 'ATTEMPT_NOT_FOUND',
-        message: 'Attempt not found.',
-      });
+    if (testEndsAt && (!byDuration || testEndsAt < byDuration)) {
+      return testEndsAt;
     }
+    return byDuration;
+  }
 
-    const orderedAttemptQuestions = [...attempt.questions].sort(
-      (a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0),
-    );
-
-    const questions = orderedAttemptQuestions.map((item) => {
-      const question = item.question;
-      if (!question) return null;
-      return {
-        ...question,
-        correctAnswerJson: undefined,
-      };
-    }).filter(Boolean);
+  private getGraceSeconds() {
+    return this.siteSettings.getNumber('TEST_ATTEMPT_GRACE_SECONDS', 30, {
+      integer: true,
+      min: 0,
+    });
+  }
 
-    let questionResults: AttemptQuestionReview[] | undefined;
+  private isAttemptOverdue(expiresAt: Date | null, now: Date) {
+    if (!expiresAt) {
+      return false;
+    }
+    return now.getTime() > expiresAt.getTime() + this.getGraceSeconds() * 1000;
+  }
 
-    if (attempt.status === AttemptStatus.EVALUATED) {
-      const answersMap = this.normalizeAnswers(attempt.answersJson as Prisma.JsonValue | null);
-      const testConfig = (attempt.test?.configJson as TestConfig) ?? {};
-      const marksMap = await this.getMarksMap(attempt.testId);
-      const sectionRuleByOrder = this.buildSectionRuleByOrder(testConfig);
-      questionResults = this.evaluateAttemptQuestions({
-        orderedAttemptQuestions,
-        answersMap,
-        marksMap,
-        testConfig,
-        sectionRuleByOrder,
-      }).questionResults;
+  private getRemainingSeconds(expiresAt: Date | null, now = new Date()) {
+    if (!expiresAt) {
+      return null;
     }
+    return Math.max(0, Math.ceil((expiresAt.getTime() - now.getTime()) / 1000));
+  }
+
+  private async evaluateStoredAttempt(
+    attempt: {
+      testId: string;
+      answersJson: Prisma.JsonValue | null;
+      test: { configJson: Prisma.JsonValue } | null;
+    },
+    orderedAttemptQuestions: Array<{
+      orderIndex: number | null;
+      question: {
+        id: string;
+        subjectId: string;
+        topicId: string | null;
+        type: QuestionType;
+        correctAnswerJson: Prisma.JsonValue | null;
+      } | null;
+    }>,
+  ) {
+    const answersMap = this.normalizeAnswers(attempt.answersJson);
+    const testConfig = (attempt.test?.configJson as TestConfig) ?? {};
+    const marksMap = await this.getMarksMap(attempt.testId);
+    const sectionRuleByOrder = this.buildSectionRuleByOrder(testConfig);
+    const evaluation = this.evaluateAttemptQuestions({
+      orderedAttemptQuestions,
+      answersMap,
+      marksMap,
+      testConfig,
+      sectionRuleByOrder,
+    });
 
-    return { ...attempt, questions, questionResults };
+    return { ...evaluation, sectionRuleByOrder };
   }
 
   private async syncTestQuestions(
@@ -564,7 +1848,11 @@ export class TestEngineService {
     return [];
   }
 
-  private async selectQuestions(test: { id: string; subjectId: string | null }, config: TestConfig) {
+  private async selectQuestions(
+    test: { id: string; subjectId: string | null },
+    config: TestConfig,
+    random: () => number,
+  ) {
     const fixedItems = await this.prisma.testQuestion.findMany({
       where: { testId: test.id },
       orderBy: { orderIndex: 'asc' },
@@ -578,7 +1866,7 @@ export class TestEngineService {
     }
 
     if (Array.isArray(config.sections) && config.sections.length > 0) {
-      return this.selectSectionQuestions(test, config);
+      return this.selectSectionQuestions(test, config, random);
     }
 
     const mixer = config.mixer;
@@ -608,8 +1896,7 @@ export class TestEngineService {
       });
     }
 
-    const shuffled = [...pool].sort(() => Math.random() - 0.5);
-    const selected = shuffled.slice(0, mixer.count);
+    const selected = seededShuffle(pool, random).slice(0, mixer.count);
 
     return selected.map((item, index) => ({
       questionId: item.id,
@@ -620,6 +1907,7 @@ export class TestEngineService {
   private async selectSectionQuestions(
     test: { id: string; subjectId: string | null },
     config: TestConfig,
+    random: () => number,
   ) {
     if (!Array.isArray(config.sections) || config.sections.length === 0) {
       return [];
@@ -685,7 +1973,7 @@ export class TestEngineService {
         });
       }
 
-      const picked = this.shuffle(pool).slice(0, count);
+      const picked = seededShuffle(pool, random).slice(0, count);
       for (const question of picked) {
         selectedIds.add(question.id);
         selected.push({ questionId: question.id, orderIndex });
@@ -717,43 +2005,66 @@ export class TestEngineService {
         id: string;
         subjectId: string;
         topicId: string | null;
+        type: QuestionType;
         correctAnswerJson: Prisma.JsonValue | null;
       } | null;
     }>;
     answersMap: Map<string, unknown>;
     marksMap: Map<string, number>;
     testConfig: TestConfig;
-    sectionRuleByOrder: Map<
-      number,
-      {
-        sectionKey: string;
-        marksPerQuestion?: number;
-        negativeMarksPerWrong?: number;
-      }
-    >;
+    sectionRuleByOrder: Map<number, SectionRule>;
   }) {
     const defaultMark = this.getDefaultMark(params.testConfig);
     const defaultNegativeMark = this.getDefaultNegativeMark(params.testConfig);
+    const scoringOptions = params.testConfig?.scoring ?? {};
 
     let totalScore = 0;
     let correctCount = 0;
+    let partialCount = 0;
     let wrongCount = 0;
     let skipCount = 0;
 
-    const perTopic: Record<
-      string,
-      { correct: number; wrong: number; skipped: number; total: number }
-    > = {};
-    const perSubject: Record<
-      string,
-      { correct: number; wrong: number; skipped: number; total: number }
-    > = {};
-    const perSection: Record<
-      string,
-      { correct: number; wrong: number; skipped: number; total: number; netScore: number }
-    > = {};
+    type BreakdownCounts = {
+      correct: number;
+      partial: number;
+      wrong: number;
+      skipped: number;
+      total: number;
+      netScore: number;
+    };
+    const perTopic: Record<string, BreakdownCounts> = {};
+    const perSubject: Record<string, BreakdownCounts> = {};
+    const perSection: Record<string, BreakdownCounts> = {};
     const questionResults: AttemptQuestionReview[] = [];
 
+    const tally = (
+      bucket: Record<string, BreakdownCounts>,
+      key: string,
+      status: AttemptQuestionReviewStatus,
+      scoreDelta: number,
+    ) => {
+      const counts = bucket[key] ?? {
+        correct: 0,
+        partial: 0,
+        wrong: 0,
+        skipped: 0,
+        total: 0,
+        netScore: 0,
+      };
+      counts.total += 1;
+      if (status === 'CORRECT') {
+        counts.correct += 1;
+      } else if (status === 'PARTIAL') {
+        counts.partial += 1;
+      } else if (status === 'WRONG') {
+        counts.wrong += 1;
+      } else {
+        counts.skipped += 1;
+      }
+      counts.netScore += scoreDelta;
+      bucket[key] = counts;
+    };
+
     for (let index = 0; index < params.orderedAttemptQuestions.length; index += 1) {
       const attemptQuestion = params.orderedAttemptQuestions[index];
       const question = attemptQuestion.question;
@@ -762,81 +2073,48 @@ export class TestEngineService {
       }
 
       const answer = params.answersMap.get(question.id);
-      const hasAnswer = this.hasMeaningfulAnswer(answer);
-      const isCorrect = hasAnswer ? this.isEqual(answer, question.correctAnswerJson) : null;
+      const evaluation = evaluateAnswer({
+        questionId: question.id,
+        type: question.type,
+        answer,
+        correctAnswer: question.correctAnswerJson,
+        options: scoringOptions,
+      });
+      const status: AttemptQuestionReviewStatus = evaluation.status;
+      const hasAnswer = status !== 'SKIPPED';
+      const isCorrect = hasAnswer ? status === 'CORRECT' : null;
 
       const sectionRule = params.sectionRuleByOrder.get(attemptQuestion.orderIndex ?? index);
       const mark =
         params.marksMap.get(question.id) ?? sectionRule?.marksPerQuestion ?? defaultMark;
       const negativeMark = sectionRule?.negativeMarksPerWrong ?? defaultNegativeMark;
-      const scoreDelta =
-        isCorrect === true ? mark : isCorrect === false ? -negativeMark : 0;
-      const status: AttemptQuestionReviewStatus =
-        isCorrect === true ? 'CORRECT' : isCorrect === false ? 'WRONG' : 'SKIPPED';
+      const scoreDelta = scoreAnswerEvaluation(evaluation, {
+        mark,
+        negativeMark,
+        correctAnswer: question.correctAnswerJson,
+        options: scoringOptions,
+      });
 
       totalScore += scoreDelta;
-      if (isCorrect === true) {
+      if (status === 'CORRECT') {
         correctCount += 1;
-      } else if (isCorrect === false) {
+      } else if (status === 'PARTIAL') {
+        partialCount += 1;
+      } else if (status === 'WRONG') {
         wrongCount += 1;
       } else {
         skipCount += 1;
       }
 
-      const topicKey = question.topicId ?? 'unknown';
-      const subjectKey = question.subjectId;
-
-      perTopic[topicKey] = perTopic[topicKey] ?? {
-        correct: 0,
-        wrong: 0,
-        skipped: 0,
-        total: 0,
-      };
-      perTopic[topicKey].total += 1;
-      if (isCorrect === true) {
-        perTopic[topicKey].correct += 1;
-      } else if (isCorrect === false) {
-        perTopic[topicKey].wrong += 1;
-      } else {
-        perTopic[topicKey].skipped += 1;
-      }
-
-      perSubject[subjectKey] = perSubject[subjectKey] ?? {
-        correct: 0,
-        wrong: 0,
-        skipped: 0,
-        total: 0,
-      };
-      perSubject[subjectKey].total += 1;
-      if (isCorrect === true) {
-        perSubject[subjectKey].correct += 1;
-      } else if (isCorrect === false) {
-        perSubject[subjectKey].wrong += 1;
-      } else {
-        perSubject[subjectKey].skipped += 1;
-      }
-
       const sectionKey = sectionRule?.sectionKey ?? 'default';
-      perSection[sectionKey] = perSection[sectionKey] ?? {
-        correct: 0,
-        wrong: 0,
-        skipped: 0,
-        total: 0,
-        netScore: 0,
-      };
-      perSection[sectionKey].total += 1;
-      if (isCorrect === true) {
-        perSection[sectionKey].correct += 1;
-      } else if (isCorrect === false) {
-        perSection[sectionKey].wrong += 1;
-      } else {
-        perSection[sectionKey].skipped += 1;
-      }
-      perSection[sectionKey].netScore += scoreDelta;
+      tally(perTopic, question.topicId ?? 'unknown', status, scoreDelta);
+      tally(perSubject, question.subjectId, status, scoreDelta);
+      tally(perSection, sectionKey, status, scoreDelta);
 
       questionResults.push({
         questionId: question.id,
         orderIndex: attemptQuestion.orderIndex ?? index,
+        sectionKey,
         answerJson: hasAnswer ? ((answer as Prisma.JsonValue | undefined) ?? null) : null,
         correctAnswerJson: question.correctAnswerJson ?? null,
         isCorrect,
@@ -847,8 +2125,9 @@ export class TestEngineService {
       });
     }
 
-    const attemptedCount = correctCount + wrongCount;
+    const attemptedCount = correctCount + partialCount + wrongCount;
     const accuracyPct = attemptedCount > 0 ? Math.round((correctCount / attemptedCount) * 100) : 0;
+    totalScore = Math.round(totalScore * 100) / 100;
 
     return {
       totalScore,
@@ -856,6 +2135,7 @@ export class TestEngineService {
         totalQuestions: questionResults.length,
         attemptedCount,
         correctCount,
+        partialCount,
         wrongCount,
         skipCount,
         accuracyPct,
@@ -895,14 +2175,7 @@ export class TestEngineService {
   }
 
   private buildSectionRuleByOrder(config: TestConfig) {
-    const map = new Map<
-      number,
-      {
-        sectionKey: string;
-        marksPerQuestion?: number;
-        negativeMarksPerWrong?: number;
-      }
-    >();
+    const map = new Map<number, SectionRule>();
 
     if (!Array.isArray(config.sections) || config.sections.length === 0) {
       return map;
@@ -923,6 +2196,7 @@ export class TestEngineService {
       for (let i = 0; i < count; i += 1) {
         map.set(cursor + i, {
           sectionKey,
+          sectionTitle: section.title,
           marksPerQuestion: section.marksPerQuestion,
           negativeMarksPerWrong: section.negativeMarksPerWrong,
         });
@@ -1103,13 +2377,83 @@ export class TestEngineService {
     };
   }
 
-  private shuffle<T>(items: T[]) {
-    const copy = [...items];
-    for (let i = copy.length - 1; i > 0; i -= 1) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [copy[i], copy[j]] = [copy[j], copy[i]];
+  // Positions keep their section, so sectional timing and marking by
+  // position are unaffected.
+  private shuffleWithinSections(
+    selections: Array<{ questionId: string; orderIndex: number }>,
+    config: TestConfig,
+    random: () => number,
+  ) {
+    const ruleByOrder = this.buildSectionRuleByOrder(config);
+    const groups = new Map<string, typeof selections>();
+    selections.forEach((item) => {
+      const key = ruleByOrder.get(item.orderIndex)?.sectionKey ?? '';
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    });
+
+    const shuffled: typeof selections = [];
+    groups.forEach((items) => {
+      const positions = items.map((item) => item.orderIndex);
+      seededShuffle(items, random).forEach((item, index) =>
+        shuffled.push({
+          questionId: item.questionId,
+          orderIndex: positions[index],
+        }),
+      );
+    });
+    return shuffled.sort((a, b) => a.orderIndex - b.orderIndex);
+  }
+
+  private async toCanonicalAnswers(
+    attemptId: string,
+    answersJson: Record<string, unknown>,
+  ) {
+    const items = await this.prisma.attemptQuestion.findMany({
+      where: { attemptId, optionOrder: { isEmpty: false } },
+      select: { questionId: true, optionOrder: true },
+    });
+    return mapAttemptAnswers(answersJson, toOptionOrders(items), 'toCanonical');
+  }
+
+  private withOptionOrder<T extends { optionsJson: Prisma.JsonValue }>(
+    question: T,
+    order: number[] | undefined,
+  ): T {
+    return order?.length
+      ? {
+          ...question,
+          optionsJson: applyOptionOrder(question.optionsJson, order),
+        }
+      : question;
+  }
+
+  // Graded answers and keys are canonical; students see them in the option
+  // order they were shown.
+  private toShownResults<
+    T extends {
+      questionId: string;
+      answerJson: Prisma.JsonValue | null;
+      correctAnswerJson: Prisma.JsonValue | null;
+    },
+  >(results: T[], orders: OptionOrders): T[] {
+    if (!orders.size) {
+      return results;
     }
-    return copy;
+    return results.map((result) => {
+      const order = orders.get(result.questionId);
+      if (!order) {
+        return result;
+      }
+      return {
+        ...result,
+        answerJson: mapAnswerOptions(result.answerJson, order, 'toShown'),
+        correctAnswerJson: mapAnswerOptions(
+          result.correctAnswerJson,
+          order,
+          'toShown',
+        ),
+      };
+    });
   }
 
   private normalizeAnswers(value: unknown) {
@@ -1139,58 +2483,134 @@ export class TestEngineService {
     return map;
   }
 
-  private hasMeaningfulAnswer(value: unknown): boolean {
-    if (value === null || value === undefined) {
-      return false;
-    }
+  private isEqual(a: unknown, b: unknown) {
+    return stableStringify(a) === stableStringify(b);
+  }
 
-    if (typeof value === 'string') {
-      return value.trim().length > 0;
-    }
+  // Live tests run in a fixed window, and results can only be released once
+  // that window has closed.
+  private assertLiveSchedule(
+    dto: TestCreateDto | TestUpdateDto,
+    current?: Pick<
+      Test,
+      | 'isLive'
+      | 'startsAt'
+      | 'endsAt'
+      | 'registrationClosesAt'
+      | 'resultsReleaseAt'
+    >,
+  ) {
+    const resolve = (value: string | undefined, fallback?: Date | null) =>
+      value ? new Date(value) : (fallback ?? null);
+    const startsAt = resolve(dto.startsAt, current?.startsAt);
+    const endsAt = resolve(dto.endsAt, current?.endsAt);
+    const registrationClosesAt = resolve(
+      dto.registrationClosesAt,
+      current?.registrationClosesAt,
+    );
+    const resultsReleaseAt = resolve(
+      dto.resultsReleaseAt,
+      current?.resultsReleaseAt,
+    );
 
-    if (typeof value === 'number' || typeof value === 'boolean') {
-      return true;
+    if ((dto.isLive ?? current?.isLive) && (!startsAt || !endsAt)) {
+      throw new BadRequestException({
+        code: 'TEST_LIVE_SCHEDULE_REQUIRED',
+        message: 'Live tests need both a start and an end time.',
+      });
     }
-
-    if (Array.isArray(value)) {
-      return value.some((item) => this.hasMeaningfulAnswer(item));
+    if (registrationClosesAt && endsAt && registrationClosesAt > endsAt) {
+      throw new BadRequestException({
+        code: 'TEST_REGISTRATION_CLOSE_INVALID',
+        message: 'Registration must close before the test window ends.',
+        details: { endsAt },
+      });
+    }
+    if (resultsReleaseAt && (!endsAt || resultsReleaseAt < endsAt)) {
+      throw new BadRequestException({
+        code: 'TEST_RESULTS_RELEASE_INVALID',
+        message: 'Results can only be released after the test window ends.',
+        details: { endsAt },
+      });
     }
+  }
 
-    if (typeof value === 'object') {
-      const record = value as Record<string, unknown>;
-      if (typeof record.optionIndex === 'number') {
-        return true;
-      }
-      if (Array.isArray(record.optionIndexes)) {
-        return record.optionIndexes.some((item) => typeof item === 'number');
-      }
-      if ('value' in record) {
-        return this.hasMeaningfulAnswer(record.value);
-      }
-      return Object.values(record).some((item) => this.hasMeaningfulAnswer(item));
+  /**
+   * Live tests admit registered students only, once each, and only until the
+   * late-entry cutoff.
+   */
+  private async assertLiveEntry(userId: string, test: Test, now: Date) {
+    const entryClosesAt = getEntryClosesAt(test);
+    if (entryClosesAt && entryClosesAt < now) {
+      throw new BadRequestException({
+        code: 'TEST_ENTRY_CLOSED',
+        message: 'Entry to this live test has closed.',
+        details: { entryClosesAt },
+      });
     }
 
-    return false;
+    const registration = await this.prisma.testRegistration.findUnique({
+      where: { testId_userId: { testId: test.id, userId } },
+      select: { id: true },
+    });
+    if (!registration) {
+      throw new BadRequestException({
+        code: 'TEST_REGISTRATION_REQUIRED',
+        message: 'Register for this live test before starting it.',
+      });
+    }
   }
 
-  private isEqual(a: unknown, b: unknown) {
-    return this.stableStringify(a) === this.stableStringify(b);
+  /**
+   * Runs inside the start transaction: concurrent starts take turns on the
+   * registration row, so only the first one creates an attempt.
+   */
+  private async assertFirstLiveAttempt(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    testId: string,
+  ) {
+    await tx.$executeRaw`SELECT 1 FROM "TestRegistration" WHERE "testId" = ${testId} AND "userId" = ${userId} FOR UPDATE`;
+    const previous = await tx.attempt.findFirst({
+      where: { testId, userId },
+      select: { id: true },
+    });
+    if (previous) {
+      throw new BadRequestException({
+        code: 'TEST_ALREADY_ATTEMPTED',
+        message: 'Live tests can be attempted only once.',
+        details: { attemptId: previous.id },
+      });
+    }
   }
 
-  private stableStringify(value: unknown): string {
-    if (value === null || value === undefined) {
-      return 'null';
-    }
-    if (typeof value !== 'object') {
-      return JSON.stringify(value);
-    }
-    if (Array.isArray(value)) {
-      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+  private async recordReleasedMistakes(testId: string) {
+    const attempts = await this.prisma.attempt.findMany({
+      where: {
+        testId,
+        status: { in: [AttemptStatus.SUBMITTED, AttemptStatus.EVALUATED] },
+      },
+      select: { id: true },
+    });
+
+    for (const { id } of attempts) {
+      const attempt = await this.loadAttemptForEvaluation(id);
+      if (!attempt) {
+        continue;
+      }
+      const orderedAttemptQuestions = [...attempt.questions].sort(
+        (a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0),
+      );
+      const { questionResults } = await this.evaluateStoredAttempt(
+        attempt,
+        orderedAttemptQuestions,
+      );
+      await this.mistakesService.recordAttemptResults(
+        attempt.userId,
+        attempt.id,
+        questionResults,
+      );
     }
-    const entries = Object.entries(value as Record<string, unknown>)
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([key, val]) => `"${key}":${this.stableStringify(val)}`);
-    return `{${entries.join(',')}}`;
   }
 
   private async assertSubjectExists(subjectId: string) {
@@ -71,16 +71,19 @@ export const DEFAULT_TEST_PRESETS: TestPreset[] = [
         key: 'english',
         title: 'English',
         count: 30,
+        durationMinutes: 20,
       },
       {
         key: 'reasoning',
         title: 'Reasoning',
         count: 35,
+        durationMinutes: 20,
       },
       {
         key: 'quantitative',
         title: 'Quantitative Aptitude',
         count: 35,
+        durationMinutes: 20,
       },
     ],
   },
@@ -0,0 +1,183 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Per-attempt randomisation. Every random choice made for an attempt is drawn
+ * from its stored seed, so question selection, question order and option
+ * order can be reproduced later.
+ *
+ * Answers are always stored against the canonical option order; only what
+ * the student sees and sends uses the shuffled positions.
+ */
+export type OptionOrders = Map<string, number[]>;
+
+export function createAttemptSeed() {
+  return randomBytes(8).toString('hex');
+}
+
+/** Deterministic generator in [0, 1) for a seed string (mulberry32). */
+export function createSeededRandom(seed: string) {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Unbiased Fisher-Yates shuffle into a new array. */
+export function seededShuffle<T>(items: T[], random: () => number) {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+/**
+ * Option order for one question of an attempt: position `i` shows canonical
+ * option `order[i]`. Seeded per question so it does not depend on which
+ * other questions the attempt drew.
+ */
+export function createOptionOrder(
+  seed: string,
+  questionId: string,
+  optionCount: number,
+) {
+  if (optionCount < 2) {
+    return [];
+  }
+  return seededShuffle(
+    Array.from({ length: optionCount }, (_, index) => index),
+    createSeededRandom(`${seed}:${questionId}`),
+  );
+}
+
+export function countOptions(optionsJson: unknown) {
+  return readOptions(optionsJson)?.length ?? 0;
+}
+
+/** Reorders `optionsJson`, either a bare list or `{ options: [...] }`. */
+export function applyOptionOrder<T>(optionsJson: T, order: number[]): T {
+  const options = readOptions(optionsJson);
+  if (!order.length || !options || options.length !== order.length) {
+    return optionsJson;
+  }
+  const reordered = order.map((index) => options[index]);
+  return (
+    Array.isArray(optionsJson)
+      ? reordered
+      : { ...(optionsJson as Record<string, unknown>), options: reordered }
+  ) as T;
+}
+
+export function toOptionOrders(
+  items: Array<{ questionId: string; optionOrder: number[] }>,
+): OptionOrders {
+  return new Map(
+    items
+      .filter((item) => item.optionOrder.length > 0)
+      .map((item) => [item.questionId, item.optionOrder]),
+  );
+}
+
+/** Maps one answer between shown positions and canonical option indexes. */
+export function mapAnswerOptions<T>(
+  answer: T,
+  order: number[] | undefined,
+  direction: 'toCanonical' | 'toShown',
+): T {
+  if (!order?.length) {
+    return answer;
+  }
+  const mapIndex = (value: unknown) => {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      return value;
+    }
+    const mapped =
+      direction === 'toCanonical' ? order[value] : order.indexOf(value);
+    return mapped === undefined || mapped < 0 ? value : mapped;
+  };
+
+  if (typeof answer === 'number') {
+    return mapIndex(answer) as T;
+  }
+  if (Array.isArray(answer)) {
+    return answer.map(mapIndex) as T;
+  }
+  if (answer && typeof answer === 'object') {
+    const record = answer as Record<string, unknown>;
+    return {
+      ...record,
+      ...(record.optionIndex !== undefined
+        ? { optionIndex: mapIndex(record.optionIndex) }
+        : {}),
+      ...(Array.isArray(record.optionIndexes)
+        ? { optionIndexes: record.optionIndexes.map(mapIndex) }
+        : {}),
+    } as T;
+  }
+  return answer;
+}
+
+/**
+ * Maps a whole answers payload, keyed by question id or as a list of
+ * `{ questionId, answer }` entries, keeping its shape.
+ */
+export function mapAttemptAnswers<T>(
+  answersJson: T,
+  orders: OptionOrders,
+  direction: 'toCanonical' | 'toShown',
+): T {
+  if (!orders.size || !answersJson || typeof answersJson !== 'object') {
+    return answersJson;
+  }
+  if (Array.isArray(answersJson)) {
+    return (answersJson as unknown[]).map((item) => {
+      const entry = item as { questionId?: unknown; answer?: unknown };
+      if (!entry || typeof entry.questionId !== 'string') {
+        return item;
+      }
+      return {
+        ...entry,
+        answer: mapAnswerOptions(
+          entry.answer,
+          orders.get(entry.questionId),
+          direction,
+        ),
+      };
+    }) as T;
+  }
+  return Object.fromEntries(
+    Object.entries(answersJson as Record<string, unknown>).map(
+      ([questionId, answer]) => [
+        questionId,
+        mapAnswerOptions(answer, orders.get(questionId), direction),
+      ],
+    ),
+  ) as T;
+}
+
+function readOptions(optionsJson: unknown): unknown[] | null {
+  if (Array.isArray(optionsJson)) {
+    return optionsJson as unknown[];
+  }
+  if (optionsJson && typeof optionsJson === 'object') {
+    const options = (optionsJson as { options?: unknown }).options;
+    return Array.isArray(options) ? options : null;
+  }
+  return null;
+}
+
+// xmur3-style string hash for the generator's initial state.
+function hashSeed(seed: string) {
+  let hash = 1779033703 ^ seed.length;
+  for (let index = 0; index < seed.length; index += 1) {
+    hash = Math.imul(hash ^ seed.charCodeAt(index), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 2246822507);
+  hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+  return (hash ^= hash >>> 16) >>> 0;
+}
@@ -0,0 +1,39 @@
+/**
+ * Schedule rules for live tests: a fixed window that registered students can
+ * enter until the late-entry cutoff, with results held back until release.
+ */
+type LiveTestSchedule = {
+  startsAt: Date | null;
+  endsAt: Date | null;
+  lateEntryMinutes: number | null;
+  registrationClosesAt: Date | null;
+};
+
+type ResultRelease = {
+  resultsReleaseAt: Date | null;
+  resultsPublishedAt: Date | null;
+};
+
+/** Last moment an attempt can be started; never later than the window end. */
+export function getEntryClosesAt(test: LiveTestSchedule) {
+  if (!test.startsAt || test.lateEntryMinutes === null) {
+    return test.endsAt;
+  }
+  const cutoff = new Date(
+    test.startsAt.getTime() + test.lateEntryMinutes * 60 * 1000,
+  );
+  return test.endsAt && test.endsAt < cutoff ? test.endsAt : cutoff;
+}
+
+/** Registration stays open until entry closes unless set explicitly. */
+export function getRegistrationClosesAt(test: LiveTestSchedule) {
+  return test.registrationClosesAt ?? getEntryClosesAt(test);
+}
+
+/**
+ * Results are embargoed while a release time is set and results have not
+ * been published, either by the release job or early by an admin.
+ */
+export function isResultEmbargoed(test: ResultRelease | null | undefined) {
+  return Boolean(test?.resultsReleaseAt && !test.resultsPublishedAt);
+}
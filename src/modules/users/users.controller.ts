@@ -11,6 +11,7 @@ import {
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { Audit, CurrentUser } from '../../common/decorators';
 import { Policy, RequireUserType } from '../authorization/decorators';
+import { AuthDeviceService } from '../auth/auth-device.service';
 import { JwtAuthGuard } from '../auth/guards';
 import { PolicyGuard } from '../authorization/guards';
 import {
@@ -29,7 +30,10 @@ import { UsersService } from './users.service';
 @Controller('users')
 @UseGuards(JwtAuthGuard, PolicyGuard)
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly authDeviceService: AuthDeviceService,
+  ) {}
 
   @Get('me')
   getMe(@CurrentUser() user?: { userId: string }) {
@@ -116,6 +120,21 @@ export class UsersController {
     return this.usersService.forceLogout(user.userId, userId);
   }
 
+  @Get(':userId/devices')
+  @RequireUserType('ADMIN')
+  @Policy('users.read')
+  listDevices(@Param('userId') userId: string) {
+    return this.authDeviceService.listAllDevices(userId);
+  }
+
+  @Post(':userId/devices/reset')
+  @RequireUserType('ADMIN')
+  @Policy('users.manage')
+  @Audit('users.devices.reset', 'User')
+  resetDevices(@Param('userId') userId: string) {
+    return this.authDeviceService.resetDevices(userId);
+  }
+
   @Post(':userId/entitlements/grant')
   @RequireUserType('ADMIN')
   @Policy('users.manage')